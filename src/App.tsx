@@ -2,9 +2,8 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import React, { useState, useEffect, useRef, useCallback, useReducer } from 'react';
-import mammoth from 'mammoth';
-import html2pdf from 'html2pdf.js';
+import React, { useState, useEffect, useRef, useCallback, useReducer, useMemo } from 'react';
+import JSZip from 'jszip';
 import * as pdfjsLib from 'pdfjs-dist';
 
 // Set PDF.js worker
@@ -19,8 +18,82 @@ import {
   ChevronRight, ChevronLeft, Type, LayoutTemplate, FileSpreadsheet,
   FileIcon, FilePlus, FileDown, FileUp, MoreVertical, Maximize,
   MessageSquare, RefreshCw, Scissors, Clipboard,
-  Undo, Redo, Printer, FileCode
+  Undo, Redo, Printer, FileCode, Snowflake, PaintBucket, Baseline, TextWrap, Eraser,
+  ArrowDownAZ, ArrowDownZA, ArrowUpDown, Filter, Replace, ChartColumn, Highlighter, ListChecks, Table2,
+  BringToFront, SendToBack, Group, Ungroup, Square, MoveRight, Slash, Palette, LayoutPanelTop,
+  MonitorPlay, StickyNote, WandSparkles, FileImage, ListTree, TableOfContents, Pilcrow,
+  FileCog, SeparatorHorizontal, FilePenLine, MessageSquareDiff
 } from 'lucide-react';
+import { CellData, CellMap, Engine, cellNumFmt, createEngine, dataEdge, isFormula, usedRange } from './spreadsheet/engine.ts';
+import {
+  Sheet, Workbook, addSheet, createWorkbook, deleteSheet, duplicateSheet, moveSheet, renameSheet, toWorkbook, validateSheetName
+} from './spreadsheet/workbook.ts';
+import {
+  CellAddress, CellRange, MAX_COLS, MAX_ROWS, forEachInRange, inRange, indexToCol, parseCellId, parseRange, rangeBetween, rangeToText,
+  rangesOverlap, toCellId
+} from './spreadsheet/cellRef.ts';
+import {
+  BorderPreset, CellStyle, applyBorders, borderOverlayCss, cellCss, clearStyles, mergeStyle, styleRange
+} from './spreadsheet/style.ts';
+import { adjustDecimals } from './spreadsheet/numberFormat.ts';
+import { formatValue, parseInput, toScalar } from './spreadsheet/values.ts';
+import { DEFAULT_COL_WIDTH, ROW_HEIGHT, VirtualGrid } from './spreadsheet/VirtualGrid.tsx';
+import { parseDelimited, rowsToCells, serializeDelimited } from './spreadsheet/csv.ts';
+import { readXlsx, writeXlsx } from './spreadsheet/xlsx.ts';
+import { CellClipboard, copyRange, pasteCells } from './spreadsheet/clipboard.ts';
+import { fillRange } from './spreadsheet/fill.ts';
+import { SortKey, currentRegion, looksLikeHeader, sortRange } from './spreadsheet/sort.ts';
+import { AutoFilter, ColumnFilter, columnValues, hiddenRows, isColumnFiltered } from './spreadsheet/filter.ts';
+import { FindOptions, findCells, replaceInCells } from './spreadsheet/find.ts';
+import { FilterMenu } from './spreadsheet/FilterMenu.tsx';
+import { ConditionalRule, createFormatter } from './spreadsheet/conditionalFormat.ts';
+import { ValidationRule, describeValidation, listItems, passesValidation, validationAt } from './spreadsheet/validation.ts';
+import { nextRuleId } from './spreadsheet/rules.ts';
+import { ConditionalFormatDialog } from './spreadsheet/ConditionalFormatDialog.tsx';
+import { ValidationDialog } from './spreadsheet/ValidationDialog.tsx';
+import { PivotTable, pivotAt, pivotOutput, refreshPivots } from './spreadsheet/pivot.ts';
+import { PivotDialog, PivotLayout } from './spreadsheet/PivotDialog.tsx';
+import { CHART_TYPES, Chart, ChartType, chartData, createChart } from './charts/chart.ts';
+import { renderChartSvg, svgToPng } from './charts/svg.ts';
+import { ChartSource, renderChartRef } from './charts/embed.ts';
+import { ChartPicker } from './charts/ChartPicker.tsx';
+import {
+  ElementType, SHAPES, SLIDE_HEIGHT, SLIDE_WIDTH, Slide, SlideElement, TextStyle, boundsOf, createElement,
+  duplicateElements, groupElements, removeElements, reorderElements, scaleElements, slideText, ungroupElements,
+  updateElements, withGroups
+} from './slides/slide.ts';
+import { ChartElement, SLIDE_TEXT_CSS, frameCss, slideHtml } from './slides/render.ts';
+import { SlideView, useFitScale } from './slides/SlideView.tsx';
+import { Deck, createDeck, toDeck } from './slides/deck.ts';
+import { LAYOUTS, LayoutId, applyLayout, createSlide } from './slides/layouts.ts';
+import { FONT_CHOICES, Theme, isDarkTheme } from './slides/theme.ts';
+import { ColorPicker } from './slides/ColorPicker.tsx';
+import { ThemeDialog } from './slides/ThemeDialog.tsx';
+import { readPptx, writePptx } from './slides/pptx.ts';
+import { SlideTransition, buildSteps } from './slides/animation.ts';
+import { AI_SLIDE_FORMAT, AiSlide, aiSlideToSlide, parseAiSlides } from './slides/aiDeck.ts';
+import { AiSlidesDialog } from './slides/AiSlidesDialog.tsx';
+import { DeckExport, ExportDialog } from './slides/ExportDialog.tsx';
+import { printPages, slideSvg } from './slides/print.ts';
+import { TextMark, editSelection, toggleTextList, toggleTextMark } from './slides/richText.ts';
+import { AnimationBadges, AnimationPane } from './slides/AnimationPane.tsx';
+import { SlideShow } from './slides/SlideShow.tsx';
+import { ShowMessage, presenterUrl, showChannel, snapshotDeck, useShowKeys } from './slides/present.ts';
+import { Align, Chart as WriterChart, StyleId, countWords, createWriterDoc, docText, isTextBlock } from './writer/model.ts';
+import { docToHtml, htmlToBlocks, htmlToDoc, textToBlocks, toWriterDoc } from './writer/html.ts';
+import {
+  ChangeKind, EditorState, History, Pos, activeMarks, caret, clearMarks, createEditorState, createHistory, createTable, indent, insertBlocks,
+  isCollapsed, recordChange, redo, reviewSuggestions, selectedText, selectionRange, setAlign, setMark, setPageLayout, setStyle, setStyles, toggleList, toggleMark, undo
+} from './writer/editor.ts';
+import { STYLES, docOutline, resolveStyles, styleOf } from './writer/styles.ts';
+import { DocumentCanvas, imageBlocks } from './writer/DocumentCanvas.tsx';
+import { StyleDialog } from './writer/StyleDialog.tsx';
+import { printDocument, pageSetup } from './writer/pages.ts';
+import { PageSetupDialog } from './writer/PageSetupDialog.tsx';
+import { readDocx, writeDocx } from './writer/docx.ts';
+import { listSuggestions } from './writer/suggestions.ts';
+import { ReviewPane } from './writer/ReviewPane.tsx';
+import { pdfPages } from './shared/pdf.ts';
 
 // --- INDEXED DB STORAGE ---
 const DB_NAME = 'NexOfficeDB';
@@ -66,6 +139,7 @@ interface Settings {
   clipboardAutoClear: boolean;
   darkMode: boolean;
   language: string;
+  authorName: string;
 }
 
 const defaultSettings: Settings = {
@@ -80,7 +154,8 @@ const defaultSettings: Settings = {
   autoCorrect: true,
   clipboardAutoClear: false,
   darkMode: true,
-  language: 'en-US'
+  language: 'en-US',
+  authorName: ''
 };
 
 // --- DB HELPERS ---
@@ -105,7 +180,7 @@ const getSettings = async (): Promise<Settings> => {
 const saveSettings = (s: Settings) => dbOp('settings', 'readwrite', store => store.put(s));
 
 // --- AI API ---
-const callClaude = async (prompt: string, apiKey: string, model: string, system?: string) => {
+const callClaude = async (prompt: string, apiKey: string, model: string, system?: string, maxTokens = 1000) => {
   if (!apiKey) throw new Error("API Key not set in Settings.");
   const res = await fetch('https://api.anthropic.com/v1/messages', {
     method: 'POST',
@@ -117,7 +192,7 @@ const callClaude = async (prompt: string, apiKey: string, model: string, system?
     },
     body: JSON.stringify({
       model,
-      max_tokens: 1000,
+      max_tokens: maxTokens,
       system,
       messages: [{ role: 'user', content: prompt }]
     })
@@ -131,55 +206,125 @@ const callClaude = async (prompt: string, apiKey: string, model: string, system?
 };
 
 // --- WRITER COMPONENT ---
-const Writer = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (c: any) => void, settings: Settings }) => {
+// Live charts are redrawn whenever a spreadsheet is saved; this changes exactly then.
+const spreadsheetVersion = (docs: Document[]) =>
+  docs.filter(d => d.type === 'spreadsheet').map(d => `${d.id}:${d.savedAt}`).join();
+
+const WRITER_FONTS = ['Playfair Display', 'Georgia', 'Times New Roman', 'Arial', 'Calibri', 'Courier New'];
+const WRITER_SIZES = [8, 9, 10, 11, 12, 14, 16, 18, 20, 24, 28, 36, 48, 72];
+
+// The title bar's undo and redo reach the open document's history through this.
+interface HistoryControls { undo: () => void; redo: () => void; }
+
+const Writer = ({ doc, docs, updateDoc, settings, historyRef }: {
+  doc: Document, docs: Document[], updateDoc: (c: any) => void, settings: Settings,
+  historyRef: React.MutableRefObject<HistoryControls | null>
+}) => {
   const editorRef = useRef<HTMLDivElement>(null);
+  const [editor, setEditor] = useState<EditorState>(() => createEditorState(toWriterDoc(doc?.content)));
+  const editorStateRef = useRef(editor);
+  const historyStack = useRef<History>(createHistory());
+  const [chartPickerOpen, setChartPickerOpen] = useState(false);
   const [zoom, setZoom] = useState(100);
-  const [stats, setStats] = useState({ words: 0, chars: 0 });
   const [aiPanelOpen, setAiPanelOpen] = useState(false);
   const [aiLoading, setAiLoading] = useState(false);
   const [aiResult, setAiResult] = useState('');
+  const [navOpen, setNavOpen] = useState(false);
+  const [styleDialogOpen, setStyleDialogOpen] = useState(false);
+  const [pageSetupOpen, setPageSetupOpen] = useState(false);
+  const [reviewOpen, setReviewOpen] = useState(false);
 
   useEffect(() => {
-    if (editorRef.current && doc?.content && editorRef.current.innerHTML !== doc.content) {
-      editorRef.current.innerHTML = doc.content;
-      updateStats();
-    }
+    const state = createEditorState(toWriterDoc(doc?.content));
+    editorStateRef.current = state;
+    historyStack.current = createHistory();
+    setEditor(state);
   }, [doc?.id]);
 
-  const updateStats = () => {
-    if (!editorRef.current) return;
-    const text = editorRef.current.innerText || '';
-    setStats({
-      words: text.trim() ? text.trim().split(/\s+/).length : 0,
-      chars: text.length
-    });
+  // Every change goes through here: edits are recorded for undo and saved;
+  // a null kind only moves the selection.
+  const dispatch = (next: EditorState, kind: ChangeKind | null) => {
+    const prev = editorStateRef.current;
+    if (kind && next.doc !== prev.doc) {
+      historyStack.current = recordChange(historyStack.current, prev, kind);
+      updateDoc(next.doc);
+    }
+    editorStateRef.current = next;
+    setEditor(next);
   };
 
-  const handleInput = () => {
-    if (editorRef.current) {
-      updateDoc(editorRef.current.innerHTML);
-      updateStats();
-    }
+  const restore = (step: [EditorState, History] | null) => {
+    if (!step) return;
+    const [state, history] = step;
+    historyStack.current = history;
+    editorStateRef.current = state;
+    setEditor(state);
+    updateDoc(state.doc);
   };
+  const undoEdit = () => restore(undo(historyStack.current, editorStateRef.current));
+  const redoEdit = () => restore(redo(historyStack.current, editorStateRef.current));
 
-  const exec = (cmd: string, val?: string) => {
-    document.execCommand(cmd, false, val);
-    handleInput();
+  useEffect(() => {
+    historyRef.current = { undo: undoEdit, redo: redoEdit };
+    return () => { historyRef.current = null; };
+  });
+
+  // Toolbar actions apply to the current state and hand the caret back to the page.
+  const apply = (edit: (state: EditorState) => EditorState, kind: ChangeKind | null = 'edit') => {
+    dispatch(edit(editorStateRef.current), kind);
+    editorRef.current?.focus();
+  };
+
+  const marks = activeMarks(editor);
+  const [from] = selectionRange(editor.selection);
+  const currentBlock = editor.doc.blocks[from.block];
+  const styles = useMemo(() => resolveStyles(editor.doc), [editor.doc.styles]);
+  const currentStyle = isTextBlock(currentBlock) ? styleOf(currentBlock) : 'body';
+  const defaultFont = styles[currentStyle].font ?? settings?.defaultFont ?? 'Playfair Display';
+  const defaultSize = styles[currentStyle].size ?? settings?.defaultFontSize ?? 12;
+  const outline = useMemo(() => docOutline(editor.doc), [editor.doc.blocks]);
+  // The heading the caret is under, highlighted in the navigation pane.
+  const currentHeading = outline.filter(h => h.index <= from.block).pop()?.id;
+  const suggestions = useMemo(() => listSuggestions(editor.doc), [editor.doc.blocks]);
+  const author = settings?.authorName?.trim() || 'Anonymous';
+
+  const stats = useMemo(() => {
+    const text = docText(editor.doc);
+    return { words: countWords(text), chars: text.length };
+  }, [editor.doc]);
+
+  // Live chart embeds keep their reference and are redrawn from the source
+  // workbook; if it has gone, the last drawing stays.
+  const drawChart = useCallback((block: WriterChart) =>
+    (block.ref && renderChartRef(docs, block.ref, { width: 600, height: 360 }, 'light')) || block.svg,
+  [spreadsheetVersion(docs)]);
+
+  const goToHeading = (id: string) => {
+    const block = editorStateRef.current.doc.blocks.findIndex(b => b.id === id);
+    if (block < 0) return;
+    editorRef.current?.focus();
+    dispatch({ ...editorStateRef.current, selection: caret({ block, offset: 0 }), marks: null }, null);
+    editorRef.current?.querySelector(`[data-id="${id}"]`)?.scrollIntoView({ block: 'start' });
+  };
+
+  const goToSuggestion = (pos: Pos) => {
+    const id = editorStateRef.current.doc.blocks[pos.block]?.id;
+    editorRef.current?.focus();
+    dispatch({ ...editorStateRef.current, selection: caret(pos), marks: null }, null);
+    editorRef.current?.querySelector(`[data-id="${id}"]`)?.scrollIntoView({ block: 'center' });
+  };
+
+  const insertChart = (source: ChartSource, live: boolean) => {
+    setChartPickerOpen(false);
+    const svg = renderChartRef(docs, source.ref, { width: 600, height: 360 }, 'light');
+    if (!svg) return;
+    apply(s => insertBlocks(s, [live ? { type: 'chart', id: '', svg, ref: source.ref } : { type: 'chart', id: '', svg }]));
   };
 
   const insertTable = () => {
-    const r = prompt('Rows?', '3');
-    const c = prompt('Cols?', '3');
-    if (r && c) {
-      let html = '<table border="1" style="border-collapse: collapse; width: 100%; margin-bottom: 1em;">';
-      for (let i = 0; i < parseInt(r); i++) {
-        html += '<tr>';
-        for (let j = 0; j < parseInt(c); j++) html += '<td style="padding: 8px; border: 1px solid #ccc;">&nbsp;</td>';
-        html += '</tr>';
-      }
-      html += '</table><p><br></p>';
-      exec('insertHTML', html);
-    }
+    const r = parseInt(prompt('Rows?', '3') ?? '');
+    const c = parseInt(prompt('Cols?', '3') ?? '');
+    if (r > 0 && c > 0) apply(s => insertBlocks(s, [createTable(Math.min(r, 100), Math.min(c, 20))]));
   };
 
   const insertImage = () => {
@@ -187,18 +332,24 @@ const Writer = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (c: an
     input.type = 'file';
     input.accept = 'image/*';
     input.onchange = (e: any) => {
-      const file = e.target.files[0];
-      if (file) {
-        const reader = new FileReader();
-        reader.onload = (re) => exec('insertImage', re.target?.result as string);
-        reader.readAsDataURL(file);
-      }
+      imageBlocks(Array.from(e.target.files as FileList))
+        .then(blocks => blocks.length && apply(s => insertBlocks(s, blocks)))
+        .catch(err => alert('The picture could not be read: ' + err.message));
     };
     input.click();
   };
 
+  // Links the selection, or inserts the address as linked text.
+  const insertLink = () => {
+    const url = prompt('URL?', marks.link ?? '');
+    if (url === null) return;
+    if (!url) apply(s => setMark(s, 'link', undefined));
+    else if (isCollapsed(editor.selection)) apply(s => insertBlocks(s, [{ type: 'paragraph', id: '', runs: [{ ...activeMarks(s), text: url, link: url }] }]));
+    else apply(s => setMark(s, 'link', url));
+  };
+
   const runAi = async (promptType: string) => {
-    const sel = window.getSelection()?.toString();
+    const sel = selectedText(editorStateRef.current);
     if (!sel && promptType !== 'Generate Full Document' && promptType !== 'Generate Outline') {
       alert('Please select some text first.');
       return;
@@ -232,28 +383,41 @@ const Writer = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (c: an
   };
 
   const applyAiResult = () => {
-    if (aiResult.includes('<table')) {
-      exec('insertHTML', aiResult);
-    } else {
-      exec('insertText', aiResult);
-    }
+    const blocks = aiResult.includes('<table') ? htmlToBlocks(aiResult) : textToBlocks(aiResult);
+    apply(s => insertBlocks(s, blocks));
     setAiResult('');
   };
 
-  const exportPDF = () => {
-    if (!editorRef.current) return;
-    const opt = {
-      margin:       [10, 10, 10, 10],
-      filename:     `${doc.name}.pdf`,
-      image:        { type: 'jpeg', quality: 0.98 },
-      html2canvas:  { scale: 2, useCORS: true },
-      jsPDF:        { unit: 'mm', format: 'a4', orientation: 'portrait' }
+  // Exports render the model, not the editor, so they carry no editing markup.
+  // PDFs and printouts are the document's pages, laid out as on screen.
+  const printed = () => printDocument(editor.doc, drawChart, {
+    font: settings?.defaultFont || 'Playfair Display',
+    size: settings?.defaultFontSize || 12,
+    date: new Date().toLocaleDateString()
+  });
+
+  const exportPDF = async () => {
+    const pages = await printed();
+    pdfPages(pages.html, pages.width, pages.height, `${doc.name}.pdf`).save();
+  };
+
+  // Printing goes through a frame holding only the pages, one to a sheet.
+  const printPages = async () => {
+    const pages = await printed();
+    const frame = document.createElement('iframe');
+    frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0';
+    frame.srcdoc = '<!DOCTYPE html><html><head>' +
+      `<style>@page{size:${pages.width}px ${pages.height}px;margin:0}body{margin:0}body>div{break-after:page}</style>` +
+      `</head><body>${pages.html}</body></html>`;
+    frame.onload = () => {
+      frame.contentWindow!.onafterprint = () => frame.remove();
+      frame.contentWindow!.print();
     };
-    html2pdf().set(opt).from(editorRef.current).save();
+    document.body.appendChild(frame);
   };
 
   const exportTXT = () => {
-    const text = editorRef.current?.innerText || '';
+    const text = docText(editor.doc);
     const blob = new Blob([text], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -263,7 +427,7 @@ const Writer = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (c: an
   };
 
   const exportHTML = () => {
-    const html = editorRef.current?.innerHTML || '';
+    const html = docToHtml(editor.doc, drawChart);
     const blob = new Blob([html], { type: 'text/html' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -272,72 +436,156 @@ const Writer = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (c: an
     a.click();
   };
 
+  const exportDOCX = async () => {
+    const options = { font: settings?.defaultFont || 'Playfair Display', size: settings?.defaultFontSize || 12 };
+    const blob = await writeDocx(editor.doc, options, drawChart, svgToPng);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${doc.name}.docx`;
+    a.click();
+  };
+
+  const markButton = (key: 'bold' | 'italic' | 'underline' | 'strike', icon: React.ReactNode, title: string) => (
+    <button onMouseDown={e => e.preventDefault()} onClick={() => apply(s => toggleMark(s, key))} title={title}
+      className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${marks[key] ? 'bg-[#c8a96e]/20 text-[#c8a96e]' : ''}`}>{icon}</button>
+  );
+  // Paragraph formatting can't be suggested, so it is off while suggesting.
+  const paragraphLocked = !!editor.suggesting;
+  const lockedTitle = (title: string) => paragraphLocked ? `${title} (not available while suggesting)` : title;
+  const alignButton = (align: Align, icon: React.ReactNode) => (
+    <button onMouseDown={e => e.preventDefault()} onClick={() => apply(s => setAlign(s, align))} disabled={paragraphLocked}
+      title={lockedTitle(`Align ${align[0].toUpperCase() + align.slice(1)}`)}
+      className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 disabled:opacity-40 ${isTextBlock(currentBlock) && (currentBlock.align ?? styles[currentStyle].align ?? 'left') === align ? 'text-[#c8a96e]' : ''}`}>{icon}</button>
+  );
+
   return (
     <div className="flex flex-col h-full bg-[#0d0d0f] relative">
       {/* Toolbar */}
       <div className="flex overflow-x-auto items-center gap-2 p-2 bg-[#17171a] border-b border-[#2a2a30] flex-shrink-0">
-        <button onClick={() => exec('undo')} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Undo"><Undo size={16}/></button>
-        <button onClick={() => exec('redo')} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Redo"><Redo size={16}/></button>
+        <button onClick={undoEdit} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Undo"><Undo size={16}/></button>
+        <button onClick={redoEdit} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Redo"><Redo size={16}/></button>
         <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
-        <select className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1 flex-shrink-0" onChange={e => exec('fontName', e.target.value)}>
-          <option value="Playfair Display">Playfair Display</option>
-          <option value="Georgia">Georgia</option>
-          <option value="Times New Roman">Times New Roman</option>
-          <option value="Arial">Arial</option>
-          <option value="Calibri">Calibri</option>
-          <option value="Courier New">Courier New</option>
+        <button onClick={() => setNavOpen(!navOpen)} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${navOpen ? 'text-[#c8a96e]' : ''}`} title="Navigation Pane"><ListTree size={16}/></button>
+        <select
+          value={currentStyle}
+          onChange={e => apply(s => setStyle(s, e.target.value as StyleId))}
+          disabled={paragraphLocked}
+          className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1 flex-shrink-0 disabled:opacity-40"
+          title={lockedTitle('Paragraph Style')}
+        >
+          {STYLES.map(st => <option key={st.id} value={st.id}>{st.name}</option>)}
         </select>
-        <select className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1" onChange={e => exec('fontSize', e.target.value)}>
-          {[1,2,3,4,5,6,7].map(s => <option key={s} value={s}>Size {s}</option>)}
+        <button onClick={() => setStyleDialogOpen(true)} disabled={paragraphLocked} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 disabled:opacity-40" title={lockedTitle('Edit Styles')}><Pilcrow size={16}/></button>
+        <select
+          value={marks.font ?? defaultFont}
+          onChange={e => apply(s => setMark(s, 'font', e.target.value))}
+          className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1 flex-shrink-0"
+        >
+          {[...new Set([...WRITER_FONTS, marks.font ?? defaultFont])].map(f => <option key={f} value={f}>{f}</option>)}
         </select>
-        <div className="h-6 w-px bg-[#2a2a30] mx-1"></div>
-        <button onClick={() => exec('bold')} className="p-1 hover:bg-[#c8a96e]/20 rounded"><Bold size={16}/></button>
-        <button onClick={() => exec('italic')} className="p-1 hover:bg-[#c8a96e]/20 rounded"><Italic size={16}/></button>
-        <button onClick={() => exec('underline')} className="p-1 hover:bg-[#c8a96e]/20 rounded"><Underline size={16}/></button>
-        <button onClick={() => exec('strikeThrough')} className="p-1 hover:bg-[#c8a96e]/20 rounded"><Strikethrough size={16}/></button>
-        <input type="color" onChange={e => exec('foreColor', e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" title="Text Color"/>
-        <input type="color" onChange={e => exec('hiliteColor', e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" title="Highlight Color"/>
-        <div className="h-6 w-px bg-[#2a2a30] mx-1"></div>
-        <button onClick={() => exec('justifyLeft')} className="p-1 hover:bg-[#c8a96e]/20 rounded"><AlignLeft size={16}/></button>
-        <button onClick={() => exec('justifyCenter')} className="p-1 hover:bg-[#c8a96e]/20 rounded"><AlignCenter size={16}/></button>
-        <button onClick={() => exec('justifyRight')} className="p-1 hover:bg-[#c8a96e]/20 rounded"><AlignRight size={16}/></button>
-        <button onClick={() => exec('justifyFull')} className="p-1 hover:bg-[#c8a96e]/20 rounded"><AlignJustify size={16}/></button>
-        <div className="h-6 w-px bg-[#2a2a30] mx-1"></div>
-        <button onClick={() => exec('insertUnorderedList')} className="p-1 hover:bg-[#c8a96e]/20 rounded"><List size={16}/></button>
-        <button onClick={() => exec('insertOrderedList')} className="p-1 hover:bg-[#c8a96e]/20 rounded"><ListOrdered size={16}/></button>
-        <button onClick={() => exec('indent')} className="p-1 hover:bg-[#c8a96e]/20 rounded text-xs font-bold">In+</button>
-        <button onClick={() => exec('outdent')} className="p-1 hover:bg-[#c8a96e]/20 rounded text-xs font-bold">In-</button>
-        <div className="h-6 w-px bg-[#2a2a30] mx-1"></div>
-        <button onClick={insertTable} className="p-1 hover:bg-[#c8a96e]/20 rounded"><Table size={16}/></button>
-        <button onClick={insertImage} className="p-1 hover:bg-[#c8a96e]/20 rounded"><ImageIcon size={16}/></button>
-        <button onClick={() => { const url = prompt('URL?'); if(url) exec('createLink', url); }} className="p-1 hover:bg-[#c8a96e]/20 rounded"><LinkIcon size={16}/></button>
-        <button onClick={() => exec('insertHorizontalRule')} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0"><Minus size={16}/></button>
+        <select
+          value={marks.size ?? defaultSize}
+          onChange={e => apply(s => setMark(s, 'size', Number(e.target.value)))}
+          className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1 flex-shrink-0"
+        >
+          {[...new Set([...WRITER_SIZES, marks.size ?? defaultSize])].sort((a, b) => a - b).map(s => <option key={s} value={s}>{s} pt</option>)}
+        </select>
+        <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
+        {markButton('bold', <Bold size={16}/>, 'Bold')}
+        {markButton('italic', <Italic size={16}/>, 'Italic')}
+        {markButton('underline', <Underline size={16}/>, 'Underline')}
+        {markButton('strike', <Strikethrough size={16}/>, 'Strikethrough')}
+        <input type="color" value={marks.color ?? '#000000'} onChange={e => apply(s => setMark(s, 'color', e.target.value))} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer flex-shrink-0" title="Text Color"/>
+        <input type="color" value={marks.highlight ?? '#ffff00'} onChange={e => apply(s => setMark(s, 'highlight', e.target.value))} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer flex-shrink-0" title="Highlight Color"/>
+        <button onClick={() => apply(clearMarks)} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Clear Formatting"><Eraser size={16}/></button>
+        <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
+        {alignButton('left', <AlignLeft size={16}/>)}
+        {alignButton('center', <AlignCenter size={16}/>)}
+        {alignButton('right', <AlignRight size={16}/>)}
+        {alignButton('justify', <AlignJustify size={16}/>)}
+        <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
+        <button onClick={() => apply(s => toggleList(s, 'bullet'))} disabled={paragraphLocked} title={lockedTitle('Bulleted List')} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 disabled:opacity-40"><List size={16}/></button>
+        <button onClick={() => apply(s => toggleList(s, 'ordered'))} disabled={paragraphLocked} title={lockedTitle('Numbered List')} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 disabled:opacity-40"><ListOrdered size={16}/></button>
+        <button onClick={() => apply(s => indent(s, 1))} disabled={paragraphLocked} title={lockedTitle('Increase Indent')} className="p-1 hover:bg-[#c8a96e]/20 rounded text-xs font-bold flex-shrink-0 disabled:opacity-40">In+</button>
+        <button onClick={() => apply(s => indent(s, -1))} disabled={paragraphLocked} title={lockedTitle('Decrease Indent')} className="p-1 hover:bg-[#c8a96e]/20 rounded text-xs font-bold flex-shrink-0 disabled:opacity-40">In-</button>
         <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
-        <button onClick={() => window.print()} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 text-[#888894] hover:text-[#c8a96e]" title="Print"><Printer size={16}/></button>
+        <button onClick={insertTable} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0"><Table size={16}/></button>
+        <button onClick={insertImage} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0"><ImageIcon size={16}/></button>
+        <button onClick={() => setChartPickerOpen(true)} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Insert Chart"><ChartColumn size={16}/></button>
+        <button onClick={insertLink} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0"><LinkIcon size={16}/></button>
+        <button onClick={() => apply(s => insertBlocks(s, [{ type: 'rule', id: '' }]))} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0"><Minus size={16}/></button>
+        <button onClick={() => apply(s => insertBlocks(s, [{ type: 'toc', id: '' }]))} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Insert Table of Contents"><TableOfContents size={16}/></button>
+        <button onClick={() => apply(s => insertBlocks(s, [{ type: 'pageBreak', id: '' }]))} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Insert Page Break (Ctrl+Enter)"><SeparatorHorizontal size={16}/></button>
+        <button onClick={() => setPageSetupOpen(true)} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Page Setup, Header and Footer"><FileCog size={16}/></button>
+        <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
+        <button onClick={() => apply(s => ({ ...s, suggesting: s.suggesting ? null : author }), null)} title="Suggest Edits"
+          className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${editor.suggesting ? 'bg-[#c8a96e]/20 text-[#c8a96e]' : ''}`}><FilePenLine size={16}/></button>
+        <button onClick={() => setReviewOpen(!reviewOpen)} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${reviewOpen ? 'text-[#c8a96e]' : ''}`} title="Review Suggestions"><MessageSquareDiff size={16}/></button>
+        <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
+        <button onClick={printPages} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 text-[#888894] hover:text-[#c8a96e]" title="Print"><Printer size={16}/></button>
         <button onClick={exportTXT} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 text-[#888894] hover:text-[#c8a96e]" title="Export TXT"><FileText size={16}/></button>
         <button onClick={exportHTML} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 text-[#888894] hover:text-[#c8a96e]" title="Export HTML"><FileCode size={16}/></button>
+        <button onClick={exportDOCX} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 text-[#888894] hover:text-[#c8a96e]" title="Export Word (.docx)"><FileDown size={16}/></button>
         <button onClick={exportPDF} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 text-[#888894] hover:text-[#c8a96e]" title="Export PDF"><Download size={16}/></button>
         <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
         <button onClick={() => setAiPanelOpen(!aiPanelOpen)} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#c8a96e] flex items-center gap-1 flex-shrink-0"><Sparkles size={16}/> AI</button>
       </div>
 
       <div className="flex flex-1 overflow-hidden relative">
+        {/* Navigation Pane */}
+        {navOpen && (
+          <div className="absolute md:relative top-0 left-0 bottom-0 w-full md:w-64 bg-[#17171a] border-r border-[#2a2a30] flex flex-col z-20 shadow-2xl md:shadow-none">
+            <div className="p-3 border-b border-[#2a2a30] flex justify-between items-center">
+              <span className="font-bold text-[#c8a96e] flex items-center gap-2"><ListTree size={16}/> Navigation</span>
+              <button onClick={() => setNavOpen(false)}><X size={16}/></button>
+            </div>
+            <div className="p-2 overflow-auto flex-1 flex flex-col text-sm">
+              {outline.length === 0 && <div className="p-2 text-[#888894]">Headings in the document appear here.</div>}
+              {outline.map(h => (
+                <button
+                  key={h.id}
+                  onClick={() => goToHeading(h.id)}
+                  style={{ paddingLeft: `${(h.level - 1) * 12 + 8}px` }}
+                  className={`text-left pr-2 py-1 rounded truncate hover:bg-[#c8a96e]/20 ${h.id === currentHeading ? 'bg-[#c8a96e]/10 text-[#c8a96e]' : ''}`}
+                >
+                  {h.text || 'Untitled heading'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Canvas Area */}
         <div className="flex-1 overflow-auto p-4 md:p-8 bg-[#0d0d0f] flex justify-center">
-          <div 
-            ref={editorRef}
-            contentEditable
-            onInput={handleInput}
+          <DocumentCanvas
+            rootRef={editorRef}
+            state={editor}
+            onChange={dispatch}
+            onUndo={undoEdit}
+            onRedo={redoEdit}
+            drawChart={drawChart}
+            onGoToHeading={goToHeading}
+            spellCheck={settings?.spellCheck}
             style={{ 
               transform: `scale(${zoom / 100})`, 
               transformOrigin: 'top center',
               fontFamily: settings?.defaultFont || 'Playfair Display',
               fontSize: `${settings?.defaultFontSize || 12}pt`
             }}
-            className="w-full max-w-[210mm] min-h-[297mm] bg-white text-black p-4 md:p-[25.4mm] shadow-2xl outline-none"
+            className="flex-shrink-0 text-black"
           />
         </div>
 
+        {reviewOpen && (
+          <ReviewPane
+            entries={suggestions}
+            onReview={(accept, id) => apply(s => reviewSuggestions(s, accept, id))}
+            onGoTo={entry => goToSuggestion(entry.pos)}
+            onClose={() => setReviewOpen(false)}
+          />
+        )}
+
         {/* AI Sidebar */}
         {aiPanelOpen && (
           <div className="absolute md:relative top-0 right-0 bottom-0 w-full md:w-80 bg-[#17171a] border-l border-[#2a2a30] flex flex-col z-20 shadow-2xl md:shadow-none">
@@ -371,8 +619,10 @@ const Writer = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (c: an
         <div className="flex gap-4">
           <span>{stats.words} words</span>
           <span>{stats.chars} characters</span>
+          {suggestions.length > 0 && <span>{suggestions.length} suggestion{suggestions.length === 1 ? '' : 's'}</span>}
         </div>
         <div className="flex items-center gap-4">
+          {editor.suggesting && <span className="text-[#c8a96e]">Suggesting as {editor.suggesting}</span>}
           <div className="flex items-center gap-2">
             <button onClick={() => setZoom(Math.max(50, zoom - 10))}><ZoomOut size={14}/></button>
             <span>{zoom}%</span>
@@ -380,69 +630,734 @@ const Writer = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (c: an
           </div>
         </div>
       </div>
+
+      {chartPickerOpen && <ChartPicker docs={docs} theme="light" onInsert={insertChart} onClose={() => setChartPickerOpen(false)} />}
+      {styleDialogOpen && (
+        <StyleDialog
+          styles={styles}
+          initial={currentStyle}
+          fonts={WRITER_FONTS}
+          defaultFont={settings?.defaultFont || 'Playfair Display'}
+          defaultSize={settings?.defaultFontSize || 12}
+          onApply={overrides => { setStyleDialogOpen(false); apply(s => setStyles(s, overrides)); }}
+          onClose={() => setStyleDialogOpen(false)}
+        />
+      )}
+      {pageSetupOpen && (
+        <PageSetupDialog
+          page={pageSetup(editor.doc)}
+          header={editor.doc.header}
+          footer={editor.doc.footer}
+          onApply={layout => { setPageSetupOpen(false); apply(s => setPageLayout(s, layout)); }}
+          onClose={() => setPageSetupOpen(false)}
+        />
+      )}
     </div>
   );
 };
 
 // --- SPREADSHEET COMPONENT ---
+const NUMBER_FORMATS = [
+  { label: 'General', code: '' },
+  { label: 'Number', code: '#,##0.00' },
+  { label: 'Integer', code: '#,##0' },
+  { label: 'Currency', code: '$#,##0.00' },
+  { label: 'Accounting', code: '$#,##0.00;($#,##0.00)' },
+  { label: 'Percent', code: '0.00%' },
+  { label: 'Scientific', code: '0.00E+00' },
+  { label: 'Date', code: 'yyyy-mm-dd' },
+  { label: 'Long Date', code: 'mmmm d, yyyy' },
+  { label: 'Time', code: 'h:mm:ss AM/PM' },
+  { label: 'Date Time', code: 'yyyy-mm-dd hh:mm' },
+  { label: 'Text', code: '@' }
+];
+
+const ARROW_KEYS: Record<string, [number, number]> = {
+  ArrowUp: [0, -1], ArrowDown: [0, 1], ArrowLeft: [-1, 0], ArrowRight: [1, 0]
+};
+
 const Spreadsheet = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (c: any) => void, settings: Settings }) => {
-  const [data, setData] = useState<Record<string, {v: string, f?: any}>>(doc?.content || {});
+  const [workbook, setWorkbook] = useState<Workbook>(() => toWorkbook(doc?.content));
+  const [activeSheetId, setActiveSheetId] = useState(workbook.sheets[0].id);
   const [activeCell, setActiveCell] = useState('A1');
-  const [editing, setEditing] = useState(false);
+  const [selectionEnd, setSelectionEnd] = useState('A1');
+  // 'enter' is typing into a cell (arrow keys commit and move); 'edit' is
+  // editing in place after F2 or a double click (arrow keys move the caret).
+  const [editing, setEditing] = useState<'enter' | 'edit' | null>(null);
   const [formula, setFormula] = useState('');
   const [aiLoading, setAiLoading] = useState(false);
   const [aiResult, setAiResult] = useState('');
   const [aiPanelOpen, setAiPanelOpen] = useState(false);
-  
-  const cols = Array.from({length: 26}, (_, i) => String.fromCharCode(65 + i));
-  const rows = Array.from({length: 100}, (_, i) => i + 1);
+  const [renamingSheet, setRenamingSheet] = useState<string | null>(null);
+  const [sheetMenu, setSheetMenu] = useState<{ id: string; x: number; y: number } | null>(null);
+  const [draggedSheet, setDraggedSheet] = useState<string | null>(null);
+  const [sortDialog, setSortDialog] = useState<{ range: CellRange; hasHeader: boolean; keys: SortKey[] } | null>(null);
+  const [filterMenu, setFilterMenu] = useState<{ col: number; x: number; y: number } | null>(null);
+  const [findOpen, setFindOpen] = useState(false);
+  const [findOptions, setFindOptions] = useState<FindOptions>({ query: '', lookIn: 'values' });
+  const [replaceText, setReplaceText] = useState('');
+  const [findStatus, setFindStatus] = useState('');
+  const [selectedChart, setSelectedChart] = useState<string | null>(null);
+  const [chartDrag, setChartDrag] = useState<{ mode: 'move' | 'resize'; startX: number; startY: number; chart: Chart; draft: Chart } | null>(null);
+  const [drag, setDrag] = useState<{ kind: 'select' } | { kind: 'fill'; target: CellRange } | null>(null);
+  const [rulesDialog, setRulesDialog] = useState<'conditional' | 'validation' | null>(null);
+  const [listMenu, setListMenu] = useState<{ id: string; items: string[]; x: number; y: number } | null>(null);
+  const [pivotDialog, setPivotDialog] = useState<{ source: PivotTable['source']; pivot?: PivotTable } | null>(null);
+  const clipboardRef = useRef<CellClipboard | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const formulaBarRef = useRef<HTMLInputElement>(null);
+  const editRef = useRef<string | null>(null);
+  const engineRef = useRef<Engine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = createEngine();
+    engineRef.current.load(workbook.sheets);
+  }
+  const engine = engineRef.current;
+  const [extent, setExtent] = useState({ rows: 1000, cols: 26 });
+
+  const sheet = workbook.sheets.find(s => s.id === activeSheetId) ?? workbook.sheets[0];
+  const data = sheet.cells;
+  const freeze = sheet.freeze ?? { rows: 0, cols: 0 };
+
+  // The grid always reaches a little past the data and grows as the user scrolls.
+  const used = useMemo(() => usedRange(data), [data]);
+  const rowCount = Math.min(MAX_ROWS, Math.max(extent.rows, used.maxRow + 100));
+  const colCount = Math.min(MAX_COLS, Math.max(extent.cols, used.maxCol + 10));
+  const activeAddr = parseCellId(activeCell) ?? { col: 0, row: 0 };
+  const endAddr = parseCellId(selectionEnd) ?? activeAddr;
+  const selection = rangeBetween(activeAddr, endAddr);
+  const multiSelect = selection.c1 !== selection.c2 || selection.r1 !== selection.r2;
+  const activeStyle = data[activeCell]?.s;
+
+  const valueOf = (id: string) => engine.getValue(sheet.id, id);
+  const displayText = (id: string) => formatValue(valueOf(id), cellNumFmt(data[id])).text;
+  const hidden = useMemo(
+    () => sheet.filter ? hiddenRows(sheet.filter, displayText, valueOf) : undefined,
+    [sheet.filter, workbook]
+  );
+  const formatter = useMemo(
+    () => sheet.conditionalFormats?.length
+      ? createFormatter(sheet.conditionalFormats, Object.keys(data), (col, row) => valueOf(toCellId(col, row)), src => engine.evaluate(sheet.id, src))
+      : null,
+    [sheet.conditionalFormats, workbook]
+  );
+  // Next visible row from `row` in direction `d`, stepping over filtered-out rows.
+  const nextRow = (row: number, d: number) => {
+    let r = row + d;
+    while (d && hidden?.has(r)) r += d;
+    return r;
+  };
+
+  const growExtent = (axis: 'rows' | 'cols') => {
+    if (axis === 'rows' && rowCount < MAX_ROWS) setExtent(e => ({ ...e, rows: Math.min(MAX_ROWS, rowCount + 1000) }));
+    if (axis === 'cols' && colCount < MAX_COLS) setExtent(e => ({ ...e, cols: Math.min(MAX_COLS, colCount + 26) }));
+  };
 
   useEffect(() => {
-    if (doc?.content && Object.keys(doc.content).length > 0) {
-      setData(doc.content);
-    }
+    const wb = toWorkbook(doc?.content);
+    setWorkbook(wb);
+    setActiveSheetId(wb.sheets[0].id);
+    engine.load(wb.sheets);
   }, [doc?.id]);
 
-  const updateData = (newData: any) => {
-    setData(newData);
-    updateDoc(newData);
-  };
-
-  const getVal = (cell: string) => {
-    const d = data[cell];
-    if (!d) return '';
-    if (d.v.startsWith('=')) {
-      try {
-        // Basic formula evaluation
-        const f = d.v.substring(1).toUpperCase();
-        if (f.startsWith('SUM(')) {
-          const range = f.substring(4, f.length - 1).split(':');
-          // Simplified range sum
-          return '...'; // Implement full formula logic if needed, keeping it simple for token limit
-        }
-        return d.v; // Fallback
-      } catch { return 'ERROR'; }
+  const updateWorkbook = (wb: Workbook) => {
+    setWorkbook(wb);
+    updateDoc(wb);
+  };
+
+  const updateSheet = (patch: Partial<Sheet>) =>
+    updateWorkbook({ ...workbook, sheets: workbook.sheets.map(s => s.id === sheet.id ? { ...s, ...patch } : s) });
+
+  const updateData = (newData: CellMap) => updateSheet({ cells: newData });
+
+  // Writes a batch of cells (undefined clears one) through the engine and into the sheet.
+  const applyCells = (changes: Record<string, CellData | undefined>) => {
+    engine.update(sheet.id, Object.fromEntries(Object.entries(changes).map(([id, cell]) => [id, cell?.v])));
+    const next = { ...data };
+    Object.entries(changes).forEach(([id, cell]) => {
+      if (cell && (cell.v !== '' || cell.s)) next[id] = cell;
+      else delete next[id];
+    });
+    updateData(next);
+    return next;
+  };
+
+  const selectRange = (range: CellRange) => {
+    const first = toCellId(range.c1, range.r1);
+    setActiveCell(first);
+    setSelectionEnd(toCellId(range.c2, range.r2));
+    setFormula(data[first]?.v || '');
+  };
+
+  const toggleFreeze = () => {
+    if (freeze.rows || freeze.cols) updateSheet({ freeze: undefined });
+    else updateSheet({ freeze: { rows: activeAddr.row, cols: activeAddr.col } });
+  };
+
+  const cycles = engine.getCycles();
+
+  // --- EDITING ---
+  // Typing (in the cell or the formula bar) only changes the `formula` draft;
+  // it reaches the sheet once, on commit. `editRef` holds the cell the draft
+  // belongs to and is cleared on commit or cancel, so a commit happens once.
+  const commitEdit = (): CellMap => {
+    const cell = editRef.current;
+    editRef.current = null;
+    setEditing(null);
+    if (cell === null || formula === (data[cell]?.v ?? '')) return data;
+    if (!acceptEntry(cell, formula)) {
+      setFormula(data[activeCell]?.v || '');
+      return data;
+    }
+    return applyCells({ [cell]: { ...data[cell], v: formula } });
+  };
+
+  // Pivot tables rewrite their own cells, so nothing else may write there:
+  // true (after telling the user) when any of `ids` is in one.
+  const lockedByPivot = (ids: string[]) => {
+    const locked = ids.some(id => {
+      const addr = parseCellId(id);
+      return !!addr && !!pivotAt(sheet, addr.col, addr.row);
+    });
+    if (locked) alert("Cells in a pivot table can't be changed. Edit the pivot table's fields instead.");
+    return locked;
+  };
+
+  // Checks an entry against the cell's validation rule before it is written:
+  // a "stop" rule rejects it, a "warning" rule leaves it to the user.
+  const acceptEntry = (id: string, raw: string) => {
+    if (lockedByPivot([id])) return false;
+    const addr = parseCellId(id);
+    const rule = addr && validationAt(sheet.validations, addr.col, addr.row);
+    if (!addr || !rule) return true;
+    const value = isFormula(raw) ? toScalar(engine.evaluate(sheet.id, raw.slice(1))) : parseInput(raw);
+    const evaluate = (src: string) => engine.evaluate(sheet.id, src, { [id]: value });
+    if (passesValidation(rule, addr.col, addr.row, value, evaluate)) return true;
+    if (rule.errorStyle === 'stop') {
+      alert(describeValidation(rule));
+      return false;
     }
-    return d.v;
+    return confirm(`${describeValidation(rule)}\n\nKeep this entry anyway?`);
   };
 
-  const handleCellClick = (cell: string) => {
+  const cancelEdit = () => {
+    editRef.current = null;
+    setEditing(null);
+    setFormula(data[activeCell]?.v || '');
+  };
+
+  const startEdit = (mode: 'enter' | 'edit', text = data[activeCell]?.v || '') => {
+    editRef.current = activeCell;
+    setSelectionEnd(activeCell);
+    setFormula(text);
+    setEditing(mode);
+  };
+
+  const handleFormulaChange = (e: any) => {
+    if (editRef.current === null) editRef.current = activeCell;
+    setFormula(e.target.value);
+  };
+
+  // Moves the active cell (or, extending, the selection's far corner), clamped to the grid.
+  const moveTo = (col: number, row: number, extend = false, cells = data) => {
+    const id = toCellId(Math.max(0, Math.min(colCount - 1, col)), Math.max(0, Math.min(rowCount - 1, row)));
+    setSelectionEnd(id);
+    if (extend) return;
+    setActiveCell(id);
+    setFormula(cells[id]?.v || '');
+  };
+
+  // Enter/Tab commit and move (Shift reverses), Escape cancels. While
+  // typing into a cell the arrow keys also commit and move.
+  const handleEditorKeyDown = (e: any, inCell: boolean) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      cancelEdit();
+      gridRef.current?.focus();
+      return;
+    }
+    if (e.key === 'F2' && inCell) {
+      e.preventDefault();
+      setEditing(editing === 'edit' ? 'enter' : 'edit');
+      return;
+    }
+    let move: [number, number] | undefined;
+    if (e.key === 'Enter') move = [0, e.shiftKey ? -1 : 1];
+    else if (e.key === 'Tab') move = [e.shiftKey ? -1 : 1, 0];
+    else if (inCell && editing === 'enter') move = ARROW_KEYS[e.key];
+    if (!move) return;
+    e.preventDefault();
+    const cells = commitEdit();
+    moveTo(activeAddr.col + move[0], nextRow(activeAddr.row, move[1]), false, cells);
+    gridRef.current?.focus();
+  };
+
+  const clearContents = () => {
+    const changes: Record<string, CellData | undefined> = {};
+    forEachInRange(selection, (col, row) => {
+      const id = toCellId(col, row);
+      const cell = data[id];
+      if (cell && cell.v !== '') changes[id] = cell.s ? { ...cell, v: '' } : undefined;
+    });
+    if (lockedByPivot(Object.keys(changes))) return;
+    applyCells(changes);
+    setFormula('');
+  };
+
+  // Shift+click extends the selection from the active cell.
+  const handleCellClick = (cell: string, extend = false) => {
+    const cells = commitEdit();
+    setSelectionEnd(cell);
+    if (extend) return;
     setActiveCell(cell);
-    setFormula(data[cell]?.v || '');
-    setEditing(false);
+    setFormula(cells[cell]?.v || '');
+  };
+
+  // Pressing on a cell starts a drag that extends the selection as the mouse moves.
+  const handleCellMouseDown = (e: any, cell: string) => {
+    if (e.button !== 0 || (editing && cell === activeCell)) return;
+    setSelectedChart(null);
+    handleCellClick(cell, e.shiftKey);
+    setDrag({ kind: 'select' });
+  };
+
+  const handleCellMouseEnter = (col: number, row: number) => {
+    if (drag?.kind === 'select') setSelectionEnd(toCellId(col, row));
+    if (drag?.kind === 'fill') {
+      // The fill grows along whichever axis the pointer has moved further outside the selection.
+      const down = row - selection.r2, up = selection.r1 - row;
+      const right = col - selection.c2, left = selection.c1 - col;
+      const target = { ...selection };
+      if (Math.max(down, up) >= Math.max(right, left)) {
+        if (down > 0) target.r2 = row;
+        else if (up > 0) target.r1 = row;
+      } else {
+        if (right > 0) target.c2 = col;
+        else if (left > 0) target.c1 = col;
+      }
+      setDrag({ kind: 'fill', target });
+    }
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+    const end = () => {
+      setDrag(null);
+      if (drag.kind !== 'fill') return;
+      const t = drag.target;
+      if (t.c1 === selection.c1 && t.c2 === selection.c2 && t.r1 === selection.r1 && t.r2 === selection.r2) return;
+      const changes = fillRange(data, selection, t);
+      if (lockedByPivot(Object.keys(changes))) return;
+      applyCells(changes);
+      selectRange(t);
+    };
+    window.addEventListener('mouseup', end);
+    return () => window.removeEventListener('mouseup', end);
+  });
+
+  // --- CLIPBOARD ---
+  // Copy puts the selection on the system clipboard as TSV; paste accepts TSV
+  // from anywhere, and our own copies keep their formulas and formatting.
+  useEffect(() => {
+    const inGrid = () => !editing && !!gridRef.current && gridRef.current === document.activeElement;
+    const copy = (e: ClipboardEvent, cut: boolean) => {
+      if (!inGrid() || !e.clipboardData) return;
+      e.preventDefault();
+      const clip = copyRange(data, selection, displayText, cut);
+      const cleared: Record<string, CellData | undefined> = {};
+      if (cut) clip.cells.forEach((row, r) => row.forEach((_, c) => { cleared[toCellId(selection.c1 + c, selection.r1 + r)] = undefined; }));
+      if (cut && lockedByPivot(Object.keys(cleared))) return;
+      clipboardRef.current = clip;
+      e.clipboardData.setData('text/plain', clip.text);
+      if (cut) applyCells(cleared);
+    };
+    const onCopy = (e: ClipboardEvent) => copy(e, false);
+    const onCut = (e: ClipboardEvent) => copy(e, true);
+    const onPaste = (e: ClipboardEvent) => {
+      if (!inGrid() || !e.clipboardData) return;
+      e.preventDefault();
+      const text = e.clipboardData.getData('text/plain');
+      if (!text) return;
+      const { changes, range } = pasteCells(text, clipboardRef.current, selection);
+      if (lockedByPivot(Object.keys(changes))) return;
+      // Cut cells move once; later pastes of the same text are plain values.
+      if (clipboardRef.current?.cut) clipboardRef.current = null;
+      applyCells(changes);
+      selectRange(range);
+    };
+    document.addEventListener('copy', onCopy);
+    document.addEventListener('cut', onCut);
+    document.addEventListener('paste', onPaste);
+    return () => {
+      document.removeEventListener('copy', onCopy);
+      document.removeEventListener('cut', onCut);
+      document.removeEventListener('paste', onPaste);
+    };
+  });
+
+  // --- KEYBOARD ---
+  // Arrows move (Shift extends, Ctrl jumps to the edge of the data), Enter and
+  // Tab step down and right, F2 edits in place, Delete clears the selection,
+  // and typing any character replaces the active cell's content.
+  const handleGridKeyDown = (e: any) => {
+    if (editing || e.target !== gridRef.current) return;
+    if (selectedChart && (e.key === 'Delete' || e.key === 'Backspace')) {
+      e.preventDefault();
+      return deleteChart(selectedChart);
+    }
+    const ctrl = e.ctrlKey || e.metaKey;
+    const arrow = ARROW_KEYS[e.key];
+    if (arrow) {
+      const from = e.shiftKey ? endAddr : activeAddr;
+      const to = ctrl
+        ? dataEdge(data, from, arrow[0], arrow[1], colCount - 1, rowCount - 1)
+        : { col: from.col + arrow[0], row: nextRow(from.row, arrow[1]) };
+      moveTo(to.col, to.row, e.shiftKey);
+    } else if (ctrl && (e.key === 'f' || e.key === 'h')) {
+      setFindOpen(true);
+    } else if (e.key === 'Enter') {
+      moveTo(activeAddr.col, nextRow(activeAddr.row, e.shiftKey ? -1 : 1));
+    } else if (e.key === 'Tab') {
+      moveTo(activeAddr.col + (e.shiftKey ? -1 : 1), activeAddr.row);
+    } else if (e.key === 'Home') {
+      moveTo(0, ctrl ? 0 : activeAddr.row, e.shiftKey);
+    } else if (e.key === 'Escape') {
+      setSelectionEnd(activeCell);
+    } else if (e.key === 'F2') {
+      startEdit('edit');
+    } else if (e.key === 'Delete') {
+      clearContents();
+    } else if (e.key === 'Backspace') {
+      startEdit('enter', '');
+    } else if (e.key.length === 1 && !ctrl && !e.altKey) {
+      startEdit('enter', e.key);
+    } else {
+      return;
+    }
+    e.preventDefault();
   };
 
   const handleCellDoubleClick = (cell: string) => {
     setActiveCell(cell);
+    setSelectionEnd(cell);
     setFormula(data[cell]?.v || '');
-    setEditing(true);
+    editRef.current = cell;
+    setEditing('edit');
   };
 
-  const handleFormulaChange = (e: any) => {
-    setFormula(e.target.value);
-    updateData({ ...data, [activeCell]: { ...data[activeCell], v: e.target.value } });
+  // --- FORMATTING ---
+  // Applies to the whole selection; toggles follow the active cell's state.
+  const formatSelection = (patch: Partial<CellStyle>) => updateData(styleRange(data, selection, () => patch));
+  const toggleStyle = (key: 'bold' | 'italic' | 'underline' | 'strike' | 'wrap') =>
+    formatSelection({ [key]: activeStyle?.[key] ? undefined : true });
+
+  const setNumberFormat = (code: string) => {
+    if (code === 'custom') {
+      const custom = window.prompt('Number format code (e.g. #,##0.00 or yyyy-mm-dd)', activeStyle?.numFmt ?? '');
+      if (custom === null) return;
+      code = custom.trim();
+    }
+    formatSelection({ numFmt: code || undefined });
+  };
+
+  // --- SORT & FILTER ---
+  // With a single cell selected these act on the block of data around it.
+  const targetRange = () => multiSelect ? selection : currentRegion(data, activeAddr);
+
+  const applySort = (range: CellRange, keys: SortKey[], hasHeader: boolean) => {
+    const changes = sortRange(data, range, keys, hasHeader, valueOf);
+    if (lockedByPivot(Object.keys(changes))) return;
+    const cells = applyCells(changes);
+    setFormula(cells[activeCell]?.v || '');
+  };
+
+  const quickSort = (descending: boolean) => {
+    const range = targetRange();
+    applySort(range, [{ col: activeAddr.col, descending }], looksLikeHeader(range, valueOf));
+  };
+
+  const openSortDialog = () => {
+    const range = targetRange();
+    setSortDialog({ range, hasHeader: looksLikeHeader(range, valueOf), keys: [{ col: activeAddr.col }] });
+  };
+
+  const toggleFilter = () => {
+    if (sheet.filter) return updateSheet({ filter: undefined });
+    const range = targetRange();
+    if (range.r2 <= range.r1) return alert('Select a range with a header row and at least one row of data to filter.');
+    updateSheet({ filter: { range, columns: {} } });
+  };
+
+  const setColumnFilter = (filter: AutoFilter, col: number, f: ColumnFilter | undefined) => {
+    const columns = { ...filter.columns };
+    if (f) columns[col] = f;
+    else delete columns[col];
+    updateSheet({ filter: { ...filter, columns } });
+  };
+
+  // --- RULES ---
+  const updateConditionalFormats = (rules: ConditionalRule[]) =>
+    updateSheet({ conditionalFormats: rules.length ? rules : undefined });
+
+  // Rules lying entirely inside the selection are replaced; a partly
+  // overlapping one stays but is overridden where the new one applies.
+  const saveValidation = (rule: Omit<ValidationRule, 'id' | 'range'>) => {
+    const kept = (sheet.validations ?? []).filter(r =>
+      !(inRange(selection, r.range.c1, r.range.r1) && inRange(selection, r.range.c2, r.range.r2)));
+    updateSheet({ validations: [...kept, { ...rule, id: nextRuleId('dv', kept), range: selection }] });
+    setRulesDialog(null);
+  };
+
+  const clearValidation = () => {
+    const kept = (sheet.validations ?? []).filter(r => !rangesOverlap(r.range, selection));
+    updateSheet({ validations: kept.length ? kept : undefined });
+    setRulesDialog(null);
+  };
+
+  const openListMenu = (id: string, x: number, y: number) => {
+    const addr = parseCellId(id);
+    const rule = addr && validationAt(sheet.validations, addr.col, addr.row);
+    if (!addr || rule?.type !== 'list') return;
+    setListMenu({ id, items: listItems(rule, addr.col, addr.row, src => engine.evaluate(sheet.id, src)), x, y });
+  };
+
+  const pickListItem = (item: string) => {
+    if (!listMenu || lockedByPivot([listMenu.id])) return;
+    applyCells({ [listMenu.id]: { ...data[listMenu.id], v: item } });
+    if (listMenu.id === activeCell) setFormula(item);
+    setListMenu(null);
+    gridRef.current?.focus();
+  };
+
+  // --- PIVOT TABLES ---
+  // Outputs are ordinary cells; this rewrites them whenever anything in the
+  // workbook changes, and does nothing once they are current. A table with
+  // no room to grow is reported once, until it has room again.
+  const blockedPivots = useRef('');
+  useEffect(() => {
+    const result = refreshPivots(workbook, (sheetId, id) => engine.getValue(sheetId, id));
+    const blocked = result?.blocked.join(', ') ?? '';
+    if (blocked && blocked !== blockedPivots.current) {
+      const many = result!.blocked.length > 1;
+      alert(`The pivot table${many ? 's' : ''} at ${blocked} ${many ? 'have' : 'has'} grown onto other cells and ${many ? 'were' : 'was'} not refreshed. ` +
+        'Move or clear those cells to refresh.');
+    }
+    blockedPivots.current = blocked;
+    if (!result || result.workbook === workbook) return;
+    Object.entries(result.changes).forEach(([sheetId, changes]) =>
+      engine.update(sheetId, Object.fromEntries(Object.entries(changes).map(([id, cell]) => [id, cell?.v]))));
+    updateWorkbook(result.workbook);
+  }, [workbook]);
+
+  const activePivot = pivotAt(sheet, activeAddr.col, activeAddr.row);
+
+  const openPivotDialog = () => {
+    if (activePivot) return setPivotDialog({ source: activePivot.source, pivot: activePivot });
+    const range = targetRange();
+    if (range.r2 <= range.r1) return alert('Select a range with a header row and at least one row of data.');
+    setPivotDialog({ source: { sheetId: sheet.id, range } });
+  };
+
+  const savePivot = (layout: PivotLayout, at: CellAddress | null) => {
+    const read = (sheetId: string, id: string) => engine.getValue(sheetId, id);
+    const editing = pivotDialog?.pivot;
+    if (!editing && !at) {
+      let n = 1;
+      while (validateSheetName(workbook, `Pivot${n}`)) n++;
+      const { workbook: wb, sheet: target } = addSheet(workbook);
+      const pivot: PivotTable = { ...layout, id: 'pivot1', at: { col: 0, row: 0 } };
+      const sheets = wb.sheets.map(s => s.id === target.id ? { ...s, name: `Pivot${n}`, pivots: [pivot] } : s);
+      applySheetChange({ ...wb, sheets }, target.id);
+      return setPivotDialog(null);
+    }
+    const pivots = sheet.pivots ?? [];
+    const pivot: PivotTable = editing ? { ...editing, ...layout } : { ...layout, id: nextRuleId('pivot', pivots), at: at! };
+    const out = pivotOutput(pivot, workbook, read);
+    if (out && pivot.source.sheetId === sheet.id && rangesOverlap(out.extent, pivot.source.range)) {
+      return alert('A pivot table cannot overlap its source data. Choose another location.');
+    }
+    if (!editing && out) {
+      let occupied = false;
+      forEachInRange(out.extent, (col, row) => { occupied = occupied || !!data[toCellId(col, row)]?.v; });
+      if (occupied && !confirm('There is already data where the pivot table goes. Replace it?')) return;
+    }
+    updateSheet({ pivots: editing ? pivots.map(p => p.id === editing.id ? pivot : p) : [...pivots, pivot] });
+    setPivotDialog(null);
+  };
+
+  // Clears the table's output along with the definition.
+  const removePivot = (pivot: PivotTable) => {
+    const cleared: Record<string, undefined> = {};
+    if (pivot.extent) forEachInRange(pivot.extent, (col, row) => { cleared[toCellId(col, row)] = undefined; });
+    engine.update(sheet.id, cleared);
+    const cells = { ...data };
+    Object.keys(cleared).forEach(id => delete cells[id]);
+    const pivots = (sheet.pivots ?? []).filter(p => p.id !== pivot.id);
+    updateSheet({ cells, pivots: pivots.length ? pivots : undefined });
+    setFormula(cells[activeCell]?.v || '');
+    setPivotDialog(null);
+  };
+
+  // --- CHARTS ---
+  const charts = sheet.charts ?? [];
+
+  const insertChart = () => {
+    const range = targetRange();
+    if (range.c1 === range.c2 && range.r1 === range.r2 && !data[activeCell]?.v) {
+      return alert('Select the data to chart first.');
+    }
+    // Place it just right of the data, level with its first row.
+    let x = 16;
+    for (let c = 0; c <= range.c2; c++) x += sheet.colWidths?.[c] ?? DEFAULT_COL_WIDTH;
+    const chart = createChart(charts, range, { x, y: range.r1 * ROW_HEIGHT });
+    updateSheet({ charts: [...charts, chart] });
+    setSelectedChart(chart.id);
+  };
+
+  const updateChart = (id: string, patch: Partial<Chart>) =>
+    updateSheet({ charts: charts.map(c => c.id === id ? { ...c, ...patch } : c) });
+
+  const editChartRange = (chart: Chart) => {
+    const text = window.prompt('Data range (e.g. A1:C10)', rangeToText(chart.range));
+    if (text === null) return;
+    const range = parseRange(text);
+    if (!range) return alert(`"${text}" is not a valid range.`);
+    updateChart(chart.id, { range });
+  };
+
+  const deleteChart = (id: string) => {
+    updateSheet({ charts: charts.filter(c => c.id !== id) });
+    setSelectedChart(null);
   };
 
+  const startChartDrag = (e: any, chart: Chart, mode: 'move' | 'resize') => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    setSelectedChart(chart.id);
+    setChartDrag({ mode, startX: e.clientX, startY: e.clientY, chart, draft: chart });
+  };
+
+  // Moving or resizing only touches a draft; the sheet is updated once on release.
+  useEffect(() => {
+    if (!chartDrag) return;
+    const move = (e: MouseEvent) => {
+      const dx = e.clientX - chartDrag.startX;
+      const dy = e.clientY - chartDrag.startY;
+      const c = chartDrag.chart;
+      const draft = chartDrag.mode === 'move'
+        ? { ...c, x: Math.max(0, c.x + dx), y: Math.max(0, c.y + dy) }
+        : { ...c, width: Math.max(160, c.width + dx), height: Math.max(120, c.height + dy) };
+      setChartDrag({ ...chartDrag, draft });
+    };
+    const end = () => {
+      const { chart, draft } = chartDrag;
+      setChartDrag(null);
+      if (draft.x !== chart.x || draft.y !== chart.y || draft.width !== chart.width || draft.height !== chart.height) {
+        updateChart(chart.id, { x: draft.x, y: draft.y, width: draft.width, height: draft.height });
+      }
+    };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', end);
+    return () => {
+      window.removeEventListener('mousemove', move);
+      window.removeEventListener('mouseup', end);
+    };
+  });
+
+  // --- FIND & REPLACE ---
+  // Returns the matching cells in reading order, or null after reporting a bad pattern.
+  const findMatches = (cells = data) => {
+    try {
+      return findCells(cells, findOptions, displayText);
+    } catch {
+      setFindStatus('Invalid regular expression');
+      return null;
+    }
+  };
+
+  const findNext = (cells = data) => {
+    const ids = findMatches(cells);
+    if (!ids) return;
+    if (!ids.length) return setFindStatus('No matches');
+    const next = ids.find(id => {
+      const a = parseCellId(id)!;
+      return a.row > activeAddr.row || (a.row === activeAddr.row && a.col > activeAddr.col);
+    }) ?? ids[0];
+    handleCellClick(next);
+    setFindStatus(`${ids.indexOf(next) + 1} of ${ids.length}`);
+  };
+
+  const replaceCurrent = () => {
+    const ids = findMatches();
+    if (!ids) return;
+    if (!ids.includes(activeCell)) return findNext();
+    const changes = replaceInCells(data, [activeCell], findOptions, replaceText);
+    if (lockedByPivot(Object.keys(changes))) return;
+    findNext(applyCells(changes));
+  };
+
+  const replaceAll = () => {
+    const ids = findMatches();
+    if (!ids) return;
+    const changes = replaceInCells(data, ids, findOptions, replaceText);
+    if (lockedByPivot(Object.keys(changes))) return;
+    const count = Object.keys(changes).length;
+    const cells = applyCells(changes);
+    setFormula(cells[activeCell]?.v || '');
+    setFindStatus(`Replaced ${count} cell${count === 1 ? '' : 's'}`);
+  };
+
+  // --- SHEET TABS ---
+  const switchSheet = (id: string, wb = workbook) => {
+    const target = wb.sheets.find(s => s.id === id);
+    if (!target) return;
+    setActiveSheetId(id);
+    setActiveCell('A1');
+    setSelectionEnd('A1');
+    setFormula(target.cells.A1?.v || '');
+    editRef.current = null;
+    setEditing(null);
+  };
+
+  // Sheet names appear in formulas, so adding, renaming or removing a sheet
+  // reloads the engine to re-resolve every cross-sheet reference.
+  const applySheetChange = (wb: Workbook, nextActive?: string) => {
+    engine.load(wb.sheets);
+    updateWorkbook(wb);
+    if (nextActive) switchSheet(nextActive, wb);
+  };
+
+  const handleAddSheet = () => {
+    const { workbook: wb, sheet: added } = addSheet(workbook);
+    applySheetChange(wb, added.id);
+  };
+
+  const handleRenameSheet = (id: string, name: string) => {
+    setRenamingSheet(null);
+    try {
+      const wb = renameSheet(workbook, id, name.trim());
+      if (wb !== workbook) applySheetChange(wb);
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleDuplicateSheet = (id: string) => {
+    const { workbook: wb, sheet: copy } = duplicateSheet(workbook, id);
+    applySheetChange(wb, copy.id);
+  };
+
+  const handleDeleteSheet = (id: string) => {
+    if (workbook.sheets.length < 2) return;
+    const target = workbook.sheets.find(s => s.id === id);
+    if (!target || !confirm(`Delete sheet "${target.name}"? Formulas that refer to it will show #REF!.`)) return;
+    const index = workbook.sheets.indexOf(target);
+    const wb = deleteSheet(workbook, id);
+    applySheetChange(wb, id === sheet.id ? wb.sheets[Math.max(0, index - 1)].id : undefined);
+  };
+
+  const handleMoveSheet = (id: string, toIndex: number) => updateWorkbook(moveSheet(workbook, id, toIndex));
+
   const runAi = async (promptType: string) => {
     setAiLoading(true);
     setAiPanelOpen(true);
@@ -461,22 +1376,27 @@ const Spreadsheet = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (
   };
 
   const exportCSV = () => {
-    let csv = '';
-    rows.forEach(r => {
-      const rowData = cols.map(c => {
-        let val = data[`${c}${r}`]?.v || '';
-        if (val.includes(',') || val.includes('"')) {
-          val = `"${val.replace(/"/g, '""')}"`;
-        }
-        return val;
-      }).join(',');
-      csv += rowData + '\n';
-    });
+    const csv = serializeDelimited(Array.from({ length: used.maxRow + 1 }, (_, r) =>
+      Array.from({ length: used.maxCol + 1 }, (_, c) => data[toCellId(c, r)]?.v || '')));
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${doc.name}.csv`;
+    a.download = workbook.sheets.length > 1 ? `${doc.name} - ${sheet.name}.csv` : `${doc.name}.csv`;
+    a.click();
+  };
+
+  const exportXLSX = async () => {
+    const blob = await writeXlsx(workbook.sheets.map(s => ({
+      name: s.name, cells: s.cells, colWidths: s.colWidths,
+      frozenRows: s.freeze?.rows, frozenCols: s.freeze?.cols,
+      conditionalFormats: s.conditionalFormats, validations: s.validations,
+      getValue: (id: string) => engine.getValue(s.id, id)
+    })));
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${doc.name}.xlsx`;
     a.click();
   };
 
@@ -484,65 +1404,248 @@ const Spreadsheet = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (
     <div className="flex flex-col h-full bg-[#0d0d0f] text-sm relative">
       {/* Formula Bar */}
       <div className="flex flex-wrap md:flex-nowrap items-center gap-2 p-2 bg-[#17171a] border-b border-[#2a2a30]">
-        <div className="w-12 text-center font-mono font-bold text-[#c8a96e]">{activeCell}</div>
+        <div className="min-w-[3rem] px-1 text-center font-mono font-bold text-[#c8a96e]">{multiSelect ? rangeToText(selection) : activeCell}</div>
         <div className="text-[#888894] font-mono italic">fx</div>
         <input 
+          ref={formulaBarRef}
           type="text" 
           value={formula} 
           onChange={handleFormulaChange}
+          onKeyDown={e => handleEditorKeyDown(e, false)}
+          onBlur={() => commitEdit()}
           className="flex-1 bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] px-2 py-1 outline-none font-mono focus:border-[#c8a96e]"
         />
+        <button onClick={toggleFreeze} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex items-center gap-1 ${freeze.rows || freeze.cols ? 'text-[#c8a96e]' : 'text-[#888894] hover:text-[#c8a96e]'}`} title={freeze.rows || freeze.cols ? 'Unfreeze Panes' : 'Freeze Panes Above/Left of Active Cell'}><Snowflake size={16}/></button>
         <button onClick={exportCSV} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#888894] hover:text-[#c8a96e] flex items-center gap-1" title="Export CSV"><Download size={16}/></button>
+        <button onClick={exportXLSX} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#888894] hover:text-[#c8a96e] flex items-center gap-1" title="Export XLSX"><FileSpreadsheet size={16}/></button>
         <button onClick={() => setAiPanelOpen(!aiPanelOpen)} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#c8a96e] flex items-center gap-1"><Sparkles size={16}/> AI</button>
       </div>
 
+      {/* Format Toolbar */}
+      <div className="flex overflow-x-auto items-center gap-2 px-2 py-1 bg-[#17171a] border-b border-[#2a2a30] flex-shrink-0">
+        <button onClick={() => toggleStyle('bold')} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${activeStyle?.bold ? 'text-[#c8a96e]' : ''}`} title="Bold"><Bold size={16}/></button>
+        <button onClick={() => toggleStyle('italic')} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${activeStyle?.italic ? 'text-[#c8a96e]' : ''}`} title="Italic"><Italic size={16}/></button>
+        <button onClick={() => toggleStyle('underline')} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${activeStyle?.underline ? 'text-[#c8a96e]' : ''}`} title="Underline"><Underline size={16}/></button>
+        <button onClick={() => toggleStyle('strike')} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${activeStyle?.strike ? 'text-[#c8a96e]' : ''}`} title="Strikethrough"><Strikethrough size={16}/></button>
+        <label className="flex items-center gap-0.5 flex-shrink-0 cursor-pointer" title="Text Color">
+          <Baseline size={16}/>
+          <input type="color" value={activeStyle?.color ?? '#e8e8ec'} onChange={e => formatSelection({ color: e.target.value })} className="w-5 h-5 p-0 border-0 bg-transparent cursor-pointer"/>
+        </label>
+        <label className="flex items-center gap-0.5 flex-shrink-0 cursor-pointer" title="Fill Color">
+          <PaintBucket size={16}/>
+          <input type="color" value={activeStyle?.fill ?? '#0d0d0f'} onChange={e => formatSelection({ fill: e.target.value })} className="w-5 h-5 p-0 border-0 bg-transparent cursor-pointer"/>
+        </label>
+        <select value="" onChange={e => e.target.value && updateData(applyBorders(data, selection, e.target.value as BorderPreset))} className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1 flex-shrink-0" title="Borders">
+          <option value="">Borders</option>
+          <option value="all">All Borders</option>
+          <option value="outer">Outside Borders</option>
+          <option value="top">Top Border</option>
+          <option value="bottom">Bottom Border</option>
+          <option value="left">Left Border</option>
+          <option value="right">Right Border</option>
+          <option value="none">No Borders</option>
+        </select>
+        <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
+        <button onClick={() => formatSelection({ hAlign: activeStyle?.hAlign === 'left' ? undefined : 'left' })} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${activeStyle?.hAlign === 'left' ? 'text-[#c8a96e]' : ''}`} title="Align Left"><AlignLeft size={16}/></button>
+        <button onClick={() => formatSelection({ hAlign: activeStyle?.hAlign === 'center' ? undefined : 'center' })} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${activeStyle?.hAlign === 'center' ? 'text-[#c8a96e]' : ''}`} title="Align Center"><AlignCenter size={16}/></button>
+        <button onClick={() => formatSelection({ hAlign: activeStyle?.hAlign === 'right' ? undefined : 'right' })} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${activeStyle?.hAlign === 'right' ? 'text-[#c8a96e]' : ''}`} title="Align Right"><AlignRight size={16}/></button>
+        <select value={activeStyle?.vAlign ?? 'middle'} onChange={e => formatSelection({ vAlign: e.target.value === 'middle' ? undefined : e.target.value as CellStyle['vAlign'] })} className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1 flex-shrink-0" title="Vertical Alignment">
+          <option value="top">Top</option>
+          <option value="middle">Middle</option>
+          <option value="bottom">Bottom</option>
+        </select>
+        <button onClick={() => toggleStyle('wrap')} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${activeStyle?.wrap ? 'text-[#c8a96e]' : ''}`} title="Wrap Text"><TextWrap size={16}/></button>
+        <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
+        <select
+          value={NUMBER_FORMATS.some(f => f.code === (activeStyle?.numFmt ?? '')) ? activeStyle?.numFmt ?? '' : 'custom'}
+          onChange={e => setNumberFormat(e.target.value)}
+          className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1 flex-shrink-0"
+          title={activeStyle?.numFmt ?? 'General'}
+        >
+          {NUMBER_FORMATS.map(f => <option key={f.label} value={f.code}>{f.label}</option>)}
+          <option value="custom">Custom...</option>
+        </select>
+        <button onClick={() => formatSelection({ numFmt: adjustDecimals(activeStyle?.numFmt, 1) })} className="p-1 hover:bg-[#c8a96e]/20 rounded text-xs font-bold font-mono flex-shrink-0" title="Increase Decimals">.0+</button>
+        <button onClick={() => formatSelection({ numFmt: adjustDecimals(activeStyle?.numFmt, -1) })} className="p-1 hover:bg-[#c8a96e]/20 rounded text-xs font-bold font-mono flex-shrink-0" title="Decrease Decimals">.0-</button>
+        <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
+        <button onClick={() => updateData(clearStyles(data, selection))} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 text-[#888894] hover:text-[#c8a96e]" title="Clear Formatting"><Eraser size={16}/></button>
+        <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
+        <button onClick={() => quickSort(false)} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Sort A to Z"><ArrowDownAZ size={16}/></button>
+        <button onClick={() => quickSort(true)} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Sort Z to A"><ArrowDownZA size={16}/></button>
+        <button onClick={openSortDialog} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Custom Sort"><ArrowUpDown size={16}/></button>
+        <button onClick={toggleFilter} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${sheet.filter ? 'text-[#c8a96e]' : ''}`} title={sheet.filter ? 'Remove Filter' : 'Filter'}><Filter size={16}/></button>
+        <button onClick={() => setFindOpen(!findOpen)} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${findOpen ? 'text-[#c8a96e]' : ''}`} title="Find and Replace (Ctrl+F)"><Replace size={16}/></button>
+        <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>
+        <button onClick={() => setRulesDialog('conditional')} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${sheet.conditionalFormats ? 'text-[#c8a96e]' : ''}`} title="Conditional Formatting"><Highlighter size={16}/></button>
+        <button onClick={() => setRulesDialog('validation')} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${validationAt(sheet.validations, activeAddr.col, activeAddr.row) ? 'text-[#c8a96e]' : ''}`} title="Data Validation"><ListChecks size={16}/></button>
+        <button onClick={openPivotDialog} className={`p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 ${activePivot ? 'text-[#c8a96e]' : ''}`} title={activePivot ? 'Edit Pivot Table' : 'Pivot Table'}><Table2 size={16}/></button>
+        <button onClick={insertChart} className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0" title="Insert Chart"><ChartColumn size={16}/></button>
+      </div>
+
+      {/* Find & Replace */}
+      {findOpen && (
+        <div className="flex flex-wrap items-center gap-2 px-2 py-1 bg-[#17171a] border-b border-[#2a2a30] flex-shrink-0">
+          <input
+            autoFocus
+            value={findOptions.query}
+            onChange={e => { setFindOptions({ ...findOptions, query: e.target.value }); setFindStatus(''); }}
+            onKeyDown={e => { if (e.key === 'Enter') findNext(); if (e.key === 'Escape') { setFindOpen(false); gridRef.current?.focus(); } }}
+            placeholder="Find"
+            className="w-40 bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1 outline-none focus:border-[#c8a96e]"
+          />
+          <input
+            value={replaceText}
+            onChange={e => setReplaceText(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') replaceCurrent(); }}
+            placeholder="Replace with"
+            className="w-40 bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1 outline-none focus:border-[#c8a96e]"
+          />
+          <select value={findOptions.lookIn} onChange={e => setFindOptions({ ...findOptions, lookIn: e.target.value as FindOptions['lookIn'] })} className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1" title="Look in">
+            <option value="values">Values</option>
+            <option value="formulas">Formulas</option>
+          </select>
+          {([['matchCase', 'Match case'], ['wholeCell', 'Whole cell'], ['regex', 'Regex']] as const).map(([key, label]) => (
+            <label key={key} className="flex items-center gap-1 text-xs text-[#888894] cursor-pointer">
+              <input type="checkbox" checked={!!findOptions[key]} onChange={e => setFindOptions({ ...findOptions, [key]: e.target.checked })}/> {label}
+            </label>
+          ))}
+          <button onClick={() => findNext()} className="px-2 py-1 hover:bg-[#c8a96e]/20 rounded border border-[#2a2a30]">Find Next</button>
+          <button onClick={replaceCurrent} className="px-2 py-1 hover:bg-[#c8a96e]/20 rounded border border-[#2a2a30]">Replace</button>
+          <button onClick={replaceAll} className="px-2 py-1 hover:bg-[#c8a96e]/20 rounded border border-[#2a2a30]">Replace All</button>
+          <span className="text-xs text-[#888894]">{findStatus}</span>
+          <button onClick={() => setFindOpen(false)} className="ml-auto p-1 text-[#888894] hover:text-[#c8a96e]"><X size={14}/></button>
+        </div>
+      )}
+
       <div className="flex flex-1 overflow-hidden">
         {/* Grid */}
-        <div className="flex-1 overflow-auto relative bg-[#1e1e22]">
-          <table className="border-collapse w-full">
-            <thead>
-              <tr>
-                <th className="w-10 bg-[#17171a] border border-[#2a2a30] sticky top-0 left-0 z-20"></th>
-                {cols.map(c => (
-                  <th key={c} className="w-24 bg-[#17171a] border border-[#2a2a30] font-normal text-[#888894] sticky top-0 z-10">{c}</th>
-                ))}
-              </tr>
-            </thead>
-            <tbody>
-              {rows.map(r => (
-                <tr key={r}>
-                  <td className="bg-[#17171a] border border-[#2a2a30] text-center text-[#888894] sticky left-0 z-10">{r}</td>
-                  {cols.map(c => {
-                    const cellId = `${c}${r}`;
-                    const isActive = activeCell === cellId;
-                    return (
-                      <td 
-                        key={c} 
-                        className={`border border-[#2a2a30] bg-[#0d0d0f] relative ${isActive ? 'outline outline-2 outline-[#c8a96e] z-0' : ''}`}
-                        onClick={() => handleCellClick(cellId)}
-                        onDoubleClick={() => handleCellDoubleClick(cellId)}
-                      >
-                        {isActive && editing ? (
-                          <input 
-                            autoFocus
-                            value={formula}
-                            onChange={handleFormulaChange}
-                            onBlur={() => setEditing(false)}
-                            onKeyDown={e => e.key === 'Enter' && setEditing(false)}
-                            className="absolute inset-0 w-full h-full bg-[#1e1e22] text-white px-1 outline-none font-mono"
-                          />
-                        ) : (
-                          <div className="px-1 overflow-hidden whitespace-nowrap text-ellipsis font-mono text-[#e8e8ec]">
-                            {getVal(cellId)}
-                          </div>
-                        )}
-                      </td>
-                    );
-                  })}
-                </tr>
-              ))}
-            </tbody>
-          </table>
+        <div ref={gridRef} tabIndex={0} onKeyDown={handleGridKeyDown} className="flex flex-1 min-w-0 outline-none select-none">
+        <VirtualGrid
+          rowCount={rowCount}
+          colCount={colCount}
+          colWidths={sheet.colWidths}
+          frozenRows={freeze.rows}
+          frozenCols={freeze.cols}
+          activeCol={endAddr.col}
+          activeRow={endAddr.row}
+          hiddenRows={hidden}
+          overlay={charts.length > 0 && charts.map(c => {
+            // Drawn from the current cell values, so charts follow every recalculation.
+            const chart = chartDrag?.chart.id === c.id ? chartDrag.draft : c;
+            const svg = renderChartSvg(chart, chartData(chart, valueOf, displayText), { width: chart.width, height: chart.height });
+            const isSelected = selectedChart === chart.id;
+            return (
+              <div
+                key={chart.id}
+                style={{ position: 'absolute', left: chart.x, top: chart.y, width: chart.width, height: chart.height }}
+                className={`shadow-2xl border cursor-move ${isSelected ? 'border-[#c8a96e]' : 'border-[#2a2a30]'}`}
+                onMouseDown={e => startChartDrag(e, chart, 'move')}
+              >
+                <div dangerouslySetInnerHTML={{ __html: svg }} />
+                {isSelected && (
+                  <div onMouseDown={e => e.stopPropagation()} className="absolute -top-9 left-0 flex items-center gap-1 p-1 bg-[#17171a] border border-[#2a2a30] rounded shadow-2xl cursor-default">
+                    <select value={chart.type} onChange={e => updateChart(chart.id, { type: e.target.value as ChartType })} className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-1 py-0.5 text-xs" title="Chart Type">
+                      {CHART_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                    </select>
+                    <select value={chart.seriesIn} onChange={e => updateChart(chart.id, { seriesIn: e.target.value as Chart['seriesIn'] })} className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-1 py-0.5 text-xs" title="Series In">
+                      <option value="columns">Series in columns</option>
+                      <option value="rows">Series in rows</option>
+                    </select>
+                    <button
+                      onClick={() => { const title = window.prompt('Chart title', chart.title ?? ''); if (title !== null) updateChart(chart.id, { title: title.trim() || undefined }); }}
+                      className="p-1 hover:bg-[#c8a96e]/20 rounded" title="Chart Title"
+                    ><Type size={14}/></button>
+                    <button onClick={() => editChartRange(chart)} className="px-1 hover:bg-[#c8a96e]/20 rounded text-xs font-mono text-[#888894]" title="Data Range">{rangeToText(chart.range)}</button>
+                    <button onClick={() => deleteChart(chart.id)} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#888894] hover:text-red-400" title="Delete Chart"><Trash2 size={14}/></button>
+                  </div>
+                )}
+                {isSelected && (
+                  <div onMouseDown={e => startChartDrag(e, chart, 'resize')} className="absolute -right-1 -bottom-1 w-3 h-3 bg-[#c8a96e] border border-[#0d0d0f] cursor-nwse-resize" />
+                )}
+              </div>
+            );
+          })}
+          onNearEnd={growExtent}
+          renderCell={({ col, row, style }) => {
+            const cellId = toCellId(col, row);
+            const isActive = activeCell === cellId;
+            const cell = data[cellId];
+            const value = engine.getValue(sheet.id, cellId);
+            const formatted = formatValue(value, cellNumFmt(cell));
+            // Conditional formats are layered over the cell's own style; their text color beats the number format's.
+            const conditional = formatter?.(col, row);
+            const css = conditional?.style
+              ? cellCss(mergeStyle(cell?.s, conditional.style), value, conditional.style.color ? undefined : formatted.color)
+              : cellCss(cell?.s, value, formatted.color);
+            const borders = borderOverlayCss(cell?.s);
+            const listRule = isActive && !editing ? validationAt(sheet.validations, col, row) : undefined;
+            const hasHandle = !editing && col === selection.c2 && row === selection.r2;
+            const inFill = drag?.kind === 'fill' && inRange(drag.target, col, row) && !inRange(selection, col, row);
+            const filter = sheet.filter;
+            const filterButton = filter && row === filter.range.r1 && col >= filter.range.c1 && col <= filter.range.c2;
+            return (
+              <div
+                style={{ ...style, ...css.box }}
+                className={`flex border-r border-b border-[#2a2a30] bg-[#0d0d0f] ${isActive ? 'outline outline-2 outline-[#c8a96e] z-10' : ''} ${hasHandle ? 'z-10' : ''}`}
+                onMouseDown={e => handleCellMouseDown(e, cellId)}
+                onMouseEnter={() => handleCellMouseEnter(col, row)}
+                onDoubleClick={() => handleCellDoubleClick(cellId)}
+              >
+                {borders && <div style={borders} />}
+                {multiSelect && !isActive && inRange(selection, col, row) && <div className="absolute inset-0 bg-[#c8a96e]/15 pointer-events-none" />}
+                {inFill && <div className="absolute inset-0 border border-dashed border-[#c8a96e] pointer-events-none" />}
+                {conditional?.bar && (
+                  <div className="absolute left-0 top-0.5 bottom-0.5 rounded-r-sm opacity-60 pointer-events-none" style={{ width: `${conditional.bar.ratio * 100}%`, background: conditional.bar.color }} />
+                )}
+                {listRule?.type === 'list' && (
+                  <button
+                    onMouseDown={e => e.stopPropagation()}
+                    onClick={e => { const r = e.currentTarget.getBoundingClientRect(); openListMenu(cellId, r.left, r.bottom); }}
+                    className="absolute -right-5 top-0 w-4 h-full flex items-center justify-center rounded-sm bg-[#1e1e22] border border-[#2a2a30] text-[#888894] hover:text-[#c8a96e] z-20"
+                    title="Choose from list"
+                  >
+                    <ChevronDown size={10}/>
+                  </button>
+                )}
+                {filterButton && (
+                  <button
+                    onMouseDown={e => e.stopPropagation()}
+                    onClick={e => { const r = e.currentTarget.getBoundingClientRect(); setFilterMenu({ col, x: r.left, y: r.bottom }); }}
+                    className={`absolute right-0.5 top-1/2 -translate-y-1/2 w-4 h-4 flex items-center justify-center rounded-sm bg-[#1e1e22] border border-[#2a2a30] z-10 ${isColumnFiltered(filter.columns[col]) ? 'text-[#c8a96e]' : 'text-[#888894]'}`}
+                    title="Filter"
+                  >
+                    {isColumnFiltered(filter.columns[col]) ? <Filter size={10}/> : <ChevronDown size={10}/>}
+                  </button>
+                )}
+                {hasHandle && (
+                  <div
+                    onMouseDown={e => { e.stopPropagation(); e.preventDefault(); gridRef.current?.focus(); setDrag({ kind: 'fill', target: selection }); }}
+                    className="absolute -right-1 -bottom-1 w-2 h-2 bg-[#c8a96e] border border-[#0d0d0f] cursor-crosshair z-20"
+                    title="Drag to fill"
+                  />
+                )}
+                {isActive && editing ? (
+                  <input 
+                    autoFocus
+                    value={formula}
+                    onChange={handleFormulaChange}
+                    onFocus={e => e.currentTarget.setSelectionRange(e.currentTarget.value.length, e.currentTarget.value.length)}
+                    onBlur={e => { if (e.relatedTarget !== formulaBarRef.current) commitEdit(); }}
+                    onKeyDown={e => handleEditorKeyDown(e, true)}
+                    className="absolute inset-0 w-full h-full bg-[#1e1e22] text-white px-1 outline-none font-mono"
+                  />
+                ) : (
+                  <div
+                    style={css.text}
+                    className={`relative px-1 w-full max-h-full overflow-hidden font-mono text-[#e8e8ec] ${cell?.s?.wrap ? 'whitespace-pre-wrap break-words leading-tight' : 'whitespace-nowrap text-ellipsis leading-6'}`}
+                  >
+                    {formatted.text}
+                  </div>
+                )}
+              </div>
+            );
+          }}
+        />
         </div>
 
         {/* AI Sidebar */}
@@ -571,71 +1674,639 @@ const Spreadsheet = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (
       
       {/* Tabs */}
       <div className="h-8 bg-[#17171a] border-t border-[#2a2a30] flex items-center px-2 gap-1">
-        <div className="px-4 py-1 bg-[#1e1e22] border-t-2 border-[#c8a96e] text-[#e8e8ec] cursor-pointer">Sheet1</div>
-        <button className="p-1 text-[#888894] hover:text-[#c8a96e]"><Plus size={14}/></button>
+        <div className="flex items-center gap-1 overflow-x-auto min-w-0">
+          {workbook.sheets.map((s, i) => renamingSheet === s.id ? (
+            <input
+              key={s.id}
+              autoFocus
+              defaultValue={s.name}
+              onBlur={e => handleRenameSheet(s.id, e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+                if (e.key === 'Escape') { e.currentTarget.value = s.name; setRenamingSheet(null); }
+              }}
+              className="w-28 px-2 py-0.5 bg-[#1e1e22] text-[#e8e8ec] border border-[#c8a96e] outline-none"
+            />
+          ) : (
+            <div
+              key={s.id}
+              draggable
+              onDragStart={() => setDraggedSheet(s.id)}
+              onDragOver={e => e.preventDefault()}
+              onDrop={() => { if (draggedSheet) handleMoveSheet(draggedSheet, i); setDraggedSheet(null); }}
+              onClick={() => switchSheet(s.id)}
+              onDoubleClick={() => setRenamingSheet(s.id)}
+              onContextMenu={e => { e.preventDefault(); setSheetMenu({ id: s.id, x: e.clientX, y: e.clientY }); }}
+              className={`px-4 py-1 cursor-pointer whitespace-nowrap select-none ${s.id === sheet.id ? 'bg-[#1e1e22] border-t-2 border-[#c8a96e] text-[#e8e8ec]' : 'text-[#888894] hover:text-[#e8e8ec]'}`}
+            >
+              {s.name}
+            </div>
+          ))}
+        </div>
+        <button onClick={handleAddSheet} className="p-1 text-[#888894] hover:text-[#c8a96e]" title="Add Sheet"><Plus size={14}/></button>
+        {cycles.length > 0 && (
+          <div className="ml-auto text-xs text-red-400 truncate" title={cycles.map(c => c.join(' → ')).join('\n')}>
+            Circular reference: {cycles[0].join(' → ')}{cycles.length > 1 ? ` (+${cycles.length - 1} more)` : ''}
+          </div>
+        )}
       </div>
+
+      {/* AutoFilter dropdown */}
+      {filterMenu && sheet.filter && (
+        <FilterMenu
+          x={filterMenu.x}
+          y={filterMenu.y}
+          values={columnValues(sheet.filter, filterMenu.col, displayText)}
+          filter={sheet.filter.columns[filterMenu.col]}
+          onApply={f => { setColumnFilter(sheet.filter!, filterMenu.col, f); setFilterMenu(null); }}
+          onSort={descending => { applySort(sheet.filter!.range, [{ col: filterMenu.col, descending }], true); setFilterMenu(null); }}
+          onClose={() => setFilterMenu(null)}
+        />
+      )}
+
+      {/* Validation list dropdown */}
+      {listMenu && (
+        <div className="fixed inset-0 z-40" onMouseDown={() => setListMenu(null)}>
+          <div
+            style={{ left: Math.min(listMenu.x, window.innerWidth - 200), top: Math.min(listMenu.y, window.innerHeight - 240) }}
+            className="fixed min-w-32 max-w-[200px] max-h-56 overflow-auto p-1 bg-[#17171a] border border-[#2a2a30] rounded shadow-2xl text-[#e8e8ec]"
+            onMouseDown={e => e.stopPropagation()}
+          >
+            {listMenu.items.length === 0 && <div className="px-2 py-1 text-[#888894]">The list is empty</div>}
+            {listMenu.items.map(item => (
+              <button key={item} onClick={() => pickListItem(item)} className="block w-full text-left px-2 py-1 rounded truncate hover:bg-[#c8a96e]/20">{item}</button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Rules dialogs */}
+      {rulesDialog === 'conditional' && (
+        <ConditionalFormatDialog
+          rules={sheet.conditionalFormats ?? []}
+          selection={selection}
+          onChange={updateConditionalFormats}
+          onClose={() => setRulesDialog(null)}
+        />
+      )}
+      {rulesDialog === 'validation' && (
+        <ValidationDialog
+          range={selection}
+          rule={validationAt(sheet.validations, activeAddr.col, activeAddr.row)}
+          onSave={saveValidation}
+          onClear={clearValidation}
+          onClose={() => setRulesDialog(null)}
+        />
+      )}
+
+      {pivotDialog && (
+        <PivotDialog
+          workbook={workbook}
+          sheetId={sheet.id}
+          source={pivotDialog.source}
+          pivot={pivotDialog.pivot}
+          defaultCell={toCellId(pivotDialog.source.range.c2 + 2, pivotDialog.source.range.r1)}
+          read={(sheetId, id) => engine.getValue(sheetId, id)}
+          onSave={savePivot}
+          onRemove={() => pivotDialog.pivot && removePivot(pivotDialog.pivot)}
+          onClose={() => setPivotDialog(null)}
+        />
+      )}
+
+      {/* Sort dialog */}
+      {sortDialog && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-[#17171a] border border-[#2a2a30] rounded-xl w-full max-w-md flex flex-col shadow-2xl">
+            <div className="p-4 border-b border-[#2a2a30] flex justify-between items-center">
+              <h2 className="text-lg font-serif text-[#c8a96e]">Sort {rangeToText(sortDialog.range)}</h2>
+              <button onClick={() => setSortDialog(null)} className="text-[#888894] hover:text-white"><X size={18}/></button>
+            </div>
+            <div className="p-4 flex flex-col gap-2">
+              <label className="flex items-center gap-2 text-[#888894] cursor-pointer">
+                <input type="checkbox" checked={sortDialog.hasHeader} onChange={e => setSortDialog({ ...sortDialog, hasHeader: e.target.checked })}/> My data has a header row
+              </label>
+              {sortDialog.keys.map((key, i) => {
+                const setKey = (patch: Partial<SortKey>) =>
+                  setSortDialog({ ...sortDialog, keys: sortDialog.keys.map((k, j) => j === i ? { ...k, ...patch } : k) });
+                return (
+                  <div key={i} className="flex items-center gap-2">
+                    <span className="w-16 text-[#888894]">{i === 0 ? 'Sort by' : 'Then by'}</span>
+                    <select value={key.col} onChange={e => setKey({ col: Number(e.target.value) })} className="flex-1 bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1">
+                      {Array.from({ length: sortDialog.range.c2 - sortDialog.range.c1 + 1 }, (_, j) => sortDialog.range.c1 + j).map(col => {
+                        const header = sortDialog.hasHeader ? displayText(toCellId(col, sortDialog.range.r1)) : '';
+                        return <option key={col} value={col}>{header || `Column ${indexToCol(col)}`}</option>;
+                      })}
+                    </select>
+                    <select value={key.descending ? 'desc' : 'asc'} onChange={e => setKey({ descending: e.target.value === 'desc' })} className="bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1">
+                      <option value="asc">A to Z</option>
+                      <option value="desc">Z to A</option>
+                    </select>
+                    <button onClick={() => setSortDialog({ ...sortDialog, keys: sortDialog.keys.filter((_, j) => j !== i) })} disabled={sortDialog.keys.length < 2} className="p-1 text-[#888894] hover:text-red-400 disabled:opacity-30"><Trash2 size={14}/></button>
+                  </div>
+                );
+              })}
+              <button onClick={() => setSortDialog({ ...sortDialog, keys: [...sortDialog.keys, { col: sortDialog.range.c1 }] })} className="self-start flex items-center gap-1 px-2 py-1 text-[#c8a96e] hover:bg-[#c8a96e]/20 rounded"><Plus size={14}/> Add Level</button>
+            </div>
+            <div className="p-4 border-t border-[#2a2a30] flex justify-end gap-2">
+              <button onClick={() => setSortDialog(null)} className="px-4 py-1 rounded hover:bg-[#c8a96e]/20">Cancel</button>
+              <button onClick={() => { applySort(sortDialog.range, sortDialog.keys, sortDialog.hasHeader); setSortDialog(null); }} className="px-4 py-1 rounded bg-[#c8a96e] text-black font-bold">Sort</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Sheet tab menu */}
+      {sheetMenu && (() => {
+        const index = workbook.sheets.findIndex(s => s.id === sheetMenu.id);
+        const item = (label: string, action: () => void, disabled = false) => (
+          <button
+            disabled={disabled}
+            onClick={() => { setSheetMenu(null); action(); }}
+            className="block w-full text-left px-3 py-1 hover:bg-[#c8a96e]/20 disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            {label}
+          </button>
+        );
+        return (
+          <div className="fixed inset-0 z-40" onClick={() => setSheetMenu(null)} onContextMenu={e => { e.preventDefault(); setSheetMenu(null); }}>
+            <div
+              style={{ left: sheetMenu.x, bottom: window.innerHeight - sheetMenu.y }}
+              className="fixed w-40 py-1 bg-[#17171a] border border-[#2a2a30] rounded shadow-2xl text-[#e8e8ec]"
+              onClick={e => e.stopPropagation()}
+            >
+              {item('Rename', () => setRenamingSheet(sheetMenu.id))}
+              {item('Duplicate', () => handleDuplicateSheet(sheetMenu.id))}
+              {item('Move Left', () => handleMoveSheet(sheetMenu.id, index - 1), index <= 0)}
+              {item('Move Right', () => handleMoveSheet(sheetMenu.id, index + 1), index >= workbook.sheets.length - 1)}
+              {item('Delete', () => handleDeleteSheet(sheetMenu.id), workbook.sheets.length < 2)}
+            </div>
+          </div>
+        );
+      })()}
     </div>
   );
 };
 
 // --- PRESENTATION COMPONENT ---
-interface Slide { id: string; title: string; content: string; bg: string; }
-const Presentation = ({ doc, updateDoc, settings }: { doc: Document, updateDoc: (c: any) => void, settings: Settings }) => {
-  const [slides, setSlides] = useState<Slide[]>(Array.isArray(doc?.content) && doc.content.length > 0 ? doc.content : [{ id: '1', title: 'New Presentation', content: 'Click to edit', bg: 'bg-[#1e1e22]' }]);
+const RESIZE_HANDLES = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+// Moving, resizing or rotating only touches a draft of the selected elements;
+// the slide is updated once on release. `origin` is the slide's top-left on screen.
+interface ElementDrag {
+  mode: 'move' | 'resize' | 'rotate';
+  handle?: string;
+  startX: number;
+  startY: number;
+  origin: { left: number; top: number };
+  originals: SlideElement[];
+  draft: SlideElement[];
+}
+
+// Resizes against the handle being dragged. A single element is resized in
+// its own rotated frame, keeping the opposite side in place; a multiple
+// selection scales as one box. Shift on a corner keeps the proportions.
+const resizeDraft = (drag: ElementDrag, dx: number, dy: number, keepRatio: boolean): SlideElement[] => {
+  const single = drag.originals.length === 1 ? drag.originals[0] : null;
+  const box = single ?? boundsOf(drag.originals);
+  const angle = (single?.rotation ?? 0) * Math.PI / 180;
+  const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+  const [lx, ly] = [dx * cos + dy * sin, -dx * sin + dy * cos];
+  const h = drag.handle ?? '';
+  let [left, top, right, bottom] = [0, 0, box.width, box.height];
+  if (h.includes('w')) left = Math.min(right - 1, left + lx);
+  if (h.includes('e')) right = Math.max(left + 1, right + lx);
+  if (h.includes('n')) top = Math.min(bottom - 1, top + ly);
+  if (h.includes('s')) bottom = Math.max(top + 1, bottom + ly);
+  if (keepRatio && h.length === 2 && box.width && box.height) {
+    const k = Math.max((right - left) / box.width, (bottom - top) / box.height);
+    if (h.includes('w')) left = right - box.width * k;
+    else right = left + box.width * k;
+    if (h.includes('n')) top = bottom - box.height * k;
+    else bottom = top + box.height * k;
+  }
+  const width = right - left;
+  const height = bottom - top;
+  // Where the new centre lands, turned back into slide coordinates.
+  const [ox, oy] = [(left + right - box.width) / 2, (top + bottom - box.height) / 2];
+  const cx = box.x + box.width / 2 + ox * cos - oy * sin;
+  const cy = box.y + box.height / 2 + ox * sin + oy * cos;
+  const next = { x: Math.round(cx - width / 2), y: Math.round(cy - height / 2), width: Math.round(width), height: Math.round(height) };
+  // Lines may be flat, so they keep a zero side at zero.
+  if (single) return [{ ...single, ...next, height: single.type === 'line' && !single.height ? 0 : next.height, width: single.type === 'line' && !single.width ? 0 : next.width } as SlideElement];
+  return scaleElements(drag.originals, box, next);
+};
+
+const Presentation = ({ doc, docs, updateDoc, settings }: { doc: Document, docs: Document[], updateDoc: (c: any) => void, settings: Settings }) => {
+  const [deck, setDeck] = useState<Deck>(() => toDeck(doc?.content));
   const [activeSlide, setActiveSlide] = useState(0);
+  const [editingMaster, setEditingMaster] = useState(false);
+  const [layoutMenu, setLayoutMenu] = useState<{ x: number; y: number } | null>(null);
+  const [themeDialogOpen, setThemeDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
   const [presenting, setPresenting] = useState(false);
+  const [blackout, setBlackout] = useState(false);
+  // The show's last played build step, and whether it got there going forward.
+  const [build, setBuild] = useState({ step: 0, forward: true });
   const [aiPanelOpen, setAiPanelOpen] = useState(false);
+  const [animationPaneOpen, setAnimationPaneOpen] = useState(false);
   const [aiLoading, setAiLoading] = useState(false);
   const [aiResult, setAiResult] = useState('');
+  // The slide a generated set of speaker notes was written for.
+  const [aiNotesFor, setAiNotesFor] = useState<string | null>(null);
+  const [aiProposal, setAiProposal] = useState<{ topic: string; slides: AiSlide[] } | null>(null);
+  const [regenerating, setRegenerating] = useState<number | null>(null);
+  const [chartPickerOpen, setChartPickerOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [elementDrag, setElementDrag] = useState<ElementDrag | null>(null);
+  const [scale, canvasRef] = useFitScale(32);
+  const [presentScale, presentRef] = useFitScale();
+  const slideRef = useRef<HTMLDivElement>(null);
+  const canvasFocusRef = useRef<HTMLDivElement | null>(null);
+  const setCanvas = useCallback((node: HTMLDivElement | null) => {
+    canvasRef(node);
+    canvasFocusRef.current = node;
+  }, []);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const showChannelRef = useRef<BroadcastChannel | null>(null);
+  const showStartedAt = useRef(0);
+  // Answers presenter window messages with the latest deck and position.
+  const onShowMessage = useRef<(message: ShowMessage) => void>(() => {});
+  // The picture placeholder a chosen file goes into, if any.
+  const imageTarget = useRef<string | null>(null);
+
+  const { slides, theme } = deck;
+  // The master is edited like a slide of its own, over the theme background.
+  const currentSlide: Slide = editingMaster ? { id: 'master', elements: deck.master.elements } : slides[activeSlide] || slides[0];
+  const master = editingMaster ? [] : deck.master.elements;
+  const layoutPreviews = useMemo(() => LAYOUTS.map(l => createSlide(l.id)), []);
+  const sheetsVersion = spreadsheetVersion(docs);
+  const chartTheme = isDarkTheme(theme) ? 'dark' : 'light';
+  // Live charts are drawn from their workbook once per size until a spreadsheet is saved.
+  const chartCache = useMemo(() => new Map<string, string>(), [sheetsVersion, chartTheme]);
+  const drawChart = (el: ChartElement) => {
+    if (!el.ref) return el.svg;
+    const key = `${el.ref.docId}/${el.ref.sheetId}/${el.ref.chartId}@${Math.round(el.width)}x${Math.round(el.height)}`;
+    if (!chartCache.has(key)) chartCache.set(key, renderChartRef(docs, el.ref, { width: Math.round(el.width), height: Math.round(el.height) }, chartTheme) || el.svg);
+    return chartCache.get(key)!;
+  };
 
-  const currentSlide = slides[activeSlide] || slides[0] || { id: '1', title: '', content: '', bg: 'bg-[#1e1e22]' };
+  // The slide as shown, with any drag in progress applied.
+  const shownSlide = elementDrag
+    ? { ...currentSlide, elements: currentSlide.elements.map(e => elementDrag.draft.find(d => d.id === e.id) ?? e) }
+    : currentSlide;
+  const selected = shownSlide.elements.filter(e => selectedIds.includes(e.id));
+  const single = selected.length === 1 ? selected[0] : null;
 
   useEffect(() => {
-    if (doc?.content && Array.isArray(doc.content) && doc.content.length > 0) {
-      setSlides(doc.content);
-    }
+    setDeck(toDeck(doc?.content));
+    setActiveSlide(0);
+    setEditingMaster(false);
+    setSelectedIds([]);
+    setEditingId(null);
   }, [doc?.id]);
 
-  const updateSlides = (newSlides: Slide[]) => {
-    setSlides(newSlides);
-    updateDoc(newSlides);
+  const updateDeck = (next: Deck) => {
+    setDeck(next);
+    updateDoc(next);
   };
 
-  const addSlide = () => {
-    updateSlides([...slides, { id: Date.now().toString(), title: 'New Slide', content: 'Content here', bg: 'bg-[#1e1e22]' }]);
-    setActiveSlide(slides.length);
+  const updateSlides = (newSlides: Slide[]) => updateDeck({ ...deck, slides: newSlides });
+
+  const selectSlide = (i: number) => {
+    setActiveSlide(i);
+    setEditingMaster(false);
+    setSelectedIds([]);
+    setEditingId(null);
   };
 
-  const updateCurrentSlide = (field: keyof Slide, value: string) => {
+  // New slides go after the current one.
+  const addSlide = (layout: LayoutId) => {
+    setLayoutMenu(null);
+    const at = activeSlide + 1;
+    updateSlides([...slides.slice(0, at), createSlide(layout), ...slides.slice(at)]);
+    selectSlide(at);
+  };
+
+  const setLayout = (layout: LayoutId) => updateCurrentSlide(applyLayout(currentSlide, layout));
+
+  const applyTheme = (next: Theme) => {
+    setThemeDialogOpen(false);
+    updateDeck({ ...deck, theme: next });
+  };
+
+  const applyTransitionToAll = (transition: SlideTransition | undefined) =>
+    updateSlides(slides.map(s => ({ ...s, transition })));
+
+  const toggleMaster = () => {
+    setEditingMaster(!editingMaster);
+    setSelectedIds([]);
+    setEditingId(null);
+  };
+
+  const updateCurrentSlide = (patch: Partial<Slide>) => {
+    if (editingMaster) {
+      updateDeck({ ...deck, master: { elements: patch.elements ?? deck.master.elements } });
+      return;
+    }
     const newSlides = [...slides];
-    newSlides[activeSlide] = { ...newSlides[activeSlide], [field]: value };
+    newSlides[activeSlide] = { ...currentSlide, ...patch };
     updateSlides(newSlides);
   };
 
+  const setElements = (elements: SlideElement[]) => updateCurrentSlide({ elements });
+
+  const patchSelected = (patch: (e: SlideElement) => Partial<SlideElement>) =>
+    setElements(updateElements(currentSlide.elements, selectedIds, patch));
+
+  // --- ELEMENTS ---
+  const insertElement = (type: ElementType, props: Partial<SlideElement> = {}) => {
+    const el = createElement(type, currentSlide.elements, props);
+    setElements([...currentSlide.elements, el]);
+    setSelectedIds([el.id]);
+    setEditingId(type === 'text' ? el.id : null);
+  };
+
+  const insertChart = (source: ChartSource, live: boolean) => {
+    setChartPickerOpen(false);
+    const svg = renderChartRef(docs, source.ref, { width: 480, height: 270 }, chartTheme);
+    if (!svg) return;
+    insertElement('chart', { ref: live ? source.ref : undefined, svg } as Partial<SlideElement>);
+  };
+
+  const pickImage = (targetId: string | null) => {
+    imageTarget.current = targetId;
+    imageInputRef.current?.click();
+  };
+
+  // Images come in at their natural size, shrunk to fit two thirds of the
+  // slide, unless they fill a picture placeholder.
+  const insertImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const target = imageTarget.current;
+    e.target.value = '';
+    imageTarget.current = null;
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const src = reader.result as string;
+      if (target && currentSlide.elements.some(el => el.id === target)) {
+        setElements(updateElements(currentSlide.elements, [target], () => ({ src, alt: file.name } as Partial<SlideElement>)));
+        return;
+      }
+      const img = new Image();
+      img.onload = () => {
+        const k = Math.min(1, SLIDE_WIDTH * 2 / 3 / img.naturalWidth, SLIDE_HEIGHT * 2 / 3 / img.naturalHeight);
+        const [width, height] = [Math.round(img.naturalWidth * k), Math.round(img.naturalHeight * k)];
+        insertElement('image', { src, alt: file.name, width, height, x: (SLIDE_WIDTH - width) / 2, y: (SLIDE_HEIGHT - height) / 2 } as Partial<SlideElement>);
+      };
+      img.onerror = () => alert('That file could not be read as an image.');
+      img.src = src;
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const deleteSelected = () => {
+    const animations = currentSlide.animations?.filter(a => !selectedIds.includes(a.elementId));
+    updateCurrentSlide({ elements: removeElements(currentSlide.elements, selectedIds), animations: animations?.length ? animations : undefined });
+    setSelectedIds([]);
+    setEditingId(null);
+  };
+
+  const duplicateSelected = () => {
+    const { elements, ids } = duplicateElements(currentSlide.elements, selectedIds);
+    setElements(elements);
+    setSelectedIds(ids);
+  };
+
+  const tableEdit = (change: (rows: string[][]) => string[][]) =>
+    patchSelected(e => e.type === 'table' ? { rows: change(e.rows) } as Partial<SlideElement> : {});
+
+  // --- CANVAS INTERACTION ---
+  const startDrag = (e: any, mode: ElementDrag['mode'], ids: string[], handle?: string) => {
+    const rect = slideRef.current?.getBoundingClientRect();
+    const originals = currentSlide.elements.filter(el => ids.includes(el.id));
+    if (!rect || !originals.length) return;
+    setElementDrag({ mode, handle, startX: e.clientX, startY: e.clientY, origin: { left: rect.left, top: rect.top }, originals, draft: originals });
+  };
+
+  const onElementMouseDown = (e: any, el: SlideElement) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    const ids = withGroups(currentSlide.elements, [el.id]);
+    const already = ids.every(id => selectedIds.includes(id));
+    const next = e.shiftKey
+      ? already ? selectedIds.filter(id => !ids.includes(id)) : [...selectedIds, ...ids]
+      : already ? selectedIds : ids;
+    (document.activeElement as HTMLElement | null)?.blur();
+    setEditingId(null);
+    setSelectedIds(next);
+    canvasFocusRef.current?.focus();
+    if (next.includes(el.id)) startDrag(e, 'move', next);
+  };
+
+  const onElementDoubleClick = (e: any, el: SlideElement) => {
+    if (el.type === 'image') {
+      e.stopPropagation();
+      pickImage(el.id);
+      return;
+    }
+    if (el.type !== 'text' && el.type !== 'table') return;
+    e.stopPropagation();
+    setSelectedIds([el.id]);
+    setEditingId(el.id);
+  };
+
+  const onEditEnd = (el: SlideElement, patch: Partial<SlideElement>) => {
+    setEditingId(id => id === el.id ? null : id);
+    const current = currentSlide.elements.find(e => e.id === el.id);
+    if (current && (Object.keys(patch) as (keyof SlideElement)[]).some(k => JSON.stringify(current[k]) !== JSON.stringify(patch[k]))) {
+      setElements(updateElements(currentSlide.elements, [el.id], () => patch));
+    }
+  };
+
+  useEffect(() => {
+    if (!elementDrag) return;
+    const move = (e: MouseEvent) => {
+      const dx = (e.clientX - elementDrag.startX) / scale;
+      const dy = (e.clientY - elementDrag.startY) / scale;
+      let draft = elementDrag.originals;
+      if (elementDrag.mode === 'move') {
+        draft = elementDrag.originals.map(el => ({ ...el, x: Math.round(el.x + dx), y: Math.round(el.y + dy) }));
+      } else if (elementDrag.mode === 'resize') {
+        draft = resizeDraft(elementDrag, dx, dy, e.shiftKey);
+      } else {
+        const el = elementDrag.originals[0];
+        const px = (e.clientX - elementDrag.origin.left) / scale;
+        const py = (e.clientY - elementDrag.origin.top) / scale;
+        let angle = Math.atan2(py - (el.y + el.height / 2), px - (el.x + el.width / 2)) * 180 / Math.PI + 90;
+        // Snaps to 15° steps with Shift held.
+        if (e.shiftKey) angle = Math.round(angle / 15) * 15;
+        angle = Math.round((angle + 360) % 360);
+        draft = [{ ...el, rotation: angle || undefined }];
+      }
+      setElementDrag({ ...elementDrag, draft });
+    };
+    const end = () => {
+      const { originals, draft } = elementDrag;
+      setElementDrag(null);
+      if (draft.some((d, i) => d.x !== originals[i].x || d.y !== originals[i].y || d.width !== originals[i].width
+        || d.height !== originals[i].height || d.rotation !== originals[i].rotation)) {
+        setElements(currentSlide.elements.map(e => draft.find(d => d.id === e.id) ?? e));
+      }
+    };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', end);
+    return () => {
+      window.removeEventListener('mousemove', move);
+      window.removeEventListener('mouseup', end);
+    };
+  });
+
+  const handleCanvasKeyDown = (e: any) => {
+    if (!selectedIds.length || editingId) return;
+    const mod = e.ctrlKey || e.metaKey;
+    const arrows: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] };
+    if (e.key === 'Delete' || e.key === 'Backspace') deleteSelected();
+    else if (arrows[e.key]) {
+      const [dx, dy] = arrows[e.key].map(d => d * (e.shiftKey ? 10 : 1));
+      patchSelected(el => ({ x: el.x + dx, y: el.y + dy }));
+    } else if (e.key === 'Escape') setSelectedIds([]);
+    else if ((e.key === 'Enter' || e.key === 'F2') && single && (single.type === 'text' || single.type === 'table')) setEditingId(single.id);
+    else if (mod && e.key.toLowerCase() === 'g') setElements(e.shiftKey ? ungroupElements(currentSlide.elements, selectedIds) : groupElements(currentSlide.elements, selectedIds));
+    else if (mod && e.key.toLowerCase() === 'd') duplicateSelected();
+    else return;
+    e.preventDefault();
+  };
+
+  const keepFocus = (e: any) => e.preventDefault();
+
+  const textStyle = single?.type === 'text' ? single.style : null;
+  // Formats the selected text in the box being edited; mousedown is
+  // cancelled on these buttons so the text box keeps its selection.
+  const markText = (mark: TextMark) => textStyle && editSelection(html => toggleTextMark(html, mark, textStyle, theme));
+  const listText = (list: 'ul' | 'ol') => textStyle && editSelection(html => toggleTextList(html, list, textStyle, theme));
+  const setTextStyle = (patch: Partial<TextStyle>) =>
+    patchSelected(e => e.type === 'text' ? { style: { ...e.style, ...patch } } as Partial<SlideElement> : {});
+
+  const selectionOverlay = () => {
+    if (!selected.length) return null;
+    const hs = 8 / scale;
+    const frame = single ?? boundsOf(selected);
+    const handleStyle = (h: string): React.CSSProperties => ({
+      position: 'absolute', width: hs, height: hs, transform: 'translate(-50%, -50%)', cursor: `${h}-resize`,
+      left: h.includes('w') ? 0 : h.includes('e') ? '100%' : '50%',
+      top: h.includes('n') ? 0 : h.includes('s') ? '100%' : '50%'
+    });
+    return (
+      <>
+        {selected.length > 1 && selected.map(el => (
+          <div key={el.id} className="pointer-events-none border border-dashed border-[#c8a96e]/60" style={frameCss(el)} />
+        ))}
+        <div className="pointer-events-none" style={{ ...frameCss({ ...frame, rotation: single?.rotation } as SlideElement), outline: `${1 / scale}px solid #c8a96e` }}>
+          {!editingId && RESIZE_HANDLES.map(h => (
+            <div
+              key={h}
+              className="pointer-events-auto bg-[#c8a96e] border border-black"
+              style={handleStyle(h)}
+              onMouseDown={e => { if (e.button === 0) { e.stopPropagation(); startDrag(e, 'resize', selectedIds, h); } }}
+            />
+          ))}
+          {!editingId && single && (
+            <div
+              className="pointer-events-auto rounded-full bg-[#c8a96e] border border-black cursor-grab"
+              style={{ position: 'absolute', width: hs * 1.4, height: hs * 1.4, left: '50%', top: -24 / scale, transform: 'translate(-50%, -50%)' }}
+              onMouseDown={e => { if (e.button === 0) { e.stopPropagation(); startDrag(e, 'rotate', [single.id]); } }}
+              title="Rotate (Shift snaps to 15°)"
+            />
+          )}
+        </div>
+      </>
+    );
+  };
+
+  // Generated slides come back as JSON and are previewed before insertion.
+  const generateSlides = async (single: boolean) => {
+    const topic = window.prompt('Topic?');
+    if (!topic?.trim()) return;
+    setAiLoading(true);
+    setAiPanelOpen(true);
+    setAiResult('');
+    try {
+      const ask = single
+        ? `Write one slide with 3-5 bullet points about: ${topic}.`
+        : `Write a presentation of 5 to 8 slides about: ${topic}. Open with a title slide.`;
+      const res = await callClaude(`${ask}\n\n${AI_SLIDE_FORMAT}`, settings.anthropicApiKey, settings.aiModel, "You are an expert presentation designer and speaker.", 4000);
+      const proposals = parseAiSlides(res);
+      setAiProposal({ topic, slides: single ? proposals.slice(0, 1) : proposals });
+    } catch (e: any) {
+      setAiResult('Error: ' + e.message);
+    }
+    setAiLoading(false);
+  };
+
+  const regenerateAiSlide = async (index: number) => {
+    if (!aiProposal) return;
+    setRegenerating(index);
+    try {
+      const outline = aiProposal.slides.map((s, i) => `${i + 1}. ${s.title}`).join('\n');
+      const res = await callClaude(
+        `A presentation about "${aiProposal.topic}" has these slides:\n${outline}\n\n` +
+        `Write a new, different version of slide ${index + 1}. ${AI_SLIDE_FORMAT} The array must hold exactly one slide.`,
+        settings.anthropicApiKey, settings.aiModel, "You are an expert presentation designer and speaker.", 2000
+      );
+      const [slide] = parseAiSlides(res);
+      setAiProposal(p => p && { ...p, slides: p.slides.map((s, i) => i === index ? slide : s) });
+    } catch (e: any) {
+      alert('The slide could not be regenerated: ' + e.message);
+    }
+    setRegenerating(null);
+  };
+
+  // Accepted slides go after the current one.
+  const insertAiSlides = (chosen: AiSlide[]) => {
+    setAiProposal(null);
+    if (!chosen.length) return;
+    const at = editingMaster ? slides.length : activeSlide + 1;
+    updateSlides([...slides.slice(0, at), ...chosen.map(aiSlideToSlide), ...slides.slice(at)]);
+    selectSlide(at);
+  };
+
   const runAi = async (promptType: string) => {
+    if (promptType === 'Generate Slide from Topic' || promptType === 'Generate Full Deck') {
+      generateSlides(promptType === 'Generate Slide from Topic');
+      return;
+    }
     setAiLoading(true);
     setAiPanelOpen(true);
     try {
       let prompt = '';
-      if (promptType === 'Generate Slide from Topic') prompt = `Write a slide title and 3-5 bullet points for the topic: ${window.prompt('Topic?')}. Format as Title\n- Point 1\n- Point 2`;
-      else if (promptType === 'Generate Full Deck') prompt = `Write a 5-slide presentation about: ${window.prompt('Topic?')}. Format each slide with a title and bullet points.`;
-      else if (promptType === 'Rewrite Slide Content') prompt = `Rewrite this slide content for better impact:\n\n${currentSlide.content}`;
-      else if (promptType === 'Speaker Notes Generator') prompt = `Write speaker notes for this slide:\nTitle: ${currentSlide.title}\nContent: ${currentSlide.content}`;
-      
+      const text = slideText(currentSlide);
+      if (promptType === 'Rewrite Slide Content') prompt = `Rewrite this slide content for better impact:\n\n${text}`;
+      else if (promptType === 'Speaker Notes Generator') prompt = `Write speaker notes for this slide:\n${text}`;
+
       const res = await callClaude(prompt, settings.anthropicApiKey, settings.aiModel, "You are an expert presentation designer and speaker.");
       setAiResult(res);
+      setAiNotesFor(promptType === 'Speaker Notes Generator' && !editingMaster ? currentSlide.id : null);
     } catch (e: any) {
       setAiResult('Error: ' + e.message);
     }
     setAiLoading(false);
   };
 
+  const saveAiNotes = () => {
+    updateSlides(slides.map(s => s.id === aiNotesFor ? { ...s, notes: aiResult.trim() } : s));
+    setAiResult('');
+    setAiNotesFor(null);
+  };
+
   const exportHTML = () => {
-    let html = `<html><head><title>${doc.name}</title></head><body style="background:#0d0d0f;color:white;font-family:sans-serif;padding:2rem;">`;
+    let html = `<html><head><title>${doc.name}</title><style>${SLIDE_TEXT_CSS}</style></head><body style="background:#0d0d0f;color:white;font-family:sans-serif;padding:2rem;">`;
     slides.forEach((s, i) => {
-      html += `<div style="margin-bottom:2rem;padding:2rem;border:1px solid #333;border-radius:8px;background:#1e1e22;">`;
-      html += `<h2 style="color:#c8a96e;">Slide ${i+1}: ${s.title}</h2>`;
-      html += `<pre style="white-space:pre-wrap;font-family:inherit;font-size:1.2rem;">${s.content}</pre>`;
+      html += `<div style="margin-bottom:2rem;">`;
+      html += `<h2 style="color:#c8a96e;">Slide ${i+1}</h2>`;
+      html += `<div style="border:1px solid #333;border-radius:8px;overflow:hidden;width:max-content;">${slideHtml(s, deck, drawChart)}</div>`;
       html += `</div>`;
     });
     html += `</body></html>`;
@@ -647,63 +2318,332 @@ const Presentation = ({ doc, updateDoc, settings }: { doc: Document, updateDoc:
     a.click();
   };
 
+  const exportPPTX = async () => {
+    const blob = await writePptx(deck, drawChart, svgToPng);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${doc.name}.pptx`;
+    a.click();
+  };
+
+  const slidePng = (s: Slide): Promise<string> =>
+    pdfPages(slideHtml(s, deck, drawChart), SLIDE_WIDTH, SLIDE_HEIGHT, `${doc.name}.pdf`, 'png').outputImg('datauristring');
+
+  const exportDeck = async (options: DeckExport) => {
+    setExportDialogOpen(false);
+    const save = (url: string, name: string) => {
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = name;
+      a.click();
+    };
+    const svgUrl = (s: Slide) => URL.createObjectURL(new Blob([slideSvg(s, deck, drawChart)], { type: 'image/svg+xml' }));
+    try {
+      if (options.kind === 'pdf') {
+        const pages = printPages(deck, options.layout, doc.name, drawChart, options.perPage);
+        await pdfPages(pages.html, pages.width, pages.height, `${doc.name}.pdf`).save();
+      } else if (!options.allSlides) {
+        // Every slide is drawn over the master, so on its own it is an empty slide.
+        const s = editingMaster ? { ...currentSlide, elements: [] } : currentSlide;
+        const name = editingMaster ? 'Master' : `Slide ${activeSlide + 1}`;
+        save(options.kind === 'png' ? await slidePng(s) : svgUrl(s), `${doc.name} - ${name}.${options.kind}`);
+      } else {
+        const zip = new JSZip();
+        for (const [i, s] of slides.entries()) {
+          const name = `Slide ${i + 1}.${options.kind}`;
+          if (options.kind === 'png') zip.file(name, (await slidePng(s)).split(',')[1], { base64: true });
+          else zip.file(name, slideSvg(s, deck, drawChart));
+        }
+        save(URL.createObjectURL(await zip.generateAsync({ type: 'blob' })), `${doc.name}.zip`);
+      }
+    } catch (e: any) {
+      alert('Export failed: ' + (e?.message ?? e));
+    }
+  };
+
+  // --- SLIDE SHOW ---
+  const lastStep = (i: number) => buildSteps(slides[i]).length - 1;
+
+  const goToSlide = (i: number) => {
+    const target = Math.max(0, Math.min(slides.length - 1, i));
+    setBuild({ step: 0, forward: target >= activeSlide });
+    setActiveSlide(target);
+  };
+
+  const nextStep = () => {
+    if (build.step < lastStep(activeSlide)) setBuild({ step: build.step + 1, forward: true });
+    else if (activeSlide < slides.length - 1) goToSlide(activeSlide + 1);
+  };
+
+  // Going back shows the previous step, or the previous slide fully built.
+  const prevStep = () => {
+    if (build.step > 0) setBuild({ step: build.step - 1, forward: false });
+    else if (activeSlide > 0) {
+      setBuild({ step: lastStep(activeSlide - 1), forward: false });
+      setActiveSlide(activeSlide - 1);
+    }
+  };
+
+  // The presenter window has to be opened straight from the click, or it is blocked.
+  const startShow = (withPresenter: boolean) => {
+    setEditingMaster(false);
+    setSelectedIds([]);
+    setEditingId(null);
+    setBlackout(false);
+    setBuild({ step: 0, forward: true });
+    showStartedAt.current = Date.now();
+    if (withPresenter) window.open(presenterUrl(doc.id), `presenter-${doc.id}`, 'width=1200,height=760');
+    setPresenting(true);
+  };
+
+  const endShow = () => {
+    showChannelRef.current?.postMessage({ type: 'end' });
+    setPresenting(false);
+    setBlackout(false);
+  };
+
+  onShowMessage.current = message => {
+    const channel = showChannelRef.current;
+    if (message.type === 'hello') {
+      channel?.postMessage({ type: 'deck', deck: snapshotDeck(deck, drawChart), title: doc.name });
+      channel?.postMessage({ type: 'state', index: activeSlide, step: build.step, blackout, startedAt: showStartedAt.current });
+    } else if (message.type === 'go') goToSlide(message.index);
+    else if (message.type === 'next') nextStep();
+    else if (message.type === 'prev') prevStep();
+    else if (message.type === 'blackout') setBlackout(b => !b);
+    else if (message.type === 'end') {
+      setPresenting(false);
+      setBlackout(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!presenting) return;
+    const channel = showChannel(doc.id);
+    channel.onmessage = (e: MessageEvent<ShowMessage>) => onShowMessage.current(e.data);
+    showChannelRef.current = channel;
+    return () => {
+      channel.close();
+      showChannelRef.current = null;
+    };
+  }, [presenting, doc.id]);
+
+  useEffect(() => {
+    if (presenting) showChannelRef.current?.postMessage({ type: 'state', index: activeSlide, step: build.step, blackout, startedAt: showStartedAt.current });
+  }, [presenting, activeSlide, build.step, blackout]);
+
+  useShowKeys(presenting, {
+    count: slides.length,
+    go: goToSlide,
+    next: nextStep,
+    prev: prevStep,
+    blackout: () => setBlackout(b => !b),
+    end: endShow
+  });
+
   if (presenting) {
     return (
-      <div className="fixed inset-0 z-50 bg-black flex flex-col items-center justify-center" onClick={() => setActiveSlide(Math.min(slides.length - 1, activeSlide + 1))}>
-        <div className={`w-[1920px] h-[1080px] max-w-full max-h-full aspect-video ${currentSlide.bg} p-24 flex flex-col justify-center transition-all duration-500`}>
-          <h1 className="text-8xl font-serif text-[#c8a96e] mb-12" style={{fontFamily: settings?.defaultFont || 'Playfair Display'}}>{currentSlide.title}</h1>
-          <div className="text-5xl text-white whitespace-pre-wrap leading-relaxed">{currentSlide.content}</div>
-        </div>
-        <div className="absolute bottom-4 right-4 text-white/50 text-xl">{activeSlide + 1} / {slides.length}</div>
-        <button onClick={(e) => { e.stopPropagation(); setPresenting(false); }} className="absolute top-4 right-4 text-white/50 hover:text-white"><X size={32}/></button>
+      <div ref={presentRef} className="fixed inset-0 z-50 bg-black flex flex-col items-center justify-center" onClick={nextStep}>
+        <SlideShow deck={deck} index={activeSlide} step={build.step} forward={build.forward} scale={presentScale} drawChart={drawChart} />
+        {blackout
+          ? <div className="absolute inset-0 bg-black"></div>
+          : <div className="absolute bottom-4 right-4 text-white/50 text-xl">{activeSlide + 1} / {slides.length}</div>}
+        <button onClick={(e) => { e.stopPropagation(); endShow(); }} className="absolute top-4 right-4 text-white/20 hover:text-white"><X size={32}/></button>
       </div>
     );
   }
 
+  const tool = 'p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0';
+  const separator = <div className="h-6 w-px bg-[#2a2a30] mx-1 flex-shrink-0"></div>;
+  const selectClass = 'bg-[#1e1e22] text-[#e8e8ec] border border-[#2a2a30] rounded px-2 py-1 flex-shrink-0';
+
   return (
     <div className="flex h-full bg-[#0d0d0f] relative">
       {/* Thumbnails */}
       <div className="w-24 md:w-48 bg-[#17171a] border-r border-[#2a2a30] flex flex-col flex-shrink-0">
         <div className="p-2 border-b border-[#2a2a30] flex justify-between">
-          <button onClick={addSlide} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#c8a96e]" title="Add Slide"><Plus size={16}/></button>
+          <button
+            onClick={e => {
+              const r = e.currentTarget.getBoundingClientRect();
+              setLayoutMenu({ x: r.left, y: r.bottom + 4 });
+            }}
+            className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#c8a96e]"
+            title="Add Slide"
+          ><Plus size={16}/></button>
           <button onClick={exportHTML} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#888894] hover:text-[#c8a96e]" title="Export HTML"><Download size={16}/></button>
-          <button onClick={() => setPresenting(true)} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#c8a96e]" title="Present"><Play size={16}/></button>
+          <button onClick={exportPPTX} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#888894] hover:text-[#c8a96e]" title="Export PowerPoint (.pptx)"><FileDown size={16}/></button>
+          <button onClick={() => setExportDialogOpen(true)} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#888894] hover:text-[#c8a96e]" title="Export PDF or Pictures"><FileImage size={16}/></button>
+          <button onClick={() => startShow(false)} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#c8a96e]" title="Present"><Play size={16}/></button>
+          <button onClick={() => startShow(true)} className="p-1 hover:bg-[#c8a96e]/20 rounded text-[#c8a96e]" title="Presenter View"><MonitorPlay size={16}/></button>
         </div>
         <div className="flex-1 overflow-auto p-2 flex flex-col gap-2">
           {slides.map((s, i) => (
-            <div 
-              key={s.id} 
-              onClick={() => setActiveSlide(i)}
-              className={`aspect-video rounded border-2 cursor-pointer p-1 overflow-hidden text-[8px] ${s.bg} ${activeSlide === i ? 'border-[#c8a96e]' : 'border-[#2a2a30]'}`}
+            <div
+              key={s.id}
+              onClick={() => selectSlide(i)}
+              className={`rounded border-2 cursor-pointer overflow-hidden ${activeSlide === i && !editingMaster ? 'border-[#c8a96e]' : 'border-[#2a2a30]'}`}
             >
-              <div className="font-serif text-[#c8a96e] truncate">{s.title}</div>
-              <div className="text-white/50 truncate">{s.content}</div>
+              <div className="pointer-events-none"><SlideView slide={s} theme={theme} master={deck.master.elements} scale={0.17} drawChart={drawChart} /></div>
             </div>
           ))}
         </div>
       </div>
 
       {/* Main Canvas */}
-      <div className="flex-1 flex flex-col relative">
-        <div className="flex items-center justify-end p-2 gap-2 absolute top-0 right-0 z-10">
-          <button onClick={() => setAiPanelOpen(!aiPanelOpen)} className="px-3 py-1 bg-[#1e1e22] hover:bg-[#c8a96e]/20 border border-[#2a2a30] rounded text-[#c8a96e] flex items-center gap-1 text-sm"><Sparkles size={14}/> AI</button>
-        </div>
-        
-        <div className="flex-1 p-8 flex items-center justify-center overflow-auto">
-          <div className={`w-full max-w-4xl aspect-video shadow-2xl flex flex-col p-12 ${currentSlide.bg}`}>
-            <input 
-              value={currentSlide.title}
-              onChange={e => updateCurrentSlide('title', e.target.value)}
-              className="text-5xl font-serif text-[#c8a96e] bg-transparent border-none outline-none mb-8"
-              style={{fontFamily: settings?.defaultFont || 'Playfair Display'}}
-            />
-            <textarea 
-              value={currentSlide.content}
-              onChange={e => updateCurrentSlide('content', e.target.value)}
-              className="flex-1 text-2xl text-white bg-transparent border-none outline-none resize-none"
+      <div className="flex-1 flex flex-col relative min-w-0">
+        <div className="flex overflow-x-auto items-center gap-2 p-2 bg-[#17171a] border-b border-[#2a2a30] flex-shrink-0 text-sm">
+          <button onClick={() => insertElement('text')} className={tool} title="Text Box"><Type size={16}/></button>
+          <button onClick={() => pickImage(null)} className={tool} title="Image"><ImageIcon size={16}/></button>
+          <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={insertImage}/>
+          <select value="" onChange={e => e.target.value && insertElement('shape', { shape: e.target.value } as Partial<SlideElement>)} className={selectClass} title="Shape">
+            <option value="">Shape…</option>
+            {SHAPES.map(s => <option key={s.shape} value={s.shape}>{s.label}</option>)}
+          </select>
+          <button onClick={() => insertElement('line')} className={tool} title="Line"><Minus size={16}/></button>
+          <button onClick={() => insertElement('table')} className={tool} title="Table"><Table size={16}/></button>
+          <button onClick={() => setChartPickerOpen(true)} className={tool} title="Insert Chart"><ChartColumn size={16}/></button>
+          {separator}
+          {!editingMaster && <>
+            <select value={currentSlide.layout ?? ''} onChange={e => e.target.value && setLayout(e.target.value as LayoutId)} className={selectClass} title="Layout">
+              {!currentSlide.layout && <option value="">Layout…</option>}
+              {LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+            <ColorPicker
+              value={currentSlide.background ?? 'background'}
+              theme={theme}
+              title="Slide Background"
+              icon={<PaintBucket size={16}/>}
+              onChange={c => updateCurrentSlide({ background: c === 'background' ? undefined : c })}
             />
+          </>}
+          <button onClick={() => setThemeDialogOpen(true)} className={tool} title="Theme"><Palette size={16}/></button>
+          <button onClick={toggleMaster} className={`${tool} ${editingMaster ? 'text-[#c8a96e]' : ''}`} title={editingMaster ? 'Close Master' : 'Edit Master'}><LayoutPanelTop size={16}/></button>
+          {!editingMaster && <button onClick={() => { setAnimationPaneOpen(!animationPaneOpen); setAiPanelOpen(false); }} className={`${tool} ${animationPaneOpen ? 'text-[#c8a96e]' : ''}`} title="Animations"><WandSparkles size={16}/></button>}
+
+          {selected.length > 0 && <>
+            {separator}
+            <button onClick={() => setElements(reorderElements(currentSlide.elements, selectedIds, 'front'))} className={tool} title="Bring to Front"><BringToFront size={16}/></button>
+            <button onClick={() => setElements(reorderElements(currentSlide.elements, selectedIds, 'forward'))} className={tool} title="Bring Forward"><ChevronRight size={16} className="-rotate-90"/></button>
+            <button onClick={() => setElements(reorderElements(currentSlide.elements, selectedIds, 'backward'))} className={tool} title="Send Backward"><ChevronRight size={16} className="rotate-90"/></button>
+            <button onClick={() => setElements(reorderElements(currentSlide.elements, selectedIds, 'back'))} className={tool} title="Send to Back"><SendToBack size={16}/></button>
+            <button onClick={() => setElements(groupElements(currentSlide.elements, selectedIds))} disabled={selected.length < 2} className={`${tool} disabled:opacity-30`} title="Group (Ctrl+G)"><Group size={16}/></button>
+            <button onClick={() => setElements(ungroupElements(currentSlide.elements, selectedIds))} disabled={!selected.some(e => e.groupId)} className={`${tool} disabled:opacity-30`} title="Ungroup (Ctrl+Shift+G)"><Ungroup size={16}/></button>
+            <button onClick={duplicateSelected} className={tool} title="Duplicate (Ctrl+D)"><Copy size={16}/></button>
+            <button onClick={deleteSelected} className={`${tool} hover:text-red-400`} title="Delete"><Trash2 size={16}/></button>
+          </>}
+
+          {textStyle && <>
+            {separator}
+            <select value={textStyle.fontFamily ?? ''} onChange={e => setTextStyle({ fontFamily: e.target.value || undefined })} className={selectClass} title="Font">
+              <option value="">Default font</option>
+              <option value="heading">{theme.fonts.heading} (Headings)</option>
+              <option value="body">{theme.fonts.body} (Body)</option>
+              {textStyle.fontFamily && !['heading', 'body', ...FONT_CHOICES].includes(textStyle.fontFamily) && <option value={textStyle.fontFamily}>{textStyle.fontFamily}</option>}
+              {FONT_CHOICES.map(f => <option key={f} value={f}>{f}</option>)}
+            </select>
+            <input type="number" min={6} max={200} value={textStyle.fontSize} onChange={e => Number(e.target.value) > 0 && setTextStyle({ fontSize: Number(e.target.value) })} className={`w-14 ${selectClass}`} title="Font Size (pt)"/>
+            <ColorPicker value={textStyle.color} theme={theme} title="Text Color" icon={<Baseline size={16}/>} onChange={c => c && setTextStyle({ color: c })}/>
+            <ColorPicker value={textStyle.fill} theme={theme} title="Box Fill" icon={<PaintBucket size={16}/>} allowNone onChange={c => setTextStyle({ fill: c })}/>
+            <button onClick={() => setTextStyle({ align: 'left' })} className={`${tool} ${(textStyle.align ?? 'left') === 'left' ? 'text-[#c8a96e]' : ''}`} title="Align Left"><AlignLeft size={16}/></button>
+            <button onClick={() => setTextStyle({ align: 'center' })} className={`${tool} ${textStyle.align === 'center' ? 'text-[#c8a96e]' : ''}`} title="Align Center"><AlignCenter size={16}/></button>
+            <button onClick={() => setTextStyle({ align: 'right' })} className={`${tool} ${textStyle.align === 'right' ? 'text-[#c8a96e]' : ''}`} title="Align Right"><AlignRight size={16}/></button>
+            <select value={textStyle.valign ?? 'top'} onChange={e => setTextStyle({ valign: e.target.value as TextStyle['valign'] })} className={selectClass} title="Vertical Alignment">
+              <option value="top">Top</option>
+              <option value="middle">Middle</option>
+              <option value="bottom">Bottom</option>
+            </select>
+          </>}
+          {editingId && single?.type === 'text' && <>
+            {separator}
+            <button onMouseDown={keepFocus} onClick={() => markText('bold')} className={tool} title="Bold"><Bold size={16}/></button>
+            <button onMouseDown={keepFocus} onClick={() => markText('italic')} className={tool} title="Italic"><Italic size={16}/></button>
+            <button onMouseDown={keepFocus} onClick={() => markText('underline')} className={tool} title="Underline"><Underline size={16}/></button>
+            <button onMouseDown={keepFocus} onClick={() => listText('ul')} className={tool} title="Bulleted List"><List size={16}/></button>
+            <button onMouseDown={keepFocus} onClick={() => listText('ol')} className={tool} title="Numbered List"><ListOrdered size={16}/></button>
+          </>}
+
+          {single?.type === 'shape' && <>
+            {separator}
+            <select value={single.shape} onChange={e => patchSelected(() => ({ shape: e.target.value } as Partial<SlideElement>))} className={selectClass} title="Shape">
+              {SHAPES.map(s => <option key={s.shape} value={s.shape}>{s.label}</option>)}
+            </select>
+            <ColorPicker value={single.fill} theme={theme} title="Fill" icon={<PaintBucket size={16}/>} allowNone onChange={c => patchSelected(() => ({ fill: c ?? 'none' } as Partial<SlideElement>))}/>
+            <ColorPicker value={single.stroke} theme={theme} title="Outline" icon={<Square size={16}/>} allowNone onChange={c => patchSelected(() => ({ stroke: c, strokeWidth: c && !single.strokeWidth ? 2 : single.strokeWidth } as Partial<SlideElement>))}/>
+            <input type="number" min={0} max={40} value={single.strokeWidth ?? 0} onChange={e => patchSelected(() => ({ strokeWidth: Math.max(0, Number(e.target.value)) } as Partial<SlideElement>))} className={`w-14 ${selectClass}`} title="Outline Width"/>
+          </>}
+
+          {single?.type === 'line' && <>
+            {separator}
+            <ColorPicker value={single.stroke} theme={theme} title="Line Color" icon={<Baseline size={16}/>} onChange={c => c && patchSelected(() => ({ stroke: c } as Partial<SlideElement>))}/>
+            <input type="number" min={1} max={40} value={single.strokeWidth} onChange={e => patchSelected(() => ({ strokeWidth: Math.max(1, Number(e.target.value)) } as Partial<SlideElement>))} className={`w-14 ${selectClass}`} title="Line Width"/>
+            <button onClick={() => patchSelected(() => ({ arrowEnd: !single.arrowEnd || undefined } as Partial<SlideElement>))} className={`${tool} ${single.arrowEnd ? 'text-[#c8a96e]' : ''}`} title="Arrowhead"><MoveRight size={16}/></button>
+            <button onClick={() => patchSelected(() => ({ flip: !single.flip || undefined } as Partial<SlideElement>))} className={tool} title="Flip Direction"><Slash size={16}/></button>
+          </>}
+
+          {single?.type === 'table' && <>
+            {separator}
+            <button onClick={() => tableEdit(rows => [...rows, rows[0].map(() => '')])} className={`${tool} px-2`} title="Add Row">+ Row</button>
+            <button onClick={() => tableEdit(rows => rows.length > 1 ? rows.slice(0, -1) : rows)} className={`${tool} px-2`} title="Remove Last Row">− Row</button>
+            <button onClick={() => tableEdit(rows => rows.map(r => [...r, '']))} className={`${tool} px-2`} title="Add Column">+ Col</button>
+            <button onClick={() => tableEdit(rows => rows[0].length > 1 ? rows.map(r => r.slice(0, -1)) : rows)} className={`${tool} px-2`} title="Remove Last Column">− Col</button>
+            <button onClick={() => patchSelected(() => ({ headerRow: !single.headerRow || undefined } as Partial<SlideElement>))} className={`${tool} px-2 ${single.headerRow ? 'text-[#c8a96e]' : ''}`} title="Header Row">Header</button>
+            <input type="number" min={6} max={96} value={single.fontSize} onChange={e => Number(e.target.value) > 0 && patchSelected(() => ({ fontSize: Number(e.target.value) } as Partial<SlideElement>))} className={`w-14 ${selectClass}`} title="Font Size (pt)"/>
+          </>}
+
+          <button onClick={() => { setAiPanelOpen(!aiPanelOpen); setAnimationPaneOpen(false); }} className="ml-auto px-3 py-1 bg-[#1e1e22] hover:bg-[#c8a96e]/20 border border-[#2a2a30] rounded text-[#c8a96e] flex items-center gap-1 text-sm flex-shrink-0"><Sparkles size={14}/> AI</button>
+        </div>
+
+        {editingMaster && (
+          <div className="px-3 py-1 text-xs bg-[#c8a96e]/10 text-[#c8a96e] border-b border-[#2a2a30] flex-shrink-0">
+            Editing the slide master: anything placed here appears behind every slide. <button onClick={toggleMaster} className="underline">Close Master</button>
+          </div>
+        )}
+        <div
+          ref={setCanvas}
+          tabIndex={0}
+          onKeyDown={handleCanvasKeyDown}
+          onMouseDown={() => { setSelectedIds([]); setEditingId(null); }}
+          className="flex-1 flex items-center justify-center overflow-hidden outline-none min-h-0"
+        >
+          <div ref={slideRef} className={`shadow-2xl ${elementDrag?.mode === 'move' ? 'cursor-move' : ''}`}>
+            <SlideView
+              slide={shownSlide}
+              theme={theme}
+              master={master}
+              scale={scale}
+              drawChart={drawChart}
+              prompts
+              editingId={editingId}
+              onElementMouseDown={onElementMouseDown}
+              onElementDoubleClick={onElementDoubleClick}
+              onEditEnd={onEditEnd}
+            >
+              {animationPaneOpen && !editingMaster && <AnimationBadges slide={shownSlide} scale={scale}/>}
+              {selectionOverlay()}
+            </SlideView>
           </div>
         </div>
+        {!editingMaster && (
+          <textarea
+            value={currentSlide.notes ?? ''}
+            onChange={e => updateCurrentSlide({ notes: e.target.value || undefined })}
+            placeholder="Click to add speaker notes"
+            className="h-24 flex-shrink-0 resize-y bg-[#17171a] border-t border-[#2a2a30] p-3 text-sm text-[#e8e8ec] placeholder-[#888894] outline-none"
+            title="Speaker Notes"
+          />
+        )}
+
+        {animationPaneOpen && !editingMaster && (
+          <AnimationPane
+            slide={currentSlide}
+            selected={selected}
+            onChange={updateCurrentSlide}
+            onApplyToAll={applyTransitionToAll}
+            onSelect={id => { setSelectedIds(withGroups(currentSlide.elements, [id])); setEditingId(null); }}
+            onClose={() => setAnimationPaneOpen(false)}
+          />
+        )}
 
         {/* AI Sidebar */}
         {aiPanelOpen && (
@@ -722,12 +2662,46 @@ const Presentation = ({ doc, updateDoc, settings }: { doc: Document, updateDoc:
               {aiResult && (
                 <div className="mt-4 p-3 bg-[#1e1e22] border border-[#c8a96e]/50 rounded text-sm">
                   <div className="whitespace-pre-wrap mb-3">{aiResult}</div>
+                  {aiNotesFor && !aiResult.startsWith('Error: ') && (
+                    <button onClick={saveAiNotes} className="w-full bg-[#c8a96e] text-black py-1 rounded font-bold flex items-center justify-center gap-1"><StickyNote size={14}/> Save as Speaker Notes</button>
+                  )}
                 </div>
               )}
             </div>
           </div>
         )}
       </div>
+
+      {layoutMenu && (
+        <div className="fixed inset-0 z-40" onMouseDown={() => setLayoutMenu(null)}>
+          <div
+            style={{ left: layoutMenu.x, top: layoutMenu.y }}
+            className="fixed w-80 p-2 bg-[#17171a] border border-[#2a2a30] rounded shadow-2xl text-[#e8e8ec] text-xs grid grid-cols-2 gap-2"
+            onMouseDown={e => e.stopPropagation()}
+          >
+            {LAYOUTS.map((l, i) => (
+              <button key={l.id} onClick={() => addSlide(l.id)} className="flex flex-col gap-1 p-1 rounded hover:bg-[#c8a96e]/20 text-left">
+                <div className="pointer-events-none border border-[#2a2a30]"><SlideView slide={layoutPreviews[i]} theme={theme} master={deck.master.elements} scale={0.15} drawChart={drawChart} prompts /></div>
+                {l.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {themeDialogOpen && <ThemeDialog theme={theme} onApply={applyTheme} onClose={() => setThemeDialogOpen(false)} />}
+      {exportDialogOpen && <ExportDialog slideNumber={editingMaster ? 1 : activeSlide + 1} onExport={exportDeck} onClose={() => setExportDialogOpen(false)} />}
+      {aiProposal && (
+        <AiSlidesDialog
+          proposals={aiProposal.slides}
+          theme={theme}
+          master={deck.master.elements}
+          regenerating={regenerating}
+          onRegenerate={regenerateAiSlide}
+          onInsert={insertAiSlides}
+          onClose={() => setAiProposal(null)}
+        />
+      )}
+      {chartPickerOpen && <ChartPicker docs={docs} theme={chartTheme} onInsert={insertChart} onClose={() => setChartPickerOpen(false)} />}
     </div>
   );
 };
@@ -741,6 +2715,7 @@ export default function App() {
   const [search, setSearch] = useState('');
   const [filter, setFilter] = useState<DocType | 'all'>('all');
   const [loading, setLoading] = useState(true);
+  const writerHistory = useRef<HistoryControls | null>(null);
 
   useEffect(() => {
     const load = async () => {
@@ -767,7 +2742,7 @@ export default function App() {
       id: Date.now().toString(),
       name: `Untitled ${type}`,
       type,
-      content: type === 'writer' ? '' : type === 'spreadsheet' ? {} : [{ id: '1', title: 'New Presentation', content: 'Click to edit', bg: 'bg-[#1e1e22]' }],
+      content: type === 'writer' ? createWriterDoc() : type === 'spreadsheet' ? createWorkbook() : createDeck(),
       createdAt: Date.now(),
       savedAt: Date.now()
     };
@@ -807,12 +2782,13 @@ export default function App() {
     setLoading(true);
     try {
       let content = '';
+      let workbook: Workbook | null = null;
+      let deck: Deck | null = null;
       const ext = file.name.split('.').pop()?.toLowerCase();
+      const baseName = file.name.replace(`.${ext}`, '');
       
       if (ext === 'docx') {
-        const arrayBuffer = await file.arrayBuffer();
-        const result = await mammoth.convertToHtml({ arrayBuffer });
-        content = result.value;
+        content = await readDocx(await file.arrayBuffer());
       } else if (ext === 'pdf') {
         const arrayBuffer = await file.arrayBuffer();
         const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
@@ -829,6 +2805,19 @@ export default function App() {
         if (ext === 'txt') {
           content = content.split('\n').map(line => `<p>${line}</p>`).join('');
         }
+      } else if (ext === 'csv' || ext === 'tsv') {
+        workbook = { sheets: [{ id: 'sheet1', name: 'Sheet1', cells: rowsToCells(parseDelimited(await file.text(), ext === 'tsv' ? '\t' : ',')) }] };
+      } else if (ext === 'xlsx') {
+        const sheets = await readXlsx(await file.arrayBuffer());
+        workbook = {
+          sheets: sheets.map((s, i) => ({
+            id: `sheet${i + 1}`, name: s.name, cells: s.cells, colWidths: s.colWidths,
+            conditionalFormats: s.conditionalFormats.length ? s.conditionalFormats : undefined,
+            validations: s.validations.length ? s.validations : undefined
+          }))
+        };
+      } else if (ext === 'pptx') {
+        deck = await readPptx(await file.arrayBuffer());
       } else {
         alert('Unsupported file format');
         setLoading(false);
@@ -837,9 +2826,9 @@ export default function App() {
 
       const newDoc: Document = {
         id: Date.now().toString(),
-        name: file.name.replace(`.${ext}`, ''),
-        type: 'writer',
-        content: content,
+        name: baseName,
+        type: workbook ? 'spreadsheet' : deck ? 'presentation' : 'writer',
+        content: workbook ?? deck ?? htmlToDoc(content),
         createdAt: Date.now(),
         savedAt: Date.now()
       };
@@ -879,14 +2868,14 @@ export default function App() {
               <X size={8} strokeWidth={3} className="opacity-0 group-hover:opacity-100 transition-opacity" />
             </button>
             <button 
-              onClick={() => document.execCommand('undo')}
+              onClick={() => writerHistory.current ? writerHistory.current.undo() : document.execCommand('undo')}
               className="w-3.5 h-3.5 rounded-full bg-[#ffbd2e] border border-[#dea123] shadow-sm flex items-center justify-center text-black/60 hover:text-black transition-colors"
               title="Undo"
             >
               <Undo size={8} strokeWidth={3} className="opacity-0 group-hover:opacity-100 transition-opacity" />
             </button>
             <button 
-              onClick={() => document.execCommand('redo')}
+              onClick={() => writerHistory.current ? writerHistory.current.redo() : document.execCommand('redo')}
               className="w-3.5 h-3.5 rounded-full bg-[#27c93f] border border-[#1aab29] shadow-sm flex items-center justify-center text-black/60 hover:text-black transition-colors"
               title="Redo"
             >
@@ -940,7 +2929,7 @@ export default function App() {
                   <button onClick={() => createDoc('presentation')} className="flex-1 md:flex-none justify-center flex items-center gap-2 bg-[#1e1e22] hover:bg-[#c8a96e] hover:text-black border border-[#2a2a30] px-3 py-2 rounded transition-colors text-sm md:text-base"><PresentationIcon size={18}/> Deck</button>
                   <label className="flex-1 md:flex-none justify-center flex items-center gap-2 bg-[#1e1e22] hover:bg-[#c8a96e] hover:text-black border border-[#2a2a30] px-3 py-2 rounded transition-colors cursor-pointer text-sm md:text-base">
                     <Upload size={18}/> Import
-                    <input type="file" className="hidden" accept=".txt,.html,.docx,.pdf" onChange={handleImport} />
+                    <input type="file" className="hidden" accept=".txt,.html,.docx,.pdf,.csv,.tsv,.xlsx,.pptx" onChange={handleImport} />
                   </label>
                 </div>
               </div>
@@ -1002,9 +2991,9 @@ export default function App() {
         ) : (
           // Active Document Editor
           <div className="h-full">
-            {activeDoc.type === 'writer' && <Writer doc={activeDoc} updateDoc={updateActiveDoc} settings={settings} />}
+            {activeDoc.type === 'writer' && <Writer doc={activeDoc} docs={docs} updateDoc={updateActiveDoc} settings={settings} historyRef={writerHistory} />}
             {activeDoc.type === 'spreadsheet' && <Spreadsheet doc={activeDoc} updateDoc={updateActiveDoc} settings={settings} />}
-            {activeDoc.type === 'presentation' && <Presentation doc={activeDoc} updateDoc={updateActiveDoc} settings={settings} />}
+            {activeDoc.type === 'presentation' && <Presentation doc={activeDoc} docs={docs} updateDoc={updateActiveDoc} settings={settings} />}
           </div>
         )}
       </div>
@@ -1090,6 +3079,19 @@ export default function App() {
                     <option value="Arial">Arial</option>
                   </select>
                 </div>
+                <div className="flex items-center justify-between">
+                  <label className="text-sm">Your Name</label>
+                  <input
+                    value={settings.authorName ?? ''}
+                    placeholder="Shown on suggested edits"
+                    onChange={e => {
+                      const newSettings = { ...settings, authorName: e.target.value };
+                      setSettings(newSettings);
+                      saveSettings(newSettings);
+                    }}
+                    className="bg-[#0d0d0f] border border-[#2a2a30] rounded px-3 py-1 outline-none focus:border-[#c8a96e]"
+                  />
+                </div>
               </div>
 
               <div className="space-y-4">
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { ChartSource, listCharts, renderChartRef } from './embed.ts';
+
+// --- CHART PICKER ---
+// Lists the charts of every spreadsheet so Writer and Presentation can embed
+// one, either live (re-rendered from the workbook) or as a snapshot.
+interface ChartPickerProps {
+  docs: { id: string; name: string; type: string; content: any }[];
+  theme: 'dark' | 'light';
+  onInsert: (source: ChartSource, live: boolean) => void;
+  onClose: () => void;
+}
+
+export const ChartPicker = ({ docs, theme, onInsert, onClose }: ChartPickerProps) => {
+  const sources = useMemo(() => listCharts(docs), [docs]);
+  const [selected, setSelected] = useState(0);
+  const [live, setLive] = useState(true);
+  const source = sources[selected];
+  const preview = useMemo(() => source && renderChartRef(docs, source.ref, { width: 400, height: 240 }, theme), [source, docs, theme]);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#17171a] border border-[#2a2a30] rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col shadow-2xl text-[#e8e8ec]">
+        <div className="p-4 border-b border-[#2a2a30] flex justify-between items-center">
+          <h2 className="text-lg font-serif text-[#c8a96e]">Insert Chart</h2>
+          <button onClick={onClose} className="text-[#888894] hover:text-white"><X size={18}/></button>
+        </div>
+        {sources.length === 0 ? (
+          <div className="p-8 text-center text-[#888894]">No charts yet. Select data in a spreadsheet and use Insert Chart there first.</div>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-4 p-4 overflow-auto">
+            <div className="md:w-56 flex flex-col gap-1 overflow-auto">
+              {sources.map((s, i) => (
+                <button
+                  key={`${s.ref.docId}/${s.ref.sheetId}/${s.ref.chartId}`}
+                  onClick={() => setSelected(i)}
+                  className={`text-left px-2 py-1 rounded truncate ${i === selected ? 'bg-[#c8a96e]/20 text-[#c8a96e]' : 'hover:bg-[#1e1e22]'}`}
+                >
+                  {s.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 flex flex-col gap-3">
+              {preview && <div className="border border-[#2a2a30] rounded overflow-hidden [&>svg]:w-full [&>svg]:h-auto" dangerouslySetInnerHTML={{ __html: preview }} />}
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" checked={live} onChange={() => setLive(true)}/> Live: redraws when the spreadsheet changes
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" checked={!live} onChange={() => setLive(false)}/> Snapshot: keeps the chart as it is now
+              </label>
+            </div>
+          </div>
+        )}
+        <div className="p-4 border-t border-[#2a2a30] flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-1 rounded hover:bg-[#c8a96e]/20">Cancel</button>
+          <button onClick={() => source && onInsert(source, live)} disabled={!source} className="px-4 py-1 rounded bg-[#c8a96e] text-black font-bold disabled:opacity-40">Insert</button>
+        </div>
+      </div>
+    </div>
+  );
+};
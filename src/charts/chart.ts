@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellRange, indexToCol, toCellId } from '../spreadsheet/cellRef.ts';
+import { CellValue, isError } from '../spreadsheet/values.ts';
+
+// --- CHART MODEL ---
+// A chart lives on a sheet, floats over its grid at (x, y) px from the top-left
+// of cell A1, and plots `range` of that sheet. Charts hold no data of their
+// own; it is read from the cells every time the chart is drawn.
+export type ChartType = 'bar' | 'line' | 'area' | 'pie' | 'scatter' | 'combo';
+
+export const CHART_TYPES: { type: ChartType; label: string }[] = [
+  { type: 'bar', label: 'Column' },
+  { type: 'line', label: 'Line' },
+  { type: 'area', label: 'Area' },
+  { type: 'pie', label: 'Pie' },
+  { type: 'scatter', label: 'Scatter' },
+  { type: 'combo', label: 'Combo' }
+];
+
+export interface Chart {
+  id: string;
+  type: ChartType;
+  title?: string;
+  range: CellRange;
+  seriesIn: 'columns' | 'rows';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ChartSeries {
+  name: string;
+  values: (number | null)[];
+  kind: 'bar' | 'line' | 'area';
+}
+
+// What the renderer draws. For scatter charts `x` holds each point's x value.
+export interface ChartData {
+  categories: string[];
+  x?: (number | null)[];
+  series: ChartSeries[];
+}
+
+export const createChart = (charts: Chart[], range: CellRange, at: { x: number; y: number }): Chart => {
+  const ids = new Set(charts.map(c => c.id));
+  let n = charts.length + 1;
+  while (ids.has(`chart${n}`)) n++;
+  const rows = range.r2 - range.r1 + 1;
+  const cols = range.c2 - range.c1 + 1;
+  return {
+    id: `chart${n}`, type: 'bar', range, seriesIn: rows >= cols ? 'columns' : 'rows',
+    x: at.x, y: at.y, width: 480, height: 300
+  };
+};
+
+const isText = (v: CellValue) => typeof v === 'string' && v !== '';
+const asNumber = (v: CellValue) => typeof v === 'number' ? v : typeof v === 'boolean' ? Number(v) : null;
+
+// Reads a chart's range the way Excel guesses it: a first row of text names
+// the series, a first column of text labels the categories. Scatter charts
+// take a numeric first column as the x values.
+export const chartData = (
+  chart: Pick<Chart, 'type' | 'range' | 'seriesIn'>, valueOf: (id: string) => CellValue, display: (id: string) => string
+): ChartData => {
+  const { range } = chart;
+  const byCols = chart.seriesIn === 'columns';
+  // Position (i, j): i walks along a series, j across the series.
+  const lines = byCols ? range.c2 - range.c1 + 1 : range.r2 - range.r1 + 1;
+  const length = byCols ? range.r2 - range.r1 + 1 : range.c2 - range.c1 + 1;
+  const idAt = (i: number, j: number) => byCols ? toCellId(range.c1 + j, range.r1 + i) : toCellId(range.c1 + i, range.r1 + j);
+  const at = (i: number, j: number) => {
+    const v = valueOf(idAt(i, j));
+    return isError(v) ? null : v;
+  };
+
+  let hasNames = false;
+  for (let j = 0; j < lines; j++) if (isText(at(0, j))) hasNames = true;
+  const first = hasNames ? 1 : 0;
+  let textLabels = false;
+  for (let i = first; i < length; i++) if (isText(at(i, 0))) textLabels = true;
+  const hasLabels = lines > 1 && (textLabels || chart.type === 'scatter');
+
+  const points: number[] = [];
+  for (let i = first; i < length; i++) points.push(i);
+  const categories = points.map((i, k) => hasLabels ? display(idAt(i, 0)) : String(k + 1));
+  const series: ChartSeries[] = [];
+  for (let j = hasLabels ? 1 : 0; j < lines; j++) {
+    const fallback = byCols ? `Column ${indexToCol(range.c1 + j)}` : `Row ${range.r1 + j + 1}`;
+    series.push({
+      name: hasNames ? display(idAt(0, j)) || fallback : fallback,
+      values: points.map(i => asNumber(at(i, j))),
+      kind: chart.type === 'line' ? 'line' : chart.type === 'area' ? 'area'
+        : chart.type === 'combo' && series.length > 0 ? 'line' : 'bar'
+    });
+  }
+  const data: ChartData = { categories, series };
+  if (chart.type === 'scatter' && hasLabels && !textLabels) data.x = points.map(i => asNumber(at(i, 0)));
+  return data;
+};
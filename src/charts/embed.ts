@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { cellNumFmt, createEngine } from '../spreadsheet/engine.ts';
+import { formatValue } from '../spreadsheet/values.ts';
+import { toWorkbook } from '../spreadsheet/workbook.ts';
+import { Chart, chartData } from './chart.ts';
+import { renderChartSvg } from './svg.ts';
+
+// --- EMBEDDING ---
+// Writer documents and slides refer to a spreadsheet chart by document, sheet
+// and chart id. A live embed is re-rendered from the workbook whenever it is
+// shown; a snapshot keeps the SVG it was inserted with.
+export interface ChartRef { docId: string; sheetId: string; chartId: string; }
+
+export interface ChartSource {
+  ref: ChartRef;
+  label: string; // "Budget / Sheet1 / Revenue", for pickers
+  chart: Chart;
+}
+
+interface SpreadsheetDoc { id: string; name: string; type: string; content: any; }
+
+// Every chart in every spreadsheet document.
+export const listCharts = (docs: SpreadsheetDoc[]): ChartSource[] =>
+  docs.filter(d => d.type === 'spreadsheet').flatMap(d => toWorkbook(d.content).sheets.flatMap(s =>
+    (s.charts ?? []).map(chart => ({
+      ref: { docId: d.id, sheetId: s.id, chartId: chart.id },
+      label: `${d.name} / ${s.name} / ${chart.title || chart.id}`,
+      chart
+    }))));
+
+// Renders the chart's current state, evaluating its workbook; null when the
+// document, sheet or chart no longer exists.
+export const renderChartRef = (
+  docs: SpreadsheetDoc[], ref: ChartRef, size: { width: number; height: number }, theme: 'dark' | 'light'
+): string | null => {
+  const doc = docs.find(d => d.id === ref.docId && d.type === 'spreadsheet');
+  if (!doc) return null;
+  const workbook = toWorkbook(doc.content);
+  const sheet = workbook.sheets.find(s => s.id === ref.sheetId);
+  const chart = sheet?.charts?.find(c => c.id === ref.chartId);
+  if (!sheet || !chart) return null;
+  const engine = createEngine();
+  engine.load(workbook.sheets);
+  const valueOf = (id: string) => engine.getValue(sheet.id, id);
+  const data = chartData(chart, valueOf, id => formatValue(valueOf(id), cellNumFmt(sheet.cells[id])).text);
+  return renderChartSvg(chart, data, { ...size, theme });
+};
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { escapeXml } from '../shared/ooxml.ts';
+import type { Chart, ChartData } from './chart.ts';
+
+// --- SVG RENDERING ---
+// Charts render to a self-contained SVG string, so the same output can float
+// over the grid, sit inside a Writer document's HTML or be stored on a slide.
+export const CHART_COLORS = ['#c8a96e', '#5b8def', '#e06c75', '#98c379', '#c678dd', '#56b6c2', '#d19a66', '#8f96a3'];
+
+export interface ChartSvgOptions {
+  width: number;
+  height: number;
+  theme?: 'dark' | 'light';
+}
+
+const THEMES = {
+  dark: { background: '#17171a', text: '#e8e8ec', muted: '#888894', grid: '#2a2a30', axis: '#55555e' },
+  light: { background: '#ffffff', text: '#1e1e22', muted: '#5f5f6b', grid: '#e4e4ea', axis: '#9a9aa6' }
+};
+
+const FONT = 'system-ui, -apple-system, Segoe UI, sans-serif';
+const CHAR_WIDTH = 6.5; // rough width of an 11px character, for layout only
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Axis bounds and step at "nice" intervals (1, 2, 2.5 or 5 times a power of ten).
+const niceScale = (min: number, max: number, maxTicks: number) => {
+  if (min === max) {
+    if (min === 0) max = 1;
+    else if (min > 0) min = 0;
+    else max = 0;
+  }
+  const rough = (max - min) / Math.max(1, maxTicks);
+  const power = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 2.5, 5, 10].map(m => m * power).find(s => s >= rough) ?? 10 * power;
+  return { min: Math.floor(min / step) * step, max: Math.ceil(max / step) * step, step };
+};
+
+const formatTick = (v: number, step: number) => {
+  const abs = Math.abs(v);
+  if (abs >= 1e9 && step >= 1e8) return `${Number((v / 1e9).toPrecision(4))}B`;
+  if (abs >= 1e6 && step >= 1e5) return `${Number((v / 1e6).toPrecision(4))}M`;
+  if (abs >= 1e3 && step >= 1e2) return `${Number((v / 1e3).toPrecision(4))}K`;
+  return String(Number(v.toPrecision(10)));
+};
+
+const text = (x: number, y: number, s: string, attrs: string) =>
+  `<text x="${round(x)}" y="${round(y)}" ${attrs}>${escapeXml(s)}</text>`;
+
+export const renderChartSvg = (chart: Pick<Chart, 'type' | 'title'>, data: ChartData, options: ChartSvgOptions): string => {
+  const { width, height } = options;
+  const theme = THEMES[options.theme ?? 'dark'];
+  const out: string[] = [];
+  const pad = 12;
+  let top = pad;
+  if (chart.title) {
+    out.push(text(width / 2, top + 14, chart.title, `text-anchor="middle" font-size="14" font-weight="600" fill="${theme.text}"`));
+    top += 26;
+  }
+
+  // Legend along the bottom: series, or for pie charts the slices.
+  const isPie = chart.type === 'pie';
+  const legend = isPie ? data.categories : data.series.map(s => s.name);
+  const legendHeight = legend.length > (isPie ? 0 : 1) ? 22 : 0;
+  if (legendHeight) {
+    const items = legend.map(name => ({ name, w: 16 + name.length * CHAR_WIDTH + 14 }));
+    const total = items.reduce((sum, i) => sum + i.w, 0);
+    let x = Math.max(pad, (width - total) / 2);
+    const y = height - pad - 6;
+    items.forEach((item, i) => {
+      if (x + item.w > width - pad) return;
+      out.push(`<rect x="${round(x)}" y="${round(y - 9)}" width="10" height="10" rx="2" fill="${CHART_COLORS[i % CHART_COLORS.length]}"/>`);
+      out.push(text(x + 15, y, item.name, `font-size="11" fill="${theme.muted}"`));
+      x += item.w;
+    });
+  }
+  const bottom = height - pad - legendHeight;
+
+  if (isPie) out.push(pie(data, width, top, bottom, theme));
+  else out.push(cartesian(chart.type === 'scatter', data, width, top, bottom, theme));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT}">`
+    + `<rect width="${width}" height="${height}" fill="${theme.background}"/>${out.join('')}</svg>`;
+};
+
+const pie = (data: ChartData, width: number, top: number, bottom: number, theme: typeof THEMES.dark) => {
+  const values = (data.series[0]?.values ?? []).map(v => v !== null && v > 0 ? v : 0);
+  const total = values.reduce((a, b) => a + b, 0);
+  if (!total) return text(width / 2, (top + bottom) / 2, 'No data', `text-anchor="middle" font-size="12" fill="${theme.muted}"`);
+  const cx = width / 2;
+  const cy = (top + bottom) / 2;
+  const r = Math.max(10, Math.min(width - 24, bottom - top) / 2 - 4);
+  const out: string[] = [];
+  let angle = -Math.PI / 2;
+  values.forEach((v, i) => {
+    if (!v) return;
+    const sweep = (v / total) * Math.PI * 2;
+    const color = CHART_COLORS[i % CHART_COLORS.length];
+    if (sweep >= Math.PI * 2 - 1e-9) {
+      out.push(`<circle cx="${round(cx)}" cy="${round(cy)}" r="${round(r)}" fill="${color}"/>`);
+    } else {
+      const x1 = cx + r * Math.cos(angle), y1 = cy + r * Math.sin(angle);
+      const x2 = cx + r * Math.cos(angle + sweep), y2 = cy + r * Math.sin(angle + sweep);
+      out.push(`<path d="M${round(cx)},${round(cy)} L${round(x1)},${round(y1)} A${round(r)},${round(r)} 0 ${sweep > Math.PI ? 1 : 0} 1 ${round(x2)},${round(y2)} Z" fill="${color}" stroke="${theme.background}" stroke-width="1"/>`);
+    }
+    if (v / total >= 0.05) {
+      const mid = angle + sweep / 2;
+      const label = `${Math.round((v / total) * 100)}%`;
+      out.push(text(cx + r * 0.65 * Math.cos(mid), cy + r * 0.65 * Math.sin(mid) + 4, label, `text-anchor="middle" font-size="11" font-weight="600" fill="#111111"`));
+    }
+    angle += sweep;
+  });
+  return out.join('');
+};
+
+// Smallest and largest of any number of values; spreading a long series
+// into Math.min would overflow the stack.
+const bounds = (values: number[]) =>
+  values.reduce(([lo, hi], v) => [Math.min(lo, v), Math.max(hi, v)], [Infinity, -Infinity]);
+
+const cartesian = (scatter: boolean, data: ChartData, width: number, top: number, bottom: number, theme: typeof THEMES.dark) => {
+  const out: string[] = [];
+  const all = data.series.flatMap(s => s.values).filter((v): v is number => v !== null);
+  if (!all.length) return text(width / 2, (top + bottom) / 2, 'No data', `text-anchor="middle" font-size="12" fill="${theme.muted}"`);
+
+  // The value axis always includes zero, so bars and areas have a baseline.
+  const plotBottom = bottom - 20;
+  const [lo, hi] = bounds(all);
+  const y = niceScale(Math.min(0, lo), Math.max(0, hi), Math.max(2, Math.floor((plotBottom - top) / 40)));
+  const yTicks: number[] = [];
+  for (let v = y.min; v <= y.max + y.step / 2; v += y.step) yTicks.push(v);
+  const labelWidth = Math.max(...yTicks.map(v => formatTick(v, y.step).length)) * CHAR_WIDTH;
+  const left = 12 + labelWidth + 6;
+  const right = width - 16;
+  const plotW = Math.max(1, right - left);
+  const plotH = Math.max(1, plotBottom - top);
+  const py = (v: number) => plotBottom - ((v - y.min) / (y.max - y.min)) * plotH;
+
+  yTicks.forEach(v => {
+    out.push(`<line x1="${round(left)}" x2="${round(right)}" y1="${round(py(v))}" y2="${round(py(v))}" stroke="${v === 0 ? theme.axis : theme.grid}" stroke-width="1"/>`);
+    out.push(text(left - 6, py(v) + 4, formatTick(v, y.step), `text-anchor="end" font-size="11" fill="${theme.muted}"`));
+  });
+
+  // Scatter charts have a numeric x axis; the others a category per point.
+  let px: (i: number) => number;
+  const n = data.categories.length;
+  if (scatter) {
+    const xs = (data.x ?? data.categories.map((_, i) => i + 1)).map(v => v ?? 0);
+    const [xMin, xMax] = bounds(xs);
+    const x = niceScale(xMin, xMax, Math.max(2, Math.floor(plotW / 80)));
+    const sx = (v: number) => left + ((v - x.min) / (x.max - x.min)) * plotW;
+    for (let v = x.min; v <= x.max + x.step / 2; v += x.step) {
+      out.push(`<line x1="${round(sx(v))}" x2="${round(sx(v))}" y1="${round(top)}" y2="${round(plotBottom)}" stroke="${theme.grid}" stroke-width="1"/>`);
+      out.push(text(sx(v), plotBottom + 14, formatTick(v, x.step), `text-anchor="middle" font-size="11" fill="${theme.muted}"`));
+    }
+    px = i => sx(xs[i]);
+  } else {
+    const band = plotW / Math.max(1, n);
+    px = i => left + band * (i + 0.5);
+    const widest = data.categories.reduce((w, c) => Math.max(w, c.length), 0) * CHAR_WIDTH + 8;
+    const every = Math.max(1, Math.ceil(widest / band));
+    data.categories.forEach((c, i) => {
+      if (i % every) return;
+      out.push(text(px(i), plotBottom + 14, c, `text-anchor="middle" font-size="11" fill="${theme.muted}"`));
+    });
+  }
+
+  // Bars first so lines and markers are drawn over them.
+  const bars = data.series.filter(s => s.kind === 'bar' && !scatter);
+  const band = plotW / Math.max(1, n);
+  const barW = (band * 0.7) / Math.max(1, bars.length);
+  data.series.forEach((s, si) => {
+    if (s.kind !== 'bar' || scatter) return;
+    const color = CHART_COLORS[si % CHART_COLORS.length];
+    const slot = bars.indexOf(s);
+    s.values.forEach((v, i) => {
+      if (v === null) return;
+      const x = left + band * i + band * 0.15 + slot * barW;
+      const y0 = py(0);
+      const y1 = py(v);
+      out.push(`<rect x="${round(x)}" y="${round(Math.min(y0, y1))}" width="${round(Math.max(1, barW - 1))}" height="${round(Math.abs(y1 - y0))}" fill="${color}"/>`);
+    });
+  });
+  data.series.forEach((s, si) => {
+    if (s.kind === 'bar' && !scatter) return;
+    const color = CHART_COLORS[si % CHART_COLORS.length];
+    const points = s.values.map((v, i) => v === null ? null : [px(i), py(v)] as const);
+    if (!scatter) {
+      // Gaps (blank cells) break the line.
+      const runs: (readonly [number, number])[][] = [[]];
+      points.forEach(p => p ? runs[runs.length - 1].push(p) : runs.push([]));
+      runs.filter(r => r.length).forEach(run => {
+        const d = run.map(([x, yv], k) => `${k ? 'L' : 'M'}${round(x)},${round(yv)}`).join(' ');
+        if (s.kind === 'area') {
+          const base = py(0);
+          out.push(`<path d="${d} L${round(run[run.length - 1][0])},${round(base)} L${round(run[0][0])},${round(base)} Z" fill="${color}" fill-opacity="0.35"/>`);
+        }
+        out.push(`<path d="${d}" fill="none" stroke="${color}" stroke-width="2" stroke-linejoin="round"/>`);
+      });
+    }
+    points.forEach(p => {
+      if (p) out.push(`<circle cx="${round(p[0])}" cy="${round(p[1])}" r="${scatter ? 4 : 3}" fill="${color}"/>`);
+    });
+  });
+  return out.join('');
+};
+
+// --- RASTERIZING ---
+// Draws an SVG string into a PNG data URL, `scale` times its size, for
+// formats that can't hold vector drawings.
+export const svgToPng = (svg: string, width: number, height: number, scale = 2) => new Promise<string>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    resolve(canvas.toDataURL('image/png'));
+  };
+  img.onerror = () => reject(new Error('The drawing could not be rasterized'));
+  img.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+});
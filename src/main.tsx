@@ -1,10 +1,14 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import {PresenterWindow} from './slides/PresenterWindow.tsx';
 import './index.css';
 
+// A presenter window opened from a running slide show.
+const presenterFor = new URLSearchParams(location.search).get('presenter');
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {presenterFor ? <PresenterWindow docId={presenterFor} /> : <App />}
   </StrictMode>,
 );
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import JSZip from 'jszip';
+
+// --- OOXML PACKAGES ---
+// Helpers shared by the xlsx/pptx/docx readers and writers: a package is a
+// zip of XML parts linked together by _rels/*.rels relationship files.
+
+export const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    // Control characters other than tab/CR/LF are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+export const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+export const openPackage = (data: ArrayBuffer) => JSZip.loadAsync(data);
+
+// Zips `parts` (package path -> XML text, or bytes for media) in insertion
+// order; [Content_Types].xml should come first.
+export const buildPackage = (parts: Record<string, string | Uint8Array>, mimeType: string) => {
+  const zip = new JSZip();
+  Object.entries(parts).forEach(([path, xml]) => zip.file(path, xml));
+  return zip.generateAsync({ type: 'blob', mimeType, compression: 'DEFLATE' });
+};
+
+export const readPart = async (zip: JSZip, path: string): Promise<XMLDocument | null> => {
+  const file = zip.file(path.replace(/^\//, ''));
+  if (!file) return null;
+  const text = await file.async('string');
+  return new DOMParser().parseFromString(text, 'application/xml');
+};
+
+// Resolves a relationship target relative to the part that owns the .rels file.
+export const resolveTarget = (fromPart: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = fromPart.split('/').slice(0, -1);
+  target.split('/').forEach(seg => {
+    if (seg === '..') parts.pop();
+    else if (seg !== '.') parts.push(seg);
+  });
+  return parts.join('/');
+};
+
+export interface Relationship { id: string; type: string; target: string; external: boolean; }
+
+// Reads the relationships of `part` (e.g. xl/workbook.xml -> xl/_rels/workbook.xml.rels),
+// with internal targets resolved to package paths.
+export const readRels = async (zip: JSZip, part: string): Promise<Record<string, Relationship>> => {
+  const dir = part.split('/').slice(0, -1).join('/');
+  const name = part.split('/').pop();
+  const doc = await readPart(zip, `${dir ? dir + '/' : ''}_rels/${name}.rels`);
+  const rels: Record<string, Relationship> = {};
+  if (!doc) return rels;
+  Array.from(doc.getElementsByTagName('Relationship')).forEach(el => {
+    const external = el.getAttribute('TargetMode') === 'External';
+    const target = el.getAttribute('Target') || '';
+    const id = el.getAttribute('Id') || '';
+    rels[id] = { id, type: el.getAttribute('Type') || '', target: external ? target : resolveTarget(part, target), external };
+  });
+  return rels;
+};
+
+// Direct children with the given local name (ignores namespace prefixes).
+export const childrenByName = (el: Element, name: string) =>
+  Array.from(el.children).filter(c => c.localName === name);
+
+export const firstChild = (el: Element, name: string): Element | undefined =>
+  Array.from(el.children).find(c => c.localName === name);
+
+// Descendants by local name, for documents that mix prefixed namespaces.
+export const descendantsByName = (root: Document | Element, name: string) =>
+  Array.from(root.getElementsByTagNameNS('*', name));
+
+// --- PICTURES ---
+// Media parts by file extension.
+export const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png', jpeg: 'image/jpeg', jpg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp', svg: 'image/svg+xml', webp: 'image/webp'
+};
+
+// Draws SVG (charts, SVG pictures) as a PNG data URL, for formats that need bitmaps.
+export type Rasterizer = (svg: string, width: number, height: number) => Promise<string>;
+
+export const decodeDataUrl = (url: string) => {
+  const m = /^data:([^;,]+)((?:;[^;,]+)*?)(;base64)?,(.*)$/s.exec(url);
+  if (!m) return null;
+  const raw = m[3] ? atob(m[4]) : decodeURIComponent(m[4]);
+  const bytes = m[3] ? Uint8Array.from(raw, c => c.charCodeAt(0)) : new TextEncoder().encode(raw);
+  return { mime: m[1].toLowerCase(), bytes };
+};
+
+// Pixel size from a PNG, GIF or JPEG header.
+export const imageSize = (b: Uint8Array): [number, number] | null => {
+  if (b[0] === 0x89 && b[1] === 0x50 && b.length > 24) {
+    const u32 = (i: number) => ((b[i] << 24) | (b[i + 1] << 16) | (b[i + 2] << 8) | b[i + 3]) >>> 0;
+    return [u32(16), u32(20)];
+  }
+  if (b[0] === 0x47 && b[1] === 0x49 && b.length > 10) return [b[6] | (b[7] << 8), b[8] | (b[9] << 8)];
+  if (b[0] === 0xff && b[1] === 0xd8) {
+    let i = 2;
+    while (i + 9 < b.length && b[i] === 0xff) {
+      const marker = b[i + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) return [(b[i + 7] << 8) | b[i + 8], (b[i + 5] << 8) | b[i + 6]];
+      i += 2 + ((b[i + 2] << 8) | b[i + 3]);
+    }
+  }
+  return null;
+};
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import html2pdf from 'html2pdf.js';
+
+// --- PDF PAGES ---
+// Renders laid-out pages to PDF. html2pdf cuts the rendered pages at the page
+// height, so its pages are sized in the same pixels as the HTML. Returns the
+// html2pdf worker, to be saved or output as images.
+export const pdfPages = (html: string, width: number, height: number, filename: string, image: 'jpeg' | 'png' = 'jpeg') => {
+  const source = document.createElement('div');
+  source.innerHTML = html;
+  return html2pdf().set({
+    margin: 0,
+    filename,
+    image: { type: image, quality: 0.98 },
+    html2canvas: { scale: 2, useCORS: true },
+    jsPDF: { unit: 'px', format: [width, height], orientation: width > height ? 'landscape' : 'portrait' }
+  }).from(source);
+};
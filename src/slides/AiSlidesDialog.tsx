@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useMemo, useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { AiSlide, aiSlideToSlide } from './aiDeck.ts';
+import { layoutById } from './layouts.ts';
+import { SlideElement } from './slide.ts';
+import { SlideView } from './SlideView.tsx';
+import { Theme } from './theme.ts';
+
+// --- AI SLIDES DIALOG ---
+// Previews the slides the AI proposed, in the deck's theme. Each can be left
+// out or regenerated on its own before the chosen ones are inserted.
+interface AiSlidesDialogProps {
+  proposals: AiSlide[];
+  theme: Theme;
+  master: SlideElement[];
+  regenerating: number | null;
+  onRegenerate: (index: number) => void;
+  onInsert: (slides: AiSlide[]) => void;
+  onClose: () => void;
+}
+
+export const AiSlidesDialog = ({ proposals, theme, master, regenerating, onRegenerate, onInsert, onClose }: AiSlidesDialogProps) => {
+  const [skipped, setSkipped] = useState<Set<number>>(new Set());
+  const previews = useMemo(() => proposals.map(aiSlideToSlide), [proposals]);
+  const chosen = proposals.filter((_, i) => !skipped.has(i));
+  const toggle = (i: number) => {
+    const next = new Set(skipped);
+    if (next.has(i)) next.delete(i);
+    else next.add(i);
+    setSkipped(next);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#17171a] border border-[#2a2a30] rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col shadow-2xl text-[#e8e8ec]">
+        <div className="p-4 border-b border-[#2a2a30] flex justify-between items-center">
+          <h2 className="text-lg font-serif text-[#c8a96e]">Proposed Slides</h2>
+          <button onClick={onClose} className="text-[#888894] hover:text-white"><X size={18}/></button>
+        </div>
+        <div className="p-4 overflow-auto grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 text-sm">
+          {previews.map((slide, i) => (
+            <div key={slide.id} className={`flex flex-col gap-2 p-2 rounded border ${skipped.has(i) ? 'border-[#2a2a30] opacity-50' : 'border-[#c8a96e]/60'}`}>
+              <div className={`relative border border-[#2a2a30] self-start ${regenerating === i ? 'animate-pulse' : ''}`}>
+                <SlideView slide={slide} theme={theme} master={master} scale={0.26} drawChart={el => el.svg}/>
+              </div>
+              <div className="flex items-center gap-2">
+                <input type="checkbox" checked={!skipped.has(i)} onChange={() => toggle(i)} className="accent-[#c8a96e]" title="Include"/>
+                <span className="flex-1 min-w-0 truncate">{i + 1}. {proposals[i].title}</span>
+                <button
+                  onClick={() => onRegenerate(i)}
+                  disabled={regenerating !== null}
+                  className="p-1 rounded hover:bg-[#c8a96e]/20 disabled:opacity-30"
+                  title="Regenerate This Slide"
+                ><RefreshCw size={14} className={regenerating === i ? 'animate-spin' : ''}/></button>
+              </div>
+              <div className="text-xs text-[#888894]">{layoutById(proposals[i].layout)?.name}</div>
+              {proposals[i].notes && <div className="text-xs text-[#888894] line-clamp-3" title={proposals[i].notes}>Notes: {proposals[i].notes}</div>}
+            </div>
+          ))}
+        </div>
+        <div className="p-4 border-t border-[#2a2a30] flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-1 rounded hover:bg-[#c8a96e]/20">Cancel</button>
+          {proposals.length > 1 && (
+            <button onClick={() => onInsert(chosen)} disabled={!chosen.length || regenerating !== null} className="px-4 py-1 rounded border border-[#c8a96e] text-[#c8a96e] disabled:opacity-30">
+              Insert Selected ({chosen.length})
+            </button>
+          )}
+          <button onClick={() => onInsert(proposals)} disabled={regenerating !== null} className="px-4 py-1 rounded bg-[#c8a96e] text-black font-bold disabled:opacity-30">
+            {proposals.length > 1 ? 'Insert All' : 'Insert Slide'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
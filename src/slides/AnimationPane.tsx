@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { ChevronDown, ChevronUp, Trash2, X } from 'lucide-react';
+import {
+  AnimationKind, AnimationEffect, AnimationStart, DIRECTIONS, Direction, EFFECTS, ElementAnimation, START_LABELS, SlideTransition, TRANSITIONS,
+  TransitionEffect, buildSteps, createAnimation, effectLabel
+} from './animation.ts';
+import { Slide, SlideElement, htmlToText } from './slide.ts';
+
+// --- ANIMATION PANE ---
+// The slide's transition and its element animations in play order, with the
+// build step each one belongs to. New animations go on the selected elements:
+// the first starts on a click, the rest with it.
+interface AnimationPaneProps {
+  slide: Slide;
+  selected: SlideElement[];
+  onChange: (patch: Partial<Slide>) => void;
+  onApplyToAll: (transition: SlideTransition | undefined) => void;
+  onSelect: (elementId: string) => void;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<SlideElement['type'], string> = {
+  text: 'Text', image: 'Picture', shape: 'Shape', line: 'Line', table: 'Table', chart: 'Chart'
+};
+
+const elementLabel = (el: SlideElement) => {
+  const text = el.type === 'text' ? htmlToText(el.html).split('\n')[0] : '';
+  return text ? (text.length > 28 ? text.slice(0, 27) + '…' : text) : TYPE_LABELS[el.type];
+};
+
+// Build step numbers by animation, for the list and the canvas badges.
+export const stepNumbers = (slide: Slide) =>
+  new Map(buildSteps(slide).flatMap((animations, step) => animations.map(a => [a.id, step] as const)));
+
+export const AnimationPane = ({ slide, selected, onChange, onApplyToAll, onSelect, onClose }: AnimationPaneProps) => {
+  const inputClass = 'bg-[#1e1e22] border border-[#2a2a30] rounded px-2 py-1 outline-none focus:border-[#c8a96e]';
+  const transition = slide.transition;
+  const elements = new Map(slide.elements.map(e => [e.id, e]));
+  const animations = (slide.animations ?? []).filter(a => elements.has(a.elementId));
+  const steps = stepNumbers(slide);
+  const selectedIds = new Set(selected.map(e => e.id));
+
+  const setTransition = (patch: Partial<SlideTransition>) => {
+    const next = { effect: 'fade' as TransitionEffect, duration: 500, ...transition, ...patch };
+    onChange({ transition: next.effect === 'none' ? undefined : next });
+  };
+  const setAnimations = (list: ElementAnimation[]) => onChange({ animations: list.length ? list : undefined });
+  const patch = (id: string, change: Partial<ElementAnimation>) => setAnimations(animations.map(a => a.id === id ? { ...a, ...change } : a));
+  const move = (i: number, by: number) => {
+    const list = [...animations];
+    const [a] = list.splice(i, 1);
+    list.splice(Math.max(0, Math.min(list.length, i + by)), 0, a);
+    setAnimations(list);
+  };
+  const add = (value: string) => {
+    const [kind, effect] = value.split(':') as [AnimationKind, AnimationEffect];
+    const list = [...animations];
+    selected.forEach((el, i) => list.push(createAnimation(el.id, kind, effect, i === 0 ? 'click' : 'with', list)));
+    setAnimations(list);
+  };
+
+  return (
+    <div className="absolute top-0 right-0 bottom-0 w-full md:w-80 bg-[#17171a] border-l border-[#2a2a30] flex flex-col z-20 shadow-2xl text-sm">
+      <div className="p-3 border-b border-[#2a2a30] flex justify-between items-center">
+        <span className="font-bold text-[#c8a96e]">Animations</span>
+        <button onClick={onClose}><X size={16}/></button>
+      </div>
+      <div className="p-3 overflow-auto flex-1 flex flex-col gap-4">
+        <section className="flex flex-col gap-2">
+          <div className="text-xs text-[#888894] uppercase tracking-wider">Slide transition</div>
+          <div className="flex gap-2">
+            <select value={transition?.effect ?? 'none'} onChange={e => setTransition({ effect: e.target.value as TransitionEffect })} className={`${inputClass} flex-1`}>
+              {TRANSITIONS.map(t => <option key={t.effect} value={t.effect}>{t.label}</option>)}
+            </select>
+            {(transition?.effect === 'push' || transition?.effect === 'wipe') && (
+              <select value={transition.direction ?? 'left'} onChange={e => setTransition({ direction: e.target.value as Direction })} className={inputClass}>
+                {DIRECTIONS.map(d => <option key={d.direction} value={d.direction}>{d.label}</option>)}
+              </select>
+            )}
+          </div>
+          {transition && (
+            <label className="flex items-center justify-between gap-2">
+              Duration (s)
+              <input type="number" min={0.1} max={10} step={0.1} value={transition.duration / 1000} onChange={e => Number(e.target.value) > 0 && setTransition({ duration: Math.round(Number(e.target.value) * 1000) })} className={`w-20 ${inputClass}`}/>
+            </label>
+          )}
+          <button onClick={() => onApplyToAll(transition)} className="self-start px-2 py-1 rounded border border-[#2a2a30] hover:bg-[#c8a96e]/20">Apply to All Slides</button>
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <div className="text-xs text-[#888894] uppercase tracking-wider">Element animations</div>
+          {selected.length
+            ? (
+              <select value="" onChange={e => e.target.value && add(e.target.value)} className={inputClass}>
+                <option value="">Add animation…</option>
+                {(Object.keys(EFFECTS) as AnimationKind[]).map(kind => (
+                  <optgroup key={kind} label={kind[0].toUpperCase() + kind.slice(1)}>
+                    {EFFECTS[kind].map(e => <option key={e.effect} value={`${kind}:${e.effect}`}>{e.label}</option>)}
+                  </optgroup>
+                ))}
+              </select>
+            )
+            : <div className="text-[#888894] text-xs">Select an element on the slide to animate it.</div>}
+          {animations.map((a, i) => (
+            <div key={a.id} className={`flex flex-col gap-1 p-2 rounded border ${selectedIds.has(a.elementId) ? 'border-[#c8a96e]/60 bg-[#c8a96e]/5' : 'border-[#2a2a30]'}`}>
+              <div className="flex items-center gap-2">
+                <span className="w-5 text-center text-xs text-[#c8a96e] tabular-nums" title="Build step">{a.start === 'click' || i === 0 ? steps.get(a.id) : ''}</span>
+                <button onClick={() => onSelect(a.elementId)} className="flex-1 min-w-0 text-left truncate hover:text-[#c8a96e]">
+                  {elementLabel(elements.get(a.elementId)!)}
+                </button>
+                <button onClick={() => move(i, -1)} disabled={i === 0} className="disabled:opacity-30" title="Play Earlier"><ChevronUp size={14}/></button>
+                <button onClick={() => move(i, 1)} disabled={i === animations.length - 1} className="disabled:opacity-30" title="Play Later"><ChevronDown size={14}/></button>
+                <button onClick={() => setAnimations(animations.filter(x => x.id !== a.id))} className="hover:text-red-400" title="Remove"><Trash2 size={14}/></button>
+              </div>
+              <div className="flex items-center gap-1 pl-7 text-xs">
+                <select
+                  value={`${a.kind}:${a.effect}`}
+                  onChange={e => {
+                    const [kind, effect] = e.target.value.split(':') as [AnimationKind, AnimationEffect];
+                    patch(a.id, { kind, effect, duration: effect === 'appear' ? 0 : a.duration || 500 });
+                  }}
+                  className={`${inputClass} flex-1 min-w-0`}
+                  title={effectLabel(a)}
+                >
+                  {(Object.keys(EFFECTS) as AnimationKind[]).map(kind => (
+                    <optgroup key={kind} label={kind[0].toUpperCase() + kind.slice(1)}>
+                      {EFFECTS[kind].map(e => <option key={e.effect} value={`${kind}:${e.effect}`}>{e.label}</option>)}
+                    </optgroup>
+                  ))}
+                </select>
+                <select value={a.start} onChange={e => patch(a.id, { start: e.target.value as AnimationStart })} className={inputClass} title="Start">
+                  {(Object.keys(START_LABELS) as AnimationStart[]).map(s => <option key={s} value={s}>{START_LABELS[s]}</option>)}
+                </select>
+                {a.effect !== 'appear' && (
+                  <input type="number" min={0.1} max={10} step={0.1} value={a.duration / 1000} onChange={e => Number(e.target.value) > 0 && patch(a.id, { duration: Math.round(Number(e.target.value) * 1000) })} className={`w-14 ${inputClass}`} title="Duration (s)"/>
+                )}
+              </div>
+            </div>
+          ))}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+// Build step numbers beside animated elements on the canvas, at a constant
+// screen size whatever the zoom.
+export const AnimationBadges = ({ slide, scale }: { slide: Slide; scale: number }) => {
+  const steps = stepNumbers(slide);
+  return (
+    <>
+      {slide.elements.map(el => {
+        const numbers = [...new Set((slide.animations ?? []).filter(a => a.elementId === el.id).map(a => steps.get(a.id)))];
+        if (!numbers.length) return null;
+        return (
+          <div
+            key={el.id}
+            className="absolute pointer-events-none bg-[#c8a96e] text-black font-bold rounded-sm leading-none"
+            style={{ left: el.x, top: el.y, transform: `translate(-100%, 0) scale(${1 / scale})`, transformOrigin: '100% 0', padding: '2px 4px', fontSize: 11 }}
+          >
+            {numbers.join(',')}
+          </div>
+        );
+      })}
+    </>
+  );
+};
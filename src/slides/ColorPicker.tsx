@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState } from 'react';
+import { Ban } from 'lucide-react';
+import { THEME_COLORS, Theme, resolveColor } from './theme.ts';
+
+// --- COLOR PICKER ---
+// A toolbar button showing the current color under its icon. The menu offers
+// the theme's palette first, since those picks follow later theme changes,
+// then any custom color.
+interface ColorPickerProps {
+  value: string | undefined;
+  theme: Theme;
+  title: string;
+  icon: React.ReactNode;
+  allowNone?: boolean;
+  onChange: (color: string | undefined) => void;
+}
+
+export const ColorPicker = ({ value, theme, title, icon, allowNone, onChange }: ColorPickerProps) => {
+  const [menu, setMenu] = useState<{ x: number; y: number } | null>(null);
+  const shown = resolveColor(value, theme);
+  const pick = (color: string | undefined) => {
+    setMenu(null);
+    onChange(color);
+  };
+
+  return (
+    <>
+      <button
+        onClick={e => {
+          const r = e.currentTarget.getBoundingClientRect();
+          setMenu({ x: r.left, y: r.bottom + 4 });
+        }}
+        className="p-1 hover:bg-[#c8a96e]/20 rounded flex-shrink-0 flex flex-col items-center"
+        title={title}
+      >
+        {icon}
+        <span className="block w-4 h-1 mt-0.5 rounded-sm border border-[#2a2a30]" style={{ background: shown ?? 'transparent' }}></span>
+      </button>
+      {menu && (
+        <div className="fixed inset-0 z-40" onMouseDown={() => setMenu(null)}>
+          <div
+            style={{ left: Math.min(menu.x, window.innerWidth - 208), top: menu.y }}
+            className="fixed w-52 p-2 bg-[#17171a] border border-[#2a2a30] rounded shadow-2xl text-[#e8e8ec] text-xs flex flex-col gap-2"
+            onMouseDown={e => e.stopPropagation()}
+          >
+            <div className="text-[#888894]">Theme colors</div>
+            <div className="flex gap-1">
+              {THEME_COLORS.map(c => (
+                <button
+                  key={c.key}
+                  onClick={() => pick(c.key)}
+                  className={`w-6 h-6 rounded border ${value === c.key ? 'border-[#c8a96e] ring-1 ring-[#c8a96e]' : 'border-[#2a2a30]'}`}
+                  style={{ background: theme.colors[c.key] }}
+                  title={c.label}
+                />
+              ))}
+            </div>
+            <label className="flex items-center justify-between gap-2 cursor-pointer">
+              Custom…
+              <input type="color" value={/^#[0-9a-f]{6}$/i.test(shown ?? '') ? shown : '#000000'} onChange={e => onChange(e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"/>
+            </label>
+            {allowNone && (
+              <button onClick={() => pick(undefined)} className="flex items-center gap-2 px-1 py-0.5 hover:bg-[#c8a96e]/20 rounded text-left"><Ban size={12}/> None</button>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
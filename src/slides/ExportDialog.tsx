@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { HandoutCount, PrintLayout } from './print.ts';
+
+// --- EXPORT DIALOG ---
+// PDF of the whole deck in one of the printed layouts, or pictures of the
+// current slide or every slide.
+export type DeckExport =
+  | { kind: 'pdf'; layout: PrintLayout; perPage: HandoutCount }
+  | { kind: 'png' | 'svg'; allSlides: boolean };
+
+interface ExportDialogProps {
+  slideNumber: number;
+  onExport: (options: DeckExport) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { value: string; label: string }[] = [
+  { value: 'slides', label: 'PDF: Slides, one per page' },
+  { value: 'handouts', label: 'PDF: Handouts with note lines' },
+  { value: 'notes', label: 'PDF: Notes pages' },
+  { value: 'png', label: 'PNG picture' },
+  { value: 'svg', label: 'SVG picture' }
+];
+
+export const ExportDialog = ({ slideNumber, onExport, onClose }: ExportDialogProps) => {
+  const [format, setFormat] = useState('slides');
+  const [perPage, setPerPage] = useState<HandoutCount>(3);
+  const [allSlides, setAllSlides] = useState(false);
+  const inputClass = 'bg-[#1e1e22] border border-[#2a2a30] rounded px-2 py-1 outline-none focus:border-[#c8a96e]';
+  const picture = format === 'png' || format === 'svg';
+
+  const submit = () => onExport(picture
+    ? { kind: format as 'png' | 'svg', allSlides }
+    : { kind: 'pdf', layout: format as PrintLayout, perPage });
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#17171a] border border-[#2a2a30] rounded-xl w-full max-w-sm flex flex-col shadow-2xl text-[#e8e8ec]">
+        <div className="p-4 border-b border-[#2a2a30] flex justify-between items-center">
+          <h2 className="text-lg font-serif text-[#c8a96e]">Export</h2>
+          <button onClick={onClose} className="text-[#888894] hover:text-white"><X size={18}/></button>
+        </div>
+        <div className="p-4 flex flex-col gap-3 text-sm">
+          <select value={format} onChange={e => setFormat(e.target.value)} className={inputClass}>
+            {FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+          {format === 'handouts' && (
+            <label className="flex items-center justify-between gap-2">
+              Slides per page
+              <select value={perPage} onChange={e => setPerPage(Number(e.target.value) as HandoutCount)} className={inputClass}>
+                {[2, 3, 6].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          )}
+          {picture && (
+            <div className="flex flex-col gap-1">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={!allSlides} onChange={() => setAllSlides(false)} className="accent-[#c8a96e]"/>
+                Slide {slideNumber}
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={allSlides} onChange={() => setAllSlides(true)} className="accent-[#c8a96e]"/>
+                All slides, as a .zip of pictures
+              </label>
+            </div>
+          )}
+        </div>
+        <div className="p-4 border-t border-[#2a2a30] flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-1 rounded hover:bg-[#c8a96e]/20">Cancel</button>
+          <button onClick={submit} className="px-4 py-1 rounded bg-[#c8a96e] text-black font-bold">Export</button>
+        </div>
+      </div>
+    </div>
+  );
+};
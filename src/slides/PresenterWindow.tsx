@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { AArrowDown, AArrowUp, ChevronLeft, ChevronRight, Moon, RotateCcw, X } from 'lucide-react';
+import type { Deck } from './deck.ts';
+import { buildSteps } from './animation.ts';
+import { ShowMessage, formatElapsed, showChannel, useShowKeys } from './present.ts';
+import { BuiltSlide } from './SlideShow.tsx';
+import { SlideView, useFitScale } from './SlideView.tsx';
+
+// --- PRESENTER WINDOW ---
+// Opened beside a running show: the current and next slide, the speaker
+// notes, a timer and a slide counter. It holds no document of its own; the
+// show sends a snapshot of the deck and every move, and this window sends
+// back navigation.
+export const PresenterWindow = ({ docId }: { docId: string }) => {
+  const [show, setShow] = useState<{ deck: Deck; title: string } | null>(null);
+  const [state, setState] = useState({ index: 0, step: 0, blackout: false, startedAt: Date.now() });
+  const [now, setNow] = useState(Date.now());
+  // A reset restarts the timer here without touching the show.
+  const [timerFrom, setTimerFrom] = useState<number | null>(null);
+  const [notesSize, setNotesSize] = useState(18);
+  const [currentScale, currentRef] = useFitScale(8);
+  const [nextScale, nextRef] = useFitScale(4);
+  const channel = useRef<BroadcastChannel | null>(null);
+
+  useEffect(() => {
+    const c = showChannel(docId);
+    channel.current = c;
+    c.onmessage = (e: MessageEvent<ShowMessage>) => {
+      const message = e.data;
+      if (message.type === 'deck') {
+        setShow({ deck: message.deck, title: message.title });
+        document.title = `Presenter — ${message.title}`;
+      } else if (message.type === 'state') {
+        setState({ index: message.index, step: message.step, blackout: message.blackout, startedAt: message.startedAt });
+      } else if (message.type === 'end') {
+        window.close();
+      }
+    };
+    c.postMessage({ type: 'hello' });
+    return () => {
+      c.close();
+      channel.current = null;
+    };
+  }, [docId]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const send = (message: ShowMessage) => channel.current?.postMessage(message);
+  const slides = show?.deck.slides ?? [];
+  const go = (index: number) => send({ type: 'go', index: Math.max(0, Math.min(slides.length - 1, index)) });
+  const end = () => {
+    send({ type: 'end' });
+    window.close();
+  };
+  const next = () => send({ type: 'next' });
+  const prev = () => send({ type: 'prev' });
+  useShowKeys(!!show, {
+    count: slides.length,
+    go,
+    next,
+    prev,
+    blackout: () => send({ type: 'blackout' }),
+    end
+  });
+
+  if (!show) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-[#0d0d0f] text-[#888894] text-sm p-8 text-center">
+        Waiting for the slide show… Start presenting from the editor window to connect.
+      </div>
+    );
+  }
+
+  const { deck } = show;
+  const current = slides[state.index];
+  const following = slides[state.index + 1];
+  const builds = current ? buildSteps(current).length - 1 : 0;
+  const button = 'p-2 rounded hover:bg-[#c8a96e]/20 disabled:opacity-30';
+
+  return (
+    <div className="h-screen flex flex-col bg-[#0d0d0f] text-[#e8e8ec] select-none">
+      <div className="flex items-center gap-4 px-4 py-2 bg-[#17171a] border-b border-[#2a2a30] text-sm">
+        <span className="font-serif text-[#c8a96e] truncate">{show.title}</span>
+        <span className="ml-auto font-mono text-2xl tabular-nums" title="Elapsed">{formatElapsed(now - (timerFrom ?? state.startedAt))}</span>
+        <button onClick={() => setTimerFrom(Date.now())} className={button} title="Reset Timer"><RotateCcw size={16}/></button>
+        <span className="text-[#888894] tabular-nums">{new Date(now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-[3] flex flex-col min-w-0 p-3 gap-2">
+          <div className="text-xs text-[#888894] uppercase tracking-wider">Current slide</div>
+          <div ref={currentRef} className="flex-1 flex items-center justify-center min-h-0 relative">
+            {current && <BuiltSlide deck={deck} slide={current} step={state.step} scale={currentScale} drawChart={el => el.svg}/>}
+            {state.blackout && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/70 text-[#c8a96e] text-sm">Screen is blacked out (B to show)</div>
+            )}
+          </div>
+          <div className="flex items-center justify-center gap-2">
+            <button onClick={prev} disabled={state.index === 0 && state.step === 0} className={button} title="Previous"><ChevronLeft size={20}/></button>
+            <span className="tabular-nums text-lg">Slide {state.index + 1} of {slides.length}</span>
+            {builds > 0 && <span className="tabular-nums text-sm text-[#888894]">Build {state.step} of {builds}</span>}
+            <button onClick={next} disabled={state.index >= slides.length - 1 && state.step >= builds} className={button} title="Next"><ChevronRight size={20}/></button>
+            <button onClick={() => send({ type: 'blackout' })} className={`${button} ${state.blackout ? 'text-[#c8a96e]' : ''}`} title="Black Screen (B)"><Moon size={18}/></button>
+            <button onClick={end} className={`${button} hover:text-red-400`} title="End Show (Esc)"><X size={18}/></button>
+          </div>
+        </div>
+
+        <div className="flex-[2] flex flex-col min-w-0 p-3 gap-2 border-l border-[#2a2a30]">
+          <div className="text-xs text-[#888894] uppercase tracking-wider">Next</div>
+          <div ref={nextRef} className="h-[35%] flex items-center justify-center min-h-0">
+            {following
+              ? <SlideView slide={following} theme={deck.theme} master={deck.master.elements} scale={nextScale} drawChart={el => el.svg}/>
+              : <div className="text-[#888894] text-sm">End of show</div>}
+          </div>
+          <div className="flex items-center gap-1 text-xs text-[#888894] uppercase tracking-wider">
+            Notes
+            <button onClick={() => setNotesSize(Math.max(10, notesSize - 2))} className={`${button} ml-auto`} title="Smaller Text"><AArrowDown size={16}/></button>
+            <button onClick={() => setNotesSize(Math.min(48, notesSize + 2))} className={button} title="Larger Text"><AArrowUp size={16}/></button>
+          </div>
+          <div className="flex-1 overflow-auto whitespace-pre-wrap leading-relaxed bg-[#17171a] border border-[#2a2a30] rounded p-3 select-text" style={{ fontSize: notesSize }}>
+            {current?.notes || <span className="text-[#888894] italic">No notes for this slide.</span>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useMemo, useRef } from 'react';
+import { AnimatePresence, motion, useAnimate } from 'motion/react';
+import { Direction, SlideTransition, TimedAnimation, buildSteps, keyframesOf, visibleAfter } from './animation.ts';
+import type { Deck } from './deck.ts';
+import { ChartDrawer, elementBody, frameCss, slideBackground } from './render.ts';
+import { SLIDE_HEIGHT, SLIDE_WIDTH, Slide, SlideElement, isEmptyElement } from './slide.ts';
+import { LIST_CLASSES } from './SlideView.tsx';
+import { Theme } from './theme.ts';
+
+// --- SLIDE SHOW ---
+// The running show: the slide at `index` with build steps 0..`step` played.
+// Moving forward plays the slide's transition and the newest step's
+// animations; moving back shows the result without playing anything.
+interface SlideShowProps {
+  deck: Deck;
+  index: number;
+  step: number;
+  forward: boolean;
+  scale: number;
+  drawChart: ChartDrawer;
+}
+
+// Plays one element's animations for a step, in order, from when it mounts.
+const AnimatedBody = ({ html, animations, visible, lead }: { html: string; animations: TimedAnimation[]; visible: boolean; lead: number }) => {
+  const [scope, animate] = useAnimate<HTMLDivElement>();
+  useEffect(() => {
+    const run = async () => {
+      let clock = 0;
+      for (const a of animations) {
+        if (!scope.current) return;
+        const delay = Math.max(0, lead + a.delay - clock);
+        await animate(scope.current, keyframesOf(a), { duration: a.duration / 1000, delay: delay / 1000, ease: 'easeOut' });
+        clock = Math.max(clock, lead + a.delay) + a.duration;
+      }
+    };
+    run();
+  }, []);
+  return <div ref={scope} className="w-full h-full" style={{ opacity: visible ? 1 : 0 }} dangerouslySetInnerHTML={{ __html: html }}/>;
+};
+
+interface BuildSlideProps {
+  slide: Slide;
+  theme: Theme;
+  master: SlideElement[];
+  drawChart: ChartDrawer;
+  step: number;
+  play: boolean;
+  lead: number;
+}
+
+// A slide with its animated elements in their state after `step`. When
+// playing, the step's animations run `lead` ms after the slide appears.
+const BuildSlide = ({ slide, theme, master, drawChart, step, play, lead }: BuildSlideProps) => {
+  const steps = useMemo(() => buildSteps(slide), [slide]);
+  return (
+    <div className={`relative overflow-hidden ${LIST_CLASSES}`} style={{ width: SLIDE_WIDTH, height: SLIDE_HEIGHT, background: slideBackground(slide, theme) }}>
+      {master.map(el => <div key={el.id} style={frameCss(el)} dangerouslySetInnerHTML={{ __html: elementBody(el, theme, drawChart) }}/>)}
+      {slide.elements.map(el => {
+        if (el.placeholder && isEmptyElement(el)) return null;
+        const playing = play ? (steps[step] ?? []).filter(a => a.elementId === el.id) : [];
+        const visible = visibleAfter(steps, el.id, playing.length ? step - 1 : step);
+        const html = elementBody(el, theme, drawChart);
+        // Keyed by step, so each step's animations start from a fresh mount.
+        return (
+          <div key={playing.length ? `${el.id}@${step}` : el.id} style={frameCss(el)}>
+            {playing.length
+              ? <AnimatedBody html={html} animations={playing} visible={visible} lead={step === 0 ? lead : 0}/>
+              : <div className="w-full h-full" style={{ opacity: visible ? 1 : 0 }} dangerouslySetInnerHTML={{ __html: html }}/>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// Transitions are variants of the incoming slide's settings; going back runs
+// them in the opposite direction.
+interface TransitionCustom { transition?: SlideTransition; forward: boolean; }
+
+const OPPOSITE: Record<Direction, Direction> = { left: 'right', right: 'left', up: 'down', down: 'up' };
+const WIPE_FROM: Record<Direction, string> = {
+  left: 'inset(0% 0% 0% 100%)', right: 'inset(0% 100% 0% 0%)', up: 'inset(100% 0% 0% 0%)', down: 'inset(0% 0% 100% 0%)'
+};
+
+const directionOf = ({ transition, forward }: TransitionCustom) => {
+  const d = transition?.direction ?? 'left';
+  return forward ? d : OPPOSITE[d];
+};
+
+// Where a pushed slide starts (entering) or ends up (leaving).
+const offset = (d: Direction, entering: boolean) => {
+  const ahead = d === 'left' || d === 'up' ? '100%' : '-100%';
+  const value = entering ? ahead : ahead === '100%' ? '-100%' : '100%';
+  return d === 'left' || d === 'right' ? { x: value } : { y: value };
+};
+
+const timing = ({ transition }: TransitionCustom) =>
+  ({ duration: transition && transition.effect !== 'none' ? transition.duration / 1000 : 0, ease: 'easeInOut' as const });
+
+const VARIANTS = {
+  enter: (c: TransitionCustom) => {
+    switch (c.transition?.effect) {
+      case 'fade': return { opacity: 0 };
+      case 'push': return offset(directionOf(c), true);
+      case 'wipe': return { clipPath: WIPE_FROM[directionOf(c)] };
+      case 'zoom': return { opacity: 0, scale: 0.5 };
+      default: return {};
+    }
+  },
+  center: (c: TransitionCustom) => ({
+    opacity: 1, x: 0, y: 0, scale: 1,
+    ...(c.transition?.effect === 'wipe' ? { clipPath: 'inset(0% 0% 0% 0%)' } : {}),
+    transition: timing(c)
+  }),
+  exit: (c: TransitionCustom) => {
+    const effect = c.transition?.effect;
+    const to = effect === 'push' ? offset(directionOf(c), false) : effect === 'fade' || effect === 'zoom' ? { opacity: 0 } : { opacity: 1 };
+    return { ...to, transition: timing(c) };
+  }
+};
+
+export const SlideShow = ({ deck, index, step, forward, scale, drawChart }: SlideShowProps) => {
+  const slide = deck.slides[index];
+  const custom: TransitionCustom = { transition: slide.transition, forward };
+  // Entry animations wait for the transition, except on the show's first slide.
+  const shown = useRef<string | null>(null);
+  useEffect(() => {
+    shown.current = slide.id;
+  }, [slide.id]);
+  const lead = shown.current && shown.current !== slide.id && forward ? timing(custom).duration * 1000 : 0;
+
+  return (
+    <div className="relative overflow-hidden flex-shrink-0" style={{ width: SLIDE_WIDTH * scale, height: SLIDE_HEIGHT * scale }}>
+      <AnimatePresence initial={false} custom={custom}>
+        <motion.div
+          key={slide.id}
+          className="absolute inset-0"
+          custom={custom}
+          variants={VARIANTS}
+          initial="enter"
+          animate="center"
+          exit="exit"
+        >
+          <div style={{ position: 'absolute', left: 0, top: 0, width: SLIDE_WIDTH, height: SLIDE_HEIGHT, transform: `scale(${scale})`, transformOrigin: '0 0' }}>
+            <BuildSlide slide={slide} theme={deck.theme} master={deck.master.elements} drawChart={drawChart} step={step} play={forward} lead={lead}/>
+          </div>
+        </motion.div>
+      </AnimatePresence>
+    </div>
+  );
+};
+
+// The slide as it looks after `step`, without motion; for the presenter's
+// preview.
+export const BuiltSlide = ({ deck, slide, step, scale, drawChart }: { deck: Deck; slide: Slide; step: number; scale: number; drawChart: ChartDrawer }) => (
+  <div className="relative overflow-hidden flex-shrink-0" style={{ width: SLIDE_WIDTH * scale, height: SLIDE_HEIGHT * scale }}>
+    <div style={{ position: 'absolute', left: 0, top: 0, width: SLIDE_WIDTH, height: SLIDE_HEIGHT, transform: `scale(${scale})`, transformOrigin: '0 0' }}>
+      <BuildSlide slide={slide} theme={deck.theme} master={deck.master.elements} drawChart={drawChart} step={step} play={false} lead={0}/>
+    </div>
+  </div>
+);
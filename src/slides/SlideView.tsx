@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useState } from 'react';
+import { PLACEHOLDER_PROMPTS } from './layouts.ts';
+import { ChartDrawer, elementBody, frameCss, slideBackground, tableHtml, textCss } from './render.ts';
+import { SLIDE_HEIGHT, SLIDE_WIDTH, Slide, SlideElement, isEmptyElement } from './slide.ts';
+import { Theme } from './theme.ts';
+
+// --- SLIDE VIEW ---
+// Draws a slide at `scale`; the editor, thumbnails and the presenter all use
+// it. Children are laid over the elements in slide points (selection frames).
+// The element being edited turns into an editable text box or table, which
+// reports its new content once it loses focus. Master elements are drawn
+// underneath and can't be picked; with `prompts` set, empty placeholders show
+// what goes in them.
+interface SlideViewProps {
+  slide: Slide;
+  theme: Theme;
+  master?: SlideElement[];
+  scale: number;
+  drawChart: ChartDrawer;
+  prompts?: boolean;
+  editingId?: string | null;
+  onElementMouseDown?: (e: any, el: SlideElement) => void;
+  onElementDoubleClick?: (e: any, el: SlideElement) => void;
+  onEditEnd?: (el: SlideElement, patch: Partial<SlideElement>) => void;
+  children?: React.ReactNode;
+}
+
+export const LIST_CLASSES = '[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-[1.2em] [&_ol]:pl-[1.2em]';
+
+// Focuses a freshly opened editor with the caret at the end of its text.
+const focusAtEnd = (node: HTMLElement | null) => {
+  if (!node || node.contains(document.activeElement)) return;
+  node.focus();
+  const range = document.createRange();
+  range.selectNodeContents(node);
+  range.collapse(false);
+  window.getSelection()?.removeAllRanges();
+  window.getSelection()?.addRange(range);
+};
+
+const Editor = ({ el, theme, onEditEnd }: { el: SlideElement; theme: Theme; onEditEnd?: SlideViewProps['onEditEnd'] }) => {
+  const common = {
+    ref: focusAtEnd,
+    contentEditable: true,
+    onMouseDown: (e: any) => e.stopPropagation(),
+    onKeyDown: (e: any) => {
+      e.stopPropagation();
+      if (e.key === 'Escape') e.currentTarget.blur();
+    }
+  };
+  if (el.type === 'table') {
+    return (
+      <div
+        {...common}
+        className="w-full h-full outline-none cursor-text"
+        dangerouslySetInnerHTML={{ __html: tableHtml(el, theme) }}
+        onBlur={(e: any) => onEditEnd?.(el, {
+          rows: [...e.currentTarget.querySelectorAll('tr')].map((tr: any) => [...tr.children].map((td: any) => td.textContent ?? ''))
+        })}
+      />
+    );
+  }
+  if (el.type !== 'text') return null;
+  return (
+    <div
+      {...common}
+      className="slide-text outline-none cursor-text"
+      style={textCss(el.style, theme)}
+      dangerouslySetInnerHTML={{ __html: el.html }}
+      onBlur={(e: any) => onEditEnd?.(el, { html: e.currentTarget.innerHTML })}
+    />
+  );
+};
+
+const Prompt = ({ el, theme }: { el: SlideElement; theme: Theme }) => (
+  <div className="w-full h-full border border-dashed border-[#8a8a94]/60 opacity-60">
+    {el.type === 'text'
+      ? <div style={textCss(el.style, theme)}>{PLACEHOLDER_PROMPTS[el.placeholder!]}</div>
+      : <div className="w-full h-full flex items-center justify-center text-[#8a8a94] text-2xl">{PLACEHOLDER_PROMPTS[el.placeholder!]}</div>}
+  </div>
+);
+
+export const SlideView = ({ slide, theme, master = [], scale, drawChart, prompts, editingId, onElementMouseDown, onElementDoubleClick, onEditEnd, children }: SlideViewProps) => (
+  <div className={`relative overflow-hidden flex-shrink-0 ${LIST_CLASSES}`} style={{ width: SLIDE_WIDTH * scale, height: SLIDE_HEIGHT * scale, background: slideBackground(slide, theme) }}>
+    <div style={{ position: 'absolute', left: 0, top: 0, width: SLIDE_WIDTH, height: SLIDE_HEIGHT, transform: `scale(${scale})`, transformOrigin: '0 0' }}>
+      {master.map(el => (
+        <div key={el.id} className="pointer-events-none" style={frameCss(el)} dangerouslySetInnerHTML={{ __html: elementBody(el, theme, drawChart) }}/>
+      ))}
+      {slide.elements.map(el => {
+        const empty = !!el.placeholder && isEmptyElement(el);
+        if (empty && !prompts && el.id !== editingId) return null;
+        return (
+          <div
+            key={el.id}
+            style={frameCss(el)}
+            onMouseDown={onElementMouseDown && (e => onElementMouseDown(e, el))}
+            onDoubleClick={onElementDoubleClick && (e => onElementDoubleClick(e, el))}
+          >
+            {el.id === editingId
+              ? <Editor el={el} theme={theme} onEditEnd={onEditEnd}/>
+              : empty
+                ? <Prompt el={el} theme={theme}/>
+                : <div className="w-full h-full" dangerouslySetInnerHTML={{ __html: elementBody(el, theme, drawChart) }}/>}
+          </div>
+        );
+      })}
+      {children}
+    </div>
+  </div>
+);
+
+// The largest scale at which a slide fits inside an element, less `margin` px
+// each side. Returns the scale and a callback ref for the element.
+export const useFitScale = (margin = 0) => {
+  const [node, setNode] = useState<HTMLElement | null>(null);
+  const [scale, setScale] = useState(0.5);
+  useEffect(() => {
+    if (!node) return;
+    const measure = () => setScale(Math.max(0.1, Math.min(
+      (node.clientWidth - margin * 2) / SLIDE_WIDTH,
+      (node.clientHeight - margin * 2) / SLIDE_HEIGHT
+    )));
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [node, margin]);
+  return [scale, setNode] as const;
+};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { createSlide } from './layouts.ts';
+import { SlideElement, createElement } from './slide.ts';
+import { SlideView } from './SlideView.tsx';
+import { FONT_CHOICES, THEMES, THEME_COLORS, Theme } from './theme.ts';
+
+// --- THEME DIALOG ---
+// Picks a preset theme or adjusts the deck's own, previewed on a sample
+// slide. Applying restyles every slide that uses theme colors and fonts.
+interface ThemeDialogProps {
+  theme: Theme;
+  onApply: (theme: Theme) => void;
+  onClose: () => void;
+}
+
+const sampleSlide = () => {
+  const slide = createSlide('titleContent', { title: 'Heading', body: 'Body text\nSecond point' });
+  slide.elements[1] = { ...slide.elements[1], width: 480 };
+  ['accent1', 'accent2', 'accent3', 'accent4'].forEach((fill, i) => {
+    slide.elements.push(createElement('shape', slide.elements, { x: 600 + (i % 2) * 150, y: 170 + Math.floor(i / 2) * 150, width: 130, height: 130, fill } as Partial<SlideElement>));
+  });
+  return slide;
+};
+
+export const ThemeDialog = ({ theme, onApply, onClose }: ThemeDialogProps) => {
+  const [draft, setDraft] = useState<Theme>(theme);
+  const sample = useMemo(sampleSlide, []);
+  const inputClass = 'bg-[#1e1e22] border border-[#2a2a30] rounded px-2 py-1 outline-none focus:border-[#c8a96e]';
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#17171a] border border-[#2a2a30] rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl text-[#e8e8ec]">
+        <div className="p-4 border-b border-[#2a2a30] flex justify-between items-center">
+          <h2 className="text-lg font-serif text-[#c8a96e]">Theme</h2>
+          <button onClick={onClose} className="text-[#888894] hover:text-white"><X size={18}/></button>
+        </div>
+        <div className="flex flex-col md:flex-row gap-4 p-4 overflow-auto text-sm">
+          <div className="md:w-40 flex flex-col gap-1">
+            {THEMES.map(t => (
+              <button
+                key={t.name}
+                onClick={() => setDraft(t)}
+                className={`text-left px-2 py-1.5 rounded border ${draft.name === t.name ? 'border-[#c8a96e] bg-[#c8a96e]/10' : 'border-[#2a2a30] hover:bg-[#1e1e22]'}`}
+              >
+                <div>{t.name}</div>
+                <div className="flex gap-0.5 mt-1">
+                  {THEME_COLORS.map(c => <span key={c.key} className="w-3 h-3 rounded-sm" style={{ background: t.colors[c.key] }}></span>)}
+                </div>
+              </button>
+            ))}
+          </div>
+          <div className="flex-1 flex flex-col gap-3 min-w-0">
+            <div className="border border-[#2a2a30] rounded overflow-hidden self-start">
+              <SlideView slide={sample} theme={draft} scale={0.45} drawChart={el => el.svg}/>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {THEME_COLORS.map(c => (
+                <label key={c.key} className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={draft.colors[c.key]}
+                    onChange={e => setDraft({ ...draft, name: 'Custom', colors: { ...draft.colors, [c.key]: e.target.value } })}
+                    className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+                  />
+                  {c.label}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {(['heading', 'body'] as const).map(role => (
+                <label key={role} className="flex items-center gap-2">
+                  {role === 'heading' ? 'Heading font' : 'Body font'}
+                  <select
+                    value={draft.fonts[role]}
+                    onChange={e => setDraft({ ...draft, name: 'Custom', fonts: { ...draft.fonts, [role]: e.target.value } })}
+                    className={inputClass}
+                  >
+                    {(FONT_CHOICES.includes(draft.fonts[role]) ? FONT_CHOICES : [draft.fonts[role], ...FONT_CHOICES]).map(f => <option key={f} value={f}>{f}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="p-4 border-t border-[#2a2a30] flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-1 rounded hover:bg-[#c8a96e]/20">Cancel</button>
+          <button onClick={() => onApply(draft)} className="px-4 py-1 rounded bg-[#c8a96e] text-black font-bold">Apply to Deck</button>
+        </div>
+      </div>
+    </div>
+  );
+};
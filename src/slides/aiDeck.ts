@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { LayoutId, createSlide } from './layouts.ts';
+import { Slide } from './slide.ts';
+
+// --- AI SLIDES ---
+// The AI proposes slides as JSON, which is checked here before anything is
+// shown: a reply that doesn't fit is rejected with the reason rather than
+// half-inserted. Accepted proposals become ordinary layout slides.
+export interface AiSlide {
+  title: string;
+  bullets: string[];
+  notes?: string;
+  layout: LayoutId;
+}
+
+// Layouts the AI may pick; the rest need pictures or have nothing to fill.
+const AI_LAYOUTS: LayoutId[] = ['title', 'titleContent', 'twoColumn', 'section'];
+
+export const AI_SLIDE_FORMAT =
+  'Reply with JSON only, no prose and no code fences: an array of slide objects, each ' +
+  '{"title": string, "bullets": string[], "notes": string, "layout": "title" | "titleContent" | "twoColumn" | "section"}. ' +
+  'Use "title" for an opening slide (its bullets become the subtitle), "section" for a divider, ' +
+  '"twoColumn" for comparisons (the first half of the bullets goes left, the rest right) and "titleContent" otherwise. ' +
+  'Keep bullets short, at most 6 per slide. Notes are what the speaker says, in plain sentences.';
+
+const MAX_SLIDES = 30;
+
+// The JSON part of a reply, in case it came wrapped in a code fence or prose.
+const jsonText = (reply: string) => {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(reply);
+  const text = (fenced ? fenced[1] : reply).trim();
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf(']'), text.lastIndexOf('}'));
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+};
+
+const checkSlide = (value: any, n: number): AiSlide => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`Slide ${n} is not an object.`);
+  const title = typeof value.title === 'string' ? value.title.trim() : '';
+  if (!title) throw new Error(`Slide ${n} has no title.`);
+  const bullets = value.bullets ?? [];
+  if (!Array.isArray(bullets) || bullets.some((b: unknown) => typeof b !== 'string')) throw new Error(`Slide ${n}'s bullets are not a list of text.`);
+  if (value.notes !== undefined && typeof value.notes !== 'string') throw new Error(`Slide ${n}'s notes are not text.`);
+  return {
+    title,
+    bullets: bullets.map((b: string) => b.trim().replace(/^[-•*]\s+/, '')).filter(Boolean),
+    notes: value.notes?.trim() || undefined,
+    layout: AI_LAYOUTS.includes(value.layout) ? value.layout : 'titleContent'
+  };
+};
+
+// Reads a reply holding an array of slides (or one slide, or { slides }).
+// Throws with a reason the user can act on when it doesn't fit.
+export const parseAiSlides = (reply: string): AiSlide[] => {
+  let data: any;
+  try {
+    data = JSON.parse(jsonText(reply));
+  } catch {
+    throw new Error('The reply was not valid JSON.');
+  }
+  const list = Array.isArray(data) ? data : Array.isArray(data?.slides) ? data.slides : [data];
+  if (!list.length) throw new Error('The reply contained no slides.');
+  if (list.length > MAX_SLIDES) throw new Error(`The reply had ${list.length} slides; at most ${MAX_SLIDES} are accepted.`);
+  return list.map((s: unknown, i: number) => checkSlide(s, i + 1));
+};
+
+export const aiSlideToSlide = (ai: AiSlide): Slide => {
+  const lines = ai.bullets.map(b => `- ${b}`);
+  const half = Math.ceil(lines.length / 2);
+  const text = {
+    title: { title: ai.title, subtitle: ai.bullets.join('\n') },
+    section: { title: ai.title, subtitle: ai.bullets.join('\n') },
+    twoColumn: { title: ai.title, left: lines.slice(0, half).join('\n'), right: lines.slice(half).join('\n') }
+  }[ai.layout as string] ?? { title: ai.title, body: lines.join('\n') };
+  return { ...createSlide(ai.layout, text), notes: ai.notes };
+};
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Slide, nextId } from './slide.ts';
+
+// --- TRANSITIONS AND ANIMATIONS ---
+// A slide's transition plays as the show moves onto it. Its animations play
+// in array order and are split into build steps: each "On Click" animation
+// starts a new step, "With Previous" ones start alongside the one before and
+// "After Previous" ones once it ends. Animations before the first click play
+// as soon as the slide appears. Durations are in milliseconds.
+export type TransitionEffect = 'none' | 'fade' | 'push' | 'wipe' | 'zoom';
+export type Direction = 'left' | 'right' | 'up' | 'down';
+
+// `direction` is the way push and wipe move across the screen.
+export interface SlideTransition { effect: TransitionEffect; duration: number; direction?: Direction; }
+
+export type AnimationKind = 'entrance' | 'emphasis' | 'exit';
+export type AnimationEffect = 'appear' | 'fade' | 'fly' | 'zoom' | 'pulse' | 'spin' | 'shake';
+export type AnimationStart = 'click' | 'with' | 'after';
+
+export interface ElementAnimation {
+  id: string;
+  elementId: string;
+  kind: AnimationKind;
+  effect: AnimationEffect;
+  start: AnimationStart;
+  duration: number;
+}
+
+export const TRANSITIONS: { effect: TransitionEffect; label: string }[] = [
+  { effect: 'none', label: 'None' },
+  { effect: 'fade', label: 'Fade' },
+  { effect: 'push', label: 'Push' },
+  { effect: 'wipe', label: 'Wipe' },
+  { effect: 'zoom', label: 'Zoom' }
+];
+
+export const DIRECTIONS: { direction: Direction; label: string }[] = [
+  { direction: 'left', label: 'To Left' },
+  { direction: 'right', label: 'To Right' },
+  { direction: 'up', label: 'Up' },
+  { direction: 'down', label: 'Down' }
+];
+
+export const EFFECTS: Record<AnimationKind, { effect: AnimationEffect; label: string }[]> = {
+  entrance: [
+    { effect: 'appear', label: 'Appear' },
+    { effect: 'fade', label: 'Fade In' },
+    { effect: 'fly', label: 'Fly In' },
+    { effect: 'zoom', label: 'Zoom In' }
+  ],
+  emphasis: [
+    { effect: 'pulse', label: 'Pulse' },
+    { effect: 'spin', label: 'Spin' },
+    { effect: 'shake', label: 'Shake' }
+  ],
+  exit: [
+    { effect: 'appear', label: 'Disappear' },
+    { effect: 'fade', label: 'Fade Out' },
+    { effect: 'fly', label: 'Fly Out' },
+    { effect: 'zoom', label: 'Zoom Out' }
+  ]
+};
+
+export const START_LABELS: Record<AnimationStart, string> = { click: 'On Click', with: 'With Previous', after: 'After Previous' };
+
+export const effectLabel = (a: ElementAnimation) => EFFECTS[a.kind].find(e => e.effect === a.effect)?.label ?? a.effect;
+
+export const createAnimation = (elementId: string, kind: AnimationKind, effect: AnimationEffect, start: AnimationStart, existing: ElementAnimation[]): ElementAnimation =>
+  ({ id: nextId('an', existing.map(a => a.id)), elementId, kind, effect, start, duration: effect === 'appear' ? 0 : 500 });
+
+// An animation placed in its build step, `delay` ms after the step begins.
+export interface TimedAnimation extends ElementAnimation { delay: number; }
+
+// Step 0 holds the animations that play on entry; each later step is a click.
+// Animations of deleted elements are left out.
+export const buildSteps = (slide: Slide): TimedAnimation[][] => {
+  const ids = new Set(slide.elements.map(e => e.id));
+  const steps: TimedAnimation[][] = [[]];
+  let start = 0;
+  let end = 0;
+  for (const a of slide.animations ?? []) {
+    if (!ids.has(a.elementId)) continue;
+    if (a.start === 'click') {
+      steps.push([]);
+      start = end = 0;
+    } else if (a.start === 'after') {
+      start = end;
+    }
+    steps[steps.length - 1].push({ ...a, delay: start });
+    end = Math.max(end, start + a.duration);
+  }
+  return steps;
+};
+
+// Whether an element is on screen once steps 0..`step` have played (-1 for
+// before the slide's entry animations). One whose first entrance or exit is
+// an entrance starts out hidden.
+export const visibleAfter = (steps: TimedAnimation[][], elementId: string, step: number) => {
+  let visible: boolean | undefined;
+  steps.forEach((animations, i) => animations.forEach(a => {
+    if (a.elementId !== elementId || a.kind === 'emphasis') return;
+    if (visible === undefined) visible = a.kind !== 'entrance';
+    if (i <= step) visible = a.kind === 'entrance';
+  }));
+  return visible ?? true;
+};
+
+// Motion keyframes for an animation, in slide points. Exits run their
+// entrance backwards.
+export const keyframesOf = (a: ElementAnimation): Record<string, number[]> => {
+  const shown = (from: number, to: number) => a.kind === 'exit' ? [to, from] : [from, to];
+  switch (a.effect) {
+    case 'appear': return { opacity: shown(0, 1) };
+    case 'fade': return { opacity: shown(0, 1) };
+    case 'fly': return { opacity: shown(0, 1), y: shown(120, 0) };
+    case 'zoom': return { opacity: shown(0, 1), scale: shown(0.3, 1) };
+    case 'pulse': return { scale: [1, 1.12, 1] };
+    case 'spin': return { rotate: [0, 360] };
+    case 'shake': return { x: [0, -12, 12, -8, 8, 0] };
+  }
+};
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ChartRef } from '../charts/embed.ts';
+import { createSlide, layoutById } from './layouts.ts';
+import { Slide, SlideElement } from './slide.ts';
+import { DEFAULT_THEME, Theme } from './theme.ts';
+
+// --- DECK ---
+// A presentation document's content. The master holds elements drawn behind
+// every slide (a logo, a footer rule), so branding is placed once.
+export interface SlideMaster { elements: SlideElement[]; }
+
+export interface Deck { theme: Theme; master: SlideMaster; slides: Slide[]; }
+
+export const createDeck = (): Deck => ({
+  theme: DEFAULT_THEME,
+  master: { elements: [] },
+  slides: [createSlide('title', { title: 'New Presentation' })]
+});
+
+// Documents from before elements stored { title, content, bg, charts } per
+// slide. They open as "Title and Content" slides with any charts in a row
+// beneath, and are saved in the new shape on the next edit.
+interface LegacySlide {
+  id: string;
+  title?: string;
+  content?: string;
+  bg?: string;
+  charts?: { id: string; ref?: ChartRef; svg: string }[];
+}
+
+const migrateSlide = (old: LegacySlide): Slide => {
+  const slide = createSlide('titleContent', { title: old.title ?? '', body: old.content ?? '' });
+  const charts = old.charts ?? [];
+  const body = layoutById('titleContent')!.placeholders[1].box;
+  const elements = slide.elements.map(e => charts.length && e.placeholder === 'body' ? { ...e, height: 110 } : e);
+  const gap = 16;
+  const width = Math.min(392, (body.width - gap * (charts.length - 1)) / Math.max(1, charts.length));
+  charts.forEach((c, i) => elements.push({
+    id: `el${i + 3}`, type: 'chart', ref: c.ref, svg: c.svg,
+    x: body.x + i * (width + gap), y: body.y + 126, width, height: width * 9 / 16
+  }));
+  const color = /^bg-\[(#[0-9a-f]{3,8})\]$/i.exec(old.bg ?? '');
+  const background = color && color[1].toLowerCase() !== DEFAULT_THEME.colors.background ? color[1] : undefined;
+  return { id: old.id, layout: 'titleContent', background, elements };
+};
+
+// Older documents stored the slide list itself as their content.
+export const toDeck = (content: any): Deck => {
+  if (content && Array.isArray(content.slides) && content.slides.length > 0) return content;
+  if (!Array.isArray(content) || content.length === 0) return createDeck();
+  const slides = content.map((s: any) => Array.isArray(s?.elements) ? s : migrateSlide(s ?? {}));
+  return { theme: DEFAULT_THEME, master: { elements: [] }, slides };
+};
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Box, PlaceholderRole, Slide, SlideElement, TextStyle, htmlToText, isEmptyElement, nextElementId, textToHtml } from './slide.ts';
+
+// --- LAYOUTS ---
+// A layout is a set of placeholder boxes. A new slide gets one empty box per
+// placeholder; changing a slide's layout moves its placeholders into the new
+// boxes, drops the empty ones the new layout lacks and keeps anything with
+// content. Placeholder text takes its color and font from the theme.
+export type LayoutId = 'title' | 'titleContent' | 'twoColumn' | 'section' | 'blank' | 'imageCaption';
+
+export interface Placeholder { role: PlaceholderRole; box: Box; style?: TextStyle; }
+
+export interface Layout { id: LayoutId; name: string; placeholders: Placeholder[]; }
+
+const heading = (fontSize: number, extra: Partial<TextStyle> = {}): TextStyle =>
+  ({ fontSize, color: 'heading', fontFamily: 'heading', valign: 'middle', ...extra });
+const body = (fontSize: number, extra: Partial<TextStyle> = {}): TextStyle =>
+  ({ fontSize, color: 'text', fontFamily: 'body', ...extra });
+
+const TITLE_BAR: Placeholder = { role: 'title', box: { x: 64, y: 40, width: 832, height: 90 }, style: heading(40) };
+
+export const LAYOUTS: Layout[] = [
+  {
+    id: 'title', name: 'Title Slide', placeholders: [
+      { role: 'title', box: { x: 80, y: 150, width: 800, height: 130 }, style: heading(54, { align: 'center', valign: 'bottom' }) },
+      { role: 'subtitle', box: { x: 80, y: 300, width: 800, height: 80 }, style: body(24, { align: 'center', color: 'accent1' }) }
+    ]
+  },
+  {
+    id: 'titleContent', name: 'Title and Content', placeholders: [
+      TITLE_BAR,
+      { role: 'body', box: { x: 64, y: 150, width: 832, height: 340 }, style: body(24) }
+    ]
+  },
+  {
+    id: 'twoColumn', name: 'Two Columns', placeholders: [
+      TITLE_BAR,
+      { role: 'left', box: { x: 64, y: 150, width: 404, height: 340 }, style: body(22) },
+      { role: 'right', box: { x: 492, y: 150, width: 404, height: 340 }, style: body(22) }
+    ]
+  },
+  {
+    id: 'section', name: 'Section Header', placeholders: [
+      { role: 'title', box: { x: 80, y: 190, width: 800, height: 110 }, style: heading(48, { valign: 'bottom' }) },
+      { role: 'subtitle', box: { x: 80, y: 310, width: 800, height: 60 }, style: body(20, { color: 'accent1' }) }
+    ]
+  },
+  { id: 'blank', name: 'Blank', placeholders: [] },
+  {
+    id: 'imageCaption', name: 'Picture with Caption', placeholders: [
+      { role: 'title', box: { x: 64, y: 30, width: 832, height: 70 }, style: heading(32) },
+      { role: 'image', box: { x: 64, y: 110, width: 832, height: 330 } },
+      { role: 'caption', box: { x: 64, y: 450, width: 832, height: 60 }, style: body(18, { align: 'center' }) }
+    ]
+  }
+];
+
+export const layoutById = (id: LayoutId | undefined) => LAYOUTS.find(l => l.id === id);
+
+export const PLACEHOLDER_PROMPTS: Record<PlaceholderRole, string> = {
+  title: 'Click to add title',
+  subtitle: 'Click to add subtitle',
+  body: 'Click to add text',
+  left: 'Click to add text',
+  right: 'Click to add text',
+  image: 'Double-click to add a picture',
+  caption: 'Click to add caption'
+};
+
+// Where a placeholder's content goes when the new layout has no box of its
+// role, e.g. a single body into the left column.
+const FALLBACK_ROLES: Partial<Record<PlaceholderRole, PlaceholderRole[]>> = {
+  body: ['left'],
+  left: ['body'],
+  subtitle: ['caption', 'body'],
+  caption: ['subtitle', 'body']
+};
+
+const placeholderElement = (id: string, p: Placeholder, text = ''): SlideElement =>
+  p.role === 'image'
+    ? { id, type: 'image', ...p.box, src: '', placeholder: p.role }
+    : { id, type: 'text', ...p.box, html: text ? textToHtml(text) : '', style: { ...p.style! }, placeholder: p.role };
+
+// A new slide in the given layout; `text` fills placeholders by role.
+export const createSlide = (layout: LayoutId, text: Partial<Record<PlaceholderRole, string>> = {}): Slide => {
+  const elements: SlideElement[] = [];
+  layoutById(layout)?.placeholders.forEach(p => elements.push(placeholderElement(nextElementId(elements), p, text[p.role])));
+  return { id: `${Date.now()}${Math.random().toString(36).slice(2, 6)}`, layout, elements };
+};
+
+export const applyLayout = (slide: Slide, layoutId: LayoutId): Slide => {
+  const layout = layoutById(layoutId);
+  if (!layout) return slide;
+  const unused = slide.elements.filter(e => e.placeholder);
+  const take = (role: PlaceholderRole) => {
+    for (const r of [role, ...(FALLBACK_ROLES[role] ?? [])]) {
+      const i = unused.findIndex(e => e.placeholder === r && (r === role || !isEmptyElement(e)));
+      if (i >= 0) return unused.splice(i, 1)[0];
+    }
+    return null;
+  };
+  const placed = new Map<string, SlideElement>();
+  const added: SlideElement[] = [];
+  layout.placeholders.forEach(p => {
+    const el = take(p.role);
+    // Text can't go into a picture box and vice versa.
+    if (el && (el.type === 'image') === (p.role === 'image')) {
+      const style = el.type === 'text' && p.style ? { style: { ...el.style, fontSize: p.style.fontSize, align: p.style.align, valign: p.style.valign } } : {};
+      placed.set(el.id, { ...el, ...p.box, rotation: undefined, placeholder: p.role, ...style } as SlideElement);
+    } else {
+      if (el) unused.push(el);
+      added.push(placeholderElement(nextElementId([...slide.elements, ...added]), p));
+    }
+  });
+  const elements = slide.elements
+    .filter(e => placed.has(e.id) || !unused.includes(e) || !isEmptyElement(e))
+    .map(e => placed.get(e.id) ?? (unused.includes(e) ? { ...e, placeholder: undefined } : e));
+  return { ...slide, layout: layoutId, elements: [...elements, ...added] };
+};
+
+// A one-line summary of what a slide says, for lists and previews.
+export const slideTitle = (slide: Slide) => {
+  const title = slide.elements.find(e => e.placeholder === 'title');
+  return title?.type === 'text' ? htmlToText(title.html).split('\n')[0] : '';
+};
@@ -0,0 +1,1061 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type JSZip from 'jszip';
+import {
+  IMAGE_TYPES, Rasterizer, Relationship, XML_HEADER, buildPackage, childrenByName, decodeDataUrl, descendantsByName, escapeXml, firstChild,
+  imageSize, openPackage, readPart, readRels
+} from '../shared/ooxml.ts';
+import {
+  AnimationEffect, AnimationKind, AnimationStart, Direction, ElementAnimation, SlideTransition, TimedAnimation, TransitionEffect, buildSteps,
+  createAnimation
+} from './animation.ts';
+import { Deck } from './deck.ts';
+import { LAYOUTS, LayoutId, PLACEHOLDER_PROMPTS, layoutById } from './layouts.ts';
+import { ChartDrawer } from './render.ts';
+import { Paragraph, Run, cssHex, htmlToParagraphs, paragraphsToHtml } from './richText.ts';
+import { PlaceholderRole, ShapeKind, Slide, SlideElement, TextStyle, nextElementId } from './slide.ts';
+import { DEFAULT_THEME, THEME_COLORS, Theme, ThemeColor } from './theme.ts';
+
+// --- PPTX ---
+// Slides are 960 × 540 pt, PowerPoint's widescreen page, so geometry only
+// changes units (12700 EMU to the point). Theme slots are written as scheme
+// colors and "heading"/"body" as the theme's major/minor fonts, so a deck
+// keeps following its theme in PowerPoint and back.
+const EMU_PER_PT = 12700;
+const SLIDE_CX = 12192000;
+const SLIDE_CY = 6858000;
+
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Our palette slots and the scheme colors they are written as. The master's
+// color map ties bg1/tx1/tx2 to lt1/dk1/dk2 as in every Office theme.
+const SCHEME_NAMES: Record<ThemeColor, string> = {
+  background: 'bg1', text: 'tx1', heading: 'tx2', accent1: 'accent1', accent2: 'accent2', accent3: 'accent3', accent4: 'accent4'
+};
+
+const PRESET_SHAPES: Record<ShapeKind, string> = {
+  rect: 'rect', roundRect: 'roundRect', ellipse: 'ellipse', triangle: 'triangle', diamond: 'diamond', arrow: 'rightArrow'
+};
+
+const LAYOUT_TYPES: Record<LayoutId, string> = {
+  title: 'title', titleContent: 'obj', twoColumn: 'twoObj', section: 'secHead', blank: 'blank', imageCaption: 'picTx'
+};
+
+// --- PPTX IMPORT ---
+// Reads as much as the slide model can hold: placeholders (by layout),
+// text boxes, pictures, preset shapes, lines, tables, backgrounds, speaker
+// notes, transitions, animations and the theme. Decoration on the master
+// becomes the deck's master; decoration on a slide's layout is copied onto
+// the slide. Charts, SmartArt and media are skipped.
+
+// Geometry in EMU, as stored in the file.
+interface Frame { x: number; y: number; width: number; height: number; rotation?: number; flipH?: boolean; flipV?: boolean; }
+
+interface ColorContext {
+  scheme: Record<string, string>; // lt1, dk1, accent1… -> #hex
+  clrMap: Record<string, string>; // bg1, tx1… -> lt1, dk1…
+  slots: Record<string, ThemeColor>; // lt1, dk1… -> our palette slot
+}
+
+interface PlaceholderShape { type: string; idx?: string; frame?: Frame; lstStyle?: Element; bodyPr?: Element; }
+
+interface ShapeEnv {
+  zip: JSZip;
+  rels: Record<string, Relationship>;
+  colors: ColorContext;
+  theme: Theme;
+  // Placeholders shapes inherit from, nearest first.
+  inherited: PlaceholderShape[][];
+  textStyles: { title?: Element; body?: Element; other?: Element };
+  toPoints: (f: Frame) => Frame;
+  scale: number;
+}
+
+// `spids` are the file's shape ids that animations may target: the shape's
+// own and those of the groups around it.
+interface ReadElement { el: SlideElement; phType?: string; phIdx?: string; spids?: string[]; }
+
+const num = (el: Element | undefined, name: string) => Number(el?.getAttribute(name) ?? 0) || 0;
+const isOn = (value: string | null | undefined) => value === '1' || value === 'true';
+
+const readFrame = (xfrm: Element | undefined): Frame | undefined => {
+  const off = xfrm && firstChild(xfrm, 'off');
+  const ext = xfrm && firstChild(xfrm, 'ext');
+  if (!xfrm || !off || !ext) return undefined;
+  return {
+    x: num(off, 'x'), y: num(off, 'y'), width: num(ext, 'cx'), height: num(ext, 'cy'),
+    rotation: num(xfrm, 'rot') / 60000 || undefined, flipH: isOn(xfrm.getAttribute('flipH')), flipV: isOn(xfrm.getAttribute('flipV'))
+  };
+};
+
+const toHsl = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return [h / 6, s, l];
+};
+
+const fromHsl = ([h, s, l]: number[]) => {
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    t = (t + 1) % 1;
+    const v = t < 1 / 6 ? p + (q - p) * 6 * t : t < 1 / 2 ? q : t < 2 / 3 ? p + (q - p) * (2 / 3 - t) * 6 : p;
+    return Math.round(Math.max(0, Math.min(1, s ? v : l)) * 255).toString(16).padStart(2, '0');
+  };
+  return '#' + [h + 1 / 3, h, h - 1 / 3].map(channel).join('');
+};
+
+// Applies the luminance, tint and shade modifiers PowerPoint stacks on
+// scheme colors ("Accent 1, lighter 40%").
+const modifyColor = (hex: string, mods: Element[]) => mods.reduce((color, mod) => {
+  const v = num(mod, 'val') / 100000;
+  if (mod.localName === 'lumMod' || mod.localName === 'lumOff') {
+    const hsl = toHsl(color);
+    hsl[2] = Math.max(0, Math.min(1, mod.localName === 'lumMod' ? hsl[2] * v : hsl[2] + v));
+    return fromHsl(hsl);
+  }
+  const channels = [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16));
+  const mixed = channels.map(c => mod.localName === 'tint' ? c + (255 - c) * (1 - v) : c * v);
+  return '#' + mixed.map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+}, hex);
+
+const PRESET_COLORS: Record<string, string> = { black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', blue: '#0000ff', yellow: '#ffff00', gray: '#808080' };
+
+// The color inside a fill or reference element: a palette slot when it is an
+// unmodified scheme color, otherwise #hex.
+const colorOf = (parent: Element | undefined, colors: ColorContext): string | undefined => {
+  const c = parent && Array.from(parent.children).find(ch => ['srgbClr', 'schemeClr', 'sysClr', 'prstClr'].includes(ch.localName));
+  if (!c) return undefined;
+  let hex: string | undefined;
+  let slot: ThemeColor | undefined;
+  const val = c.getAttribute('val') ?? '';
+  if (c.localName === 'srgbClr') hex = '#' + val.toLowerCase();
+  else if (c.localName === 'sysClr') hex = '#' + (c.getAttribute('lastClr') ?? '000000').toLowerCase();
+  else if (c.localName === 'prstClr') hex = PRESET_COLORS[val];
+  else {
+    const physical = colors.clrMap[val] ?? val;
+    slot = colors.slots[physical];
+    hex = colors.scheme[physical];
+  }
+  const mods = Array.from(c.children).filter(m => ['lumMod', 'lumOff', 'tint', 'shade'].includes(m.localName));
+  if (slot && !mods.length) return slot;
+  return hex && /^#[0-9a-f]{6}$/.test(hex) ? modifyColor(hex, mods) : undefined;
+};
+
+// 'none' for no fill, undefined when the shape doesn't say.
+const fillOf = (spPr: Element | undefined, colors: ColorContext) => {
+  if (!spPr) return undefined;
+  if (firstChild(spPr, 'noFill')) return 'none';
+  const solid = firstChild(spPr, 'solidFill');
+  if (solid) return colorOf(solid, colors);
+  const stop = firstChild(spPr, 'gradFill') && descendantsByName(firstChild(spPr, 'gradFill')!, 'gs')[0];
+  return stop ? colorOf(stop, colors) : undefined;
+};
+
+// The shape's style refers to the theme's fill and line styles by index;
+// their color is all we take from them.
+const styleRef = (sp: Element, name: string, colors: ColorContext) => {
+  const ref = firstChild(sp, 'style') && firstChild(firstChild(sp, 'style')!, name);
+  return ref && num(ref, 'idx') > 0 ? colorOf(ref, colors) : undefined;
+};
+
+const outlineOf = (sp: Element, spPr: Element | undefined, env: ShapeEnv) => {
+  const ln = spPr && firstChild(spPr, 'ln');
+  const width = ln?.getAttribute('w') ? num(ln, 'w') / EMU_PER_PT * env.scale : 1;
+  if (ln && firstChild(ln, 'noFill')) return { width: 0 };
+  const color = (ln && fillOf(ln, env.colors)) ?? styleRef(sp, 'lnRef', env.colors);
+  return {
+    color: color === 'none' ? undefined : color, width: color && color !== 'none' ? Math.max(0.5, Math.round(width * 4) / 4) : 0,
+    arrow: !!ln && ['tailEnd', 'headEnd'].some(end => (firstChild(ln, end)?.getAttribute('type') ?? 'none') !== 'none')
+  };
+};
+
+const fontName = (typeface: string | null | undefined) =>
+  !typeface ? undefined : typeface.startsWith('+mj') ? 'heading' : typeface.startsWith('+mn') ? 'body' : typeface;
+
+const readRunProps = (rPr: Element | undefined, colors: ColorContext): Omit<Run, 'text'> => {
+  if (!rPr) return {};
+  const flagAttr = (name: string) => rPr.hasAttribute(name) ? isOn(rPr.getAttribute(name)) : undefined;
+  const u = rPr.getAttribute('u');
+  return {
+    size: rPr.getAttribute('sz') ? num(rPr, 'sz') / 100 : undefined,
+    bold: flagAttr('b'),
+    italic: flagAttr('i'),
+    underline: u ? u !== 'none' : undefined,
+    color: colorOf(firstChild(rPr, 'solidFill'), colors),
+    font: fontName(firstChild(rPr, 'latin')?.getAttribute('typeface'))
+  };
+};
+
+// First level of a list style: <a:lstStyle>, a master's <p:titleStyle>…
+const level1 = (listStyle: Element | undefined) => listStyle && firstChild(listStyle, 'lvl1pPr');
+
+const bulletOf = (pPr: Element | undefined): Paragraph['list'] | null | undefined => {
+  if (!pPr) return undefined;
+  if (firstChild(pPr, 'buNone')) return null;
+  if (firstChild(pPr, 'buAutoNum')) return 'ol';
+  if (firstChild(pPr, 'buChar') || firstChild(pPr, 'buBlip')) return 'ul';
+  return undefined;
+};
+
+const ALIGNMENTS: Record<string, TextStyle['align']> = { l: 'left', ctr: 'center', r: 'right', just: 'left', dist: 'left' };
+const ANCHORS: Record<string, TextStyle['valign']> = { t: 'top', ctr: 'middle', b: 'bottom' };
+
+const phOf = (nv: Element | undefined) => {
+  const ph = nv && firstChild(nv, 'nvPr') && firstChild(firstChild(nv, 'nvPr')!, 'ph');
+  return ph ? { type: ph.getAttribute('type') ?? 'obj', idx: ph.getAttribute('idx') ?? undefined } : undefined;
+};
+
+const isTitleType = (type: string) => type === 'title' || type === 'ctrTitle';
+
+// Where a placeholder inherits from: the same index, else the same type,
+// else the same kind (title or body).
+const matchPlaceholder = (list: PlaceholderShape[], ph: { type: string; idx?: string }) =>
+  (ph.idx !== undefined ? list.find(p => p.idx === ph.idx) : undefined)
+  ?? list.find(p => p.type === ph.type)
+  ?? list.find(p => isTitleType(p.type) === isTitleType(ph.type) && p.type !== 'pic' && ph.type !== 'pic');
+
+const readPlaceholders = (tree: Element | undefined): PlaceholderShape[] =>
+  !tree ? [] : [...childrenByName(tree, 'sp'), ...childrenByName(tree, 'pic')].flatMap(sp => {
+    const ph = phOf(firstChild(sp, 'nvSpPr') ?? firstChild(sp, 'nvPicPr'));
+    if (!ph) return [];
+    const spPr = firstChild(sp, 'spPr');
+    const txBody = firstChild(sp, 'txBody');
+    return [{
+      ...ph, frame: readFrame(spPr && firstChild(spPr, 'xfrm')),
+      lstStyle: txBody && firstChild(txBody, 'lstStyle'), bodyPr: txBody && firstChild(txBody, 'bodyPr')
+    }];
+  });
+
+const readParagraphs = (txBody: Element, colors: ColorContext, inheritedList: (Paragraph['list'] | null | undefined)[]) =>
+  childrenByName(txBody, 'p').map(p => {
+    const pPr = firstChild(p, 'pPr');
+    const own = bulletOf(pPr);
+    const list = [own, ...inheritedList].find(b => b !== undefined) ?? undefined;
+    const runs: Run[] = Array.from(p.children).flatMap((r): Run[] => {
+      if (r.localName === 'br') return [{ text: '', br: true }];
+      if (r.localName !== 'r' && r.localName !== 'fld') return [];
+      return [{ ...readRunProps(firstChild(r, 'rPr'), colors), text: firstChild(r, 't')?.textContent ?? '' }];
+    });
+    return { paragraph: { runs, list: list ?? undefined } as Paragraph, pPr };
+  });
+
+const readText = (sp: Element, frame: Frame, ph: { type: string; idx?: string } | undefined, fill: string | undefined, env: ShapeEnv): SlideElement => {
+  const txBody = firstChild(sp, 'txBody')!;
+  const inheritedPh = ph ? env.inherited.map(list => matchPlaceholder(list, ph)).filter((p): p is PlaceholderShape => !!p) : [];
+  const masterStyle = !ph ? env.textStyles.other : isTitleType(ph.type) ? env.textStyles.title : env.textStyles.body;
+  const levels = [level1(firstChild(txBody, 'lstStyle')), ...inheritedPh.map(p => level1(p.lstStyle)), level1(masterStyle)]
+    .filter((l): l is Element => !!l);
+  const inherited = levels.map(l => readRunProps(firstChild(l, 'defRPr'), env.colors));
+  const pick = <K extends keyof Omit<Run, 'text'>>(key: K, runs: Run[]) => [...runs.map(r => r[key]), ...inherited.map(r => r[key])].find(v => v !== undefined);
+  const paragraphs = readParagraphs(txBody, env.colors, levels.map(l => bulletOf(l)));
+  const firstRuns = paragraphs.find(p => p.paragraph.runs.some(r => r.text))?.paragraph.runs ?? [];
+  const bodyPr = [firstChild(txBody, 'bodyPr'), ...inheritedPh.map(p => p.bodyPr)];
+  const autofit = bodyPr[0] && firstChild(bodyPr[0], 'normAutofit');
+  const fontScale = (autofit?.getAttribute('fontScale') ? num(autofit, 'fontScale') / 100000 : 1) * env.scale;
+  const align = [paragraphs[0]?.pPr?.getAttribute('algn'), ...levels.map(l => l.getAttribute('algn'))].find(a => a);
+  const anchor = bodyPr.map(b => b?.getAttribute('anchor')).find(a => a);
+  const fallbackColor = ph && isTitleType(ph.type) ? 'heading' : 'text';
+  const style: TextStyle = {
+    fontSize: Math.round((pick('size', firstRuns) ?? 18) * fontScale * 10) / 10,
+    color: pick('color', firstRuns) ?? fallbackColor,
+    fontFamily: pick('font', firstRuns) ?? (ph && isTitleType(ph.type) ? 'heading' : 'body'),
+    align: align ? ALIGNMENTS[align] : undefined,
+    valign: anchor ? ANCHORS[anchor] : undefined,
+    fill: fill && fill !== 'none' ? fill : undefined
+  };
+  // Inherited bold and sizes apply to runs that don't set their own.
+  const bold = inherited.map(r => r.bold).find(b => b !== undefined);
+  const runs = paragraphs.map(({ paragraph }) => ({
+    ...paragraph,
+    runs: paragraph.runs.map(r => ({ ...r, bold: r.bold ?? bold, size: r.size && Math.round(r.size * fontScale * 10) / 10 }))
+  }));
+  const empty = runs.every(p => p.runs.every(r => !r.text));
+  return {
+    id: '', type: 'text', ...frameBox(env.toPoints(frame)), html: empty ? '' : paragraphsToHtml(runs, style, env.theme), style
+  };
+};
+
+const frameBox = (f: Frame) => ({
+  x: Math.round(f.x * 10) / 10, y: Math.round(f.y * 10) / 10, width: Math.round(f.width * 10) / 10, height: Math.round(f.height * 10) / 10,
+  rotation: f.rotation ? Math.round(f.rotation) % 360 || undefined : undefined
+});
+
+const readLine = (sp: Element, frame: Frame, env: ShapeEnv): SlideElement | null => {
+  const outline = outlineOf(sp, firstChild(sp, 'spPr'), env);
+  if (!outline.width) return null;
+  const box = frameBox(env.toPoints(frame));
+  return {
+    id: '', type: 'line', ...box, stroke: outline.color ?? 'text', strokeWidth: outline.width,
+    flip: frame.flipH !== frame.flipV || undefined, arrowEnd: outline.arrow || undefined
+  };
+};
+
+const readImage = async (pic: Element, env: ShapeEnv) => {
+  const blip = descendantsByName(pic, 'blip')[0];
+  const relId = blip?.getAttributeNS(REL_NS, 'embed') || blip?.getAttribute('r:embed') || '';
+  const rel = env.rels[relId];
+  const ext = rel?.target.split('.').pop()?.toLowerCase() ?? '';
+  const file = rel && !rel.external ? env.zip.file(rel.target) : null;
+  // EMF/WMF previews and the like can't be shown in a browser.
+  if (!file || !IMAGE_TYPES[ext]) return '';
+  return `data:${IMAGE_TYPES[ext]};base64,${await file.async('base64')}`;
+};
+
+const readTable = (frame: Element, box: Frame, env: ShapeEnv): SlideElement | null => {
+  const tbl = descendantsByName(frame, 'tbl')[0];
+  if (!tbl) return null;
+  const rows = childrenByName(tbl, 'tr').map(tr => childrenByName(tr, 'tc').map(tc =>
+    descendantsByName(tc, 'p').map(p => descendantsByName(p, 't').map(t => t.textContent ?? '').join('')).join(' ').trim()));
+  if (!rows.length || !rows[0].length) return null;
+  const width = Math.max(...rows.map(r => r.length));
+  const firstRun = descendantsByName(tbl, 'rPr')[0];
+  const props = readRunProps(firstRun, env.colors);
+  const border = descendantsByName(tbl, 'lnL')[0];
+  const tblPr = firstChild(tbl, 'tblPr');
+  return {
+    id: '', type: 'table', ...frameBox(env.toPoints(box)),
+    rows: rows.map(r => [...r, ...Array(width - r.length).fill('')]),
+    headerRow: isOn(tblPr?.getAttribute('firstRow')) || undefined,
+    fontSize: Math.round((props.size ?? 18) * env.scale), color: props.color ?? 'text',
+    borderColor: (border && fillOf(border, env.colors)) || 'text'
+  };
+};
+
+const SHAPE_KINDS: Record<string, ShapeKind> = {
+  rect: 'rect', roundRect: 'roundRect', snipRoundRect: 'roundRect', ellipse: 'ellipse', triangle: 'triangle', rtTriangle: 'triangle',
+  diamond: 'diamond', rightArrow: 'arrow'
+};
+const LINE_GEOMETRIES = new Set(['line', 'straightConnector1', 'bentConnector2', 'bentConnector3', 'curvedConnector3']);
+
+// Reads a shape tree in file order (back to front). Group members keep their
+// grouping; nested groups flatten into the outermost one.
+const readTree = async (
+  tree: Element, env: ShapeEnv, place: (f: Frame) => Frame, groupId?: string, out: ReadElement[] = [], groups = { n: 0 }, outer: string[] = []
+) => {
+  for (const node of Array.from(tree.children)) {
+    const name = node.localName;
+    if (name === 'AlternateContent') {
+      const fallback = firstChild(node, 'Fallback');
+      if (fallback) await readTree(fallback, env, place, groupId, out, groups, outer);
+      continue;
+    }
+    const nv = firstChild(node, 'nvSpPr') ?? firstChild(node, 'nvPicPr') ?? firstChild(node, 'nvCxnSpPr') ?? firstChild(node, 'nvGraphicFramePr') ?? firstChild(node, 'nvGrpSpPr');
+    const spid = nv && firstChild(nv, 'cNvPr')?.getAttribute('id');
+    const spids = spid ? [...outer, spid] : outer;
+    if (name === 'grpSp') {
+      const xfrm = firstChild(firstChild(node, 'grpSpPr') ?? node, 'xfrm');
+      const outer = readFrame(xfrm);
+      const chOff = xfrm && firstChild(xfrm, 'chOff');
+      const chExt = xfrm && firstChild(xfrm, 'chExt');
+      const sx = outer && num(chExt, 'cx') ? outer.width / num(chExt, 'cx') : 1;
+      const sy = outer && num(chExt, 'cy') ? outer.height / num(chExt, 'cy') : 1;
+      const inner = (f: Frame) => place(outer ? {
+        ...f, x: outer.x + (f.x - num(chOff, 'x')) * sx, y: outer.y + (f.y - num(chOff, 'y')) * sy, width: f.width * sx, height: f.height * sy
+      } : f);
+      await readTree(node, env, inner, groupId ?? `g${++groups.n}`, out, groups, spids);
+      continue;
+    }
+    const push = (el: SlideElement | null, ph?: { type: string; idx?: string }) => {
+      if (el) out.push({ el: { ...el, groupId }, phType: ph?.type, phIdx: ph?.idx, spids });
+    };
+    const ph = phOf(nv);
+    const spPr = firstChild(node, 'spPr');
+    const own = readFrame(name === 'graphicFrame' ? firstChild(node, 'xfrm') : spPr && firstChild(spPr, 'xfrm'));
+    const frame = own ?? (ph && env.inherited.map(list => matchPlaceholder(list, ph)?.frame).find(f => f));
+    if (!frame) continue;
+    const placed = place(frame);
+    if (name === 'pic') {
+      const src = await readImage(node, env);
+      const alt = nv && firstChild(nv, 'cNvPr')?.getAttribute('descr');
+      if (src || ph) push({ id: '', type: 'image', ...frameBox(env.toPoints(placed)), src, alt: alt || undefined }, ph);
+    } else if (name === 'cxnSp') {
+      push(readLine(node, placed, env));
+    } else if (name === 'graphicFrame') {
+      push(readTable(node, placed, env), ph);
+    } else if (name === 'sp') {
+      const geometry = spPr && firstChild(spPr, 'prstGeom')?.getAttribute('prst');
+      if (geometry && LINE_GEOMETRIES.has(geometry)) {
+        push(readLine(node, placed, env));
+        continue;
+      }
+      if (ph?.type === 'pic') {
+        push({ id: '', type: 'image', ...frameBox(env.toPoints(placed)), src: '' }, ph);
+        continue;
+      }
+      const txBody = firstChild(node, 'txBody');
+      const hasText = !!txBody && descendantsByName(txBody, 't').some(t => t.textContent);
+      const fill = fillOf(spPr, env.colors) ?? styleRef(node, 'fillRef', env.colors);
+      const outline = outlineOf(node, spPr, env);
+      const kind = SHAPE_KINDS[geometry ?? 'rect'] ?? 'rect';
+      const box = frameBox(env.toPoints(placed));
+      // Text in anything but a plain box becomes a shape with a text box on top.
+      const drawn = (fill && fill !== 'none') || outline.width > 0;
+      if (drawn && (kind !== 'rect' || outline.width > 0) && (hasText || !ph)) {
+        const shapeGroup = hasText ? groupId ?? `g${++groups.n}` : groupId;
+        out.push({ el: { id: '', type: 'shape', ...box, shape: kind, fill: fill ?? 'none', stroke: outline.color, strokeWidth: outline.width || undefined, groupId: shapeGroup }, spids });
+        if (hasText) out.push({ el: { ...readText(node, placed, undefined, undefined, env), groupId: shapeGroup }, spids });
+      } else if (hasText || ph) {
+        push(readText(node, placed, ph, fill, env), ph);
+      } else if (drawn) {
+        push({ id: '', type: 'shape', ...box, shape: kind, fill: fill ?? 'none' });
+      }
+    }
+  }
+  return out;
+};
+
+const LAYOUT_IDS: Record<string, LayoutId> = {
+  title: 'title', obj: 'titleContent', tx: 'titleContent', twoObj: 'twoColumn', twoTxTwoObj: 'twoColumn',
+  secHead: 'section', blank: 'blank', picTx: 'imageCaption'
+};
+
+// Matches a slide's placeholders to our layout's roles. Date, footer and
+// slide number placeholders are kept only when they hold text. `targets`
+// collects the elements each file shape id became.
+const assignRoles = (read: ReadElement[], layout: LayoutId | undefined, targets = new Map<string, string[]>()): SlideElement[] => {
+  const taken = new Set<PlaceholderRole>();
+  const bodies = read.filter(r => r.phType && !isTitleType(r.phType) && !['subTitle', 'pic', 'dt', 'ftr', 'sldNum'].includes(r.phType))
+    .sort((a, b) => a.el.x - b.el.x);
+  const bodyRoles: PlaceholderRole[] = layout === 'twoColumn' ? ['left', 'right'] : layout === 'imageCaption' ? ['caption']
+    : layout === 'section' ? ['subtitle'] : ['body'];
+  const roleOf = (r: ReadElement): PlaceholderRole | undefined => {
+    if (!r.phType) return undefined;
+    if (isTitleType(r.phType)) return 'title';
+    if (r.phType === 'subTitle') return 'subtitle';
+    if (r.phType === 'pic') return 'image';
+    const i = bodies.indexOf(r);
+    return i >= 0 ? bodyRoles[i] : undefined;
+  };
+  const elements: SlideElement[] = [];
+  read.forEach(r => {
+    let role = roleOf(r);
+    if (role && taken.has(role)) role = undefined;
+    const empty = (r.el.type === 'text' && !r.el.html) || (r.el.type === 'image' && !r.el.src);
+    if (empty && !role) return;
+    if (role) taken.add(role);
+    const id = nextElementId(elements);
+    r.spids?.forEach(spid => targets.set(spid, [...targets.get(spid) ?? [], id]));
+    elements.push({ ...r.el, id, placeholder: role });
+  });
+  return elements;
+};
+
+const readBackground = (cSld: Element | undefined, colors: ColorContext) => {
+  const bg = cSld && firstChild(cSld, 'bg');
+  if (!bg) return undefined;
+  const bgPr = firstChild(bg, 'bgPr');
+  const color = bgPr ? fillOf(bgPr, colors) : colorOf(firstChild(bg, 'bgRef'), colors);
+  return color === 'none' ? undefined : color;
+};
+
+const readNotes = async (zip: JSZip, rels: Record<string, Relationship>) => {
+  const rel = Object.values(rels).find(r => r.type.endsWith('/notesSlide'));
+  const doc = rel && await readPart(zip, rel.target);
+  if (!doc) return undefined;
+  const body = descendantsByName(doc, 'sp').find(sp => phOf(firstChild(sp, 'nvSpPr'))?.type === 'body');
+  const text = body ? descendantsByName(body, 'p').map(p =>
+    Array.from(p.children).map(r => r.localName === 'br' ? '\n' : r.localName === 'r' || r.localName === 'fld' ? firstChild(r, 't')?.textContent ?? '' : '').join('')
+  ).join('\n').trim() : '';
+  return text || undefined;
+};
+
+const TRANSITION_EFFECTS: Record<string, TransitionEffect> = {
+  fade: 'fade', dissolve: 'fade', push: 'push', cover: 'push', pull: 'push', wipe: 'wipe', split: 'wipe', zoom: 'zoom', cut: 'none'
+};
+const DIRECTION_CODES: Record<Direction, string> = { left: 'l', right: 'r', up: 'u', down: 'd' };
+const TRANSITION_SPEEDS: Record<string, number> = { fast: 500, med: 750, slow: 1000 };
+
+// PowerPoint 2010 writes its transitions twice, newest first, inside
+// AlternateContent; the first effect we know wins and anything else fades.
+const readTransition = (doc: XMLDocument): SlideTransition | undefined => {
+  for (const t of descendantsByName(doc, 'transition')) {
+    const kind = t.children[0];
+    if (!kind) continue;
+    const effect = TRANSITION_EFFECTS[kind.localName] ?? 'fade';
+    if (effect === 'none') return undefined;
+    const dir = kind.getAttribute('dir');
+    const direction = (Object.keys(DIRECTION_CODES) as Direction[]).find(d => DIRECTION_CODES[d] === dir);
+    const duration = Number(t.getAttribute('p14:dur') ?? t.getAttribute('dur')) || TRANSITION_SPEEDS[t.getAttribute('spd') ?? 'med'] || 750;
+    return { effect, duration, direction: effect === 'push' || effect === 'wipe' ? direction : undefined };
+  }
+  return undefined;
+};
+
+// Presets by PowerPoint's preset ids; others play as the nearest we have.
+const ENTRANCE_PRESETS: Record<number, AnimationEffect> = { 1: 'appear', 2: 'fly', 10: 'fade', 23: 'zoom', 53: 'zoom' };
+const EMPHASIS_PRESETS: Record<number, AnimationEffect> = { 6: 'pulse', 8: 'spin', 26: 'pulse', 32: 'shake' };
+const PRESET_CLASS_NAMES: Record<AnimationKind, string> = { entrance: 'entr', emphasis: 'emph', exit: 'exit' };
+const NODE_STARTS: Record<string, AnimationStart> = { clickEffect: 'click', withEffect: 'with', afterEffect: 'after' };
+
+// The main sequence's effects in play order, on the elements they target.
+const readAnimations = (doc: XMLDocument, targets: Map<string, string[]>) => {
+  const timing = descendantsByName(doc, 'timing')[0];
+  const animations: ElementAnimation[] = [];
+  for (const node of timing ? descendantsByName(timing, 'cTn') : []) {
+    const kind = (Object.keys(PRESET_CLASS_NAMES) as AnimationKind[]).find(k => PRESET_CLASS_NAMES[k] === node.getAttribute('presetClass'));
+    const ids = targets.get(descendantsByName(node, 'spTgt')[0]?.getAttribute('spid') ?? '');
+    if (!kind || !ids) continue;
+    const preset = num(node, 'presetID');
+    const effect = (kind === 'emphasis' ? EMPHASIS_PRESETS[preset] ?? 'pulse' : ENTRANCE_PRESETS[preset] ?? 'fade');
+    const duration = Math.max(0, ...descendantsByName(node, 'cTn').map(c => num(c, 'dur') * (isOn(c.getAttribute('autoRev')) ? 2 : 1) * (num(c, 'repeatCount') / 1000 || 1)));
+    const start = NODE_STARTS[node.getAttribute('nodeType') ?? ''] ?? 'with';
+    ids.forEach((elementId, i) => animations.push({
+      ...createAnimation(elementId, kind, effect, i ? 'with' : start, animations),
+      duration: effect === 'appear' ? 0 : duration > 1 ? duration : 500
+    }));
+  }
+  return animations.length ? animations : undefined;
+};
+
+const readTheme = (doc: XMLDocument | null, clrMap: Record<string, string>) => {
+  const scheme: Record<string, string> = {};
+  const clrScheme = doc && descendantsByName(doc, 'clrScheme')[0];
+  if (clrScheme) {
+    Array.from(clrScheme.children).forEach(c => {
+      const hex = colorOf(c, { scheme: {}, clrMap: {}, slots: {} });
+      if (hex) scheme[c.localName] = hex;
+    });
+  }
+  const font = (name: string) => {
+    const el = doc && descendantsByName(doc, name)[0];
+    const typeface = el && firstChild(el, 'latin')?.getAttribute('typeface');
+    return typeface && !typeface.startsWith('+') ? typeface : undefined;
+  };
+  const physical = (slot: ThemeColor) => slot.startsWith('accent') ? slot : clrMap[SCHEME_NAMES[slot]];
+  const colors = Object.fromEntries(THEME_COLORS.map(({ key }) => [key, scheme[physical(key)] ?? DEFAULT_THEME.colors[key]])) as Record<ThemeColor, string>;
+  const slots: Record<string, ThemeColor> = {};
+  // Later entries win, so a scheme color mapped twice reads as the accent.
+  THEME_COLORS.forEach(({ key }) => { slots[physical(key)] = key; });
+  const theme: Theme = {
+    name: doc?.documentElement.getAttribute('name') || 'Imported',
+    colors,
+    fonts: { heading: font('majorFont') ?? DEFAULT_THEME.fonts.heading, body: font('minorFont') ?? DEFAULT_THEME.fonts.body }
+  };
+  return { theme, colors: { scheme, clrMap, slots } };
+};
+
+const STANDARD_CLR_MAP: Record<string, string> = {
+  bg1: 'lt1', tx1: 'dk1', bg2: 'lt2', tx2: 'dk2', accent1: 'accent1', accent2: 'accent2', accent3: 'accent3',
+  accent4: 'accent4', accent5: 'accent5', accent6: 'accent6', hlink: 'hlink', folHlink: 'folHlink'
+};
+
+export const readPptx = async (data: ArrayBuffer): Promise<Deck> => {
+  const zip = await openPackage(data);
+  const rootRels = await readRels(zip, '');
+  const presPath = Object.values(rootRels).find(r => r.type.endsWith('/officeDocument'))?.target ?? 'ppt/presentation.xml';
+  const pres = await readPart(zip, presPath);
+  if (!pres || pres.documentElement.localName !== 'presentation') throw new Error('Not a valid .pptx presentation');
+  const presRels = await readRels(zip, presPath);
+
+  // Other page sizes are scaled to fit and centred on ours.
+  const size = descendantsByName(pres, 'sldSz')[0];
+  const [w, h] = [num(size, 'cx') || SLIDE_CX, num(size, 'cy') || SLIDE_CY];
+  const scale = Math.min(SLIDE_CX / w, SLIDE_CY / h);
+  const [dx, dy] = [(SLIDE_CX - w * scale) / 2, (SLIDE_CY - h * scale) / 2];
+  const toPoints = (f: Frame): Frame => ({
+    ...f, x: (dx + f.x * scale) / EMU_PER_PT, y: (dy + f.y * scale) / EMU_PER_PT, width: f.width * scale / EMU_PER_PT, height: f.height * scale / EMU_PER_PT
+  });
+
+  const masterRel = Object.values(presRels).find(r => r.type.endsWith('/slideMaster'));
+  const masterPath = masterRel?.target ?? '';
+  const master = masterRel ? await readPart(zip, masterPath) : null;
+  const masterRels = masterRel ? await readRels(zip, masterPath) : {};
+  const clrMapEl = master && descendantsByName(master, 'clrMap')[0];
+  const clrMap = clrMapEl ? Object.fromEntries(Array.from(clrMapEl.attributes).map(a => [a.name, a.value])) : STANDARD_CLR_MAP;
+  const themeRel = Object.values(masterRels).find(r => r.type.endsWith('/theme')) ?? Object.values(presRels).find(r => r.type.endsWith('/theme'));
+  const { theme, colors } = readTheme(themeRel ? await readPart(zip, themeRel.target) : null, clrMap);
+
+  const masterTree = master ? descendantsByName(master, 'spTree')[0] : undefined;
+  const masterPhs = readPlaceholders(masterTree);
+  const txStyles = master ? descendantsByName(master, 'txStyles')[0] : undefined;
+  const textStyles = {
+    title: txStyles && firstChild(txStyles, 'titleStyle'), body: txStyles && firstChild(txStyles, 'bodyStyle'), other: txStyles && firstChild(txStyles, 'otherStyle')
+  };
+  const env = (rels: Record<string, Relationship>, inherited: PlaceholderShape[][]): ShapeEnv =>
+    ({ zip, rels, colors, theme, inherited, textStyles, toPoints, scale });
+  const decoration = async (tree: Element | undefined, e: ShapeEnv) =>
+    tree ? (await readTree(tree, e, f => f)).filter(r => !r.phType).map(r => r.el) : [];
+  const withIds = (elements: SlideElement[]) => elements.reduce<SlideElement[]>((all, el) => [...all, { ...el, id: nextElementId(all) }], []);
+  const masterBackground = readBackground(master ? descendantsByName(master, 'cSld')[0] : undefined, colors);
+  const masterElements = withIds(await decoration(masterTree, env(masterRels, [])));
+
+  const slides: Slide[] = [];
+  for (const sldId of descendantsByName(pres, 'sldId')) {
+    const rel = presRels[sldId.getAttributeNS(REL_NS, 'id') || sldId.getAttribute('r:id') || ''];
+    if (!rel || !rel.type.endsWith('/slide')) continue;
+    const doc = await readPart(zip, rel.target);
+    if (!doc) continue;
+    const rels = await readRels(zip, rel.target);
+    const layoutRel = Object.values(rels).find(r => r.type.endsWith('/slideLayout'));
+    const layoutDoc = layoutRel ? await readPart(zip, layoutRel.target) : null;
+    const layoutRels = layoutRel ? await readRels(zip, layoutRel.target) : {};
+    const layoutTree = layoutDoc ? descendantsByName(layoutDoc, 'spTree')[0] : undefined;
+    const layoutPhs = readPlaceholders(layoutTree);
+    const layout = LAYOUT_IDS[layoutDoc?.documentElement.getAttribute('type') ?? ''];
+
+    const behind = await decoration(layoutTree, env(layoutRels, [masterPhs]));
+    const tree = descendantsByName(doc, 'spTree')[0];
+    const read = tree ? await readTree(tree, env(rels, [layoutPhs, masterPhs]), f => f) : [];
+    const background = readBackground(descendantsByName(doc, 'cSld')[0], colors)
+      ?? readBackground(layoutDoc ? descendantsByName(layoutDoc, 'cSld')[0] : undefined, colors)
+      ?? masterBackground;
+    const targets = new Map<string, string[]>();
+    const elements = assignRoles([...behind.map(el => ({ el })), ...read], layout, targets);
+    slides.push({
+      id: `${Date.now()}${slides.length}`,
+      layout,
+      background: background && background !== 'background' ? background : undefined,
+      notes: await readNotes(zip, rels),
+      transition: readTransition(doc),
+      animations: readAnimations(doc, targets),
+      elements
+    });
+  }
+  if (!slides.length) throw new Error('The presentation contains no slides');
+  return { theme, master: { elements: masterElements }, slides };
+};
+
+// --- PPTX EXPORT ---
+// Writes one master (the deck's master elements), one layout per slide
+// layout, the slides with their transitions and animations, and their notes.
+// Charts are written as pictures, drawn by `rasterize`, and so are SVG
+// images, which PowerPoint can't open without a bitmap fallback. Groups are
+// written flat; their members keep their places.
+export const PPTX_MIME = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const DOC_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CT = 'application/vnd.openxmlformats-officedocument.presentationml';
+const NAMESPACES = `xmlns:a="${A_NS}" xmlns:r="${DOC_REL}" xmlns:p="${P_NS}"`;
+
+const emu = (pt: number) => Math.round(pt * EMU_PER_PT);
+
+const createRels = () => {
+  const list: string[] = [];
+  return {
+    add: (type: string, target: string) => {
+      const id = `rId${list.length + 1}`;
+      list.push(`<Relationship Id="${id}" Type="${DOC_REL}/${type}" Target="${escapeXml(target)}"/>`);
+      return id;
+    },
+    toXml: () => XML_HEADER + `<Relationships xmlns="${PKG_REL}">${list.join('')}</Relationships>`
+  };
+};
+type Rels = ReturnType<typeof createRels>;
+
+// Pictures are stored once per distinct source under ppt/media.
+const createMedia = () => {
+  const files = new Map<string, { path: string; bytes: Uint8Array }>();
+  return {
+    files,
+    add: (key: string, ext: string, bytes: Uint8Array) => {
+      if (!files.has(key)) files.set(key, { path: `media/image${files.size + 1}.${ext}`, bytes });
+      return files.get(key)!;
+    }
+  };
+};
+type Media = ReturnType<typeof createMedia>;
+
+const colorXml = (color: string | undefined) => {
+  if (!color) return '';
+  if (color in SCHEME_NAMES) return `<a:schemeClr val="${SCHEME_NAMES[color as ThemeColor]}"/>`;
+  const hex = cssHex(color);
+  return hex ? `<a:srgbClr val="${hex.slice(1).toUpperCase()}"/>` : '';
+};
+
+const fillXml = (color: string | undefined) => {
+  const c = colorXml(color);
+  return c ? `<a:solidFill>${c}</a:solidFill>` : '<a:noFill/>';
+};
+
+const fontXml = (font: string | undefined) =>
+  !font ? '' : `<a:latin typeface="${font === 'heading' ? '+mj-lt' : font === 'body' ? '+mn-lt' : escapeXml(font)}"/>`;
+
+const xfrmXml = (el: SlideElement, tag = 'a:xfrm', flipV = false) =>
+  `<${tag}${el.rotation ? ` rot="${Math.round(el.rotation * 60000)}"` : ''}${flipV ? ' flipV="1"' : ''}>` +
+  `<a:off x="${emu(el.x)}" y="${emu(el.y)}"/><a:ext cx="${emu(el.width)}" cy="${emu(el.height)}"/></${tag}>`;
+
+const GROUP_HEADER = '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+// The <p:ph> a placeholder role is written with; layouts and slides must agree.
+const phXml = (role: PlaceholderRole, layout: LayoutId | undefined) => {
+  const attrs = {
+    title: layout === 'title' ? 'type="ctrTitle"' : 'type="title"',
+    subtitle: layout === 'title' ? 'type="subTitle" idx="1"' : 'type="body" idx="1"',
+    body: 'idx="1"',
+    left: 'idx="1"',
+    right: 'idx="2"',
+    image: 'type="pic" idx="1"',
+    caption: 'type="body" idx="2"'
+  }[role];
+  return `<p:ph ${attrs}/>`;
+};
+
+const runPropsXml = (run: Omit<Run, 'text'>, style: TextStyle, tag = 'a:rPr') => {
+  const size = Math.max(1, Math.min(4000, run.size ?? style.fontSize));
+  return `<${tag} lang="en-US" sz="${Math.round(size * 100)}"${run.bold ? ' b="1"' : ''}${run.italic ? ' i="1"' : ''}${run.underline ? ' u="sng"' : ''} dirty="0">` +
+    `${colorXml(run.color ?? style.color) ? `<a:solidFill>${colorXml(run.color ?? style.color)}</a:solidFill>` : ''}${fontXml(run.font ?? style.fontFamily)}</${tag}>`;
+};
+
+const ALGN: Record<string, string> = { left: 'l', center: 'ctr', right: 'r' };
+
+const paragraphXml = (p: Paragraph, style: TextStyle) => {
+  const bullet = p.list === 'ol' ? '<a:buAutoNum type="arabicPeriod"/>' : p.list === 'ul' ? '<a:buFont typeface="Arial"/><a:buChar char="•"/>' : '<a:buNone/>';
+  const indent = p.list ? ' marL="342900" indent="-342900"' : ' marL="0" indent="0"';
+  const runs = p.runs.map(r => r.br ? `<a:br>${runPropsXml(r, style)}</a:br>` : `<a:r>${runPropsXml(r, style)}<a:t>${escapeXml(r.text)}</a:t></a:r>`).join('');
+  return `<a:p><a:pPr algn="${ALGN[style.align ?? 'left']}"${indent}>${bullet}</a:pPr>${runs}${runPropsXml({}, style, 'a:endParaRPr')}</a:p>`;
+};
+
+const bodyPrXml = (valign: TextStyle['valign']) =>
+  `<a:bodyPr wrap="square" lIns="101600" tIns="50800" rIns="101600" bIns="50800" anchor="${{ top: 't', middle: 'ctr', bottom: 'b' }[valign ?? 'top']}" rtlCol="0"><a:noAutofit/></a:bodyPr>`;
+
+const spXml = (id: number, name: string, nvPr: string, spPr: string, txBody = '', txBox = false) =>
+  `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${escapeXml(name)}"/><p:cNvSpPr${txBox ? ' txBox="1"' : ''}>${nvPr.includes('<p:ph') ? '<a:spLocks noGrp="1"/>' : ''}</p:cNvSpPr>` +
+  `<p:nvPr>${nvPr}</p:nvPr></p:nvSpPr><p:spPr>${spPr}</p:spPr>${txBody}</p:sp>`;
+
+const picXml = (id: number, name: string, descr: string, nvPr: string, relId: string, el: SlideElement) =>
+  `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="${escapeXml(name)}" descr="${escapeXml(descr)}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr>${nvPr}</p:nvPr></p:nvPicPr>` +
+  `<p:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+  `<p:spPr>${xfrmXml(el)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+
+const tableXml = (id: number, el: Extract<SlideElement, { type: 'table' }>) => {
+  const cols = Math.max(1, ...el.rows.map(r => r.length));
+  const [colW, rowH] = [emu(el.width / cols), emu(el.height / Math.max(1, el.rows.length))];
+  const border = (side: string) => `<a:${side} w="12700"><a:solidFill>${colorXml(el.borderColor) || '<a:srgbClr val="808080"/>'}</a:solidFill></a:${side}>`;
+  const style: TextStyle = { fontSize: el.fontSize, color: el.color, fontFamily: 'body' };
+  const rows = el.rows.map((row, r) => `<a:tr h="${rowH}">` + Array.from({ length: cols }, (_, c) => {
+    const text = row[c] ?? '';
+    const run = text ? `<a:r>${runPropsXml({ bold: r === 0 && el.headerRow }, style)}<a:t>${escapeXml(text)}</a:t></a:r>` : '';
+    const fill = r === 0 && el.headerRow ? '<a:solidFill><a:srgbClr val="FFFFFF"><a:alpha val="8000"/></a:srgbClr></a:solidFill>' : '<a:noFill/>';
+    return `<a:tc><a:txBody><a:bodyPr/><a:lstStyle/><a:p>${run}${runPropsXml({}, style, 'a:endParaRPr')}</a:p></a:txBody>` +
+      `<a:tcPr marL="101600" marR="101600" marT="50800" marB="50800">${border('lnL')}${border('lnR')}${border('lnT')}${border('lnB')}${fill}</a:tcPr></a:tc>`;
+  }).join('') + '</a:tr>').join('');
+  return `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="Table ${id}"/><p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>` +
+    `${xfrmXml({ ...el, rotation: undefined }, 'p:xfrm')}<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table">` +
+    `<a:tbl><a:tblPr${el.headerRow ? ' firstRow="1"' : ''}/><a:tblGrid>${`<a:gridCol w="${colW}"/>`.repeat(cols)}</a:tblGrid>${rows}</a:tbl></a:graphicData></a:graphic></p:graphicFrame>`;
+};
+
+interface WriteContext { rels: Rels; media: Media; drawChart: ChartDrawer; rasterize: Rasterizer; layout?: LayoutId; }
+
+// A picture's bytes and the box it is drawn in, shrunk to keep its
+// proportions like the editor's "contain" fit.
+const pictureOf = async (el: SlideElement, ctx: WriteContext) => {
+  let src = el.type === 'image' ? el.src : '';
+  if (el.type === 'chart') src = await ctx.rasterize(ctx.drawChart(el), el.width, el.height).catch(() => '');
+  let data = src ? decodeDataUrl(src) : null;
+  if (data?.mime === 'image/svg+xml') {
+    const png = await ctx.rasterize(new TextDecoder().decode(data.bytes), el.width, el.height).catch(() => '');
+    data = png ? decodeDataUrl(png) : null;
+  }
+  const ext = data && Object.keys(IMAGE_TYPES).find(e => IMAGE_TYPES[e] === data!.mime && e !== 'jpg');
+  if (!data || !ext) return null;
+  const file = ctx.media.add(el.type === 'chart' ? `${el.id}:${src.length}:${src.slice(-64)}` : src, ext, data.bytes);
+  const natural = el.type === 'image' ? imageSize(data.bytes) : null;
+  let box: SlideElement = el;
+  if (natural && natural[0] && natural[1]) {
+    const k = Math.min(el.width / natural[0], el.height / natural[1]);
+    const [width, height] = [natural[0] * k, natural[1] * k];
+    box = { ...el, x: el.x + (el.width - width) / 2, y: el.y + (el.height - height) / 2, width, height };
+  }
+  return { relId: ctx.rels.add('image', `../${file.path}`), box };
+};
+
+const elementXml = async (el: SlideElement, id: number, ctx: WriteContext): Promise<string> => {
+  const ph = el.placeholder ? phXml(el.placeholder, ctx.layout) : '';
+  switch (el.type) {
+    case 'text': {
+      const paragraphs = el.html ? htmlToParagraphs(el.html) : [{ runs: [] }];
+      const body = `<p:txBody>${bodyPrXml(el.style.valign)}<a:lstStyle/>${paragraphs.map(p => paragraphXml(p, el.style)).join('')}</p:txBody>`;
+      const spPr = `${xfrmXml(el)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>${fillXml(el.style.fill)}`;
+      return spXml(id, ph ? `${el.placeholder} ${id}` : `TextBox ${id}`, ph, spPr, body, !ph);
+    }
+    case 'shape': {
+      const head = Math.min(el.width * 0.4, el.height);
+      const avLst = el.shape === 'arrow'
+        ? `<a:avLst><a:gd name="adj1" fmla="val 40000"/><a:gd name="adj2" fmla="val ${Math.round(head / Math.max(1, Math.min(el.width, el.height)) * 100000)}"/></a:avLst>`
+        : el.shape === 'roundRect' ? '<a:avLst><a:gd name="adj" fmla="val 15000"/></a:avLst>' : '<a:avLst/>';
+      const line = el.stroke && el.strokeWidth ? `<a:ln w="${emu(el.strokeWidth)}">${fillXml(el.stroke)}</a:ln>` : '<a:ln><a:noFill/></a:ln>';
+      return spXml(id, `Shape ${id}`, '', `${xfrmXml(el)}<a:prstGeom prst="${PRESET_SHAPES[el.shape]}">${avLst}</a:prstGeom>${fillXml(el.fill)}${line}`);
+    }
+    case 'line':
+      return `<p:cxnSp><p:nvCxnSpPr><p:cNvPr id="${id}" name="Line ${id}"/><p:cNvCxnSpPr/><p:nvPr/></p:nvCxnSpPr>` +
+        `<p:spPr>${xfrmXml(el, 'a:xfrm', el.flip)}<a:prstGeom prst="line"><a:avLst/></a:prstGeom>` +
+        `<a:ln w="${emu(el.strokeWidth)}" cap="rnd">${fillXml(el.stroke)}${el.arrowEnd ? '<a:tailEnd type="triangle"/>' : ''}</a:ln></p:spPr></p:cxnSp>`;
+    case 'table':
+      return tableXml(id, el);
+    case 'image':
+    case 'chart': {
+      const picture = await pictureOf(el, ctx);
+      if (picture) return picXml(id, `Picture ${id}`, el.type === 'image' ? el.alt ?? '' : 'Chart', ph, picture.relId, picture.box);
+      // An empty picture placeholder stays a placeholder PowerPoint can fill.
+      return el.placeholder ? spXml(id, `Picture Placeholder ${id}`, ph, xfrmXml(el)) : '';
+    }
+  }
+};
+
+// `spids` collects the shape id each written element got.
+const shapeTreeXml = async (elements: SlideElement[], ctx: WriteContext, firstId = 2, spids = new Map<string, number>()) => {
+  const parts: string[] = [];
+  for (const [i, el] of elements.entries()) {
+    const xml = await elementXml(el, firstId + i, ctx);
+    if (xml) spids.set(el.id, firstId + i);
+    parts.push(xml);
+  }
+  return `<p:spTree>${GROUP_HEADER}${parts.join('')}</p:spTree>`;
+};
+
+const backgroundXml = (color: string) => `<p:bg><p:bgPr>${fillXml(color)}<a:effectLst/></p:bgPr></p:bg>`;
+
+const themeXml = (theme: Theme) => {
+  const srgb = (hex: string) => `<a:srgbClr val="${(cssHex(hex) ?? '#000000').slice(1).toUpperCase()}"/>`;
+  const c = theme.colors;
+  const scheme = [
+    ['dk1', c.text], ['lt1', c.background], ['dk2', c.heading], ['lt2', c.background],
+    ['accent1', c.accent1], ['accent2', c.accent2], ['accent3', c.accent3], ['accent4', c.accent4],
+    ['accent5', c.accent1], ['accent6', c.accent2], ['hlink', c.accent1], ['folHlink', c.accent2]
+  ].map(([name, hex]) => `<a:${name}>${srgb(hex)}</a:${name}>`).join('');
+  const font = (tag: string, face: string) => `<a:${tag}><a:latin typeface="${escapeXml(face)}"/><a:ea typeface=""/><a:cs typeface=""/></a:${tag}>`;
+  const ph = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  return XML_HEADER + `<a:theme xmlns:a="${A_NS}" name="${escapeXml(theme.name)}"><a:themeElements>` +
+    `<a:clrScheme name="${escapeXml(theme.name)}">${scheme}</a:clrScheme>` +
+    `<a:fontScheme name="${escapeXml(theme.name)}">${font('majorFont', theme.fonts.heading)}${font('minorFont', theme.fonts.body)}</a:fontScheme>` +
+    '<a:fmtScheme name="Office">' +
+    `<a:fillStyleLst>${ph.repeat(3)}</a:fillStyleLst>` +
+    `<a:lnStyleLst>${[6350, 12700, 19050].map(w => `<a:ln w="${w}">${ph}</a:ln>`).join('')}</a:lnStyleLst>` +
+    `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>` +
+    `<a:bgFillStyleLst>${ph.repeat(3)}</a:bgFillStyleLst>` +
+    '</a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>';
+};
+
+const CLR_MAP = 'bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"';
+
+const levelXml = (style: TextStyle, extra = '') =>
+  `<a:lvl1pPr algn="${ALGN[style.align ?? 'left']}" marL="0" indent="0">${extra}${runPropsXml({}, style, 'a:defRPr').replace(' lang="en-US"', '').replace(' dirty="0"', '')}</a:lvl1pPr>`;
+
+const masterXml = async (deck: Deck, ctx: WriteContext) => {
+  const title: TextStyle = { fontSize: 40, color: 'heading', fontFamily: 'heading' };
+  const body: TextStyle = { fontSize: 24, color: 'text', fontFamily: 'body' };
+  const titleBox = { id: 'title', x: 64, y: 40, width: 832, height: 90 } as SlideElement;
+  const bodyBox = { id: 'body', x: 64, y: 150, width: 832, height: 340 } as SlideElement;
+  const placeholders =
+    spXml(2, 'Title Placeholder 1', '<p:ph type="title"/>', `${xfrmXml(titleBox)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>`,
+      `<p:txBody>${bodyPrXml('middle')}<a:lstStyle/><a:p><a:r><a:rPr lang="en-US"/><a:t>${PLACEHOLDER_PROMPTS.title}</a:t></a:r></a:p></p:txBody>`) +
+    spXml(3, 'Text Placeholder 2', '<p:ph type="body" idx="1"/>', `${xfrmXml(bodyBox)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>`,
+      `<p:txBody>${bodyPrXml('top')}<a:lstStyle/><a:p><a:r><a:rPr lang="en-US"/><a:t>${PLACEHOLDER_PROMPTS.body}</a:t></a:r></a:p></p:txBody>`);
+  const tree = (await shapeTreeXml(deck.master.elements, ctx, 4)).replace(GROUP_HEADER, GROUP_HEADER + placeholders);
+  return XML_HEADER + `<p:sldMaster ${NAMESPACES}><p:cSld>${backgroundXml('background')}${tree}</p:cSld>` +
+    `<p:clrMap ${CLR_MAP}/>` +
+    `<p:sldLayoutIdLst>${LAYOUTS.map((_, i) => `<p:sldLayoutId id="${2147483649 + i}" r:id="rId${i + 1}"/>`).join('')}</p:sldLayoutIdLst>` +
+    `<p:txStyles><p:titleStyle>${levelXml(title, '<a:buNone/>')}</p:titleStyle><p:bodyStyle>${levelXml(body, '<a:buNone/>')}</p:bodyStyle>` +
+    `<p:otherStyle>${levelXml(body)}</p:otherStyle></p:txStyles></p:sldMaster>`;
+};
+
+const layoutXml = (layoutId: LayoutId) => {
+  const layout = layoutById(layoutId)!;
+  const shapes = layout.placeholders.map((p, i) => {
+    const el = { id: p.role, ...p.box } as SlideElement;
+    const ph = phXml(p.role, layoutId);
+    if (!p.style) return spXml(i + 2, `${p.role} ${i + 2}`, ph, xfrmXml(el));
+    const body = `<p:txBody>${bodyPrXml(p.style.valign)}<a:lstStyle>${levelXml(p.style)}</a:lstStyle>` +
+      `<a:p><a:r><a:rPr lang="en-US"/><a:t>${PLACEHOLDER_PROMPTS[p.role]}</a:t></a:r></a:p></p:txBody>`;
+    return spXml(i + 2, `${p.role} ${i + 2}`, ph, xfrmXml(el), body);
+  }).join('');
+  return XML_HEADER + `<p:sldLayout ${NAMESPACES} type="${LAYOUT_TYPES[layoutId]}" preserve="1">` +
+    `<p:cSld name="${escapeXml(layout.name)}"><p:spTree>${GROUP_HEADER}${shapes}</p:spTree></p:cSld>` +
+    '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>';
+};
+
+const notesXml = (notes: string) => {
+  const paragraphs = notes.split('\n').map(line => `<a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${escapeXml(line)}</a:t></a:r></a:p>`).join('');
+  return XML_HEADER + `<p:notes ${NAMESPACES}><p:cSld><p:spTree>${GROUP_HEADER}` +
+    spXml(2, 'Slide Image Placeholder 1', '<p:ph type="sldImg"/>', '') +
+    spXml(3, 'Notes Placeholder 2', '<p:ph type="body" idx="1"/>', '', `<p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs}</p:txBody>`) +
+    '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>';
+};
+
+const transitionXml = (transition: SlideTransition | undefined) => {
+  if (!transition || transition.effect === 'none') return '';
+  const speed = transition.duration < 625 ? 'fast' : transition.duration < 875 ? 'med' : 'slow';
+  const dir = DIRECTION_CODES[transition.direction ?? 'left'];
+  const effect = { fade: '<p:fade/>', push: `<p:push dir="${dir}"/>`, wipe: `<p:wipe dir="${dir}"/>`, zoom: '<p:zoom/>' }[transition.effect];
+  return `<p:transition spd="${speed}">${effect}</p:transition>`;
+};
+
+const PRESET_IDS: Record<AnimationEffect, number> = { appear: 1, fly: 2, fade: 10, zoom: 53, pulse: 26, spin: 8, shake: 32 };
+const PRESET_SUBTYPES: Partial<Record<AnimationEffect, number>> = { fly: 4, zoom: 16 };
+const NODE_TYPES: Record<AnimationStart, string> = { click: 'clickEffect', with: 'withEffect', after: 'afterEffect' };
+
+// The behaviours of one effect. `next` hands out time node ids in document
+// order. Fly moves by about the share of the slide height the show does.
+const behaviorsXml = (a: ElementAnimation, spid: number, next: () => number) => {
+  const dur = Math.max(1, a.duration);
+  const target = `<p:tgtEl><p:spTgt spid="${spid}"/></p:tgtEl>`;
+  const visibility = (value: string, delay: number) =>
+    `<p:set><p:cBhvr><p:cTn id="${next()}" dur="1" fill="hold"><p:stCondLst><p:cond delay="${delay}"/></p:stCondLst></p:cTn>${target}` +
+    `<p:attrNameLst><p:attrName>style.visibility</p:attrName></p:attrNameLst></p:cBhvr><p:to><p:strVal val="${value}"/></p:to></p:set>`;
+  const fade = () => `<p:animEffect transition="${a.kind === 'exit' ? 'out' : 'in'}" filter="fade"><p:cBhvr><p:cTn id="${next()}" dur="${dur}"/>${target}</p:cBhvr></p:animEffect>`;
+  const move = (attr: string, away: string) => {
+    const [from, to] = a.kind === 'exit' ? [`#${attr}`, away] : [away, `#${attr}`];
+    return `<p:anim calcmode="lin" valueType="num"><p:cBhvr additive="base"><p:cTn id="${next()}" dur="${dur}" fill="hold"/>${target}` +
+      `<p:attrNameLst><p:attrName>${attr}</p:attrName></p:attrNameLst></p:cBhvr><p:tavLst>` +
+      `<p:tav tm="0"><p:val><p:strVal val="${from}"/></p:val></p:tav><p:tav tm="100000"><p:val><p:strVal val="${to}"/></p:val></p:tav></p:tavLst></p:anim>`;
+  };
+  const rotate = (by: number, extra = '') =>
+    `<p:animRot by="${by}"><p:cBhvr><p:cTn id="${next()}" dur="${extra ? Math.round(dur / 4) : dur}" fill="hold"${extra}/>${target}` +
+    '<p:attrNameLst><p:attrName>r</p:attrName></p:attrNameLst></p:cBhvr></p:animRot>';
+  if (a.kind === 'emphasis') {
+    if (a.effect === 'spin') return rotate(21600000);
+    if (a.effect === 'shake') return rotate(480000, ' autoRev="1" repeatCount="2000"');
+    return `<p:animScale><p:cBhvr><p:cTn id="${next()}" dur="${Math.round(dur / 2)}" autoRev="1" fill="hold"/>${target}</p:cBhvr><p:by x="112000" y="112000"/></p:animScale>`;
+  }
+  const body = () => {
+    switch (a.effect) {
+      case 'fly': return move('ppt_y', '#ppt_y+0.22') + fade();
+      case 'zoom': return move('ppt_w', '0') + move('ppt_h', '0') + fade();
+      case 'fade': return fade();
+      default: return '';
+    }
+  };
+  if (a.kind === 'entrance') return visibility('visible', 0) + body();
+  const effects = body();
+  return effects + visibility('hidden', a.effect === 'appear' ? 0 : dur - 1);
+};
+
+// The slide's build steps as PowerPoint's main sequence: a par per click,
+// holding a par per start time, holding a par per effect. Step 0 starts with
+// the slide.
+const timingXml = (slide: Slide, spids: Map<string, number>) => {
+  const steps = buildSteps(slide).map(step => step.filter(a => spids.has(a.elementId)));
+  if (!steps.some(step => step.length)) return '';
+  let id = 2;
+  const next = () => ++id;
+  const par = (conds: string, children: () => string, attrs = '') => {
+    const node = next();
+    return `<p:par><p:cTn id="${node}"${attrs} fill="hold"><p:stCondLst>${conds}</p:stCondLst><p:childTnLst>${children()}</p:childTnLst></p:cTn></p:par>`;
+  };
+  const effect = (a: TimedAnimation) => par('<p:cond delay="0"/>', () => behaviorsXml(a, spids.get(a.elementId)!, next),
+    ` presetID="${PRESET_IDS[a.effect]}" presetClass="${PRESET_CLASS_NAMES[a.kind]}" presetSubtype="${PRESET_SUBTYPES[a.effect] ?? 0}" nodeType="${NODE_TYPES[a.start]}"`);
+  const clicks = steps.map((step, i) => step.length ? par(
+    i === 0 ? '<p:cond delay="indefinite"/><p:cond evt="onBegin" delay="0"><p:tn val="2"/></p:cond>' : '<p:cond delay="indefinite"/>',
+    () => [...new Set(step.map(a => a.delay))]
+      .map(delay => par(`<p:cond delay="${delay}"/>`, () => step.filter(a => a.delay === delay).map(effect).join('')))
+      .join('')
+  ) : '').join('');
+  const slideTarget = '<p:tgtEl><p:sldTgt/></p:tgtEl>';
+  return '<p:timing><p:tnLst><p:par><p:cTn id="1" dur="indefinite" restart="never" nodeType="tmRoot"><p:childTnLst>' +
+    `<p:seq concurrent="1" nextAc="seek"><p:cTn id="2" dur="indefinite" nodeType="mainSeq"><p:childTnLst>${clicks}</p:childTnLst></p:cTn>` +
+    `<p:prevCondLst><p:cond evt="onPrev" delay="0">${slideTarget}</p:cond></p:prevCondLst>` +
+    `<p:nextCondLst><p:cond evt="onNext" delay="0">${slideTarget}</p:cond></p:nextCondLst></p:seq>` +
+    '</p:childTnLst></p:cTn></p:par></p:tnLst></p:timing>';
+};
+
+// Portrait letter-size notes pages: the slide on top, the notes below.
+const NOTES_MASTER = XML_HEADER + `<p:notesMaster ${NAMESPACES}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${GROUP_HEADER}` +
+  spXml(2, 'Slide Image Placeholder 1', '<p:ph type="sldImg"/>',
+    '<a:xfrm><a:off x="381000" y="685800"/><a:ext cx="6096000" cy="3429000"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/>') +
+  spXml(3, 'Notes Placeholder 2', '<p:ph type="body" idx="1"/>',
+    '<a:xfrm><a:off x="685800" y="4400550"/><a:ext cx="5486400" cy="3600450"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom>',
+    '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></p:txBody>') +
+  `</p:spTree></p:cSld><p:clrMap ${CLR_MAP}/></p:notesMaster>`;
+
+export const writePptx = async (deck: Deck, drawChart: ChartDrawer, rasterize: Rasterizer): Promise<Blob> => {
+  const media = createMedia();
+  const parts: Record<string, string | Uint8Array> = {};
+  const presRels = createRels();
+  const withNotes = deck.slides.map(s => !!s.notes?.trim());
+
+  const masterRels = createRels();
+  LAYOUTS.forEach((_, i) => masterRels.add('slideLayout', `../slideLayouts/slideLayout${i + 1}.xml`));
+  const masterPart = await masterXml(deck, { rels: masterRels, media, drawChart, rasterize });
+  masterRels.add('theme', '../theme/theme1.xml');
+  presRels.add('slideMaster', 'slideMasters/slideMaster1.xml');
+  parts['ppt/slideMasters/slideMaster1.xml'] = masterPart;
+  parts['ppt/slideMasters/_rels/slideMaster1.xml.rels'] = masterRels.toXml();
+
+  LAYOUTS.forEach((layout, i) => {
+    parts[`ppt/slideLayouts/slideLayout${i + 1}.xml`] = layoutXml(layout.id);
+    const rels = createRels();
+    rels.add('slideMaster', '../slideMasters/slideMaster1.xml');
+    parts[`ppt/slideLayouts/_rels/slideLayout${i + 1}.xml.rels`] = rels.toXml();
+  });
+
+  const slideIds: string[] = [];
+  for (const [i, slide] of deck.slides.entries()) {
+    const n = i + 1;
+    const rels = createRels();
+    const layoutIndex = Math.max(0, LAYOUTS.findIndex(l => l.id === (slide.layout ?? 'blank')));
+    rels.add('slideLayout', `../slideLayouts/slideLayout${layoutIndex + 1}.xml`);
+    const spids = new Map<string, number>();
+    const tree = await shapeTreeXml(slide.elements, { rels, media, drawChart, rasterize, layout: slide.layout }, 2, spids);
+    if (withNotes[i]) rels.add('notesSlide', `../notesSlides/notesSlide${n}.xml`);
+    parts[`ppt/slides/slide${n}.xml`] = XML_HEADER + `<p:sld ${NAMESPACES}><p:cSld>${slide.background ? backgroundXml(slide.background) : ''}${tree}</p:cSld>` +
+      `<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>${transitionXml(slide.transition)}${timingXml(slide, spids)}</p:sld>`;
+    parts[`ppt/slides/_rels/slide${n}.xml.rels`] = rels.toXml();
+    slideIds.push(`<p:sldId id="${256 + i}" r:id="${presRels.add('slide', `slides/slide${n}.xml`)}"/>`);
+    if (withNotes[i]) {
+      const notesRels = createRels();
+      notesRels.add('notesMaster', '../notesMasters/notesMaster1.xml');
+      notesRels.add('slide', `../slides/slide${n}.xml`);
+      parts[`ppt/notesSlides/notesSlide${n}.xml`] = notesXml(slide.notes!.trim());
+      parts[`ppt/notesSlides/_rels/notesSlide${n}.xml.rels`] = notesRels.toXml();
+    }
+  }
+
+  const hasNotes = withNotes.some(Boolean);
+  const notesMasterId = hasNotes ? presRels.add('notesMaster', 'notesMasters/notesMaster1.xml') : '';
+  if (hasNotes) {
+    const rels = createRels();
+    rels.add('theme', '../theme/theme2.xml');
+    parts['ppt/notesMasters/notesMaster1.xml'] = NOTES_MASTER;
+    parts['ppt/notesMasters/_rels/notesMaster1.xml.rels'] = rels.toXml();
+    parts['ppt/theme/theme2.xml'] = themeXml(deck.theme);
+  }
+  presRels.add('theme', 'theme/theme1.xml');
+  presRels.add('presProps', 'presProps.xml');
+  presRels.add('viewProps', 'viewProps.xml');
+  presRels.add('tableStyles', 'tableStyles.xml');
+  parts['ppt/theme/theme1.xml'] = themeXml(deck.theme);
+  parts['ppt/presProps.xml'] = XML_HEADER + `<p:presentationPr ${NAMESPACES}/>`;
+  parts['ppt/viewProps.xml'] = XML_HEADER + `<p:viewPr ${NAMESPACES}><p:normalViewPr/><p:gridSpacing cx="76200" cy="76200"/></p:viewPr>`;
+  parts['ppt/tableStyles.xml'] = XML_HEADER + `<a:tblStyleLst xmlns:a="${A_NS}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>`;
+  parts['ppt/presentation.xml'] = XML_HEADER + `<p:presentation ${NAMESPACES} saveSubsetFonts="1">` +
+    '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>' +
+    (hasNotes ? `<p:notesMasterIdLst><p:notesMasterId r:id="${notesMasterId}"/></p:notesMasterIdLst>` : '') +
+    `<p:sldIdLst>${slideIds.join('')}</p:sldIdLst>` +
+    `<p:sldSz cx="${SLIDE_CX}" cy="${SLIDE_CY}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`;
+  parts['ppt/_rels/presentation.xml.rels'] = presRels.toXml();
+  media.files.forEach(f => { parts[`ppt/${f.path}`] = f.bytes; });
+
+  const extensions = [...new Set([...media.files.values()].map(f => f.path.split('.').pop()!))];
+  const override = (part: string, type: string) => `<Override PartName="/${part}" ContentType="${type}"/>`;
+  const contentTypes = XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    extensions.map(ext => `<Default Extension="${ext}" ContentType="${IMAGE_TYPES[ext]}"/>`).join('') +
+    override('ppt/presentation.xml', `${CT}.presentation.main+xml`) +
+    Object.keys(parts).map(path => {
+      if (path.includes('_rels/') || path.startsWith('ppt/media/') || path === 'ppt/presentation.xml') return '';
+      const kind = /^ppt\/(slideMasters|slideLayouts|slides|notesSlides|notesMasters|theme)\//.exec(path)?.[1];
+      const type = {
+        slideMasters: `${CT}.slideMaster+xml`, slideLayouts: `${CT}.slideLayout+xml`, slides: `${CT}.slide+xml`,
+        notesSlides: `${CT}.notesSlide+xml`, notesMasters: `${CT}.notesMaster+xml`, theme: 'application/vnd.openxmlformats-officedocument.theme+xml'
+      }[kind ?? ''] ?? `${CT}.${path.slice(4, -4)}+xml`;
+      return override(path, type);
+    }).join('') +
+    '</Types>';
+  const rootRels = XML_HEADER + `<Relationships xmlns="${PKG_REL}">` +
+    `<Relationship Id="rId1" Type="${DOC_REL}/officeDocument" Target="ppt/presentation.xml"/></Relationships>`;
+  return buildPackage({ '[Content_Types].xml': contentTypes, '_rels/.rels': rootRels, ...parts }, PPTX_MIME);
+};
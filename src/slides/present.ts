@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { useEffect, useRef } from 'react';
+import type { Deck } from './deck.ts';
+import type { ChartDrawer } from './render.ts';
+import type { SlideElement } from './slide.ts';
+
+// --- SLIDE SHOW ---
+// A show runs in the editor's window (the audience screen) and can be driven
+// from a presenter window opened beside it. The two talk over a
+// BroadcastChannel named after the document: the presenter asks for the deck
+// when it opens, the show announces every move, and either side can navigate.
+// `step` is the slide's last played build step (see animation.ts).
+export type ShowMessage =
+  | { type: 'hello' }
+  | { type: 'deck'; deck: Deck; title: string }
+  | { type: 'state'; index: number; step: number; blackout: boolean; startedAt: number }
+  | { type: 'go'; index: number }
+  | { type: 'next' }
+  | { type: 'prev' }
+  | { type: 'blackout' }
+  | { type: 'end' };
+
+export const showChannel = (docId: string) => new BroadcastChannel(`nexoffice-show-${docId}`);
+
+export const presenterUrl = (docId: string) => `${location.pathname}?presenter=${encodeURIComponent(docId)}`;
+
+// The deck with live charts replaced by how they look now, so the presenter
+// window can draw every slide without opening the source workbooks.
+export const snapshotDeck = (deck: Deck, drawChart: ChartDrawer): Deck => {
+  const freeze = (elements: SlideElement[]) => elements.map(el => el.type === 'chart' ? { ...el, ref: undefined, svg: drawChart(el) } : el);
+  return {
+    ...deck,
+    master: { elements: freeze(deck.master.elements) },
+    slides: deck.slides.map(s => ({ ...s, elements: freeze(s.elements) }))
+  };
+};
+
+export const formatElapsed = (ms: number) => {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${Math.floor(s / 3600)}:${pad(Math.floor(s / 60) % 60)}:${pad(s % 60)}`;
+};
+
+interface ShowKeys {
+  count: number;
+  go: (index: number) => void;
+  next: () => void;
+  prev: () => void;
+  blackout: () => void;
+  end: () => void;
+}
+
+// Keyboard control shared by both windows. Arrows, Space and Page Up/Down
+// step through build steps and slides, Home/End jump to either end, B or .
+// blacks the screen out and Escape ends the show. Typing a number then Enter
+// goes to that slide.
+export const useShowKeys = (enabled: boolean, keys: ShowKeys) => {
+  const typed = useRef('');
+  const latest = useRef(keys);
+  latest.current = keys;
+
+  useEffect(() => {
+    if (!enabled) return;
+    typed.current = '';
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if ((e.target as HTMLElement | null)?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      const { count, go, next, prev, blackout, end } = latest.current;
+      const clamp = (i: number) => go(Math.max(0, Math.min(count - 1, i)));
+      if (/^[0-9]$/.test(e.key)) {
+        typed.current = (typed.current + e.key).slice(-4);
+        return;
+      }
+      const number = typed.current;
+      typed.current = '';
+      switch (e.key) {
+        case 'Enter':
+          if (number) clamp(Number(number) - 1);
+          else next();
+          break;
+        case 'ArrowRight': case 'ArrowDown': case 'PageDown': case ' ': case 'n': case 'N':
+          next();
+          break;
+        case 'ArrowLeft': case 'ArrowUp': case 'PageUp': case 'Backspace': case 'p': case 'P':
+          prev();
+          break;
+        case 'Home': clamp(0); break;
+        case 'End': clamp(count - 1); break;
+        case 'b': case 'B': case '.': blackout(); break;
+        case 'Escape': end(); break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+};
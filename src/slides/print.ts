@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Deck } from './deck.ts';
+import { ChartDrawer, SLIDE_TEXT_CSS, slideHtml } from './render.ts';
+import { SLIDE_HEIGHT, SLIDE_WIDTH, Slide, escapeHtml } from './slide.ts';
+
+// --- PRINTED LAYOUTS ---
+// Pages for PDF export, as one HTML block of equal-sized pages stacked with
+// no gaps, so the PDF renderer can cut it into pages by height alone. Slides
+// print one to a 16:9 page; handouts and notes pages go on A4 paper.
+export type PrintLayout = 'slides' | 'handouts' | 'notes';
+export type HandoutCount = 2 | 3 | 6;
+
+export interface PrintPages {
+  html: string;
+  width: number;
+  height: number;
+}
+
+// A4 at 96 CSS pixels to the inch.
+const PAPER_WIDTH = 794;
+const PAPER_HEIGHT = 1123;
+const MARGIN = 48;
+const LINE_GAP = 28;
+
+const page = (width: number, height: number, body: string) =>
+  `<div style="position:relative;box-sizing:border-box;overflow:hidden;width:${width}px;height:${height}px;background:#fff;color:#222;font-family:sans-serif">${body}</div>`;
+
+// The document name above and the page number below, on paper pages.
+const paperPage = (title: string, n: number, total: number, body: string) =>
+  page(PAPER_WIDTH, PAPER_HEIGHT,
+    `<div style="position:absolute;left:${MARGIN}px;right:${MARGIN}px;top:${MARGIN / 2}px;font-size:11px;color:#888">${escapeHtml(title)}</div>` +
+    `<div style="position:absolute;left:${MARGIN}px;top:${MARGIN}px;width:${PAPER_WIDTH - 2 * MARGIN}px;height:${PAPER_HEIGHT - 2 * MARGIN}px">${body}</div>` +
+    `<div style="position:absolute;right:${MARGIN}px;bottom:${MARGIN / 2}px;font-size:11px;color:#888">${n} / ${total}</div>`);
+
+const framed = (slide: Slide, deck: Deck, drawChart: ChartDrawer, width: number) =>
+  `<div style="border:1px solid #bbb;width:max-content">${slideHtml(slide, deck, drawChart, width / SLIDE_WIDTH)}</div>`;
+
+const noteLines = (width: number, height: number) =>
+  Array.from({ length: Math.floor(height / LINE_GAP) }, () =>
+    `<div style="width:${width}px;height:${LINE_GAP - 1}px;border-bottom:1px solid #ccc"></div>`).join('');
+
+const chunks = <T>(list: T[], size: number) =>
+  Array.from({ length: Math.ceil(list.length / size) }, (_, i) => list.slice(i * size, i * size + size));
+
+// Two or three slides down the page, or six in two columns, each with lines
+// beside it for the audience's notes.
+const handoutPages = (deck: Deck, title: string, perPage: HandoutCount, drawChart: ChartDrawer) => {
+  const columns = perPage === 6 ? 2 : 1;
+  const rows = perPage / columns;
+  const innerWidth = PAPER_WIDTH - 2 * MARGIN;
+  const cellWidth = (innerWidth - (columns - 1) * 24) / columns;
+  const cellHeight = (PAPER_HEIGHT - 2 * MARGIN - (rows - 1) * 24) / rows;
+  const slideWidth = Math.min(cellWidth * 0.62, (cellHeight * SLIDE_WIDTH) / SLIDE_HEIGHT);
+  const linesWidth = cellWidth - slideWidth - 16;
+  const pages = chunks(deck.slides, perPage);
+  return pages.map((group, p) => paperPage(title, p + 1, pages.length,
+    `<div style="display:grid;grid-template-columns:repeat(${columns},${cellWidth}px);grid-auto-rows:${cellHeight}px;gap:24px">` +
+    group.map(slide =>
+      `<div style="display:flex;gap:16px;align-items:center">` +
+      framed(slide, deck, drawChart, slideWidth) +
+      `<div>${noteLines(linesWidth, (slideWidth * SLIDE_HEIGHT) / SLIDE_WIDTH)}</div>` +
+      '</div>').join('') +
+    '</div>'));
+};
+
+// The slide on the top half, its speaker notes below. Notes that don't fit
+// the page are cut off.
+const notesPages = (deck: Deck, title: string, drawChart: ChartDrawer) => {
+  const width = PAPER_WIDTH - 2 * MARGIN;
+  return deck.slides.map((slide, i) => paperPage(title, i + 1, deck.slides.length,
+    framed(slide, deck, drawChart, width) +
+    `<div style="margin-top:24px;font-size:14px;line-height:1.5;white-space:pre-wrap">${escapeHtml(slide.notes ?? '')}</div>`));
+};
+
+export const printPages = (deck: Deck, layout: PrintLayout, title: string, drawChart: ChartDrawer, perPage: HandoutCount = 3): PrintPages => {
+  const pages =
+    layout === 'slides' ? deck.slides.map(s => page(SLIDE_WIDTH, SLIDE_HEIGHT, slideHtml(s, deck, drawChart)))
+    : layout === 'notes' ? notesPages(deck, title, drawChart)
+    : handoutPages(deck, title, perPage, drawChart);
+  return {
+    html: `<style>${SLIDE_TEXT_CSS}</style>` + pages.join(''),
+    width: layout === 'slides' ? SLIDE_WIDTH : PAPER_WIDTH,
+    height: layout === 'slides' ? SLIDE_HEIGHT : PAPER_HEIGHT
+  };
+};
+
+// A slide as a standalone SVG document. The slide's HTML goes in a
+// foreignObject, which needs it as XHTML.
+export const slideSvg = (slide: Slide, deck: Deck, drawChart: ChartDrawer) => {
+  const holder = document.createElement('div');
+  holder.innerHTML = slideHtml(slide, deck, drawChart);
+  const body = new XMLSerializer().serializeToString(holder.firstElementChild!);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${SLIDE_WIDTH}" height="${SLIDE_HEIGHT}" viewBox="0 0 ${SLIDE_WIDTH} ${SLIDE_HEIGHT}">` +
+    `<style>${SLIDE_TEXT_CSS}</style>` +
+    `<foreignObject x="0" y="0" width="${SLIDE_WIDTH}" height="${SLIDE_HEIGHT}">${body}</foreignObject></svg>`;
+};
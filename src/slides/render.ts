@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { CSSProperties } from 'react';
+import type { Deck } from './deck.ts';
+import { SLIDE_HEIGHT, SLIDE_WIDTH, Slide, SlideElement, TextStyle, escapeHtml, isEmptyElement } from './slide.ts';
+import { Theme, resolveColor, resolveFont } from './theme.ts';
+
+// --- SLIDE RENDERING ---
+// Elements render to HTML strings, shared by the editor canvas, thumbnails,
+// the presenter and exports. One slide point is one CSS pixel before scaling.
+// Theme colors and fonts are resolved here. Charts are drawn by the caller,
+// since live ones need the source workbook.
+export type ChartElement = Extract<SlideElement, { type: 'chart' }>;
+export type ChartDrawer = (el: ChartElement) => string;
+
+// Lists lose their markers under the app's CSS reset; exports carry this too.
+export const SLIDE_TEXT_CSS =
+  '.slide-text ul{list-style:disc;padding-left:1.2em;margin:0}' +
+  '.slide-text ol{list-style:decimal;padding-left:1.2em;margin:0}' +
+  '.slide-text p{margin:0}';
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const cssText = (css: CSSProperties) =>
+  Object.entries(css)
+    .filter(([, v]) => v !== undefined && v !== '')
+    .map(([k, v]) => `${k.replace(/[A-Z]/g, c => '-' + c.toLowerCase())}:${typeof v === 'number' && k !== 'lineHeight' && k !== 'zIndex' ? v + 'px' : v}`)
+    .join(';');
+
+export const frameCss = (el: SlideElement): CSSProperties => ({
+  position: 'absolute',
+  left: el.x,
+  top: el.y,
+  width: el.width,
+  height: el.height,
+  transform: el.rotation ? `rotate(${el.rotation}deg)` : undefined
+});
+
+export const textCss = (style: TextStyle, theme: Theme): CSSProperties => ({
+  display: 'flex',
+  flexDirection: 'column',
+  justifyContent: style.valign === 'middle' ? 'center' : style.valign === 'bottom' ? 'flex-end' : 'flex-start',
+  width: '100%',
+  height: '100%',
+  boxSizing: 'border-box',
+  padding: '4px 8px',
+  fontSize: style.fontSize,
+  lineHeight: 1.2,
+  color: resolveColor(style.color, theme),
+  fontFamily: resolveFont(style.fontFamily, theme),
+  textAlign: style.align ?? 'left',
+  background: resolveColor(style.fill, theme),
+  overflowWrap: 'break-word'
+});
+
+const shapeSvg = (el: Extract<SlideElement, { type: 'shape' }>, theme: Theme) => {
+  const [w, h] = [round(el.width), round(el.height)];
+  const paint = `fill="${resolveColor(el.fill, theme)}" stroke="${resolveColor(el.stroke, theme) ?? 'none'}" stroke-width="${el.strokeWidth ?? 0}"`;
+  const points = (pts: number[][]) => `<polygon points="${pts.map(p => p.map(round).join(',')).join(' ')}" ${paint}/>`;
+  const head = Math.min(w * 0.4, h);
+  const body = {
+    rect: `<rect width="${w}" height="${h}" ${paint}/>`,
+    roundRect: `<rect width="${w}" height="${h}" rx="${round(Math.min(w, h) * 0.15)}" ${paint}/>`,
+    ellipse: `<ellipse cx="${w / 2}" cy="${h / 2}" rx="${w / 2}" ry="${h / 2}" ${paint}/>`,
+    triangle: points([[w / 2, 0], [w, h], [0, h]]),
+    diamond: points([[w / 2, 0], [w, h / 2], [w / 2, h], [0, h / 2]]),
+    arrow: points([[0, h * 0.3], [w - head, h * 0.3], [w - head, 0], [w, h / 2], [w - head, h], [w - head, h * 0.7], [0, h * 0.7]])
+  }[el.shape];
+  return `<svg width="${w}" height="${h}" viewBox="0 0 ${w} ${h}" overflow="visible" style="display:block">${body}</svg>`;
+};
+
+const lineSvg = (el: Extract<SlideElement, { type: 'line' }>, theme: Theme) => {
+  const [w, h] = [round(el.width), round(el.height)];
+  const stroke = resolveColor(el.stroke, theme);
+  const [x1, y1, x2, y2] = el.flip ? [0, h, w, 0] : [0, 0, w, h];
+  let head = '';
+  if (el.arrowEnd) {
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    const size = Math.max(8, el.strokeWidth * 4);
+    const wing = (a: number) => `${round(x2 - size * Math.cos(a))},${round(y2 - size * Math.sin(a))}`;
+    head = `<polygon points="${x2},${y2} ${wing(angle - 0.4)} ${wing(angle + 0.4)}" fill="${stroke}"/>`;
+  }
+  return `<svg width="${Math.max(1, w)}" height="${Math.max(1, h)}" overflow="visible" style="display:block">` +
+    // A wide invisible stroke under the line makes thin ones easy to pick.
+    `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="transparent" stroke-width="${Math.max(12, el.strokeWidth)}"/>` +
+    `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${stroke}" stroke-width="${el.strokeWidth}" stroke-linecap="round"/>${head}</svg>`;
+};
+
+export const tableHtml = (el: Extract<SlideElement, { type: 'table' }>, theme: Theme) => {
+  const cell = (text: string, header: boolean) => {
+    const tag = header ? 'th' : 'td';
+    const css = `border:1px solid ${resolveColor(el.borderColor, theme)};padding:4px 8px;text-align:left;vertical-align:top;overflow:hidden;` +
+      (header ? 'font-weight:700;background:rgba(255,255,255,0.08)' : 'font-weight:400');
+    return `<${tag} style="${css}">${escapeHtml(text)}</${tag}>`;
+  };
+  const rows = el.rows.map((row, r) => `<tr>${row.map(text => cell(text, r === 0 && !!el.headerRow)).join('')}</tr>`).join('');
+  return `<table style="width:100%;height:100%;border-collapse:collapse;table-layout:fixed;font-size:${el.fontSize}px;color:${resolveColor(el.color, theme)};font-family:${resolveFont('body', theme)}">${rows}</table>`;
+};
+
+// What goes inside the element's frame.
+export const elementBody = (el: SlideElement, theme: Theme, drawChart: ChartDrawer): string => {
+  switch (el.type) {
+    case 'text': return `<div class="slide-text" style="${cssText(textCss(el.style, theme))}">${el.html}</div>`;
+    case 'image':
+      return el.src
+        ? `<img src="${escapeHtml(el.src)}" alt="${escapeHtml(el.alt ?? '')}" style="width:100%;height:100%;object-fit:contain;display:block" draggable="false"/>`
+        : '<div style="width:100%;height:100%;border:1px dashed #55555e"></div>';
+    case 'shape': return shapeSvg(el, theme);
+    case 'line': return lineSvg(el, theme);
+    case 'table': return tableHtml(el, theme);
+    // Snapshots were drawn at their insertion size; the viewBox stretches them to fit.
+    case 'chart': return drawChart(el).replace(/^<svg /, '<svg style="width:100%;height:100%;display:block" ');
+  }
+};
+
+export const slideBackground = (slide: Slide, theme: Theme) => resolveColor(slide.background ?? 'background', theme)!;
+
+// A whole slide as a standalone block of HTML, `scale` times its size in
+// points, with the master's elements behind its own. Unfilled placeholders
+// only show while editing.
+export const slideHtml = (slide: Slide, deck: Deck, drawChart: ChartDrawer, scale = 1) =>
+  `<div style="position:relative;overflow:hidden;width:${SLIDE_WIDTH * scale}px;height:${SLIDE_HEIGHT * scale}px;background:${slideBackground(slide, deck.theme)}">` +
+  `<div style="position:absolute;left:0;top:0;width:${SLIDE_WIDTH}px;height:${SLIDE_HEIGHT}px;transform:scale(${scale});transform-origin:0 0">` +
+  [...deck.master.elements, ...slide.elements]
+    .filter(el => !(el.placeholder && isEmptyElement(el)))
+    .map(el => `<div style="${cssText(frameCss(el))}">${elementBody(el, deck.theme, drawChart)}</div>`).join('') +
+  '</div></div>';
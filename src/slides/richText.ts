@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { TextStyle, escapeHtml } from './slide.ts';
+import { Theme, resolveColor } from './theme.ts';
+
+// --- RICH TEXT ---
+// Text boxes hold HTML; PowerPoint holds paragraphs of runs. Both directions
+// go through this shape. Only what the editor produces survives: lists,
+// bold/italic/underline and inline color, size and font.
+export interface Run {
+  text: string;
+  br?: boolean;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: string;
+  size?: number;
+  font?: string;
+}
+
+export interface Paragraph { runs: Run[]; list?: 'ul' | 'ol'; }
+
+const BLOCK_TAGS = new Set(['div', 'p', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+export const cssHex = (css: string | null | undefined) => {
+  const value = (css ?? '').trim().toLowerCase();
+  if (/^#[0-9a-f]{6}$/.test(value)) return value;
+  if (/^#[0-9a-f]{3}$/.test(value)) return '#' + [...value.slice(1)].map(c => c + c).join('');
+  const rgb = /^rgba?\((\d+),\s*(\d+),\s*(\d+)/.exec(value);
+  return rgb ? '#' + rgb.slice(1, 4).map(n => Math.min(255, Number(n)).toString(16).padStart(2, '0')).join('') : undefined;
+};
+
+export const htmlToParagraphs = (html: string): Paragraph[] => {
+  const body = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+  const paragraphs: Paragraph[] = [];
+  let current: Paragraph | null = null;
+  const open = (list?: Paragraph['list']) => {
+    if (!current) paragraphs.push(current = { runs: [], list });
+    return current;
+  };
+  const visit = (node: Node, format: Omit<Run, 'text'>, list?: Paragraph['list']) => {
+    if (node.nodeType === 3) {
+      if (node.textContent) open(list).runs.push({ ...format, text: node.textContent });
+      return;
+    }
+    if (node.nodeType !== 1) return;
+    const el = node as HTMLElement;
+    const tag = el.tagName.toLowerCase();
+    // A trailing <br> only keeps an empty line open in contentEditable.
+    if (tag === 'br') {
+      const p = open(list);
+      if (el.nextSibling) p.runs.push({ ...format, text: '', br: true });
+      return;
+    }
+    if (tag === 'ul' || tag === 'ol') {
+      current = null;
+      el.childNodes.forEach(child => visit(child, format, tag));
+      current = null;
+      return;
+    }
+    const next = { ...format };
+    if (tag === 'b' || tag === 'strong' || /^(bold|[6-9]00)$/.test(el.style.fontWeight)) next.bold = true;
+    if (tag === 'i' || tag === 'em' || el.style.fontStyle === 'italic') next.italic = true;
+    if (tag === 'u' || el.style.textDecoration.includes('underline')) next.underline = true;
+    const color = cssHex(el.style.color || el.getAttribute('color'));
+    if (color) next.color = color;
+    const size = /^([\d.]+)(px|pt)$/.exec(el.style.fontSize);
+    if (size) next.size = Number(size[1]);
+    const font = (el.style.fontFamily || el.getAttribute('face') || '').split(',')[0].replace(/["']/g, '').trim();
+    if (font) next.font = font;
+    if (BLOCK_TAGS.has(tag)) {
+      current = null;
+      open(tag === 'li' ? list : undefined);
+      el.childNodes.forEach(child => visit(child, next, list));
+      current = null;
+    } else {
+      el.childNodes.forEach(child => visit(child, next, list));
+    }
+  };
+  body.childNodes.forEach(child => visit(child, {}));
+  return paragraphs.length ? paragraphs : [{ runs: [] }];
+};
+
+// Runs that differ from the box's own style carry inline styles.
+export const paragraphsToHtml = (paragraphs: Paragraph[], base: TextStyle, theme: Theme) => {
+  const runHtml = (run: Run) => {
+    if (run.br) return '<br>';
+    let html = escapeHtml(run.text);
+    const css: string[] = [];
+    if (run.color && run.color !== base.color) css.push(`color:${resolveColor(run.color, theme)}`);
+    if (run.size && run.size !== base.fontSize) css.push(`font-size:${run.size}px`);
+    if (run.font && run.font !== base.fontFamily) css.push(`font-family:${run.font === 'heading' ? theme.fonts.heading : run.font === 'body' ? theme.fonts.body : run.font}`);
+    if (css.length) html = `<span style="${escapeHtml(css.join(';'))}">${html}</span>`;
+    if (run.underline) html = `<u>${html}</u>`;
+    if (run.italic) html = `<i>${html}</i>`;
+    if (run.bold) html = `<b>${html}</b>`;
+    return html;
+  };
+  let html = '';
+  let list: Paragraph['list'];
+  paragraphs.forEach(p => {
+    if (p.list !== list) html += (list ? `</${list}>` : '') + (p.list ? `<${p.list}>` : '');
+    list = p.list;
+    const inner = p.runs.map(runHtml).join('') || '<br>';
+    html += list ? `<li>${inner}</li>` : `<div>${inner}</div>`;
+  });
+  return list ? html + `</${list}>` : html;
+};
+
+// --- FORMATTING ---
+// The text toolbar's buttons change these paragraphs rather than the editable
+// box's DOM. The selection is carried through as a pair of marker characters,
+// so it comes back over the same text.
+const MARKER = '\uE000';
+
+export type TextMark = 'bold' | 'italic' | 'underline';
+
+const sameFormat = (a: Run, b: Run) => !a.br && !b.br && a.bold === b.bold && a.italic === b.italic
+  && a.underline === b.underline && a.color === b.color && a.size === b.size && a.font === b.font;
+
+const joinRuns = (runs: Run[]) => {
+  const joined = runs.reduce<Run[]>((out, run) => {
+    const last = out[out.length - 1];
+    if (last && sameFormat(last, run)) out[out.length - 1] = { ...last, text: last.text + run.text };
+    else out.push(run);
+    return out;
+  }, []);
+  // A line holding only the selection needs a <br> to stay open once the
+  // markers are gone.
+  return joined.some(r => r.br || r.text.replaceAll(MARKER, '')) ? joined : [...joined, { text: '', br: true }];
+};
+
+const isWordChar = (run: Run | undefined) => !!run && /^[\p{L}\p{N}_'’]$/u.test(run.text);
+
+// Toggles a mark over the selected text: set unless all of it has the mark
+// already. With nothing selected, the word around the caret is formatted.
+export const toggleTextMark = (html: string, mark: TextMark, base: TextStyle, theme: Theme) => {
+  const paragraphs = htmlToParagraphs(html).map(p => ({
+    ...p,
+    runs: p.runs.flatMap(run => run.br ? [{ ...run }] : [...run.text].map(text => ({ ...run, text })))
+  }));
+  let selected: Run[] = [];
+  let inside = false;
+  paragraphs.forEach(p => p.runs.forEach(run => {
+    if (run.text === MARKER) inside = !inside;
+    else if (inside && !run.br) selected.push(run);
+  }));
+  if (!selected.length) {
+    const p = paragraphs.find(p => p.runs.some(r => r.text === MARKER));
+    if (!p) return html;
+    const at = p.runs.findIndex(r => r.text === MARKER);
+    let from = at;
+    let to = p.runs.findIndex((r, i) => i > at && r.text === MARKER);
+    while (isWordChar(p.runs[from - 1])) from--;
+    while (isWordChar(p.runs[to + 1])) to++;
+    selected = p.runs.slice(from, to + 1).filter(r => r.text !== MARKER);
+  }
+  const on = !selected.every(run => run[mark]);
+  selected.forEach(run => { run[mark] = on || undefined; });
+  // Markers take their neighbour's format so they don't split its run.
+  paragraphs.forEach(p => p.runs.forEach((run, i) => {
+    const like = p.runs[i - 1] ?? p.runs.find(r => r.text !== MARKER);
+    if (run.text === MARKER && like && !like.br) p.runs[i] = { ...like, text: MARKER };
+  }));
+  return paragraphsToHtml(paragraphs.map(p => ({ ...p, runs: joinRuns(p.runs) })), base, theme);
+};
+
+// Turns the selected paragraphs into a list of the given kind, or back into
+// plain paragraphs when they all are one already.
+export const toggleTextList = (html: string, list: 'ul' | 'ol', base: TextStyle, theme: Theme) => {
+  const paragraphs = htmlToParagraphs(html);
+  const marked = paragraphs.flatMap((p, i) => p.runs.some(r => r.text.includes(MARKER)) ? [i] : []);
+  if (!marked.length) return html;
+  const [first, last] = [marked[0], marked[marked.length - 1]];
+  const on = !paragraphs.slice(first, last + 1).every(p => p.list === list);
+  return paragraphsToHtml(paragraphs.map((p, i) => ({
+    ...p,
+    runs: joinRuns(p.runs),
+    list: i < first || i > last ? p.list : on ? list : undefined
+  })), base, theme);
+};
+
+// Rewrites the HTML of the editable text box holding the selection with
+// `edit`, then selects the same text again.
+export const editSelection = (edit: (html: string) => string) => {
+  const selection = window.getSelection();
+  const range = selection?.rangeCount ? selection.getRangeAt(0) : null;
+  const node = range?.commonAncestorContainer;
+  const box = (node?.nodeType === 1 ? node as Element : node?.parentElement)?.closest<HTMLElement>('.slide-text[contenteditable]');
+  if (!selection || !range || !box) return;
+  const end = range.cloneRange();
+  end.collapse(false);
+  end.insertNode(document.createTextNode(MARKER));
+  const start = range.cloneRange();
+  start.collapse(true);
+  start.insertNode(document.createTextNode(MARKER));
+  box.innerHTML = edit(box.innerHTML);
+  const points: [Text, number][] = [];
+  const walker = document.createTreeWalker(box, NodeFilter.SHOW_TEXT);
+  for (let text = walker.nextNode() as Text | null; text; text = walker.nextNode() as Text | null) {
+    for (let i = text.data.indexOf(MARKER); i >= 0; i = text.data.indexOf(MARKER)) {
+      text.deleteData(i, 1);
+      points.push([text, i]);
+    }
+  }
+  if (!points.length) return;
+  const restored = document.createRange();
+  restored.setStart(...points[0]);
+  restored.setEnd(...points[points.length - 1]);
+  selection.removeAllRanges();
+  selection.addRange(restored);
+};
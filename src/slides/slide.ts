@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ChartRef } from '../charts/embed.ts';
+import type { ElementAnimation, SlideTransition } from './animation.ts';
+import type { LayoutId } from './layouts.ts';
+
+// --- SLIDE MODEL ---
+// A slide is a stack of freely positioned elements, drawn in array order (the
+// last one on top). Geometry is in points on a 960 × 540 slide, the 13.33 ×
+// 7.5 in widescreen page, so it maps straight onto PowerPoint's units.
+// Elements sharing a `groupId` are selected and moved together. Colors and
+// fonts may refer to the deck's theme (see theme.ts).
+export const SLIDE_WIDTH = 960;
+export const SLIDE_HEIGHT = 540;
+
+export type ShapeKind = 'rect' | 'roundRect' | 'ellipse' | 'triangle' | 'diamond' | 'arrow';
+
+export const SHAPES: { shape: ShapeKind; label: string }[] = [
+  { shape: 'rect', label: 'Rectangle' },
+  { shape: 'roundRect', label: 'Rounded Rectangle' },
+  { shape: 'ellipse', label: 'Ellipse' },
+  { shape: 'triangle', label: 'Triangle' },
+  { shape: 'diamond', label: 'Diamond' },
+  { shape: 'arrow', label: 'Arrow' }
+];
+
+export interface TextStyle {
+  fontSize: number; // pt
+  color: string;
+  fontFamily?: string; // a font name, "heading" or "body"
+  align?: 'left' | 'center' | 'right';
+  valign?: 'top' | 'middle' | 'bottom';
+  fill?: string;
+}
+
+interface ElementBase {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation?: number; // degrees clockwise, about the centre
+  groupId?: string;
+  placeholder?: PlaceholderRole; // set on boxes created by the slide's layout
+}
+
+export type PlaceholderRole = 'title' | 'subtitle' | 'body' | 'left' | 'right' | 'image' | 'caption';
+
+// `html` is the box's rich text: paragraphs, line breaks, lists and inline
+// bold/italic/underline. Lines run from the box's top-left corner to its
+// bottom-right one, or bottom-left to top-right when `flip` is set. A chart
+// keeps `ref` when live and `svg` as its last drawing.
+export type SlideElement = ElementBase & (
+  | { type: 'text'; html: string; style: TextStyle }
+  | { type: 'image'; src: string; alt?: string }
+  | { type: 'shape'; shape: ShapeKind; fill: string; stroke?: string; strokeWidth?: number }
+  | { type: 'line'; stroke: string; strokeWidth: number; flip?: boolean; arrowEnd?: boolean }
+  | { type: 'table'; rows: string[][]; headerRow?: boolean; fontSize: number; color: string; borderColor: string }
+  | { type: 'chart'; ref?: ChartRef; svg: string }
+);
+
+export type ElementType = SlideElement['type'];
+
+// `background` overrides the theme's; `layout` names the layout that placed
+// the slide's placeholders. `notes` are the speaker notes, as plain text.
+// `transition` and `animations` drive the slide show (see animation.ts).
+export interface Slide {
+  id: string;
+  layout?: LayoutId;
+  background?: string;
+  notes?: string;
+  transition?: SlideTransition;
+  animations?: ElementAnimation[];
+  elements: SlideElement[];
+}
+
+export interface Box { x: number; y: number; width: number; height: number; }
+
+export const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Plain text as rich text: "- " or "• " lines become a bulleted list.
+export const textToHtml = (text: string) => {
+  let html = '';
+  let inList = false;
+  text.split('\n').forEach(line => {
+    const bullet = /^\s*[-•*]\s+(.*)$/.exec(line);
+    if (bullet && !inList) html += '<ul>';
+    if (!bullet && inList) html += '</ul>';
+    inList = !!bullet;
+    html += bullet ? `<li>${escapeHtml(bullet[1])}</li>` : `<div>${escapeHtml(line) || '<br>'}</div>`;
+  });
+  return inList ? html + '</ul>' : html;
+};
+
+// The reverse, for thumbnails, prompts and exports: one line per block.
+export const htmlToText = (html: string) =>
+  html
+    .replace(/<li[^>]*>/gi, '• ')
+    .replace(/<br\s*\/?>|<\/(div|p|li|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+
+export const nextId = (prefix: string, ids: string[]) => {
+  const taken = new Set(ids);
+  let n = 1;
+  while (taken.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+};
+
+export const nextElementId = (elements: SlideElement[]) => nextId('el', elements.map(e => e.id));
+
+// New elements start centred on the slide, in the theme's colors.
+export const createElement = (type: ElementType, elements: SlideElement[], props: Partial<SlideElement> = {}): SlideElement => {
+  const id = nextElementId(elements);
+  const centred = (width: number, height: number): Box =>
+    ({ x: (SLIDE_WIDTH - width) / 2, y: (SLIDE_HEIGHT - height) / 2, width, height });
+  const base: Record<ElementType, SlideElement> = {
+    text: { id, type: 'text', ...centred(400, 80), html: '<div>Text</div>', style: { fontSize: 24, color: 'text', fontFamily: 'body' } },
+    image: { id, type: 'image', ...centred(320, 240), src: '' },
+    shape: { id, type: 'shape', ...centred(200, 140), shape: 'rect', fill: 'accent1', strokeWidth: 0 },
+    line: { id, type: 'line', ...centred(300, 0), stroke: 'text', strokeWidth: 3 },
+    table: {
+      id, type: 'table', ...centred(480, 160), headerRow: true, fontSize: 16, color: 'text', borderColor: 'accent2',
+      rows: [['Header', 'Header', 'Header'], ['', '', ''], ['', '', '']]
+    },
+    chart: { id, type: 'chart', ...centred(480, 270), svg: '' }
+  };
+  return { ...base[type], ...props } as SlideElement;
+};
+
+// An element with nothing in it yet; empty placeholders show a prompt while editing.
+export const isEmptyElement = (el: SlideElement) =>
+  (el.type === 'text' && htmlToText(el.html) === '') || (el.type === 'image' && !el.src);
+
+// The text of a slide, top to bottom, for thumbnails and AI prompts.
+export const slideText = (slide: Slide) =>
+  slide.elements
+    .filter((e): e is Extract<SlideElement, { type: 'text' }> => e.type === 'text')
+    .slice().sort((a, b) => a.y - b.y)
+    .map(e => htmlToText(e.html))
+    .filter(Boolean)
+    .join('\n');
+
+// --- SELECTION ---
+// Selecting any member of a group selects the whole group.
+export const withGroups = (elements: SlideElement[], ids: string[]) => {
+  const groups = new Set(elements.filter(e => ids.includes(e.id) && e.groupId).map(e => e.groupId));
+  return elements.filter(e => ids.includes(e.id) || (e.groupId && groups.has(e.groupId))).map(e => e.id);
+};
+
+export const boundsOf = (elements: SlideElement[]): Box => {
+  const x = Math.min(...elements.map(e => e.x));
+  const y = Math.min(...elements.map(e => e.y));
+  return {
+    x, y,
+    width: Math.max(...elements.map(e => e.x + e.width)) - x,
+    height: Math.max(...elements.map(e => e.y + e.height)) - y
+  };
+};
+
+// --- OPERATIONS ---
+// Each returns a new element list; the input is left untouched.
+export const updateElements = (elements: SlideElement[], ids: string[], patch: (e: SlideElement) => Partial<SlideElement>) =>
+  elements.map(e => ids.includes(e.id) ? { ...e, ...patch(e) } as SlideElement : e);
+
+export const removeElements = (elements: SlideElement[], ids: string[]) => elements.filter(e => !ids.includes(e.id));
+
+// Copies land a little below and right of the originals, in their own groups,
+// and are ordinary elements even when copied from a placeholder.
+export const duplicateElements = (elements: SlideElement[], ids: string[]) => {
+  const all = [...elements];
+  const groupIds = new Map<string, string>();
+  const copies = elements.filter(e => ids.includes(e.id)).map(e => {
+    const copy = { ...structuredClone(e), id: nextElementId(all), x: e.x + 16, y: e.y + 16, placeholder: undefined };
+    if (e.groupId) {
+      if (!groupIds.has(e.groupId)) groupIds.set(e.groupId, nextId('g', [...all.map(x => x.groupId ?? ''), ...groupIds.values()]));
+      copy.groupId = groupIds.get(e.groupId);
+    }
+    all.push(copy);
+    return copy;
+  });
+  return { elements: all, ids: copies.map(c => c.id) };
+};
+
+export type LayerMove = 'front' | 'forward' | 'backward' | 'back';
+
+// Moves the elements within the stack, keeping their order among themselves.
+export const reorderElements = (elements: SlideElement[], ids: string[], move: LayerMove) => {
+  const picked = elements.filter(e => ids.includes(e.id));
+  const rest = elements.filter(e => !ids.includes(e.id));
+  if (!picked.length) return elements;
+  if (move === 'front') return [...rest, ...picked];
+  if (move === 'back') return [...picked, ...rest];
+  // One step: past the next element above the selection, or below it.
+  const first = elements.indexOf(picked[0]);
+  const last = elements.indexOf(picked[picked.length - 1]);
+  const insertAt = move === 'forward'
+    ? Math.min(rest.length, rest.filter(e => elements.indexOf(e) < last).length + 1)
+    : Math.max(0, rest.filter(e => elements.indexOf(e) < first).length - 1);
+  return [...rest.slice(0, insertAt), ...picked, ...rest.slice(insertAt)];
+};
+
+export const groupElements = (elements: SlideElement[], ids: string[]) => {
+  if (ids.length < 2) return elements;
+  const groupId = nextId('g', elements.map(e => e.groupId ?? ''));
+  return elements.map(e => ids.includes(e.id) ? { ...e, groupId } : e);
+};
+
+export const ungroupElements = (elements: SlideElement[], ids: string[]) =>
+  elements.map(e => ids.includes(e.id) && e.groupId ? { ...e, groupId: undefined } : e);
+
+// Scales the elements from box `from` to box `to`, as when resizing a selection.
+export const scaleElements = (elements: SlideElement[], from: Box, to: Box) => {
+  const sx = from.width ? to.width / from.width : 1;
+  const sy = from.height ? to.height / from.height : 1;
+  return elements.map(e => ({
+    ...e,
+    x: to.x + (e.x - from.x) * sx,
+    y: to.y + (e.y - from.y) * sy,
+    width: e.width * sx,
+    height: e.height * sy
+  }) as SlideElement);
+};
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- THEMES ---
+// A deck carries one theme: a palette and a pair of fonts. Element colors
+// may name a palette slot ("accent1") instead of a hex value, and fonts may
+// be "heading" or "body"; those follow the theme, so switching it restyles
+// everything that wasn't given an explicit color or font.
+export type ThemeColor = 'background' | 'text' | 'heading' | 'accent1' | 'accent2' | 'accent3' | 'accent4';
+
+export interface Theme {
+  name: string;
+  colors: Record<ThemeColor, string>;
+  fonts: { heading: string; body: string };
+}
+
+export const THEME_COLORS: { key: ThemeColor; label: string }[] = [
+  { key: 'background', label: 'Background' },
+  { key: 'text', label: 'Text' },
+  { key: 'heading', label: 'Headings' },
+  { key: 'accent1', label: 'Accent 1' },
+  { key: 'accent2', label: 'Accent 2' },
+  { key: 'accent3', label: 'Accent 3' },
+  { key: 'accent4', label: 'Accent 4' }
+];
+
+export const FONT_CHOICES = ['Playfair Display', 'Georgia', 'Times New Roman', 'Arial', 'Calibri', 'Helvetica', 'Verdana', 'Courier New'];
+
+export const THEMES: Theme[] = [
+  {
+    name: 'Midnight',
+    colors: { background: '#1e1e22', text: '#ffffff', heading: '#c8a96e', accent1: '#c8a96e', accent2: '#5b8def', accent3: '#e06c75', accent4: '#98c379' },
+    fonts: { heading: 'Playfair Display', body: 'Arial' }
+  },
+  {
+    name: 'Paper',
+    colors: { background: '#ffffff', text: '#2b2b30', heading: '#1f3a5f', accent1: '#2f6fb3', accent2: '#e38b2c', accent3: '#6aa84f', accent4: '#a64d79' },
+    fonts: { heading: 'Georgia', body: 'Calibri' }
+  },
+  {
+    name: 'Ocean',
+    colors: { background: '#0f2a3d', text: '#e6f1f7', heading: '#7fd1e8', accent1: '#2fa4c7', accent2: '#f2c14e', accent3: '#ef6f6c', accent4: '#9bd77b' },
+    fonts: { heading: 'Helvetica', body: 'Helvetica' }
+  },
+  {
+    name: 'Forest',
+    colors: { background: '#f4f1e8', text: '#2f3a2f', heading: '#2e5a3c', accent1: '#4f8a5b', accent2: '#c0843d', accent3: '#8c5a3c', accent4: '#6b8fb3' },
+    fonts: { heading: 'Playfair Display', body: 'Verdana' }
+  },
+  {
+    name: 'Ember',
+    colors: { background: '#1a1414', text: '#f5ece6', heading: '#ff8a5b', accent1: '#ff8a5b', accent2: '#ffd166', accent3: '#ef476f', accent4: '#06d6a0' },
+    fonts: { heading: 'Georgia', body: 'Arial' }
+  }
+];
+
+export const DEFAULT_THEME = THEMES[0];
+
+const isThemeColor = (c: string, theme: Theme): c is ThemeColor => Object.prototype.hasOwnProperty.call(theme.colors, c);
+
+// A palette slot's current color; anything else (hex values) passes through.
+export const resolveColor = (color: string | undefined, theme: Theme) =>
+  color && isThemeColor(color, theme) ? theme.colors[color] : color;
+
+export const resolveFont = (font: string | undefined, theme: Theme) =>
+  font === 'heading' ? theme.fonts.heading : font === 'body' ? theme.fonts.body : font;
+
+// Whether light text belongs on this theme's background, e.g. for charts.
+export const isDarkTheme = (theme: Theme) => {
+  const h = theme.colors.background.replace('#', '');
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(h.slice(i, i + 2), 16) || 0);
+  return 0.299 * r + 0.587 * g + 0.114 * b < 140;
+};
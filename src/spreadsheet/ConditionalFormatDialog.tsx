@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from 'lucide-react';
+import { CellRange, parseRange, rangeToText } from './cellRef.ts';
+import { CONDITIONAL_TYPES, ConditionalFormat, ConditionalRule, RuleStyle } from './conditionalFormat.ts';
+import { COMPARE_OPS, CompareOp, isRangeOp, nextRuleId } from './rules.ts';
+
+// --- CONDITIONAL FORMATTING DIALOG ---
+// Lists the sheet's rules in priority order (first wins) and adds new ones,
+// defaulting to the current selection. Every change goes straight to onChange.
+interface ConditionalFormatDialogProps {
+  rules: ConditionalRule[];
+  selection: CellRange;
+  onChange: (rules: ConditionalRule[]) => void;
+  onClose: () => void;
+}
+
+const describe = (rule: ConditionalFormat) => {
+  switch (rule.type) {
+    case 'cellIs': {
+      const op = COMPARE_OPS.find(o => o.op === rule.op)?.label ?? rule.op;
+      return `Cell value ${op} ${rule.value}${isRangeOp(rule.op) ? ` and ${rule.value2 ?? ''}` : ''}`;
+    }
+    case 'duplicate': return 'Duplicate values';
+    case 'unique': return 'Unique values';
+    case 'formula': return `Formula: =${rule.formula}`;
+    case 'colorScale': return `${rule.colors.length}-color scale`;
+    case 'dataBar': return 'Data bar';
+  }
+};
+
+const inputClass = 'bg-[#1e1e22] border border-[#2a2a30] rounded px-2 py-1 outline-none focus:border-[#c8a96e]';
+
+export const ConditionalFormatDialog = ({ rules, selection, onChange, onClose }: ConditionalFormatDialogProps) => {
+  const [rangeText, setRangeText] = useState(rangeToText(selection));
+  const [type, setType] = useState<ConditionalFormat['type']>('cellIs');
+  const [op, setOp] = useState<CompareOp>('gt');
+  const [value, setValue] = useState('');
+  const [value2, setValue2] = useState('');
+  const [formula, setFormula] = useState('');
+  const [style, setStyle] = useState<RuleStyle>({ fill: '#f4c7c3', color: '#9c0006' });
+  const [colors, setColors] = useState(['#f8696b', '#ffeb84', '#63be7b']);
+  const [threeColors, setThreeColors] = useState(true);
+  const [barColor, setBarColor] = useState('#5b8def');
+
+  const hasStyle = type === 'cellIs' || type === 'duplicate' || type === 'unique' || type === 'formula';
+
+  const add = () => {
+    const range = parseRange(rangeText);
+    if (!range) return alert(`"${rangeText}" is not a valid range.`);
+    let format: ConditionalFormat;
+    switch (type) {
+      case 'cellIs':
+        if (!value.trim() || (isRangeOp(op) && !value2.trim())) return alert('Enter the values to compare with.');
+        format = { type, op, value: value.trim(), style };
+        if (isRangeOp(op)) format.value2 = value2.trim();
+        break;
+      case 'formula':
+        if (!formula.trim()) return alert('Enter a formula.');
+        format = { type, formula: formula.trim().replace(/^=/, ''), style };
+        break;
+      case 'colorScale':
+        format = { type, colors: threeColors ? colors : [colors[0], colors[2]] };
+        break;
+      case 'dataBar':
+        format = { type, color: barColor };
+        break;
+      default:
+        format = { type, style };
+    }
+    onChange([...rules, { ...format, id: nextRuleId('cf', rules), range }]);
+  };
+
+  const move = (i: number, d: number) => {
+    const next = [...rules];
+    [next[i], next[i + d]] = [next[i + d], next[i]];
+    onChange(next);
+  };
+
+  const toggle = (key: 'bold' | 'italic') => setStyle({ ...style, [key]: style[key] ? undefined : true });
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#17171a] border border-[#2a2a30] rounded-xl w-full max-w-xl max-h-[90vh] flex flex-col shadow-2xl text-[#e8e8ec]">
+        <div className="p-4 border-b border-[#2a2a30] flex justify-between items-center">
+          <h2 className="text-lg font-serif text-[#c8a96e]">Conditional Formatting</h2>
+          <button onClick={onClose} className="text-[#888894] hover:text-white"><X size={18}/></button>
+        </div>
+        <div className="p-4 flex flex-col gap-2 overflow-auto">
+          {rules.length === 0 && <div className="text-[#888894]">No rules on this sheet yet.</div>}
+          {rules.map((rule, i) => (
+            <div key={rule.id} className="flex items-center gap-2 px-2 py-1 bg-[#1e1e22] border border-[#2a2a30] rounded">
+              <span
+                className="w-5 h-5 rounded-sm border border-[#2a2a30] flex-shrink-0"
+                style={{
+                  background: rule.type === 'colorScale' ? `linear-gradient(to right, ${rule.colors.join(', ')})`
+                    : rule.type === 'dataBar' ? rule.color : rule.style.fill
+                }}
+              />
+              <span className="flex-1 truncate">{describe(rule)}</span>
+              <span className="font-mono text-xs text-[#888894]">{rangeToText(rule.range)}</span>
+              <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1 text-[#888894] hover:text-[#c8a96e] disabled:opacity-30" title="Higher Priority"><ArrowUp size={14}/></button>
+              <button onClick={() => move(i, 1)} disabled={i === rules.length - 1} className="p-1 text-[#888894] hover:text-[#c8a96e] disabled:opacity-30" title="Lower Priority"><ArrowDown size={14}/></button>
+              <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="p-1 text-[#888894] hover:text-red-400" title="Delete Rule"><Trash2 size={14}/></button>
+            </div>
+          ))}
+
+          <div className="mt-2 pt-3 border-t border-[#2a2a30] flex flex-col gap-2">
+            <div className="flex flex-wrap gap-2 items-center">
+              <span className="text-[#888894]">Apply to</span>
+              <input value={rangeText} onChange={e => setRangeText(e.target.value)} className={`w-28 font-mono ${inputClass}`}/>
+              <select value={type} onChange={e => setType(e.target.value as ConditionalFormat['type'])} className={inputClass}>
+                {CONDITIONAL_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+              </select>
+            </div>
+            {type === 'cellIs' && (
+              <div className="flex flex-wrap gap-2 items-center">
+                <select value={op} onChange={e => setOp(e.target.value as CompareOp)} className={inputClass}>
+                  {COMPARE_OPS.map(o => <option key={o.op} value={o.op}>{o.label}</option>)}
+                </select>
+                <input value={value} onChange={e => setValue(e.target.value)} placeholder="Value or =formula" className={`w-32 ${inputClass}`}/>
+                {isRangeOp(op) && <>and <input value={value2} onChange={e => setValue2(e.target.value)} className={`w-32 ${inputClass}`}/></>}
+              </div>
+            )}
+            {type === 'formula' && (
+              <input value={formula} onChange={e => setFormula(e.target.value)} placeholder={`e.g. =$C${selection.r1 + 1}="Done"`} className={`font-mono ${inputClass}`}/>
+            )}
+            {type === 'colorScale' && (
+              <div className="flex flex-wrap gap-3 items-center">
+                <label className="flex items-center gap-1">Low <input type="color" value={colors[0]} onChange={e => setColors([e.target.value, colors[1], colors[2]])}/></label>
+                {threeColors && <label className="flex items-center gap-1">Median <input type="color" value={colors[1]} onChange={e => setColors([colors[0], e.target.value, colors[2]])}/></label>}
+                <label className="flex items-center gap-1">High <input type="color" value={colors[2]} onChange={e => setColors([colors[0], colors[1], e.target.value])}/></label>
+                <label className="flex items-center gap-1 cursor-pointer"><input type="checkbox" checked={threeColors} onChange={e => setThreeColors(e.target.checked)}/> Three colors</label>
+              </div>
+            )}
+            {type === 'dataBar' && (
+              <label className="flex items-center gap-2">Bar color <input type="color" value={barColor} onChange={e => setBarColor(e.target.value)}/></label>
+            )}
+            {hasStyle && (
+              <div className="flex flex-wrap gap-3 items-center">
+                <span className="text-[#888894]">Format with</span>
+                <label className="flex items-center gap-1">Fill <input type="color" value={style.fill ?? '#17171a'} onChange={e => setStyle({ ...style, fill: e.target.value })}/></label>
+                <label className="flex items-center gap-1">Text <input type="color" value={style.color ?? '#e8e8ec'} onChange={e => setStyle({ ...style, color: e.target.value })}/></label>
+                <button onClick={() => toggle('bold')} className={`px-2 rounded font-bold ${style.bold ? 'bg-[#c8a96e]/20 text-[#c8a96e]' : 'hover:bg-[#c8a96e]/20'}`}>B</button>
+                <button onClick={() => toggle('italic')} className={`px-2 rounded italic ${style.italic ? 'bg-[#c8a96e]/20 text-[#c8a96e]' : 'hover:bg-[#c8a96e]/20'}`}>I</button>
+                <span className="px-2 py-0.5 rounded border border-[#2a2a30]" style={{ background: style.fill, color: style.color, fontWeight: style.bold ? 700 : undefined, fontStyle: style.italic ? 'italic' : undefined }}>AaBbCc</span>
+              </div>
+            )}
+            <button onClick={add} className="self-start flex items-center gap-1 px-2 py-1 text-[#c8a96e] hover:bg-[#c8a96e]/20 rounded"><Plus size={14}/> Add Rule</button>
+          </div>
+        </div>
+        <div className="p-4 border-t border-[#2a2a30] flex justify-end">
+          <button onClick={onClose} className="px-4 py-1 rounded bg-[#c8a96e] text-black font-bold">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState } from 'react';
+import { ArrowDownAZ, ArrowDownZA } from 'lucide-react';
+import { ColumnFilter, FILTER_OPS, FilterOp } from './filter.ts';
+
+// --- FILTER DROPDOWN ---
+// Opened from a column's header button. Edits a draft of the column filter
+// and hands it back on OK; undefined clears the column's filter.
+interface FilterMenuProps {
+  x: number;
+  y: number;
+  values: string[];
+  filter?: ColumnFilter;
+  onApply: (filter: ColumnFilter | undefined) => void;
+  onSort: (descending: boolean) => void;
+  onClose: () => void;
+}
+
+export const FilterMenu = ({ x, y, values, filter, onApply, onSort, onClose }: FilterMenuProps) => {
+  const [checked, setChecked] = useState<Set<string>>(() => new Set(filter?.values ?? values));
+  const [search, setSearch] = useState('');
+  const [op, setOp] = useState<FilterOp | ''>(filter?.condition?.op ?? '');
+  const [arg, setArg] = useState(filter?.condition?.value ?? '');
+
+  const shown = values.filter(v => v.toLowerCase().includes(search.toLowerCase()));
+  const allChecked = shown.every(v => checked.has(v));
+
+  const toggle = (v: string) => {
+    const next = new Set(checked);
+    if (next.has(v)) next.delete(v);
+    else next.add(v);
+    setChecked(next);
+  };
+
+  const toggleAll = () => {
+    const next = new Set(checked);
+    shown.forEach(v => allChecked ? next.delete(v) : next.add(v));
+    setChecked(next);
+  };
+
+  const apply = () => {
+    const result: ColumnFilter = {};
+    if (values.some(v => !checked.has(v))) result.values = values.filter(v => checked.has(v));
+    if (op) result.condition = { op, value: arg };
+    onApply(result.values || result.condition ? result : undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40" onMouseDown={onClose}>
+      <div
+        style={{ left: Math.min(x, window.innerWidth - 256), top: Math.min(y, window.innerHeight - 420) }}
+        className="fixed w-64 p-2 bg-[#17171a] border border-[#2a2a30] rounded shadow-2xl text-[#e8e8ec] flex flex-col gap-2"
+        onMouseDown={e => e.stopPropagation()}
+      >
+        <button onClick={() => onSort(false)} className="flex items-center gap-2 px-2 py-1 hover:bg-[#c8a96e]/20 rounded text-left"><ArrowDownAZ size={14}/> Sort A to Z</button>
+        <button onClick={() => onSort(true)} className="flex items-center gap-2 px-2 py-1 hover:bg-[#c8a96e]/20 rounded text-left"><ArrowDownZA size={14}/> Sort Z to A</button>
+        <div className="h-px bg-[#2a2a30]"></div>
+        <div className="flex gap-1">
+          <select value={op} onChange={e => setOp(e.target.value as FilterOp | '')} className="flex-1 min-w-0 bg-[#1e1e22] border border-[#2a2a30] rounded px-1 py-1">
+            <option value="">No condition</option>
+            {FILTER_OPS.map(o => <option key={o.op} value={o.op}>{o.label}</option>)}
+          </select>
+          <input value={arg} onChange={e => setArg(e.target.value)} disabled={!op} className="w-20 bg-[#1e1e22] border border-[#2a2a30] rounded px-1 py-1 outline-none focus:border-[#c8a96e] disabled:opacity-40"/>
+        </div>
+        <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search values" className="bg-[#1e1e22] border border-[#2a2a30] rounded px-2 py-1 outline-none focus:border-[#c8a96e]"/>
+        <div className="max-h-48 overflow-auto border border-[#2a2a30] rounded p-1">
+          <label className="flex items-center gap-2 px-1 cursor-pointer">
+            <input type="checkbox" checked={allChecked} onChange={toggleAll}/> (Select All)
+          </label>
+          {shown.map(v => (
+            <label key={v} className="flex items-center gap-2 px-1 cursor-pointer truncate">
+              <input type="checkbox" checked={checked.has(v)} onChange={() => toggle(v)}/> {v === '' ? '(Blanks)' : v}
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2">
+          <button onClick={() => onApply(undefined)} className="px-3 py-1 rounded hover:bg-[#c8a96e]/20">Clear</button>
+          <button onClick={apply} className="px-3 py-1 rounded bg-[#c8a96e] text-black font-bold">OK</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, X } from 'lucide-react';
+import { CellAddress, CellRange, parseCellId, parseRange, rangeToText, toCellId } from './cellRef.ts';
+import { quoteSheetName } from './formula.ts';
+import { AGGREGATIONS, Aggregation, PivotFilter, PivotTable, PivotValue, ValueReader, pivotFieldValues, pivotFields } from './pivot.ts';
+import type { Workbook } from './workbook.ts';
+
+// --- PIVOT TABLE DIALOG ---
+// Fields are dragged from the list into the four areas, or added with the
+// select next to each one. A field sits in rows or columns, not both; it can
+// be summarized more than once. When editing, the table stays where it is.
+export type PivotLayout = Pick<PivotTable, 'source' | 'rows' | 'columns' | 'values' | 'filters'>;
+
+interface PivotDialogProps {
+  workbook: Workbook;
+  sheetId: string;
+  source: PivotTable['source'];
+  pivot?: PivotTable;
+  defaultCell: string;
+  read: ValueReader;
+  onSave: (layout: PivotLayout, at: CellAddress | null) => void; // null: on a new sheet
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+type Area = 'filters' | 'columns' | 'rows' | 'values';
+
+const AREAS: { area: Area; label: string }[] = [
+  { area: 'filters', label: 'Filters' },
+  { area: 'columns', label: 'Columns' },
+  { area: 'rows', label: 'Rows' },
+  { area: 'values', label: 'Values' }
+];
+
+const inputClass = 'bg-[#1e1e22] border border-[#2a2a30] rounded px-2 py-1 outline-none focus:border-[#c8a96e]';
+const chipClass = 'flex items-center gap-1 px-2 py-0.5 bg-[#1e1e22] border border-[#2a2a30] rounded cursor-grab';
+
+// "Sheet1!A1:D20" or "'My Sheet'!A1:D20"; without a sheet, the active one.
+const parseSource = (text: string, wb: Workbook, sheetId: string): PivotTable['source'] | null => {
+  const bang = text.lastIndexOf('!');
+  const range = parseRange(text.slice(bang + 1));
+  if (!range) return null;
+  if (bang < 0) return { sheetId, range };
+  const name = text.slice(0, bang).trim().replace(/^'(.*)'$/, '$1').replace(/''/g, "'").toLowerCase();
+  const sheet = wb.sheets.find(s => s.name.toLowerCase() === name);
+  return sheet ? { sheetId: sheet.id, range } : null;
+};
+
+const sourceText = (wb: Workbook, source: PivotTable['source']) =>
+  `${quoteSheetName(wb.sheets.find(s => s.id === source.sheetId)?.name ?? '')}!${rangeToText(source.range)}`;
+
+export const PivotDialog = ({ workbook, sheetId, source, pivot, defaultCell, read, onSave, onRemove, onClose }: PivotDialogProps) => {
+  const [text, setText] = useState(sourceText(workbook, pivot?.source ?? source));
+  const [rows, setRows] = useState<number[]>(pivot?.rows ?? []);
+  const [columns, setColumns] = useState<number[]>(pivot?.columns ?? []);
+  const [values, setValues] = useState<PivotValue[]>(pivot?.values ?? []);
+  const [filters, setFilters] = useState<PivotFilter[]>(pivot?.filters ?? []);
+  const [onNewSheet, setOnNewSheet] = useState(true);
+  const [cellText, setCellText] = useState(defaultCell);
+  const [openFilter, setOpenFilter] = useState<number | null>(null);
+  const [over, setOver] = useState<Area | null>(null);
+
+  const parsed = parseSource(text, workbook, sheetId);
+  const sourceSheet = parsed && workbook.sheets.find(s => s.id === parsed.sheetId);
+  const names = useMemo(
+    () => sourceSheet && parsed ? pivotFields(sourceSheet, parsed.range, read) : [],
+    [sourceSheet, parsed?.range.c1, parsed?.range.c2, parsed?.range.r1]
+  );
+
+  // Sum numbers, count anything else, going by the first data row.
+  const defaultAgg = (field: number): Aggregation => {
+    if (!parsed) return 'count';
+    return typeof read(parsed.sheetId, toCellId(parsed.range.c1 + field, parsed.range.r1 + 1)) === 'number' ? 'sum' : 'count';
+  };
+
+  const remove = (area: Area, index: number) => {
+    if (area === 'rows') setRows(rows.filter((_, i) => i !== index));
+    if (area === 'columns') setColumns(columns.filter((_, i) => i !== index));
+    if (area === 'values') setValues(values.filter((_, i) => i !== index));
+    if (area === 'filters') setFilters(filters.filter((_, i) => i !== index));
+  };
+
+  const add = (area: Area, field: number, from?: { area: Area; index: number }) => {
+    let [r, c, v, f] = [rows, columns, values, filters];
+    if (from?.area === 'values') v = v.filter((_, i) => i !== from.index);
+    if (from?.area === 'filters') f = f.filter((_, i) => i !== from.index);
+    if (area === 'rows' || area === 'columns') {
+      r = r.filter(x => x !== field);
+      c = c.filter(x => x !== field);
+      if (area === 'rows') r = [...r, field];
+      else c = [...c, field];
+    } else if (from?.area === 'rows' || from?.area === 'columns') {
+      r = r.filter(x => x !== field);
+      c = c.filter(x => x !== field);
+    }
+    if (area === 'values') v = [...v, { field, agg: from?.area === 'values' ? values[from.index].agg : defaultAgg(field) }];
+    if (area === 'filters' && !f.some(x => x.field === field)) {
+      f = [...f, from?.area === 'filters' ? filters[from.index] : { field }];
+    }
+    setRows(r);
+    setColumns(c);
+    setValues(v);
+    setFilters(f);
+  };
+
+  const drop = (e: any, area: Area) => {
+    e.preventDefault();
+    setOver(null);
+    try {
+      const { field, from } = JSON.parse(e.dataTransfer.getData('text/plain'));
+      if (typeof field === 'number') add(area, field, from);
+    } catch {
+      // Not one of ours.
+    }
+  };
+
+  const dragStart = (e: any, field: number, from?: { area: Area; index: number }) =>
+    e.dataTransfer.setData('text/plain', JSON.stringify({ field, from }));
+
+  const toggleFilterValue = (index: number, all: string[], value: string) => {
+    const current = filters[index].values ?? all;
+    const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+    setFilters(filters.map((f, i) => i === index ? { field: f.field, values: next.length === all.length ? undefined : next } : f));
+  };
+
+  const save = () => {
+    if (!parsed || !sourceSheet) return alert(`"${text}" is not a valid source range.`);
+    if (parsed.range.r2 <= parsed.range.r1) return alert('The source needs a header row and at least one row of data.');
+    if (!values.length && !rows.length && !columns.length) return alert('Add at least one field to Rows, Columns or Values.');
+    let at: CellAddress | null = null;
+    if (!pivot && !onNewSheet) {
+      at = parseCellId(cellText.trim().toUpperCase().replace(/\$/g, ''));
+      if (!at) return alert(`"${cellText}" is not a valid cell.`);
+    }
+    const inSource = (field: number) => field < names.length;
+    onSave({
+      source: parsed,
+      rows: rows.filter(inSource),
+      columns: columns.filter(inSource),
+      values: values.filter(v => inSource(v.field)),
+      filters: filters.filter(f => inSource(f.field))
+    }, at);
+  };
+
+  const chips = (area: Area) => {
+    if (area === 'rows' || area === 'columns') {
+      return (area === 'rows' ? rows : columns).map((field, i) => (
+        <div key={`${field}`} draggable onDragStart={e => dragStart(e, field, { area, index: i })} className={chipClass}>
+          <span className="flex-1 truncate">{names[field] ?? '?'}</span>
+          <button onClick={() => remove(area, i)} className="text-[#888894] hover:text-red-400"><X size={12}/></button>
+        </div>
+      ));
+    }
+    if (area === 'values') {
+      return values.map((v, i) => (
+        <div key={i} draggable onDragStart={e => dragStart(e, v.field, { area, index: i })} className={chipClass}>
+          <select
+            value={v.agg}
+            onChange={e => setValues(values.map((x, j) => j === i ? { ...x, agg: e.target.value as Aggregation } : x))}
+            className="bg-transparent outline-none text-[#c8a96e]"
+          >
+            {AGGREGATIONS.map(a => <option key={a.agg} value={a.agg}>{a.label}</option>)}
+          </select>
+          <span className="flex-1 truncate">of {names[v.field] ?? '?'}</span>
+          <button onClick={() => remove(area, i)} className="text-[#888894] hover:text-red-400"><X size={12}/></button>
+        </div>
+      ));
+    }
+    return filters.map((f, i) => {
+      const all = openFilter === f.field && sourceSheet && parsed ? pivotFieldValues(sourceSheet, parsed.range, f.field, read) : [];
+      return (
+        <div key={f.field} className="flex flex-col gap-1">
+          <div draggable onDragStart={e => dragStart(e, f.field, { area, index: i })} className={chipClass}>
+            <span className="flex-1 truncate">{names[f.field] ?? '?'}{f.values ? ` (${f.values.length})` : ''}</span>
+            <button onClick={() => setOpenFilter(openFilter === f.field ? null : f.field)} className="text-[#888894] hover:text-[#c8a96e]" title="Choose Values"><ChevronDown size={12}/></button>
+            <button onClick={() => remove(area, i)} className="text-[#888894] hover:text-red-400"><X size={12}/></button>
+          </div>
+          {openFilter === f.field && (
+            <div className="max-h-32 overflow-auto pl-2 flex flex-col">
+              {all.map(value => (
+                <label key={value} className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={!f.values || f.values.includes(value)} onChange={() => toggleFilterValue(i, all, value)}/>
+                  <span className="truncate">{value === '' ? '(blank)' : value}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      );
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#17171a] border border-[#2a2a30] rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col shadow-2xl text-[#e8e8ec]">
+        <div className="p-4 border-b border-[#2a2a30] flex justify-between items-center">
+          <h2 className="text-lg font-serif text-[#c8a96e]">{pivot ? 'Edit Pivot Table' : 'Create Pivot Table'}</h2>
+          <button onClick={onClose} className="text-[#888894] hover:text-white"><X size={18}/></button>
+        </div>
+        <div className="p-4 flex flex-col gap-3 overflow-auto">
+          <label className="flex items-center gap-2">
+            <span className="w-20 text-[#888894]">Source</span>
+            <input value={text} onChange={e => setText(e.target.value)} className={`flex-1 min-w-0 font-mono ${inputClass}`}/>
+          </label>
+          {!pivot && (
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="w-20 text-[#888894]">Place on</span>
+              <label className="flex items-center gap-1 cursor-pointer"><input type="radio" checked={onNewSheet} onChange={() => setOnNewSheet(true)}/> A new sheet</label>
+              <label className="flex items-center gap-1 cursor-pointer"><input type="radio" checked={!onNewSheet} onChange={() => setOnNewSheet(false)}/> This sheet at</label>
+              <input value={cellText} onChange={e => setCellText(e.target.value)} disabled={onNewSheet} className={`w-20 font-mono disabled:opacity-40 ${inputClass}`}/>
+            </div>
+          )}
+          <div className="flex gap-3 min-h-[16rem]">
+            <div className="w-48 flex-shrink-0 flex flex-col gap-1 overflow-auto">
+              <span className="text-[#888894]">Fields</span>
+              {!names.length && <span className="text-[#888894] text-xs">Enter a valid source range.</span>}
+              {names.map((name, field) => (
+                <div key={field} draggable onDragStart={e => dragStart(e, field)} className={chipClass}>
+                  <span className="flex-1 truncate" title={name}>{name}</span>
+                  <select
+                    value=""
+                    onChange={e => e.target.value && add(e.target.value as Area, field)}
+                    className="w-5 bg-transparent outline-none text-[#888894]"
+                    title="Add to…"
+                  >
+                    <option value="">Add to…</option>
+                    {AREAS.map(a => <option key={a.area} value={a.area}>{a.label}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="flex-1 grid grid-cols-2 gap-2">
+              {AREAS.map(({ area, label }) => (
+                <div
+                  key={area}
+                  onDragOver={e => { e.preventDefault(); setOver(area); }}
+                  onDragLeave={() => setOver(null)}
+                  onDrop={e => drop(e, area)}
+                  className={`flex flex-col gap-1 p-2 rounded border ${over === area ? 'border-[#c8a96e]' : 'border-[#2a2a30]'} bg-[#131316]`}
+                >
+                  <span className="text-[#888894]">{label}</span>
+                  {chips(area)}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="p-4 border-t border-[#2a2a30] flex justify-between gap-2">
+          <div>{pivot && <button onClick={onRemove} className="px-4 py-1 rounded hover:bg-[#c8a96e]/20">Remove Pivot Table</button>}</div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-1 rounded hover:bg-[#c8a96e]/20">Cancel</button>
+            <button onClick={save} className="px-4 py-1 rounded bg-[#c8a96e] text-black font-bold">{pivot ? 'Update' : 'Create'}</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
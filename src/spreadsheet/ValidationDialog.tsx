@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { CellRange, rangeToText } from './cellRef.ts';
+import { COMPARE_OPS, CompareOp, isRangeOp } from './rules.ts';
+import { VALIDATION_TYPES, ValidationRule, ValidationType } from './validation.ts';
+
+// --- DATA VALIDATION DIALOG ---
+// Edits the rule for the selected range, starting from the one at the active
+// cell. The caller decides which existing rules the saved one replaces.
+interface ValidationDialogProps {
+  range: CellRange;
+  rule?: ValidationRule;
+  onSave: (rule: Omit<ValidationRule, 'id' | 'range'>) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-[#1e1e22] border border-[#2a2a30] rounded px-2 py-1 outline-none focus:border-[#c8a96e]';
+
+export const ValidationDialog = ({ range, rule, onSave, onClear, onClose }: ValidationDialogProps) => {
+  const [type, setType] = useState<ValidationType>(rule?.type ?? 'list');
+  const [op, setOp] = useState<CompareOp>(rule?.op ?? 'between');
+  const [value1, setValue1] = useState(rule?.value1 ?? '');
+  const [value2, setValue2] = useState(rule?.value2 ?? '');
+  const [allowBlank, setAllowBlank] = useState(rule?.allowBlank !== false);
+  const [errorStyle, setErrorStyle] = useState(rule?.errorStyle ?? 'stop');
+  const [message, setMessage] = useState(rule?.message ?? '');
+
+  const compared = type !== 'list' && type !== 'custom';
+  const placeholder = type === 'date' ? '2024-12-31 or =formula' : 'Value or =formula';
+
+  const save = () => {
+    const first = value1.trim();
+    if (!first) return alert(type === 'list' ? 'Enter the list items or a range.' : type === 'custom' ? 'Enter a formula.' : 'Enter a value.');
+    if (compared && isRangeOp(op) && !value2.trim()) return alert('Enter both bounds.');
+    const next: Omit<ValidationRule, 'id' | 'range'> = {
+      type, value1: type === 'custom' && !first.startsWith('=') ? '=' + first : first, allowBlank, errorStyle
+    };
+    if (compared) next.op = op;
+    if (compared && isRangeOp(op)) next.value2 = value2.trim();
+    if (message.trim()) next.message = message.trim();
+    onSave(next);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#17171a] border border-[#2a2a30] rounded-xl w-full max-w-md shadow-2xl text-[#e8e8ec]">
+        <div className="p-4 border-b border-[#2a2a30] flex justify-between items-center">
+          <h2 className="text-lg font-serif text-[#c8a96e]">Data Validation <span className="font-mono text-sm text-[#888894]">{rangeToText(range)}</span></h2>
+          <button onClick={onClose} className="text-[#888894] hover:text-white"><X size={18}/></button>
+        </div>
+        <div className="p-4 flex flex-col gap-3">
+          <label className="flex items-center gap-2">
+            <span className="w-20 text-[#888894]">Allow</span>
+            <select value={type} onChange={e => setType(e.target.value as ValidationType)} className={`flex-1 ${inputClass}`}>
+              {VALIDATION_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+            </select>
+          </label>
+          {compared && (
+            <label className="flex items-center gap-2">
+              <span className="w-20 text-[#888894]">{type === 'textLength' ? 'Length' : 'Value'}</span>
+              <select value={op} onChange={e => setOp(e.target.value as CompareOp)} className={`flex-1 ${inputClass}`}>
+                {COMPARE_OPS.map(o => <option key={o.op} value={o.op}>{o.label}</option>)}
+              </select>
+            </label>
+          )}
+          <div className="flex items-center gap-2">
+            <span className="w-20 text-[#888894]">{type === 'list' ? 'Source' : type === 'custom' ? 'Formula' : compared && isRangeOp(op) ? 'Between' : 'Value'}</span>
+            <input
+              value={value1}
+              onChange={e => setValue1(e.target.value)}
+              placeholder={type === 'list' ? 'Open, In progress, Done  or  =$H$1:$H$5' : type === 'custom' ? `=COUNTIF($A:$A,A${range.r1 + 1})=1` : placeholder}
+              className={`flex-1 min-w-0 ${type === 'custom' ? 'font-mono ' : ''}${inputClass}`}
+            />
+            {compared && isRangeOp(op) && <>and <input value={value2} onChange={e => setValue2(e.target.value)} placeholder={placeholder} className={`flex-1 min-w-0 ${inputClass}`}/></>}
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={allowBlank} onChange={e => setAllowBlank(e.target.checked)}/> Ignore blank entries
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-20 text-[#888894]">On error</span>
+            <select value={errorStyle} onChange={e => setErrorStyle(e.target.value as ValidationRule['errorStyle'])} className={`flex-1 ${inputClass}`}>
+              <option value="stop">Reject the entry</option>
+              <option value="warning">Warn, but allow it</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-20 text-[#888894]">Message</span>
+            <input value={message} onChange={e => setMessage(e.target.value)} placeholder="Shown when an entry fails" className={`flex-1 min-w-0 ${inputClass}`}/>
+          </label>
+        </div>
+        <div className="p-4 border-t border-[#2a2a30] flex justify-between gap-2">
+          <button onClick={onClear} className="px-4 py-1 rounded hover:bg-[#c8a96e]/20">Clear Validation</button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-1 rounded hover:bg-[#c8a96e]/20">Cancel</button>
+            <button onClick={save} className="px-4 py-1 rounded bg-[#c8a96e] text-black font-bold">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { indexToCol } from './cellRef.ts';
+
+// --- VIRTUAL GRID ---
+// Renders only the cells inside the scroll viewport (plus a small overscan).
+// Column/row headers stay pinned, and the first `frozenRows` / `frozenCols`
+// data rows and columns stay pinned below/right of them. Rows in `hiddenRows`
+// (filtered out) take no space. `overlay` scrolls with the cells, positioned
+// from the top-left corner of A1 (used for floating charts).
+export const ROW_HEIGHT = 24;
+export const DEFAULT_COL_WIDTH = 96;
+const HEADER_HEIGHT = 24;
+const HEADER_WIDTH = 48;
+const OVERSCAN = 4;
+
+export interface GridCellProps {
+  col: number;
+  row: number;
+  style: React.CSSProperties;
+}
+
+interface VirtualGridProps {
+  rowCount: number;
+  colCount: number;
+  colWidths?: Record<number, number>;
+  frozenRows?: number;
+  frozenCols?: number;
+  activeCol?: number;
+  activeRow?: number;
+  hiddenRows?: Set<number>;
+  overlay?: React.ReactNode;
+  renderCell: (cell: GridCellProps) => React.ReactNode;
+  // Fired when the viewport gets close to the last row / column, so the
+  // owner can grow the sheet's logical extent.
+  onNearEnd?: (axis: 'rows' | 'cols') => void;
+}
+
+// offsets[i] is the left edge of column i; offsets[count] is the total width.
+const buildOffsets = (count: number, size: (i: number) => number) => {
+  const offsets = new Float64Array(count + 1);
+  for (let i = 0; i < count; i++) offsets[i + 1] = offsets[i] + size(i);
+  return offsets;
+};
+
+const indexAt = (offsets: Float64Array, x: number) => {
+  let lo = 0;
+  let hi = offsets.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= x) lo = mid;
+    else hi = mid - 1;
+  }
+  return Math.max(0, lo);
+};
+
+const range = (from: number, to: number) => {
+  const out: number[] = [];
+  for (let i = from; i <= to; i++) out.push(i);
+  return out;
+};
+
+export const VirtualGrid = ({
+  rowCount, colCount, colWidths = {}, frozenRows = 0, frozenCols = 0,
+  activeCol, activeRow, hiddenRows, overlay, renderCell, onNearEnd
+}: VirtualGridProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewport, setViewport] = useState({ width: 800, height: 600 });
+
+  const colOffsets = useMemo(() => buildOffsets(colCount, c => colWidths[c] ?? DEFAULT_COL_WIDTH), [colCount, colWidths]);
+  const rowOffsets = useMemo(() => buildOffsets(rowCount, r => hiddenRows?.has(r) ? 0 : ROW_HEIGHT), [rowCount, hiddenRows]);
+  const totalWidth = colOffsets[colCount];
+  const totalHeight = rowOffsets[rowCount];
+  const fRows = Math.min(frozenRows, rowCount);
+  const fCols = Math.min(frozenCols, colCount);
+  const frozenHeight = rowOffsets[fRows];
+  const frozenWidth = colOffsets[fCols];
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const measure = () => setViewport({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    const ro = new ResizeObserver(measure);
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  // Keep the active cell in view when it moves outside the viewport.
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || activeCol === undefined || activeRow === undefined) return;
+    if (activeRow >= fRows && activeRow < rowCount) {
+      const top = rowOffsets[activeRow];
+      const visibleTop = el.scrollTop + frozenHeight;
+      const visibleBottom = el.scrollTop + el.clientHeight - HEADER_HEIGHT;
+      if (top < visibleTop) el.scrollTop = top - frozenHeight;
+      else if (top + ROW_HEIGHT > visibleBottom) el.scrollTop = top + ROW_HEIGHT - (el.clientHeight - HEADER_HEIGHT);
+    }
+    if (activeCol >= fCols && activeCol < colCount) {
+      const left = colOffsets[activeCol];
+      const right = colOffsets[activeCol + 1];
+      const visibleLeft = el.scrollLeft + frozenWidth;
+      const visibleRight = el.scrollLeft + el.clientWidth - HEADER_WIDTH;
+      if (left < visibleLeft) el.scrollLeft = left - frozenWidth;
+      else if (right > visibleRight) el.scrollLeft = right - (el.clientWidth - HEADER_WIDTH);
+    }
+  }, [activeCol, activeRow]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    setScroll({ top: el.scrollTop, left: el.scrollLeft });
+    if (onNearEnd) {
+      if (el.scrollTop + el.clientHeight * 3 > el.scrollHeight) onNearEnd('rows');
+      if (el.scrollLeft + el.clientWidth * 3 > el.scrollWidth) onNearEnd('cols');
+    }
+  };
+
+  // Visible window of the scrolling (non-frozen) region.
+  const firstRow = Math.max(fRows, indexAt(rowOffsets, scroll.top + frozenHeight) - OVERSCAN);
+  const lastRow = Math.min(rowCount - 1, indexAt(rowOffsets, scroll.top + viewport.height - HEADER_HEIGHT) + OVERSCAN);
+  const firstCol = Math.max(fCols, indexAt(colOffsets, scroll.left + frozenWidth) - OVERSCAN);
+  const lastCol = Math.min(colCount - 1, indexAt(colOffsets, scroll.left + viewport.width - HEADER_WIDTH) + OVERSCAN);
+
+  const visible = (r: number) => !hiddenRows?.has(r);
+  const bodyRows = range(firstRow, lastRow).filter(visible);
+  const bodyCols = range(firstCol, lastCol);
+  const frozenRowList = range(0, fRows - 1).filter(visible);
+  const frozenColList = range(0, fCols - 1);
+
+  const cellStyle = (col: number, row: number, originX: number, originY: number): React.CSSProperties => ({
+    position: 'absolute',
+    left: colOffsets[col] - originX,
+    top: rowOffsets[row] - originY,
+    width: colOffsets[col + 1] - colOffsets[col],
+    height: ROW_HEIGHT
+  });
+
+  const colHeader = (c: number, originX: number) => (
+    <div
+      key={`ch${c}`}
+      style={{ position: 'absolute', left: colOffsets[c] - originX, top: 0, width: colOffsets[c + 1] - colOffsets[c], height: HEADER_HEIGHT }}
+      className={`bg-[#17171a] border-r border-b border-[#2a2a30] text-center leading-6 select-none ${activeCol === c ? 'text-[#c8a96e]' : 'text-[#888894]'}`}
+    >
+      {indexToCol(c)}
+    </div>
+  );
+
+  const rowHeader = (r: number, originY: number) => (
+    <div
+      key={`rh${r}`}
+      style={{ position: 'absolute', left: 0, top: rowOffsets[r] - originY, width: HEADER_WIDTH, height: ROW_HEIGHT }}
+      className={`bg-[#17171a] border-r border-b border-[#2a2a30] text-center leading-6 select-none text-xs ${activeRow === r ? 'text-[#c8a96e]' : 'text-[#888894]'}`}
+    >
+      {r + 1}
+    </div>
+  );
+
+  const renderAt = (col: number, row: number, originX: number, originY: number) => (
+    <React.Fragment key={`${col}:${row}`}>{renderCell({ col, row, style: cellStyle(col, row, originX, originY) })}</React.Fragment>
+  );
+
+  return (
+    <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-auto relative bg-[#1e1e22]">
+      <div style={{ position: 'relative', width: HEADER_WIDTH + totalWidth, height: HEADER_HEIGHT + totalHeight }}>
+        {/* Pinned top band: column headers and frozen rows */}
+        <div style={{ position: 'sticky', top: 0, height: HEADER_HEIGHT + frozenHeight, width: HEADER_WIDTH + totalWidth, zIndex: 3 }}>
+          <div style={{ position: 'absolute', left: HEADER_WIDTH, top: 0 }}>
+            {bodyCols.map(c => colHeader(c, 0))}
+            {frozenRowList.flatMap(r => bodyCols.map(c => renderAt(c, r, 0, -HEADER_HEIGHT)))}
+          </div>
+          {/* Pinned corner: select-all box, frozen column headers and the frozen/frozen block */}
+          <div style={{ position: 'sticky', left: 0, width: HEADER_WIDTH + frozenWidth, height: HEADER_HEIGHT + frozenHeight, zIndex: 4 }} className={fRows || fCols ? 'shadow-[2px_2px_0_#c8a96e55]' : ''}>
+            <div style={{ position: 'absolute', left: 0, top: 0, width: HEADER_WIDTH, height: HEADER_HEIGHT }} className="bg-[#17171a] border-r border-b border-[#2a2a30]" />
+            <div style={{ position: 'absolute', left: HEADER_WIDTH, top: 0 }}>
+              {frozenColList.map(c => colHeader(c, 0))}
+              {frozenRowList.flatMap(r => frozenColList.map(c => renderAt(c, r, 0, -HEADER_HEIGHT)))}
+            </div>
+            <div style={{ position: 'absolute', left: 0, top: HEADER_HEIGHT }}>
+              {frozenRowList.map(r => rowHeader(r, 0))}
+            </div>
+          </div>
+        </div>
+
+        {/* Pinned left band: row headers and frozen columns */}
+        <div style={{ position: 'sticky', left: 0, width: HEADER_WIDTH + frozenWidth, height: totalHeight - frozenHeight, zIndex: 2 }}>
+          {bodyRows.map(r => rowHeader(r, frozenHeight))}
+          <div style={{ position: 'absolute', left: HEADER_WIDTH, top: 0 }}>
+            {bodyRows.flatMap(r => frozenColList.map(c => renderAt(c, r, 0, frozenHeight)))}
+          </div>
+        </div>
+
+        {/* Scrolling body */}
+        <div style={{ position: 'absolute', left: HEADER_WIDTH, top: HEADER_HEIGHT, zIndex: 1 }}>
+          {bodyRows.flatMap(r => bodyCols.map(c => renderAt(c, r, 0, 0)))}
+          {overlay && <div style={{ position: 'absolute', left: 0, top: 0, zIndex: 20 }}>{overlay}</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- CELL ADDRESSING ---
+// Rows and columns are zero-based internally; cell ids use the A1 notation
+// the user sees ("A1" is { col: 0, row: 0 }).
+export const MAX_COLS = 16384; // A..XFD
+export const MAX_ROWS = 1048576;
+
+export interface CellAddress { col: number; row: number; }
+
+export const colToIndex = (col: string) => {
+  let n = 0;
+  for (const ch of col.toUpperCase()) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+};
+
+export const indexToCol = (index: number) => {
+  let s = '';
+  let n = index + 1;
+  while (n > 0) {
+    const m = (n - 1) % 26;
+    s = String.fromCharCode(65 + m) + s;
+    n = Math.floor((n - 1) / 26);
+  }
+  return s;
+};
+
+const CELL_ID_RE = /^\$?([A-Za-z]{1,3})\$?(\d+)$/;
+
+export const parseCellId = (id: string): CellAddress | null => {
+  const m = CELL_ID_RE.exec(id);
+  if (!m) return null;
+  const col = colToIndex(m[1]);
+  const row = parseInt(m[2], 10) - 1;
+  if (col < 0 || col >= MAX_COLS || row < 0 || row >= MAX_ROWS) return null;
+  return { col, row };
+};
+
+export const toCellId = (col: number, row: number) => `${indexToCol(col)}${row + 1}`;
+
+export const isCellId = (id: string) => parseCellId(id) !== null;
+
+// --- RANGES ---
+// Inclusive, normalized so that c1 <= c2 and r1 <= r2.
+export interface CellRange { c1: number; r1: number; c2: number; r2: number; }
+
+export const rangeBetween = (a: CellAddress, b: CellAddress): CellRange => ({
+  c1: Math.min(a.col, b.col), r1: Math.min(a.row, b.row),
+  c2: Math.max(a.col, b.col), r2: Math.max(a.row, b.row)
+});
+
+export const inRange = (r: CellRange, col: number, row: number) =>
+  col >= r.c1 && col <= r.c2 && row >= r.r1 && row <= r.r2;
+
+export const rangesOverlap = (a: CellRange, b: CellRange) =>
+  a.c1 <= b.c2 && b.c1 <= a.c2 && a.r1 <= b.r2 && b.r1 <= a.r2;
+
+export const rangeToText = (r: CellRange) =>
+  r.c1 === r.c2 && r.r1 === r.r2 ? toCellId(r.c1, r.r1) : `${toCellId(r.c1, r.r1)}:${toCellId(r.c2, r.r2)}`;
+
+// Reads "A1:C10" (or a single cell) as typed or stored in files; $ markers are ignored.
+export const parseRange = (text: string): CellRange | null => {
+  const [from, to = from, ...rest] = text.trim().toUpperCase().replace(/\$/g, '').split(':').map(parseCellId);
+  return from && to && !rest.length ? rangeBetween(from, to) : null;
+};
+
+export const forEachInRange = (r: CellRange, fn: (col: number, row: number) => void) => {
+  for (let row = r.r1; row <= r.r2; row++) {
+    for (let col = r.c1; col <= r.c2; col++) fn(col, row);
+  }
+};
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellAddress, CellRange, MAX_COLS, MAX_ROWS, toCellId } from './cellRef.ts';
+import { parseDelimited, serializeDelimited } from './csv.ts';
+import { CellData, CellMap, isFormula } from './engine.ts';
+import { shiftFormula } from './formula.ts';
+
+// --- CLIPBOARD ---
+// The system clipboard carries the block as TSV of displayed values, the
+// format other spreadsheet apps exchange. We also remember the raw cells we
+// copied; pasting that same text back reuses them, so formulas (with
+// shifted references) and formatting survive a copy within the app.
+export interface CellClipboard {
+  text: string;
+  origin: CellAddress;
+  cells: (CellData | undefined)[][];
+  cut: boolean;
+}
+
+export const copyRange = (cells: CellMap, range: CellRange, display: (id: string) => string, cut = false): CellClipboard => {
+  const rows: (CellData | undefined)[][] = [];
+  const text: string[][] = [];
+  for (let r = range.r1; r <= range.r2; r++) {
+    const row: (CellData | undefined)[] = [];
+    const line: string[] = [];
+    for (let c = range.c1; c <= range.c2; c++) {
+      const id = toCellId(c, r);
+      row.push(cells[id]);
+      line.push(display(id));
+    }
+    rows.push(row);
+    text.push(line);
+  }
+  return { text: serializeDelimited(text, '\t'), origin: { col: range.c1, row: range.r1 }, cells: rows, cut };
+};
+
+// Some platforms rewrite line endings on the way through the clipboard.
+const sameText = (a: string, b: string) => a.replace(/\r\n?/g, '\n') === b.replace(/\r\n?/g, '\n');
+
+// Cells to write when pasting `text` at `dest`. When the selection is a whole
+// multiple of the copied block, the block is tiled across it, as in Excel.
+// Returns the changes (undefined clears a cell) and the range they cover.
+export const pasteCells = (
+  text: string, clip: CellClipboard | null, dest: CellRange
+): { changes: Record<string, CellData | undefined>; range: CellRange } => {
+  const internal = clip && sameText(clip.text, text) ? clip : null;
+  const block: (CellData | undefined)[][] = internal
+    ? internal.cells
+    : parseDelimited(text, '\t').map(row => row.map(v => v === '' ? undefined : { v }));
+  const height = block.length;
+  const width = Math.max(0, ...block.map(r => r.length));
+  const selH = dest.r2 - dest.r1 + 1;
+  const selW = dest.c2 - dest.c1 + 1;
+  const tilesY = height && selH % height === 0 ? selH / height : 1;
+  const tilesX = width && selW % width === 0 ? selW / width : 1;
+
+  const changes: Record<string, CellData | undefined> = {};
+  const r2 = Math.min(MAX_ROWS - 1, dest.r1 + height * tilesY - 1);
+  const c2 = Math.min(MAX_COLS - 1, dest.c1 + width * tilesX - 1);
+  for (let r = dest.r1; r <= r2; r++) {
+    for (let c = dest.c1; c <= c2; c++) {
+      const br = (r - dest.r1) % height;
+      const bc = (c - dest.c1) % width;
+      let cell = block[br]?.[bc];
+      // Copied formulas keep pointing at the same relative cells; moved ones don't change.
+      if (cell && internal && !internal.cut && isFormula(cell.v)) {
+        cell = { ...cell, v: '=' + shiftFormula(cell.v.slice(1), c - (internal.origin.col + bc), r - (internal.origin.row + br)) };
+      }
+      changes[toCellId(c, r)] = cell;
+    }
+  }
+  return { changes, range: { c1: dest.c1, r1: dest.r1, c2, r2 } };
+};
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellRange, inRange, parseCellId } from './cellRef.ts';
+import { CompareOp, FormulaEvaluator, compareWith, formulaAt, isTruthy, operandAt } from './rules.ts';
+import { CellStyle, mergeStyle } from './style.ts';
+import { CellValue, Value, isError, toScalar } from './values.ts';
+
+// --- CONDITIONAL FORMATTING ---
+// Stored on the sheet in priority order: where two rules style the same
+// property of a cell, the earlier one wins. Rules never touch the cells'
+// own styles; their effect is worked out each time the grid renders.
+export type RuleStyle = Pick<CellStyle, 'bold' | 'italic' | 'underline' | 'strike' | 'color' | 'fill'>;
+
+export type ConditionalFormat =
+  | { type: 'cellIs'; op: CompareOp; value: string; value2?: string; style: RuleStyle }
+  | { type: 'duplicate' | 'unique'; style: RuleStyle }
+  | { type: 'formula'; formula: string; style: RuleStyle } // formula body, without "="
+  | { type: 'colorScale'; colors: string[] } // low, [mid,] high
+  | { type: 'dataBar'; color: string };
+
+export type ConditionalRule = ConditionalFormat & { id: string; range: CellRange };
+
+export const CONDITIONAL_TYPES: { type: ConditionalFormat['type']; label: string }[] = [
+  { type: 'cellIs', label: 'Cell value is' },
+  { type: 'duplicate', label: 'Duplicate values' },
+  { type: 'unique', label: 'Unique values' },
+  { type: 'formula', label: 'Formula is true' },
+  { type: 'colorScale', label: 'Color scale' },
+  { type: 'dataBar', label: 'Data bar' }
+];
+
+export interface ConditionalResult {
+  style?: RuleStyle;
+  bar?: { ratio: number; color: string }; // ratio of the cell width, 0..1
+}
+
+const hex = (color: string) => {
+  const h = color.replace('#', '');
+  const full = h.length === 3 ? h.split('').map(ch => ch + ch).join('') : h.slice(0, 6);
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) || 0);
+};
+
+const mix = (a: string, b: string, t: number) => {
+  const [x, y] = [hex(a), hex(b)];
+  return '#' + x.map((v, i) => Math.round(v + (y[i] - v) * t).toString(16).padStart(2, '0')).join('');
+};
+
+// Duplicate detection ignores case, as Excel does.
+const valueKey = (v: CellValue) => typeof v === 'string' ? 's:' + v.toLowerCase() : `${typeof v}:${v}`;
+
+// Builds the lookup the grid calls for each visible cell. Whatever a rule
+// needs over its whole range (min and max, duplicate counts) is gathered
+// once from the populated cells, on first use; formula results are cached
+// by their shifted text, so absolute references evaluate once.
+export const createFormatter = (
+  rules: ConditionalRule[], cellIds: string[], valueOf: (col: number, row: number) => CellValue, evaluate: FormulaEvaluator
+) => {
+  const numbers = new Map<string, number[]>();
+  const counts = new Map<string, Map<string, number>>();
+  const formulas = new Map<string, Value>();
+  const evaluateCached: FormulaEvaluator = src => {
+    if (!formulas.has(src)) formulas.set(src, evaluate(src));
+    return formulas.get(src)!;
+  };
+
+  const valuesIn = (rule: ConditionalRule) => {
+    const out: CellValue[] = [];
+    cellIds.forEach(id => {
+      const addr = parseCellId(id);
+      if (addr && inRange(rule.range, addr.col, addr.row)) out.push(valueOf(addr.col, addr.row));
+    });
+    return out;
+  };
+
+  const sortedNumbers = (rule: ConditionalRule) => {
+    let list = numbers.get(rule.id);
+    if (!list) {
+      list = valuesIn(rule).filter((v): v is number => typeof v === 'number').sort((a, b) => a - b);
+      numbers.set(rule.id, list);
+    }
+    return list;
+  };
+
+  const countsFor = (rule: ConditionalRule) => {
+    let map = counts.get(rule.id);
+    if (!map) {
+      map = new Map();
+      for (const v of valuesIn(rule)) {
+        if (v === null || v === '' || isError(v)) continue;
+        map.set(valueKey(v), (map.get(valueKey(v)) ?? 0) + 1);
+      }
+      counts.set(rule.id, map);
+    }
+    return map;
+  };
+
+  const matches = (rule: ConditionalRule, col: number, row: number, value: CellValue): RuleStyle | undefined => {
+    switch (rule.type) {
+      case 'cellIs': {
+        if (value === null) return undefined;
+        const a = toScalar(operandAt(rule.value, rule.range, col, row, evaluateCached));
+        const b = rule.value2 === undefined ? null : toScalar(operandAt(rule.value2, rule.range, col, row, evaluateCached));
+        return compareWith(rule.op, value, a, b) ? rule.style : undefined;
+      }
+      case 'duplicate':
+      case 'unique': {
+        if (value === null || value === '' || isError(value)) return undefined;
+        const n = countsFor(rule).get(valueKey(value)) ?? 0;
+        return (rule.type === 'duplicate') === (n > 1) ? rule.style : undefined;
+      }
+      case 'formula':
+        return isTruthy(evaluateCached(formulaAt(rule.formula, rule.range, col, row))) ? rule.style : undefined;
+      case 'colorScale': {
+        const list = sortedNumbers(rule);
+        if (typeof value !== 'number' || !list.length || rule.colors.length < 2) return undefined;
+        const [lo, hi] = [list[0], list[list.length - 1]];
+        if (rule.colors.length === 2) return { fill: mix(rule.colors[0], rule.colors[1], hi > lo ? (value - lo) / (hi - lo) : 0.5) };
+        // The middle color sits at the median.
+        const m = (list[Math.floor((list.length - 1) / 2)] + list[Math.ceil((list.length - 1) / 2)]) / 2;
+        if (value <= m) return { fill: mix(rule.colors[0], rule.colors[1], m > lo ? (value - lo) / (m - lo) : 1) };
+        return { fill: mix(rule.colors[1], rule.colors[2], hi > m ? (value - m) / (hi - m) : 0) };
+      }
+      default:
+        return undefined;
+    }
+  };
+
+  return (col: number, row: number): ConditionalResult | null => {
+    let result: ConditionalResult | null = null;
+    let value: CellValue | undefined;
+    for (const rule of rules) {
+      if (!inRange(rule.range, col, row)) continue;
+      if (value === undefined) value = valueOf(col, row);
+      if (rule.type === 'dataBar') {
+        const list = sortedNumbers(rule);
+        if (result?.bar || typeof value !== 'number' || !list.length) continue;
+        // The scale always includes zero, so bars keep their proportions.
+        const lo = Math.min(0, list[0]);
+        const hi = Math.max(0, list[list.length - 1]);
+        result = { ...result, bar: { ratio: hi > lo ? (value - lo) / (hi - lo) : 1, color: rule.color } };
+        continue;
+      }
+      const style = matches(rule, col, row, value);
+      if (style) result = { ...result, style: { ...style, ...mergeStyle(undefined, result?.style ?? {}) } };
+    }
+    return result;
+  };
+};
+
+export type Formatter = ReturnType<typeof createFormatter>;
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { toCellId } from './cellRef.ts';
+import type { CellMap } from './engine.ts';
+
+// --- DELIMITED TEXT (RFC 4180) ---
+// Fields may be wrapped in double quotes, in which case they can contain the
+// delimiter, line breaks and doubled quotes (""). Records end with CRLF, LF or CR.
+export const parseDelimited = (input: string, delimiter = ','): string[][] => {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let i = 0;
+  let quoted = false;
+  let fieldStarted = false;
+
+  const endField = () => { row.push(field); field = ''; fieldStarted = false; };
+  const endRow = () => { endField(); rows.push(row); row = []; };
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') { field += '"'; i += 2; continue; }
+        quoted = false;
+        i++;
+        continue;
+      }
+      field += ch;
+      i++;
+      continue;
+    }
+    if (ch === '"' && !fieldStarted) { quoted = true; fieldStarted = true; i++; continue; }
+    if (ch === delimiter) { endField(); i++; continue; }
+    if (ch === '\r' || ch === '\n') {
+      endRow();
+      i += ch === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      continue;
+    }
+    field += ch;
+    fieldStarted = true;
+    i++;
+  }
+  if (fieldStarted || field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+const needsQuoting = (value: string, delimiter: string) =>
+  value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r');
+
+export const serializeDelimited = (rows: string[][], delimiter = ',') =>
+  rows.map(r => r.map(v => needsQuoting(v, delimiter) ? `"${v.replace(/"/g, '""')}"` : v).join(delimiter)).join('\r\n') + '\r\n';
+
+export const rowsToCells = (rows: string[][], originCol = 0, originRow = 0): CellMap => {
+  const cells: CellMap = {};
+  rows.forEach((r, ri) => r.forEach((v, ci) => {
+    if (v !== '') cells[toCellId(originCol + ci, originRow + ri)] = { v };
+  }));
+  return cells;
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- DATE SERIALS ---
+// Dates are stored as Excel-compatible serial numbers in the 1900 date system,
+// including its fictitious 1900-02-29 (serial 60), so values round-trip with
+// other spreadsheet apps.
+const MS_PER_DAY = 86400000;
+const EPOCH = Date.UTC(1899, 11, 30);
+
+export interface DateParts {
+  year: number; month: number; day: number;
+  hours: number; minutes: number; seconds: number;
+  weekday: number; // 0 = Sunday
+}
+
+export const dateToSerial = (year: number, month: number, day: number) => {
+  if (year < 1900) year += 1900;
+  const d = new Date(0);
+  d.setUTCFullYear(year, month - 1, day);
+  d.setUTCHours(0, 0, 0, 0);
+  const days = Math.round((d.getTime() - EPOCH) / MS_PER_DAY);
+  return days < 61 ? days - 1 : days;
+};
+
+export const timeToSerial = (hours: number, minutes: number, seconds: number) =>
+  (hours * 3600 + minutes * 60 + seconds) / 86400;
+
+export const jsDateToSerial = (d: Date) =>
+  dateToSerial(d.getFullYear(), d.getMonth() + 1, d.getDate()) +
+  timeToSerial(d.getHours(), d.getMinutes(), d.getSeconds());
+
+export const serialToParts = (serial: number): DateParts => {
+  let whole = Math.floor(serial);
+  let secs = Math.round((serial - whole) * 86400);
+  if (secs >= 86400) { whole += 1; secs -= 86400; }
+  const hours = Math.floor(secs / 3600);
+  const minutes = Math.floor((secs % 3600) / 60);
+  const seconds = secs % 60;
+  if (whole === 60) return { year: 1900, month: 2, day: 29, hours, minutes, seconds, weekday: 3 };
+  const ms = whole < 60 ? EPOCH + (whole + 1) * MS_PER_DAY : EPOCH + whole * MS_PER_DAY;
+  const d = new Date(ms);
+  return {
+    year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(),
+    hours, minutes, seconds, weekday: d.getUTCDay()
+  };
+};
+
+const ISO_DATE_RE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const US_DATE_RE = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/;
+
+// Parses the date spellings DATEVALUE accepts: ISO (2024-03-31) and US (3/31/2024).
+export const parseDateText = (text: string): number | null => {
+  const s = text.trim();
+  let m = ISO_DATE_RE.exec(s);
+  if (m) {
+    const serial = dateToSerial(+m[1], +m[2], +m[3]);
+    return m[4] ? serial + timeToSerial(+m[4], +m[5], +(m[6] || 0)) : serial;
+  }
+  m = US_DATE_RE.exec(s);
+  if (m) {
+    const year = m[3].length === 2 ? 2000 + +m[3] : +m[3];
+    return dateToSerial(year, +m[1], +m[2]);
+  }
+  return null;
+};
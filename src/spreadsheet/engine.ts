@@ -0,0 +1,391 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellAddress, parseCellId, toCellId } from './cellRef.ts';
+import {
+  EvalContext, FormulaSyntaxError, collectDependencies, evaluate, evaluateFormula, formulaNumFmt, parseFormula, quoteSheetName
+} from './formula.ts';
+import { CellError, CellValue, Value, parseInput } from './values.ts';
+import type { CellStyle } from './style.ts';
+
+// --- TYPES ---
+export interface CellData { v: string; s?: CellStyle; f?: any; }
+export type CellMap = Record<string, CellData>;
+
+export const isFormula = (raw: string | undefined) => !!raw && raw.length > 1 && raw.startsWith('=');
+
+// A sheet as the engine sees it; `id` is stable across renames.
+export interface EngineSheet { id: string; name: string; cells: CellMap; }
+
+interface RangeDep { cell: string; sheet: string; c1: number; c2: number; r1: number; r2: number; }
+interface Precedents { cells: Set<string>; ranges: RangeDep[]; }
+
+// Graph nodes are cells qualified with their sheet id, e.g. "sheet2!B7".
+const nodeKey = (sheet: string, id: string) => `${sheet}!${id}`;
+const splitKey = (key: string) => {
+  const i = key.lastIndexOf('!');
+  return { sheet: key.slice(0, i), id: key.slice(i + 1) };
+};
+
+// --- RECALC ENGINE ---
+// Keeps computed values for a workbook together with the dependency graph
+// between formula cells, across sheets. Editing a cell recalculates only the
+// cells downstream of it, in topological order; cells caught in a cycle get #CIRC!.
+export const createEngine = () => {
+  const sheets = new Map<string, EngineSheet>();
+  // lower-cased sheet name -> sheet id
+  const sheetIds = new Map<string, string>();
+  const values = new Map<string, CellValue>();
+  // formula cell -> what it reads
+  const precedents = new Map<string, Precedents>();
+  // cell -> formula cells that name it directly
+  const dependents = new Map<string, Set<string>>();
+  // sheet!column -> range dependencies covering that column
+  const rangeIndex = new Map<string, Set<RangeDep>>();
+  const volatileCells = new Set<string>();
+  const maxRows = new Map<string, number>();
+  const contexts = new Map<string, EvalContext>();
+  // Cycles by node key; labelled when read, so they follow sheet renames.
+  let cycles: string[][] = [];
+
+  // Sheet id a reference points at, from the sheet the formula lives on.
+  const resolveSheet = (from: string, name?: string) =>
+    name === undefined ? from : sheetIds.get(name.toLowerCase());
+
+  const contextFor = (sheet: string): EvalContext => {
+    let ctx = contexts.get(sheet);
+    if (!ctx) {
+      ctx = {
+        getCell: (col, row, name) => {
+          const target = resolveSheet(sheet, name);
+          if (!target) return new CellError('#REF!', `Unknown sheet ${name}`);
+          return values.get(nodeKey(target, toCellId(col, row))) ?? null;
+        },
+        maxRow: name => maxRows.get(resolveSheet(sheet, name) ?? '') ?? -1
+      };
+      contexts.set(sheet, ctx);
+    }
+    return ctx;
+  };
+
+  const trackRow = (sheet: string, id: string) =>
+    maxRows.set(sheet, Math.max(maxRows.get(sheet) ?? -1, parseCellId(id)?.row ?? -1));
+
+  // --- GRAPH MAINTENANCE ---
+  const unlink = (key: string) => {
+    const prec = precedents.get(key);
+    if (!prec) return;
+    prec.cells.forEach(p => dependents.get(p)?.delete(key));
+    prec.ranges.forEach(r => {
+      for (let c = r.c1; c <= r.c2; c++) rangeIndex.get(`${r.sheet}!${c}`)?.delete(r);
+    });
+    precedents.delete(key);
+    volatileCells.delete(key);
+  };
+
+  const link = (key: string, raw: string) => {
+    const from = splitKey(key).sheet;
+    const deps = collectDependencies(raw.slice(1));
+    const prec: Precedents = { cells: new Set(), ranges: [] };
+    // References to sheets that don't exist are #REF! and depend on nothing.
+    deps.cells.forEach(ref => {
+      const sheet = resolveSheet(from, ref.sheet);
+      if (!sheet) return;
+      const p = nodeKey(sheet, toCellId(ref.col, ref.row));
+      prec.cells.add(p);
+      if (!dependents.has(p)) dependents.set(p, new Set());
+      dependents.get(p)!.add(key);
+    });
+    deps.ranges.forEach(node => {
+      const sheet = resolveSheet(from, node.sheet);
+      if (!sheet) return;
+      const r: RangeDep = {
+        cell: key, sheet,
+        c1: Math.min(node.start.col, node.end.col), c2: Math.max(node.start.col, node.end.col),
+        r1: Math.min(node.start.row, node.end.row), r2: Math.max(node.start.row, node.end.row)
+      };
+      prec.ranges.push(r);
+      for (let c = r.c1; c <= r.c2; c++) {
+        const k = `${sheet}!${c}`;
+        if (!rangeIndex.has(k)) rangeIndex.set(k, new Set());
+        rangeIndex.get(k)!.add(r);
+      }
+    });
+    precedents.set(key, prec);
+    if (deps.volatile) volatileCells.add(key);
+  };
+
+  const dependentsOf = (key: string): Set<string> => {
+    const out = new Set(dependents.get(key));
+    const { sheet, id } = splitKey(key);
+    const addr = parseCellId(id);
+    if (addr) {
+      rangeIndex.get(`${sheet}!${addr.col}`)?.forEach(r => {
+        if (addr.row >= r.r1 && addr.row <= r.r2) out.add(r.cell);
+      });
+    }
+    return out;
+  };
+
+  const reads = (key: string, other: string) => {
+    const prec = precedents.get(key);
+    if (!prec) return false;
+    if (prec.cells.has(other)) return true;
+    const { sheet, id } = splitKey(other);
+    const addr = parseCellId(id);
+    return !!addr && prec.ranges.some(r =>
+      r.sheet === sheet && addr.col >= r.c1 && addr.col <= r.c2 && addr.row >= r.r1 && addr.row <= r.r2);
+  };
+
+  // Cell label for messages: plain "A1" in a single-sheet workbook, "Sheet2!A1" otherwise.
+  const label = (key: string) => {
+    const { sheet, id } = splitKey(key);
+    return sheets.size > 1 ? `${quoteSheetName(sheets.get(sheet)?.name ?? sheet)}!${id}` : id;
+  };
+
+  // --- CYCLES ---
+  // Tarjan's algorithm (iterative, so long dependency chains can't overflow
+  // the stack) restricted to `nodes`; returns the components that form cycles.
+  const findCycles = (nodes: Set<string>): string[][] => {
+    const index = new Map<string, number>();
+    const low = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const result: string[][] = [];
+    let counter = 0;
+    const succ = (n: string) => [...dependentsOf(n)].filter(m => nodes.has(m));
+
+    for (const root of nodes) {
+      if (index.has(root)) continue;
+      const work: { node: string; next: string[]; i: number }[] = [];
+      const visit = (n: string) => {
+        index.set(n, counter);
+        low.set(n, counter++);
+        stack.push(n);
+        onStack.add(n);
+        work.push({ node: n, next: succ(n), i: 0 });
+      };
+      visit(root);
+      while (work.length) {
+        const frame = work[work.length - 1];
+        if (frame.i < frame.next.length) {
+          const m = frame.next[frame.i++];
+          if (!index.has(m)) visit(m);
+          else if (onStack.has(m)) low.set(frame.node, Math.min(low.get(frame.node)!, index.get(m)!));
+          continue;
+        }
+        work.pop();
+        if (work.length) {
+          const parent = work[work.length - 1].node;
+          low.set(parent, Math.min(low.get(parent)!, low.get(frame.node)!));
+        }
+        if (low.get(frame.node) === index.get(frame.node)) {
+          const comp: string[] = [];
+          let m: string;
+          do {
+            m = stack.pop()!;
+            onStack.delete(m);
+            comp.push(m);
+          } while (m !== frame.node);
+          if (comp.length > 1 || reads(comp[0], comp[0])) result.push(comp);
+        }
+      }
+    }
+    return result;
+  };
+
+  // Walks one concrete loop through a strongly connected component, e.g.
+  // A1 -> B1 -> C1 -> A1 where each cell reads the next.
+  const cyclePath = (comp: string[]) => {
+    const members = new Set(comp);
+    const start = [...comp].sort()[0];
+    const path = [start];
+    const seen = new Set([start]);
+    let cur = start;
+    for (;;) {
+      const next = [...members].filter(m => reads(cur, m));
+      if (next.includes(start)) return [...path, start];
+      const step = next.find(m => !seen.has(m)) ?? next[0];
+      if (!step) return [...path, start];
+      path.push(step);
+      seen.add(step);
+      cur = step;
+    }
+  };
+
+  // --- RECALCULATION ---
+  const evaluateCell = (key: string) => {
+    const { sheet, id } = splitKey(key);
+    const raw = sheets.get(sheet)?.cells[id]?.v;
+    values.set(key, isFormula(raw) ? evaluateFormula(raw!.slice(1), contextFor(sheet)) : parseInput(raw));
+  };
+
+  // Recomputes every formula cell reachable from `roots`, in dependency order.
+  const recalc = (roots: Iterable<string>) => {
+    const edges = new Map<string, Set<string>>();
+    const next = (id: string) => {
+      let out = edges.get(id);
+      if (!out) edges.set(id, out = dependentsOf(id));
+      return out;
+    };
+    const affected = new Set<string>();
+    const queue = [...roots, ...volatileCells];
+    while (queue.length) {
+      const id = queue.pop()!;
+      if (affected.has(id)) continue;
+      affected.add(id);
+      next(id).forEach(d => { if (!affected.has(d)) queue.push(d); });
+    }
+
+    const order = (nodes: Set<string>) => {
+      const indegree = new Map<string, number>();
+      nodes.forEach(n => indegree.set(n, 0));
+      nodes.forEach(n => next(n).forEach(d => {
+        if (nodes.has(d)) indegree.set(d, indegree.get(d)! + 1);
+      }));
+      const ready = [...nodes].filter(n => indegree.get(n) === 0);
+      const sorted: string[] = [];
+      while (ready.length) {
+        const n = ready.pop()!;
+        sorted.push(n);
+        next(n).forEach(d => {
+          if (!nodes.has(d)) return;
+          const k = indegree.get(d)! - 1;
+          indegree.set(d, k);
+          if (k === 0) ready.push(d);
+        });
+      }
+      return sorted;
+    };
+
+    const sorted = order(affected);
+    sorted.forEach(evaluateCell);
+
+    // Whatever Kahn's algorithm couldn't place is on a cycle or downstream of one.
+    const placed = new Set(sorted);
+    const stuck = new Set([...affected].filter(id => !placed.has(id)));
+    cycles = cycles.filter(c => !c.some(id => affected.has(id)));
+    if (stuck.size) {
+      const comps = findCycles(stuck);
+      const inCycle = new Set(comps.flat());
+      comps.forEach(comp => {
+        const path = cyclePath(comp);
+        cycles.push(path);
+        comp.forEach(id => values.set(id, new CellError('#CIRC!', `Circular reference: ${path.map(label).join(' → ')}`)));
+      });
+      const downstream = new Set([...stuck].filter(id => !inCycle.has(id)));
+      order(downstream).forEach(evaluateCell);
+    }
+    return affected;
+  };
+
+  // --- PUBLIC API ---
+  const load = (next: EngineSheet[]) => {
+    sheets.clear();
+    sheetIds.clear();
+    values.clear();
+    precedents.clear();
+    dependents.clear();
+    rangeIndex.clear();
+    volatileCells.clear();
+    maxRows.clear();
+    contexts.clear();
+    cycles = [];
+    next.forEach(sheet => {
+      sheets.set(sheet.id, { ...sheet, cells: { ...sheet.cells } });
+      sheetIds.set(sheet.name.toLowerCase(), sheet.id);
+    });
+    const keys: string[] = [];
+    sheets.forEach(sheet => Object.entries(sheet.cells).forEach(([id, cell]) => {
+      const key = nodeKey(sheet.id, id);
+      keys.push(key);
+      trackRow(sheet.id, id);
+      if (isFormula(cell.v)) link(key, cell.v);
+    }));
+    recalc(keys);
+  };
+
+  // Applies raw edits to one sheet (undefined clears a cell) and returns the
+  // keys of the cells whose values were recalculated, on any sheet.
+  const update = (sheetId: string, changes: Record<string, string | undefined>) => {
+    const sheet = sheets.get(sheetId);
+    if (!sheet) return new Set<string>();
+    Object.entries(changes).forEach(([id, raw]) => {
+      const key = nodeKey(sheetId, id);
+      unlink(key);
+      if (raw === undefined || raw === '') {
+        const { [id]: _removed, ...rest } = sheet.cells;
+        sheet.cells = rest;
+      } else {
+        sheet.cells = { ...sheet.cells, [id]: { ...sheet.cells[id], v: raw } };
+        trackRow(sheetId, id);
+        if (isFormula(raw)) link(key, raw);
+      }
+    });
+    return recalc(Object.keys(changes).map(id => nodeKey(sheetId, id)));
+  };
+
+  const getValue = (sheetId: string, id: string): CellValue => values.get(nodeKey(sheetId, id)) ?? null;
+
+  // Evaluates a formula body as if it sat on the sheet, without storing it
+  // (conditional formats, validation lists). `overrides` stands in values for
+  // cells of that sheet, so an entry can be checked before it is written.
+  // Range results come back whole.
+  const evaluateOn = (sheetId: string, src: string, overrides?: Record<string, CellValue>): Value => {
+    const ast = parseFormula(src);
+    if (ast instanceof FormulaSyntaxError) return new CellError('#NAME?', ast.message);
+    const base = contextFor(sheetId);
+    const ctx: EvalContext = !overrides ? base : {
+      ...base,
+      getCell: (col, row, name) => {
+        const id = toCellId(col, row);
+        return name === undefined && id in overrides ? overrides[id] : base.getCell(col, row, name);
+      }
+    };
+    return evaluate(ast, ctx);
+  };
+
+  return { load, update, getValue, evaluate: evaluateOn, getCycles: () => cycles.map(c => c.map(label)) };
+};
+
+export type Engine = ReturnType<typeof createEngine>;
+
+// --- HELPERS ---
+// Bottom-right corner of the populated area (-1 when the sheet is empty).
+export const usedRange = (cells: CellMap) => {
+  let maxCol = -1;
+  let maxRow = -1;
+  Object.keys(cells).forEach(id => {
+    const addr = parseCellId(id);
+    if (!addr || cells[id].v === '') return;
+    maxCol = Math.max(maxCol, addr.col);
+    maxRow = Math.max(maxRow, addr.row);
+  });
+  return { maxCol, maxRow };
+};
+
+// Where Ctrl+arrow lands, as in Excel: inside a block of filled cells it stops
+// at the block's last cell, otherwise at the next filled cell, or at the edge.
+export const dataEdge = (
+  cells: CellMap, from: CellAddress, dCol: number, dRow: number, lastCol: number, lastRow: number
+): CellAddress => {
+  const filled = (col: number, row: number) => (cells[toCellId(col, row)]?.v ?? '') !== '';
+  const canStep = (col: number, row: number) =>
+    col + dCol >= 0 && row + dRow >= 0 && col + dCol <= lastCol && row + dRow <= lastRow;
+  let { col, row } = from;
+  if (!canStep(col, row)) return from;
+  if (filled(col, row) && filled(col + dCol, row + dRow)) {
+    while (canStep(col, row) && filled(col + dCol, row + dRow)) { col += dCol; row += dRow; }
+    return { col, row };
+  }
+  col += dCol;
+  row += dRow;
+  while (!filled(col, row) && canStep(col, row)) { col += dCol; row += dRow; }
+  return { col, row };
+};
+
+// Number format a cell displays with: its own, else the default for what its
+// formula returns (date functions format as dates).
+export const cellNumFmt = (cell: CellData | undefined) =>
+  cell?.s?.numFmt ?? (isFormula(cell?.v) ? formulaNumFmt(cell!.v.slice(1)) : undefined);
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellRange, toCellId } from './cellRef.ts';
+import { CellData, CellMap, isFormula } from './engine.ts';
+import { dateToSerial, parseDateText, serialToParts } from './dates.ts';
+import { shiftFormula } from './formula.ts';
+import { isDateFormat } from './numberFormat.ts';
+import { parseNumber } from './values.ts';
+
+// --- FILL HANDLE ---
+// Extending a selection by dragging its corner: each row (or column) of the
+// source is read as a series and continued into the target.
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const LISTS = [MONTHS, MONTHS.map(m => m.slice(0, 3)), DAYS, DAYS.map(d => d.slice(0, 3))];
+
+const clean = (n: number) => String(Number(n.toPrecision(15)));
+
+// Keeps the caller's capitalization: jan -> feb, JAN -> FEB, Jan -> Feb.
+const matchCase = (sample: string, word: string) =>
+  sample === sample.toUpperCase() ? word.toUpperCase() : sample === sample.toLowerCase() ? word.toLowerCase() : word;
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+// Average step across the values; a single value steps by `single` (null
+// means it is copied rather than extended).
+const linearStep = (values: number[], single: number | null) => {
+  if (values.length === 1) return single;
+  return (values[values.length - 1] - values[0]) / (values.length - 1);
+};
+
+// Returns a generator for position k of the series, where k = 0 is the first
+// source cell and negative k extends it backwards (filling up or left).
+const seriesOf = (source: (CellData | undefined)[]): (k: number) => CellData | undefined => {
+  const n = source.length;
+  const raws = source.map(c => c?.v ?? '');
+  const copy = (k: number) => source[mod(k, n)];
+  if (raws.some(r => r === '' || isFormula(r))) return copy;
+  const styleAt = (k: number) => source[mod(k, n)]?.s;
+  const at = (k: number, v: string): CellData => {
+    const s = styleAt(k);
+    return s ? { v, s } : { v };
+  };
+
+  // Numbers, and dates stored as numbers with a date format (those step a day at a time).
+  const numbers = raws.map(parseNumber);
+  if (numbers.every(x => x !== null)) {
+    const isDate = !!source[0]?.s?.numFmt && isDateFormat(source[0].s.numFmt);
+    const step = linearStep(numbers as number[], isDate ? 1 : null);
+    if (step === null) return copy;
+    return k => at(k, clean((numbers[0] as number) + step * k));
+  }
+
+  // Dates typed as text (2024-01-31 or 1/31/2024); whole months step by month.
+  const serials = raws.map(parseDateText);
+  if (serials.every(x => x !== null)) {
+    const iso = /^\d{4}-/.test(raws[0].trim());
+    const parts = (serials as number[]).map(serialToParts);
+    const monthly = n > 1 && parts.every(p => p.day === parts[0].day) && parts[1].month !== parts[0].month;
+    const monthStep = monthly ? (parts[1].year - parts[0].year) * 12 + parts[1].month - parts[0].month : 0;
+    const dayStep = linearStep(serials as number[], 1)!;
+    return k => {
+      let p = parts[0];
+      if (monthly) {
+        const total = p.year * 12 + p.month - 1 + monthStep * k;
+        p = serialToParts(dateToSerial(Math.floor(total / 12), mod(total, 12) + 1, p.day));
+      } else {
+        p = serialToParts(Math.round((serials[0] as number) + dayStep * k));
+      }
+      const text = iso
+        ? `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`
+        : `${p.month}/${p.day}/${p.year}`;
+      return at(k, text);
+    };
+  }
+
+  // Month and weekday names.
+  const list = LISTS.find(l => raws.every(r => l.some(w => w.toLowerCase() === r.trim().toLowerCase())));
+  if (list) {
+    const idx = raws.map(r => list.findIndex(w => w.toLowerCase() === r.trim().toLowerCase()));
+    const step = n === 1 ? 1 : mod(idx[1] - idx[0], list.length) || 1;
+    return k => at(k, matchCase(raws[0].trim(), list[mod(idx[0] + step * k, list.length)]));
+  }
+
+  // Text ending in a number: Item 1, Item 2, ... (with a shared prefix).
+  const m = raws.map(r => /^(.*?)(\d+)$/.exec(r));
+  if (m.every(x => x && x[1] === m[0]![1])) {
+    const nums = m.map(x => parseInt(x![2], 10));
+    const step = linearStep(nums, 1)!;
+    const width = m[0]![2].startsWith('0') ? m[0]![2].length : 0;
+    return k => {
+      const value = Math.round(nums[0] + step * k);
+      const digits = String(Math.abs(value)).padStart(width, '0');
+      return at(k, `${m[0]![1]}${value < 0 ? '-' : ''}${digits}`);
+    };
+  }
+  return copy;
+};
+
+// Cells to write when `source` is extended to `target` (which contains it
+// and grows along one axis). undefined clears a cell.
+export const fillRange = (cells: CellMap, source: CellRange, target: CellRange): Record<string, CellData | undefined> => {
+  const out: Record<string, CellData | undefined> = {};
+  const vertical = target.r1 < source.r1 || target.r2 > source.r2;
+  const lines = vertical ? [source.c1, source.c2] : [source.r1, source.r2];
+  for (let line = lines[0]; line <= lines[1]; line++) {
+    const src: (CellData | undefined)[] = [];
+    const origin = vertical ? source.r1 : source.c1;
+    const end = vertical ? source.r2 : source.c2;
+    for (let i = origin; i <= end; i++) src.push(cells[vertical ? toCellId(line, i) : toCellId(i, line)]);
+    const series = seriesOf(src);
+    const from = vertical ? target.r1 : target.c1;
+    const to = vertical ? target.r2 : target.c2;
+    for (let i = from; i <= to; i++) {
+      if (i >= origin && i <= end) continue;
+      const k = i - origin;
+      let cell = series(k);
+      // Copied formulas move with their destination.
+      if (cell && isFormula(cell.v)) {
+        const srcIndex = mod(k, src.length);
+        const d = k - srcIndex;
+        cell = { ...cell, v: '=' + shiftFormula(cell.v.slice(1), vertical ? 0 : d, vertical ? d : 0) };
+      }
+      out[vertical ? toCellId(line, i) : toCellId(i, line)] = cell;
+    }
+  }
+  return out;
+};
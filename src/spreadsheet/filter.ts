@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellRange, toCellId } from './cellRef.ts';
+import { CellValue, parseNumber } from './values.ts';
+
+// --- AUTOFILTER ---
+// Stored on the sheet. The first row of `range` holds the dropdowns; rows
+// below it are hidden unless they pass every column's filter. Columns are
+// keyed by absolute column index.
+export type FilterOp = 'contains' | 'notContains' | 'beginsWith' | 'endsWith' | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export interface ColumnFilter {
+  values?: string[]; // displayed texts to keep ('' keeps blanks)
+  condition?: { op: FilterOp; value: string };
+}
+
+export interface AutoFilter {
+  range: CellRange;
+  columns: Record<number, ColumnFilter>;
+}
+
+export const FILTER_OPS: { op: FilterOp; label: string }[] = [
+  { op: 'contains', label: 'Contains' },
+  { op: 'notContains', label: 'Does not contain' },
+  { op: 'beginsWith', label: 'Begins with' },
+  { op: 'endsWith', label: 'Ends with' },
+  { op: 'eq', label: 'Equals' },
+  { op: 'neq', label: 'Does not equal' },
+  { op: 'gt', label: 'Greater than' },
+  { op: 'gte', label: 'Greater than or equal to' },
+  { op: 'lt', label: 'Less than' },
+  { op: 'lte', label: 'Less than or equal to' }
+];
+
+// Text conditions ignore case; comparisons are numeric when both sides are numbers.
+const passesCondition = (text: string, value: CellValue, { op, value: arg }: NonNullable<ColumnFilter['condition']>) => {
+  const t = text.toLowerCase();
+  const a = arg.toLowerCase();
+  const n = parseNumber(arg);
+  const numeric = typeof value === 'number' && n !== null;
+  const cmp = numeric ? (value as number) - n! : t < a ? -1 : t > a ? 1 : 0;
+  switch (op) {
+    case 'contains': return t.includes(a);
+    case 'notContains': return !t.includes(a);
+    case 'beginsWith': return t.startsWith(a);
+    case 'endsWith': return t.endsWith(a);
+    case 'eq': return cmp === 0;
+    case 'neq': return cmp !== 0;
+    case 'gt': return cmp > 0;
+    case 'gte': return cmp >= 0;
+    case 'lt': return cmp < 0;
+    case 'lte': return cmp <= 0;
+  }
+};
+
+export const isColumnFiltered = (f: ColumnFilter | undefined) => !!f && (!!f.values || !!f.condition);
+
+// Rows of the filter range that don't pass.
+export const hiddenRows = (
+  filter: AutoFilter, display: (id: string) => string, valueOf: (id: string) => CellValue
+): Set<number> => {
+  const hidden = new Set<number>();
+  const active = Object.entries(filter.columns).filter(([, f]) => isColumnFiltered(f));
+  if (!active.length) return hidden;
+  const allowed = active.map(([col, f]) => ({ col: Number(col), f, values: f.values && new Set(f.values) }));
+  for (let row = filter.range.r1 + 1; row <= filter.range.r2; row++) {
+    const pass = allowed.every(({ col, f, values }) => {
+      const id = toCellId(col, row);
+      const text = display(id);
+      if (values && !values.has(text)) return false;
+      return !f.condition || passesCondition(text, valueOf(id), f.condition);
+    });
+    if (!pass) hidden.add(row);
+  }
+  return hidden;
+};
+
+// Distinct displayed texts of a column below the header, for the dropdown's list.
+export const columnValues = (filter: AutoFilter, col: number, display: (id: string) => string): string[] => {
+  const seen = new Set<string>();
+  for (let row = filter.range.r1 + 1; row <= filter.range.r2; row++) seen.add(display(toCellId(col, row)));
+  return [...seen].sort((a, b) => {
+    if (!a || !b) return a ? -1 : b ? 1 : 0;
+    const x = parseNumber(a);
+    const y = parseNumber(b);
+    if (x !== null && y !== null) return x - y;
+    return a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+  });
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { parseCellId } from './cellRef.ts';
+import { CellData, CellMap } from './engine.ts';
+
+// --- FIND & REPLACE ---
+export interface FindOptions {
+  query: string;
+  lookIn: 'values' | 'formulas';
+  matchCase?: boolean;
+  wholeCell?: boolean;
+  regex?: boolean;
+}
+
+// Throws a SyntaxError when `regex` is set and the query isn't a valid pattern.
+export const buildMatcher = ({ query, matchCase, wholeCell, regex }: FindOptions): RegExp => {
+  const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(wholeCell ? `^(?:${source})$` : source, matchCase ? 'g' : 'gi');
+};
+
+// Matching cells in reading order (row by row). Values are matched as
+// displayed; formulas as typed, so "=SUM" finds every SUM formula.
+export const findCells = (cells: CellMap, options: FindOptions, display: (id: string) => string): string[] => {
+  if (!options.query) return [];
+  const matcher = buildMatcher(options);
+  const ids = Object.keys(cells).filter(id => {
+    const text = options.lookIn === 'formulas' ? cells[id].v : display(id);
+    matcher.lastIndex = 0;
+    return text !== '' && matcher.test(text);
+  });
+  const pos = (id: string) => parseCellId(id) ?? { col: 0, row: 0 };
+  return ids.sort((a, b) => pos(a).row - pos(b).row || pos(a).col - pos(b).col);
+};
+
+// Replacement always rewrites what was typed into the cell (its formula, if
+// any), never the computed value. With `regex`, $1 etc. refer to groups.
+export const replaceInCells = (
+  cells: CellMap, ids: string[], options: FindOptions, replacement: string
+): Record<string, CellData> => {
+  const matcher = buildMatcher(options);
+  const text = options.regex ? replacement : replacement.replace(/\$/g, '$$$$');
+  const changes: Record<string, CellData> = {};
+  ids.forEach(id => {
+    const cell = cells[id];
+    if (!cell) return;
+    const v = cell.v.replace(matcher, text);
+    if (v !== cell.v) changes[id] = { ...cell, v };
+  });
+  return changes;
+};
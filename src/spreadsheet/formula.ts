@@ -0,0 +1,531 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { MAX_COLS, MAX_ROWS, colToIndex, indexToCol } from './cellRef.ts';
+import {
+  CellError, CellValue, ERROR_CODES, ErrorCode, RangeValue, Scalar, Value,
+  compareValues, isError, toNumber, toScalar, toText
+} from './values.ts';
+import { FUNCTIONS } from './functions.ts';
+
+// --- LEXER ---
+export type TokenType =
+  | 'number' | 'string' | 'bool' | 'error' | 'ref' | 'name' | 'func' | 'sheet'
+  | 'op' | 'lparen' | 'rparen' | 'comma' | 'colon';
+
+export interface Token { type: TokenType; text: string; pos: number; end: number; }
+
+export class FormulaSyntaxError extends Error {
+  constructor(message: string, readonly pos: number) {
+    super(message);
+    this.name = 'FormulaSyntaxError';
+  }
+}
+
+const REF_RE = /^\$?[A-Za-z]{1,3}\$?\d+$/;
+const IDENT_RE = /^[A-Za-z_$][A-Za-z0-9_.$]*/;
+const NUMBER_RE = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const OPS = ['<=', '>=', '<>', '+', '-', '*', '/', '^', '&', '=', '<', '>', '%'];
+
+export const tokenize = (src: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    const rest = src.slice(i);
+    const push = (type: TokenType, len: number) => {
+      tokens.push({ type, text: src.slice(i, i + len), pos: i, end: i + len });
+      i += len;
+    };
+    if (ch === '"') {
+      let j = i + 1;
+      for (;;) {
+        if (j >= src.length) throw new FormulaSyntaxError('Unterminated string', i);
+        if (src[j] === '"') {
+          if (src[j + 1] === '"') { j += 2; continue; }
+          break;
+        }
+        j++;
+      }
+      push('string', j + 1 - i);
+      continue;
+    }
+    // Sheet prefix: Sheet2! or 'My Sheet'! (quotes doubled inside the name).
+    if (ch === "'") {
+      let j = i + 1;
+      for (;;) {
+        if (j >= src.length) throw new FormulaSyntaxError('Unterminated sheet name', i);
+        if (src[j] === "'") {
+          if (src[j + 1] === "'") { j += 2; continue; }
+          break;
+        }
+        j++;
+      }
+      if (src[j + 1] !== '!') throw new FormulaSyntaxError("Expected '!' after sheet name", j + 1);
+      push('sheet', j + 2 - i);
+      continue;
+    }
+    if (ch === '#') {
+      const code = ERROR_CODES.find(c => rest.toUpperCase().startsWith(c));
+      if (!code) throw new FormulaSyntaxError('Unknown error literal', i);
+      push('error', code.length);
+      continue;
+    }
+    const num = NUMBER_RE.exec(rest);
+    if (num && /[\d.]/.test(ch)) { push('number', num[0].length); continue; }
+    const ident = IDENT_RE.exec(rest);
+    if (ident) {
+      const word = ident[0];
+      const next = src[i + word.length];
+      if (next === '(') push('func', word.length);
+      else if (next === '!') push('sheet', word.length + 1);
+      else if (REF_RE.test(word)) push('ref', word.length);
+      else if (/^(TRUE|FALSE)$/i.test(word)) push('bool', word.length);
+      else push('name', word.length);
+      continue;
+    }
+    if (ch === '(') { push('lparen', 1); continue; }
+    if (ch === ')') { push('rparen', 1); continue; }
+    if (ch === ',') { push('comma', 1); continue; }
+    if (ch === ':') { push('colon', 1); continue; }
+    const op = OPS.find(o => rest.startsWith(o));
+    if (op) { push('op', op.length); continue; }
+    throw new FormulaSyntaxError(`Unexpected character '${ch}'`, i);
+  }
+  return tokens;
+};
+
+// --- AST ---
+// `sheet` is set for references qualified with another sheet's name.
+export interface RefNode { type: 'ref'; col: number; row: number; absCol: boolean; absRow: boolean; sheet?: string; }
+export interface RangeNode { type: 'range'; start: RefNode; end: RefNode; wholeColumn?: boolean; sheet?: string; }
+
+export type Node =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; code: ErrorCode }
+  | { type: 'missing' }
+  | RefNode
+  | RangeNode
+  | { type: 'name'; name: string }
+  | { type: 'call'; name: string; args: Node[] }
+  | { type: 'unary'; op: '-' | '+'; arg: Node }
+  | { type: 'percent'; arg: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node };
+
+const parseRefText = (text: string): RefNode | null => {
+  const m = /^(\$?)([A-Za-z]{1,3})(\$?)(\d+)$/.exec(text);
+  if (!m) return null;
+  const col = colToIndex(m[2]);
+  const row = parseInt(m[4], 10) - 1;
+  if (col >= MAX_COLS || row < 0 || row >= MAX_ROWS) return null;
+  return { type: 'ref', col, row, absCol: m[1] === '$', absRow: m[3] === '$' };
+};
+
+// Sheet name from a 'sheet' token: Sheet2! -> Sheet2, 'It''s'! -> It's.
+const sheetTokenName = (text: string) => {
+  const name = text.slice(0, -1);
+  return name.startsWith("'") ? name.slice(1, -1).replace(/''/g, "'") : name;
+};
+
+const parseColumnText = (text: string) => {
+  const m = /^(\$?)([A-Za-z]{1,3})$/.exec(text);
+  if (!m) return null;
+  const col = colToIndex(m[2]);
+  return col < MAX_COLS ? { col, abs: m[1] === '$' } : null;
+};
+
+// --- PARSER ---
+// Precedence, loosest first: comparison, &, + -, * /, ^, unary sign, %.
+const COMPARISON = ['=', '<>', '<', '>', '<=', '>='];
+
+export const parse = (src: string): Node => {
+  const tokens = tokenize(src);
+  let p = 0;
+  const peek = () => tokens[p];
+  const isOp = (...ops: string[]) => peek()?.type === 'op' && ops.includes(peek().text);
+  const fail = (msg: string): never => { throw new FormulaSyntaxError(msg, peek()?.pos ?? src.length); };
+  const expect = (type: TokenType) => {
+    if (peek()?.type !== type) fail(`Expected ${type}`);
+    return tokens[p++];
+  };
+
+  const binaryLevel = (ops: string[], next: () => Node) => (): Node => {
+    let left = next();
+    while (isOp(...ops)) {
+      const op = tokens[p++].text;
+      left = { type: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const tok = peek();
+    if (!tok) return fail('Unexpected end of formula');
+    p++;
+    switch (tok.type) {
+      case 'number': return { type: 'number', value: parseFloat(tok.text) };
+      case 'string': return { type: 'string', value: tok.text.slice(1, -1).replace(/""/g, '"') };
+      case 'bool': return { type: 'boolean', value: tok.text.toUpperCase() === 'TRUE' };
+      case 'error': return { type: 'error', code: tok.text.toUpperCase() as ErrorCode };
+      case 'ref': {
+        const start = parseRefText(tok.text);
+        if (peek()?.type === 'colon') {
+          p++;
+          const endTok = expect('ref');
+          const end = parseRefText(endTok.text);
+          if (!start || !end) return { type: 'error', code: '#REF!' };
+          return { type: 'range', start, end };
+        }
+        return start ?? { type: 'error', code: '#REF!' };
+      }
+      case 'name': {
+        const startCol = parseColumnText(tok.text);
+        if (startCol && peek()?.type === 'colon') {
+          p++;
+          const endCol = parseColumnText(expect('name').text);
+          if (!endCol) return fail('Invalid column range');
+          return {
+            type: 'range', wholeColumn: true,
+            start: { type: 'ref', col: startCol.col, row: 0, absCol: startCol.abs, absRow: true },
+            end: { type: 'ref', col: endCol.col, row: MAX_ROWS - 1, absCol: endCol.abs, absRow: true }
+          };
+        }
+        return { type: 'name', name: tok.text.toUpperCase() };
+      }
+      case 'func': {
+        expect('lparen');
+        const args: Node[] = [];
+        if (peek()?.type !== 'rparen') {
+          for (;;) {
+            const t = peek();
+            if (t?.type === 'comma' || t?.type === 'rparen') args.push({ type: 'missing' });
+            else args.push(expression());
+            if (peek()?.type === 'comma') { p++; continue; }
+            break;
+          }
+        }
+        expect('rparen');
+        return { type: 'call', name: tok.text.toUpperCase(), args };
+      }
+      case 'sheet': {
+        const next = peek();
+        if (next?.type !== 'ref' && next?.type !== 'name') return fail('Expected a cell reference after sheet name');
+        const target = primary();
+        if (target.type !== 'ref' && target.type !== 'range') return target.type === 'error' ? target : fail('Expected a cell reference after sheet name');
+        return { ...target, sheet: sheetTokenName(tok.text) };
+      }
+      case 'lparen': {
+        const inner = expression();
+        expect('rparen');
+        return inner;
+      }
+    }
+    p--;
+    return fail(`Unexpected '${tok.text}'`);
+  };
+
+  const postfix = (): Node => {
+    let node = primary();
+    while (isOp('%')) { p++; node = { type: 'percent', arg: node }; }
+    return node;
+  };
+  const unary = (): Node => {
+    if (isOp('-', '+')) {
+      const op = tokens[p++].text as '-' | '+';
+      return { type: 'unary', op, arg: unary() };
+    }
+    return postfix();
+  };
+  const power = binaryLevel(['^'], unary);
+  const multiplicative = binaryLevel(['*', '/'], power);
+  const additive = binaryLevel(['+', '-'], multiplicative);
+  const concat = binaryLevel(['&'], additive);
+  const expression = binaryLevel(COMPARISON, concat);
+
+  const root = expression();
+  if (p < tokens.length) fail(`Unexpected '${peek().text}'`);
+  return root;
+};
+
+const parseCache = new Map<string, Node | FormulaSyntaxError>();
+
+// Parses (and memoizes) a formula body, i.e. the cell text without its leading '='.
+export const parseFormula = (src: string): Node | FormulaSyntaxError => {
+  let cached = parseCache.get(src);
+  if (cached) return cached;
+  try {
+    cached = parse(src);
+  } catch (e) {
+    if (!(e instanceof FormulaSyntaxError)) throw e;
+    cached = e;
+  }
+  if (parseCache.size > 100000) parseCache.clear();
+  parseCache.set(src, cached);
+  return cached;
+};
+
+// --- EVALUATOR ---
+// `sheet` is the name from a qualified reference; omitted for the formula's own sheet.
+export interface EvalContext {
+  getCell(col: number, row: number, sheet?: string): CellValue;
+  // Last populated row, used to bound whole-column ranges like A:A.
+  maxRow(sheet?: string): number;
+}
+
+const finite = (n: number): number | CellError => isFinite(n) ? n : new CellError('#NUM!');
+
+const arithmetic = (op: string, a: CellValue, b: CellValue): CellValue => {
+  if (op === '&') {
+    const x = toText(a);
+    if (isError(x)) return x;
+    const y = toText(b);
+    if (isError(y)) return y;
+    return x + y;
+  }
+  if (COMPARISON.includes(op)) {
+    if (isError(a)) return a;
+    if (isError(b)) return b;
+    const c = compareValues(a as Scalar, b as Scalar);
+    switch (op) {
+      case '=': return c === 0;
+      case '<>': return c !== 0;
+      case '<': return c < 0;
+      case '>': return c > 0;
+      case '<=': return c <= 0;
+      default: return c >= 0;
+    }
+  }
+  const x = toNumber(a);
+  if (isError(x)) return x;
+  const y = toNumber(b);
+  if (isError(y)) return y;
+  switch (op) {
+    case '+': return finite(x + y);
+    case '-': return finite(x - y);
+    case '*': return finite(x * y);
+    case '/': return y === 0 ? new CellError('#DIV/0!') : finite(x / y);
+    case '^':
+      if (x === 0 && y < 0) return new CellError('#DIV/0!');
+      return finite(Math.pow(x, y));
+  }
+  return new CellError('#VALUE!');
+};
+
+// Applies a scalar operation element-wise when either side is a range, so
+// array expressions like SUM(A1:A3*B1:B3) work.
+const lift = (a: Value, b: Value, f: (x: CellValue, y: CellValue) => CellValue): Value => {
+  if (!(a instanceof RangeValue) && !(b instanceof RangeValue)) return f(a, b);
+  const h = Math.max(a instanceof RangeValue ? a.height : 1, b instanceof RangeValue ? b.height : 1);
+  const w = Math.max(a instanceof RangeValue ? a.width : 1, b instanceof RangeValue ? b.width : 1);
+  const at = (v: Value, r: number, c: number): CellValue => {
+    if (!(v instanceof RangeValue)) return v;
+    const rr = v.height === 1 ? 0 : r;
+    const cc = v.width === 1 ? 0 : c;
+    return v.rows[rr]?.[cc] ?? new CellError('#N/A');
+  };
+  const rows: CellValue[][] = [];
+  for (let r = 0; r < h; r++) {
+    const row: CellValue[] = [];
+    for (let c = 0; c < w; c++) row.push(f(at(a, r, c), at(b, r, c)));
+    rows.push(row);
+  }
+  return new RangeValue(rows);
+};
+
+export const readRange = (node: RangeNode, ctx: EvalContext): RangeValue => {
+  const c1 = Math.min(node.start.col, node.end.col);
+  const c2 = Math.max(node.start.col, node.end.col);
+  const r1 = Math.min(node.start.row, node.end.row);
+  let r2 = Math.max(node.start.row, node.end.row);
+  if (node.wholeColumn) r2 = Math.min(r2, ctx.maxRow(node.sheet));
+  const rows: CellValue[][] = [];
+  for (let r = r1; r <= r2; r++) {
+    const row: CellValue[] = [];
+    for (let c = c1; c <= c2; c++) row.push(ctx.getCell(c, r, node.sheet));
+    rows.push(row);
+  }
+  return new RangeValue(rows);
+};
+
+export const evaluate = (node: Node, ctx: EvalContext): Value => {
+  switch (node.type) {
+    case 'number': return node.value;
+    case 'string': return node.value;
+    case 'boolean': return node.value;
+    case 'error': return new CellError(node.code);
+    case 'missing': return null;
+    case 'ref': return ctx.getCell(node.col, node.row, node.sheet);
+    case 'range': return readRange(node, ctx);
+    case 'name': return new CellError('#NAME?', `Unknown name ${node.name}`);
+    case 'unary': {
+      const v = evaluate(node.arg, ctx);
+      return lift(v, null, x => {
+        const n = toNumber(x);
+        if (isError(n)) return n;
+        return node.op === '-' ? -n : n;
+      });
+    }
+    case 'percent':
+      return lift(evaluate(node.arg, ctx), null, x => arithmetic('/', x, 100));
+    case 'binary':
+      return lift(evaluate(node.left, ctx), evaluate(node.right, ctx), (x, y) => arithmetic(node.op, x, y));
+    case 'call': {
+      const def = FUNCTIONS[node.name];
+      if (!def) return new CellError('#NAME?', `Unknown function ${node.name}`);
+      if (node.args.length < def.min || node.args.length > def.max) {
+        return new CellError('#VALUE!', `Wrong number of arguments to ${node.name}`);
+      }
+      return def.call(node.args.map(a => () => evaluate(a, ctx)), ctx);
+    }
+  }
+};
+
+// Evaluates a formula body to the single value a cell displays.
+export const evaluateFormula = (src: string, ctx: EvalContext): CellValue => {
+  const ast = parseFormula(src);
+  if (ast instanceof FormulaSyntaxError) return new CellError('#NAME?', ast.message);
+  const result = evaluate(ast, ctx);
+  if (result instanceof RangeValue && (result.height > 1 || result.width > 1)) {
+    return new CellError('#VALUE!', 'Formula returns more than one cell');
+  }
+  return toScalar(result);
+};
+
+// Default number format for formulas whose outermost call yields a date.
+export const formulaNumFmt = (src: string): string | undefined => {
+  const ast = parseFormula(src);
+  if (ast instanceof FormulaSyntaxError || ast.type !== 'call') return undefined;
+  return FUNCTIONS[ast.name]?.numFmt;
+};
+
+// --- DEPENDENCIES ---
+export interface Dependencies {
+  cells: RefNode[];
+  ranges: RangeNode[];
+  volatile: boolean;
+}
+
+// Lists the cells and ranges a formula reads, for the recalculation graph.
+export const collectDependencies = (src: string): Dependencies => {
+  const deps: Dependencies = { cells: [], ranges: [], volatile: false };
+  const ast = parseFormula(src);
+  if (ast instanceof FormulaSyntaxError) return deps;
+  const walk = (node: Node) => {
+    switch (node.type) {
+      case 'ref': deps.cells.push(node); break;
+      case 'range': deps.ranges.push(node); break;
+      case 'unary':
+      case 'percent': walk(node.arg); break;
+      case 'binary': walk(node.left); walk(node.right); break;
+      case 'call':
+        if (FUNCTIONS[node.name]?.volatile) deps.volatile = true;
+        node.args.forEach(walk);
+        break;
+    }
+  };
+  walk(ast);
+  return deps;
+};
+
+// --- REFERENCE SHIFTING ---
+const shiftRefText = (text: string, dCol: number, dRow: number): string | null => {
+  const m = /^(\$?)([A-Za-z]{1,3})(\$?)(\d+)$/.exec(text);
+  if (!m) return null;
+  const col = colToIndex(m[2]) + (m[1] ? 0 : dCol);
+  const row = parseInt(m[4], 10) - 1 + (m[3] ? 0 : dRow);
+  if (col < 0 || col >= MAX_COLS || row < 0 || row >= MAX_ROWS) return null;
+  return `${m[1]}${indexToCol(col)}${m[3]}${row + 1}`;
+};
+
+const shiftColumnText = (text: string, dCol: number): string | null => {
+  const m = /^(\$?)([A-Za-z]{1,3})$/.exec(text);
+  if (!m) return null;
+  const col = colToIndex(m[2]) + (m[1] ? 0 : dCol);
+  return col < 0 || col >= MAX_COLS ? null : `${m[1]}${indexToCol(col)}`;
+};
+
+// Rewrites the relative references in a formula body as if it were copied
+// dCol columns right and dRow rows down. References pushed off the sheet
+// become #REF!, like in Excel.
+export const shiftFormula = (src: string, dCol: number, dRow: number): string => {
+  if (!dCol && !dRow) return src;
+  let tokens: Token[];
+  try {
+    tokens = tokenize(src);
+  } catch {
+    return src;
+  }
+  let out = '';
+  let last = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    const isRange = tokens[i + 1]?.type === 'colon' && tokens[i + 2]?.type === t.type;
+    let shifted: string | null;
+    let end = t.end;
+    if (t.type === 'ref' && isRange) {
+      const a = shiftRefText(t.text, dCol, dRow);
+      const b = shiftRefText(tokens[i + 2].text, dCol, dRow);
+      shifted = a && b ? `${a}:${b}` : '#REF!';
+      end = tokens[i + 2].end;
+      i += 2;
+    } else if (t.type === 'ref') {
+      shifted = shiftRefText(t.text, dCol, dRow) ?? '#REF!';
+    } else if (t.type === 'name' && isRange) {
+      const a = shiftColumnText(t.text, dCol);
+      const b = shiftColumnText(tokens[i + 2].text, dCol);
+      if (!parseColumnText(t.text) || !parseColumnText(tokens[i + 2].text)) continue;
+      shifted = a && b ? `${a}:${b}` : '#REF!';
+      end = tokens[i + 2].end;
+      i += 2;
+    } else {
+      continue;
+    }
+    out += src.slice(last, t.pos) + shifted;
+    last = end;
+  }
+  return out + src.slice(last);
+};
+
+// --- SHEET REFERENCES ---
+// Sheet names that aren't plain identifiers (or that look like cell
+// references) must be quoted in formulas.
+export const quoteSheetName = (name: string) =>
+  /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) && !REF_RE.test(name) && !/^(TRUE|FALSE)$/i.test(name)
+    ? name
+    : `'${name.replace(/'/g, "''")}'`;
+
+// Rewrites the sheet-qualified references in a formula body: `rename` gets
+// each sheet name and returns the replacement, the same name to keep it, or
+// null to turn the whole reference into #REF! (e.g. when the sheet is deleted).
+export const mapSheetRefs = (src: string, rename: (sheet: string) => string | null): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(src);
+  } catch {
+    return src;
+  }
+  let out = '';
+  let last = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.type !== 'sheet') continue;
+    const name = sheetTokenName(t.text);
+    const next = rename(name);
+    if (next === name) continue;
+    if (next !== null) {
+      out += src.slice(last, t.pos) + quoteSheetName(next) + '!';
+      last = t.end;
+      continue;
+    }
+    // Swallow the reference (and the far end of a range) along with the prefix.
+    let end = tokens[i + 1]?.end ?? t.end;
+    if (tokens[i + 2]?.type === 'colon' && tokens[i + 3]) end = tokens[i + 3].end;
+    out += src.slice(last, t.pos) + '#REF!';
+    last = end;
+  }
+  return out + src.slice(last);
+};
@@ -0,0 +1,682 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { EvalContext } from './formula.ts';
+import {
+  CellError, CellValue, RangeValue, Scalar, Value,
+  compareValues, isError, parseNumber, toBoolean, toNumber, toScalar, toText
+} from './values.ts';
+import { dateToSerial, jsDateToSerial, parseDateText, serialToParts, timeToSerial } from './dates.ts';
+import { formatNumber } from './numberFormat.ts';
+
+// --- FUNCTION REGISTRY ---
+// Arguments arrive as thunks so that IF, IFERROR and friends only evaluate
+// the branch they need; ordinary functions are wrapped with `eager`.
+type Thunk = () => Value;
+
+export interface FunctionDef {
+  min: number;
+  max: number;
+  call: (args: Thunk[], ctx: EvalContext) => Value;
+  numFmt?: string;   // default display format of the result, e.g. for dates
+  volatile?: boolean; // result changes without any input changing (NOW, RAND)
+}
+
+const eager = (min: number, max: number, impl: (args: Value[], ctx: EvalContext) => Value, extra: Partial<FunctionDef> = {}): FunctionDef =>
+  ({ min, max, call: (args, ctx) => impl(args.map(a => a()), ctx), ...extra });
+
+const lazy = (min: number, max: number, call: FunctionDef['call']): FunctionDef => ({ min, max, call });
+
+const VALUE = () => new CellError('#VALUE!');
+const NA = () => new CellError('#N/A');
+const NUM = () => new CellError('#NUM!');
+const DIV0 = () => new CellError('#DIV/0!');
+
+// --- ARGUMENT HELPERS ---
+const num = (v: Value): number | CellError => toNumber(toScalar(v));
+const text = (v: Value): string | CellError => toText(toScalar(v));
+const bool = (v: Value): boolean | CellError => toBoolean(toScalar(v));
+
+// Runs `f` on coerced numeric arguments, short-circuiting on the first error.
+const numeric = (f: (...n: number[]) => Value) => (args: Value[]) => {
+  const nums: number[] = [];
+  for (const a of args) {
+    const n = num(a);
+    if (isError(n)) return n;
+    nums.push(n);
+  }
+  const out = f(...nums);
+  return typeof out === 'number' && !isFinite(out) ? NUM() : out;
+};
+
+const textual = (f: (...s: string[]) => Value) => (args: Value[]) => {
+  const strs: string[] = [];
+  for (const a of args) {
+    const s = text(a);
+    if (isError(s)) return s;
+    strs.push(s);
+  }
+  return f(...strs);
+};
+
+// Numbers for aggregate functions: inside ranges only real numbers count;
+// direct arguments are coerced and fail with #VALUE! if they can't be.
+const collectNumbers = (args: Value[]): number[] | CellError => {
+  const out: number[] = [];
+  for (const a of args) {
+    if (a instanceof RangeValue) {
+      for (const v of a.values()) {
+        if (isError(v)) return v;
+        if (typeof v === 'number') out.push(v);
+      }
+    } else if (a !== null) {
+      const n = toNumber(a);
+      if (isError(n)) return n;
+      out.push(n);
+    }
+  }
+  return out;
+};
+
+const aggregate = (f: (nums: number[]) => Value) => (args: Value[]) => {
+  const nums = collectNumbers(args);
+  return isError(nums) ? nums : f(nums);
+};
+
+const flatValues = (args: Value[]): CellValue[] =>
+  args.flatMap(a => a instanceof RangeValue ? a.values() : [a]);
+
+const asRange = (v: Value): RangeValue => v instanceof RangeValue ? v : new RangeValue([[v]]);
+
+const roundTo = (x: number, digits: number, mode: 'round' | 'up' | 'down') => {
+  const f = Math.pow(10, Math.trunc(digits));
+  const scaled = Math.abs(x) * f;
+  const fixed = parseFloat(scaled.toPrecision(15));
+  const r = mode === 'round' ? Math.round(fixed) : mode === 'up' ? Math.ceil(fixed) : Math.floor(fixed);
+  return Math.sign(x) * r / f;
+};
+
+// --- CRITERIA ---
+// Criteria strings as used by COUNTIF/SUMIF: an optional comparison prefix
+// followed by a number or text, where text may contain * ? and ~ wildcards.
+const wildcardToRegExp = (pattern: string) => {
+  let re = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '~' && i + 1 < pattern.length) re += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    else if (ch === '*') re += '.*';
+    else if (ch === '?') re += '.';
+    else re += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${re}$`, 'i');
+};
+
+export const makeCriteria = (criteria: CellValue): ((v: CellValue) => boolean) => {
+  if (isError(criteria)) return v => isError(v) && v.code === criteria.code;
+  if (typeof criteria === 'number') return v => (typeof v === 'number' ? v : typeof v === 'string' ? parseNumber(v) : null) === criteria;
+  if (typeof criteria === 'boolean') return v => v === criteria;
+  const s = criteria ?? '';
+  const m = /^(<=|>=|<>|<|>|=)?([\s\S]*)$/.exec(s)!;
+  const op = m[1] || '=';
+  const operand = m[2];
+  if (operand === '') {
+    if (op === '=') return v => v === null || v === '';
+    if (op === '<>') return v => v !== null && v !== '';
+  }
+  const n = parseNumber(operand);
+  if (n !== null) {
+    return v => {
+      const x = typeof v === 'number' ? v : null;
+      if (x === null) return op === '<>';
+      switch (op) {
+        case '=': return x === n;
+        case '<>': return x !== n;
+        case '<': return x < n;
+        case '>': return x > n;
+        case '<=': return x <= n;
+        default: return x >= n;
+      }
+    };
+  }
+  const upper = operand.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') {
+    const b = upper === 'TRUE';
+    return v => op === '<>' ? v !== b : v === b;
+  }
+  if (op === '=' || op === '<>') {
+    const re = wildcardToRegExp(operand);
+    return v => {
+      const matches = typeof v === 'string' && re.test(v);
+      return op === '=' ? matches : !matches;
+    };
+  }
+  return v => {
+    if (typeof v !== 'string') return false;
+    const c = compareValues(v, operand);
+    return op === '<' ? c < 0 : op === '>' ? c > 0 : op === '<=' ? c <= 0 : c >= 0;
+  };
+};
+
+// Pairs up (range, criteria) arguments for the *IFS family.
+const matchAll = (pairs: Value[]): boolean[] | CellError => {
+  let mask: boolean[] | null = null;
+  let shape: [number, number] | null = null;
+  for (let i = 0; i < pairs.length; i += 2) {
+    const range = asRange(pairs[i]);
+    const crit = toScalar(pairs[i + 1]);
+    if (shape && (shape[0] !== range.height || shape[1] !== range.width)) return VALUE();
+    shape = [range.height, range.width];
+    const test = makeCriteria(crit);
+    const values = range.values();
+    mask = mask ? mask.map((m, j) => m && test(values[j])) : values.map(test);
+  }
+  return mask ?? [];
+};
+
+// --- LOOKUP HELPERS ---
+const findExact = (values: CellValue[], target: CellValue, wildcard: boolean, reverse = false) => {
+  const re = wildcard && typeof target === 'string' ? wildcardToRegExp(target) : null;
+  const matches = (v: CellValue) => {
+    if (isError(v) || isError(target)) return false;
+    if (re) return typeof v === 'string' && re.test(v);
+    if (v === null) return target === null;
+    return typeof v === typeof target && compareValues(v, target as Scalar) === 0;
+  };
+  if (reverse) {
+    for (let i = values.length - 1; i >= 0; i--) if (matches(values[i])) return i;
+  } else {
+    for (let i = 0; i < values.length; i++) if (matches(values[i])) return i;
+  }
+  return -1;
+};
+
+// Largest value <= target in a column sorted ascending (Excel's approximate match).
+const findApproximate = (values: CellValue[], target: Scalar) => {
+  let found = -1;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (v === null || isError(v) || typeof v !== typeof target) continue;
+    if (compareValues(v, target) <= 0) found = i;
+    else break;
+  }
+  return found;
+};
+
+const vectorOf = (r: RangeValue) => r.width === 1 ? r.rows.map(row => row[0]) : r.rows[0] ?? [];
+
+const lookupTable = (horizontal: boolean) => (args: Value[]) => {
+  const target = toScalar(args[0]);
+  if (isError(target)) return target;
+  const table = asRange(args[1]);
+  const index = num(args[2]);
+  if (isError(index)) return index;
+  const approximate = args.length < 4 ? true : bool(args[3]);
+  if (isError(approximate)) return approximate;
+  const size = horizontal ? table.height : table.width;
+  if (index < 1) return VALUE();
+  if (index > size) return new CellError('#REF!');
+  const keys = horizontal ? table.rows[0] : table.rows.map(r => r[0]);
+  const i = approximate ? findApproximate(keys, target) : findExact(keys, target, true);
+  if (i === -1) return NA();
+  return horizontal ? table.rows[Math.trunc(index) - 1][i] : table.rows[i][Math.trunc(index) - 1];
+};
+
+// --- DATES ---
+const dateFn = (f: (p: ReturnType<typeof serialToParts>) => number) => numeric(serial => serial < 0 ? NUM() : f(serialToParts(serial)));
+
+const addMonths = (serial: number, months: number, endOfMonth: boolean) => {
+  const p = serialToParts(serial);
+  const target = p.month + Math.trunc(months);
+  if (endOfMonth) return dateToSerial(p.year, target + 1, 0);
+  const last = serialToParts(dateToSerial(p.year, target + 1, 0)).day;
+  return dateToSerial(p.year, target, Math.min(p.day, last));
+};
+
+const DATE_FMT = 'yyyy-mm-dd';
+
+// --- LIBRARY ---
+export const FUNCTIONS: Record<string, FunctionDef> = {
+  // Math & aggregates
+  SUM: eager(1, 255, aggregate(n => n.reduce((a, b) => a + b, 0))),
+  PRODUCT: eager(1, 255, aggregate(n => n.reduce((a, b) => a * b, 1))),
+  AVERAGE: eager(1, 255, aggregate(n => n.length ? n.reduce((a, b) => a + b, 0) / n.length : DIV0())),
+  MIN: eager(1, 255, aggregate(n => n.length ? n.reduce((a, b) => Math.min(a, b)) : 0)),
+  MAX: eager(1, 255, aggregate(n => n.length ? n.reduce((a, b) => Math.max(a, b)) : 0)),
+  MEDIAN: eager(1, 255, aggregate(n => {
+    if (!n.length) return NUM();
+    const s = [...n].sort((a, b) => a - b);
+    const mid = Math.floor(s.length / 2);
+    return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+  })),
+  COUNT: eager(1, 255, args => args.reduce<number>((n, a) => a instanceof RangeValue
+    ? n + a.values().filter(v => typeof v === 'number').length
+    : n + (typeof a === 'number' || typeof a === 'boolean' || (typeof a === 'string' && parseNumber(a) !== null) ? 1 : 0), 0)),
+  COUNTA: eager(1, 255, args => flatValues(args).filter(v => v !== null).length),
+  COUNTBLANK: eager(1, 1, args => flatValues(args).filter(v => v === null || v === '').length),
+  SUMPRODUCT: eager(1, 255, args => {
+    const ranges = args.map(asRange);
+    const [h, w] = [ranges[0].height, ranges[0].width];
+    if (ranges.some(r => r.height !== h || r.width !== w)) return VALUE();
+    let total = 0;
+    for (let r = 0; r < h; r++) {
+      for (let c = 0; c < w; c++) {
+        let p = 1;
+        for (const range of ranges) {
+          const v = range.rows[r][c];
+          if (isError(v)) return v;
+          p *= typeof v === 'number' ? v : 0;
+        }
+        total += p;
+      }
+    }
+    return total;
+  }),
+  ROUND: eager(2, 2, numeric((x, d) => roundTo(x, d, 'round'))),
+  ROUNDUP: eager(2, 2, numeric((x, d) => roundTo(x, d, 'up'))),
+  ROUNDDOWN: eager(2, 2, numeric((x, d) => roundTo(x, d, 'down'))),
+  INT: eager(1, 1, numeric(x => Math.floor(x))),
+  TRUNC: eager(1, 2, numeric((x, d = 0) => roundTo(x, d, 'down'))),
+  ABS: eager(1, 1, numeric(x => Math.abs(x))),
+  SIGN: eager(1, 1, numeric(x => Math.sign(x))),
+  MOD: eager(2, 2, numeric((x, y) => y === 0 ? DIV0() : x - y * Math.floor(x / y))),
+  POWER: eager(2, 2, numeric((x, y) => x === 0 && y < 0 ? DIV0() : Math.pow(x, y))),
+  SQRT: eager(1, 1, numeric(x => x < 0 ? NUM() : Math.sqrt(x))),
+  EXP: eager(1, 1, numeric(x => Math.exp(x))),
+  LN: eager(1, 1, numeric(x => x <= 0 ? NUM() : Math.log(x))),
+  LOG10: eager(1, 1, numeric(x => x <= 0 ? NUM() : Math.log10(x))),
+  LOG: eager(1, 2, numeric((x, b = 10) => x <= 0 || b <= 0 || b === 1 ? NUM() : Math.log(x) / Math.log(b))),
+  PI: eager(0, 0, () => Math.PI),
+  CEILING: eager(1, 2, numeric((x, s = 1) => s === 0 ? 0 : Math.ceil(x / s) * s)),
+  FLOOR: eager(1, 2, numeric((x, s = 1) => s === 0 ? DIV0() : Math.floor(x / s) * s)),
+  RAND: eager(0, 0, () => Math.random(), { volatile: true }),
+  RANDBETWEEN: eager(2, 2, numeric((lo, hi) => lo > hi ? NUM() : Math.floor(Math.random() * (Math.floor(hi) - Math.ceil(lo) + 1)) + Math.ceil(lo)), { volatile: true }),
+
+  // Conditional aggregates
+  COUNTIF: eager(2, 2, args => {
+    const test = makeCriteria(toScalar(args[1]));
+    return asRange(args[0]).values().filter(test).length;
+  }),
+  COUNTIFS: eager(2, 254, args => {
+    if (args.length % 2) return VALUE();
+    const mask = matchAll(args);
+    return isError(mask) ? mask : mask.filter(Boolean).length;
+  }),
+  SUMIF: eager(2, 3, args => {
+    const range = asRange(args[0]);
+    const sumRange = args[2] instanceof RangeValue ? args[2] : range;
+    const test = makeCriteria(toScalar(args[1]));
+    const keys = range.values();
+    const vals = sumRange.values();
+    let total = 0;
+    for (let i = 0; i < keys.length; i++) {
+      if (!test(keys[i])) continue;
+      const v = vals[i];
+      if (isError(v)) return v;
+      if (typeof v === 'number') total += v;
+    }
+    return total;
+  }),
+  SUMIFS: eager(3, 255, args => {
+    if (args.length % 2 === 0) return VALUE();
+    const mask = matchAll(args.slice(1));
+    if (isError(mask)) return mask;
+    const vals = asRange(args[0]).values();
+    if (vals.length !== mask.length) return VALUE();
+    let total = 0;
+    for (let i = 0; i < vals.length; i++) {
+      const v = vals[i];
+      if (!mask[i]) continue;
+      if (isError(v)) return v;
+      if (typeof v === 'number') total += v;
+    }
+    return total;
+  }),
+  AVERAGEIF: eager(2, 3, args => {
+    const range = asRange(args[0]);
+    const avgRange = args[2] instanceof RangeValue ? args[2] : range;
+    const test = makeCriteria(toScalar(args[1]));
+    const keys = range.values();
+    const vals = avgRange.values();
+    let total = 0;
+    let count = 0;
+    for (let i = 0; i < keys.length; i++) {
+      const v = vals[i];
+      if (!test(keys[i]) || typeof v !== 'number') continue;
+      total += v;
+      count++;
+    }
+    return count ? total / count : DIV0();
+  }),
+
+  // Logic
+  IF: lazy(2, 3, ([cond, then, otherwise]) => {
+    const c = bool(cond());
+    if (isError(c)) return c;
+    if (c) return then();
+    return otherwise ? otherwise() : false;
+  }),
+  IFS: lazy(2, 254, args => {
+    if (args.length % 2) return VALUE();
+    for (let i = 0; i < args.length; i += 2) {
+      const c = bool(args[i]());
+      if (isError(c)) return c;
+      if (c) return args[i + 1]();
+    }
+    return NA();
+  }),
+  IFERROR: lazy(2, 2, ([value, fallback]) => {
+    const v = value();
+    return isError(v) ? fallback() : v;
+  }),
+  IFNA: lazy(2, 2, ([value, fallback]) => {
+    const v = value();
+    return isError(v) && v.code === '#N/A' ? fallback() : v;
+  }),
+  SWITCH: lazy(3, 254, args => {
+    const subject = toScalar(args[0]());
+    if (isError(subject)) return subject;
+    for (let i = 1; i + 1 < args.length; i += 2) {
+      const candidate = toScalar(args[i]());
+      if (!isError(candidate) && compareValues(subject, candidate) === 0) return args[i + 1]();
+    }
+    return (args.length - 1) % 2 ? args[args.length - 1]() : NA();
+  }),
+  AND: eager(1, 255, args => {
+    const vals = flatValues(args).filter(v => v !== null && typeof v !== 'string');
+    if (!vals.length) return VALUE();
+    for (const v of vals) {
+      const b = toBoolean(v);
+      if (isError(b)) return b;
+      if (!b) return false;
+    }
+    return true;
+  }),
+  OR: eager(1, 255, args => {
+    const vals = flatValues(args).filter(v => v !== null && typeof v !== 'string');
+    if (!vals.length) return VALUE();
+    let any = false;
+    for (const v of vals) {
+      const b = toBoolean(v);
+      if (isError(b)) return b;
+      any = any || b;
+    }
+    return any;
+  }),
+  XOR: eager(1, 255, args => {
+    const vals = flatValues(args).filter(v => v !== null && typeof v !== 'string');
+    if (!vals.length) return VALUE();
+    let count = 0;
+    for (const v of vals) {
+      const b = toBoolean(v);
+      if (isError(b)) return b;
+      if (b) count++;
+    }
+    return count % 2 === 1;
+  }),
+  NOT: eager(1, 1, args => {
+    const b = bool(args[0]);
+    return isError(b) ? b : !b;
+  }),
+  TRUE: eager(0, 0, () => true),
+  FALSE: eager(0, 0, () => false),
+
+  // Lookup
+  VLOOKUP: eager(3, 4, lookupTable(false)),
+  HLOOKUP: eager(3, 4, lookupTable(true)),
+  XLOOKUP: lazy(3, 6, (args) => {
+    const target = toScalar(args[0]());
+    if (isError(target)) return target;
+    const lookup = asRange(args[1]());
+    const result = asRange(args[2]());
+    const matchMode = args[4] ? num(args[4]()) : 0;
+    const searchMode = args[5] ? num(args[5]()) : 1;
+    if (isError(matchMode)) return matchMode;
+    if (isError(searchMode)) return searchMode;
+    if (lookup.width !== 1 && lookup.height !== 1) return VALUE();
+    const keys = vectorOf(lookup);
+    const vertical = lookup.width === 1;
+    if ((vertical ? result.height : result.width) !== keys.length) return VALUE();
+    const reverse = searchMode === -1 || searchMode === -2;
+    let index = findExact(keys, target, matchMode === 2, reverse);
+    if (index === -1 && (matchMode === -1 || matchMode === 1)) {
+      // Next smaller (-1) or next larger (1) item when there is no exact match.
+      let best = -1;
+      keys.forEach((k, i) => {
+        if (k === null || isError(k) || typeof k !== typeof target) return;
+        const c = compareValues(k, target);
+        if (matchMode === -1 ? c >= 0 : c <= 0) return;
+        if (best === -1) { best = i; return; }
+        const d = compareValues(k, keys[best] as Scalar);
+        if (matchMode === -1 ? d > 0 : d < 0) best = i;
+      });
+      index = best;
+    }
+    if (index === -1) {
+      const notFound = args[3]?.();
+      return notFound === undefined || notFound === null ? NA() : notFound;
+    }
+    return vertical
+      ? (result.width === 1 ? result.rows[index][0] : new RangeValue([result.rows[index]]))
+      : (result.height === 1 ? result.rows[0][index] : new RangeValue(result.rows.map(r => [r[index]])));
+  }),
+  MATCH: eager(2, 3, args => {
+    const target = toScalar(args[0]);
+    if (isError(target)) return target;
+    const range = asRange(args[1]);
+    if (range.width !== 1 && range.height !== 1) return NA();
+    const type = args.length > 2 ? num(args[2]) : 1;
+    if (isError(type)) return type;
+    const keys = vectorOf(range);
+    let i = -1;
+    if (type === 0) i = findExact(keys, target, true);
+    else if (type > 0) i = findApproximate(keys, target);
+    else {
+      for (let k = 0; k < keys.length; k++) {
+        const v = keys[k];
+        if (v === null || isError(v) || typeof v !== typeof target) continue;
+        if (compareValues(v, target) >= 0) i = k;
+        else break;
+      }
+    }
+    return i === -1 ? NA() : i + 1;
+  }),
+  INDEX: eager(2, 3, args => {
+    const range = asRange(args[0]);
+    let r = num(args[1]);
+    let c = args.length > 2 ? num(args[2]) : 1;
+    if (isError(r)) return r;
+    if (isError(c)) return c;
+    // A single-row range indexed with one number picks a column.
+    if (args.length === 2 && range.height === 1) { c = r; r = 1; }
+    r = Math.trunc(r);
+    c = Math.trunc(c);
+    if (r < 0 || c < 0 || r > range.height || c > range.width) return new CellError('#REF!');
+    if (r === 0) return new RangeValue(range.rows.map(x => [x[c - 1]]));
+    if (c === 0) return new RangeValue([range.rows[r - 1]]);
+    return range.rows[r - 1][c - 1];
+  }),
+  CHOOSE: lazy(2, 255, args => {
+    const i = num(args[0]());
+    if (isError(i)) return i;
+    const k = Math.trunc(i);
+    return k < 1 || k >= args.length ? VALUE() : args[k]();
+  }),
+
+  // Text
+  CONCAT: eager(1, 255, args => {
+    let out = '';
+    for (const v of flatValues(args)) {
+      const s = toText(v);
+      if (isError(s)) return s;
+      out += s;
+    }
+    return out;
+  }),
+  CONCATENATE: eager(1, 255, textual((...s) => s.join(''))),
+  TEXTJOIN: eager(3, 255, args => {
+    const delim = text(args[0]);
+    if (isError(delim)) return delim;
+    const ignoreEmpty = bool(args[1]);
+    if (isError(ignoreEmpty)) return ignoreEmpty;
+    const parts: string[] = [];
+    for (const v of flatValues(args.slice(2))) {
+      const s = toText(v);
+      if (isError(s)) return s;
+      if (s !== '' || !ignoreEmpty) parts.push(s);
+    }
+    return parts.join(delim);
+  }),
+  TEXT: eager(2, 2, args => {
+    const v = toScalar(args[0]);
+    if (isError(v)) return v;
+    const fmt = text(args[1]);
+    if (isError(fmt)) return fmt;
+    const n = typeof v === 'string' ? parseNumber(v) : toNumber(v);
+    return formatNumber(n === null || isError(n) ? (v as string) : n, fmt);
+  }),
+  LEN: eager(1, 1, textual(s => s.length)),
+  LEFT: eager(1, 2, args => {
+    const s = text(args[0]);
+    const n = args.length > 1 ? num(args[1]) : 1;
+    if (isError(s)) return s;
+    if (isError(n)) return n;
+    return n < 0 ? VALUE() : s.slice(0, n);
+  }),
+  RIGHT: eager(1, 2, args => {
+    const s = text(args[0]);
+    const n = args.length > 1 ? num(args[1]) : 1;
+    if (isError(s)) return s;
+    if (isError(n)) return n;
+    return n < 0 ? VALUE() : n === 0 ? '' : s.slice(-n);
+  }),
+  MID: eager(3, 3, args => {
+    const s = text(args[0]);
+    const start = num(args[1]);
+    const len = num(args[2]);
+    if (isError(s)) return s;
+    if (isError(start)) return start;
+    if (isError(len)) return len;
+    return start < 1 || len < 0 ? VALUE() : s.slice(start - 1, start - 1 + len);
+  }),
+  UPPER: eager(1, 1, textual(s => s.toUpperCase())),
+  LOWER: eager(1, 1, textual(s => s.toLowerCase())),
+  PROPER: eager(1, 1, textual(s => s.toLowerCase().replace(/(^|[^a-z])([a-z])/g, (_, p, c) => p + c.toUpperCase()))),
+  TRIM: eager(1, 1, textual(s => s.trim().replace(/ {2,}/g, ' '))),
+  SUBSTITUTE: eager(3, 4, args => {
+    const [s, from, to] = args.slice(0, 3).map(text);
+    if (isError(s)) return s;
+    if (isError(from)) return from;
+    if (isError(to)) return to;
+    if (from === '') return s;
+    if (args.length < 4) return s.split(from).join(to);
+    const nth = num(args[3]);
+    if (isError(nth)) return nth;
+    let idx = -1;
+    for (let k = 0; k < nth; k++) {
+      idx = s.indexOf(from, idx + 1);
+      if (idx === -1) return s;
+    }
+    return s.slice(0, idx) + to + s.slice(idx + from.length);
+  }),
+  REPLACE: eager(4, 4, args => {
+    const s = text(args[0]);
+    const start = num(args[1]);
+    const len = num(args[2]);
+    const repl = text(args[3]);
+    for (const v of [s, start, len, repl]) if (isError(v)) return v;
+    return (s as string).slice(0, (start as number) - 1) + repl + (s as string).slice((start as number) - 1 + (len as number));
+  }),
+  FIND: eager(2, 3, args => {
+    const needle = text(args[0]);
+    const hay = text(args[1]);
+    const start = args.length > 2 ? num(args[2]) : 1;
+    for (const v of [needle, hay, start]) if (isError(v)) return v;
+    const i = (hay as string).indexOf(needle as string, (start as number) - 1);
+    return i === -1 ? VALUE() : i + 1;
+  }),
+  SEARCH: eager(2, 3, args => {
+    const needle = text(args[0]);
+    const hay = text(args[1]);
+    const start = args.length > 2 ? num(args[2]) : 1;
+    for (const v of [needle, hay, start]) if (isError(v)) return v;
+    const re = new RegExp(wildcardToRegExp(needle as string).source.slice(1, -1), 'i');
+    const rest = (hay as string).slice((start as number) - 1);
+    const m = re.exec(rest);
+    return m ? m.index + (start as number) : VALUE();
+  }),
+  REPT: eager(2, 2, args => {
+    const s = text(args[0]);
+    const n = num(args[1]);
+    if (isError(s)) return s;
+    if (isError(n)) return n;
+    return n < 0 ? VALUE() : s.repeat(Math.trunc(n));
+  }),
+  EXACT: eager(2, 2, textual((a, b) => a === b)),
+  VALUE: eager(1, 1, args => {
+    const v = toScalar(args[0]);
+    if (typeof v !== 'string') return num(v);
+    const n = parseNumber(v) ?? parseDateText(v);
+    return n === null ? VALUE() : n;
+  }),
+
+  // Dates & times
+  DATE: eager(3, 3, numeric((y, m, d) => y < 0 || y >= 10000 ? NUM() : dateToSerial(Math.trunc(y), Math.trunc(m), Math.trunc(d))), { numFmt: DATE_FMT }),
+  TIME: eager(3, 3, numeric((h, m, s) => {
+    const t = timeToSerial(h, m, s);
+    return t < 0 ? NUM() : t - Math.floor(t);
+  }), { numFmt: 'h:mm AM/PM' }),
+  DATEVALUE: eager(1, 1, textual(s => parseDateText(s) ?? VALUE()), { numFmt: DATE_FMT }),
+  TODAY: eager(0, 0, () => Math.floor(jsDateToSerial(new Date())), { numFmt: DATE_FMT, volatile: true }),
+  NOW: eager(0, 0, () => jsDateToSerial(new Date()), { numFmt: 'yyyy-mm-dd hh:mm', volatile: true }),
+  YEAR: eager(1, 1, dateFn(p => p.year)),
+  MONTH: eager(1, 1, dateFn(p => p.month)),
+  DAY: eager(1, 1, dateFn(p => p.day)),
+  HOUR: eager(1, 1, dateFn(p => p.hours)),
+  MINUTE: eager(1, 1, dateFn(p => p.minutes)),
+  SECOND: eager(1, 1, dateFn(p => p.seconds)),
+  WEEKDAY: eager(1, 2, numeric((serial, type = 1) => {
+    const wd = serialToParts(serial).weekday;
+    if (type === 1) return wd + 1;
+    if (type === 2) return ((wd + 6) % 7) + 1;
+    if (type === 3) return (wd + 6) % 7;
+    return NUM();
+  })),
+  EDATE: eager(2, 2, numeric((start, months) => addMonths(start, months, false)), { numFmt: DATE_FMT }),
+  EOMONTH: eager(2, 2, numeric((start, months) => addMonths(start, months, true)), { numFmt: DATE_FMT }),
+  DAYS: eager(2, 2, numeric((end, start) => Math.floor(end) - Math.floor(start))),
+  DATEDIF: eager(3, 3, args => {
+    const start = num(args[0]);
+    const end = num(args[1]);
+    const unit = text(args[2]);
+    if (isError(start)) return start;
+    if (isError(end)) return end;
+    if (isError(unit)) return unit;
+    if (start > end) return NUM();
+    const a = serialToParts(start);
+    const b = serialToParts(end);
+    let months = (b.year - a.year) * 12 + (b.month - a.month);
+    if (b.day < a.day) months--;
+    switch (unit.toUpperCase()) {
+      case 'D': return Math.floor(end) - Math.floor(start);
+      case 'M': return months;
+      case 'Y': return Math.floor(months / 12);
+      case 'YM': return months % 12;
+      case 'MD': return b.day >= a.day ? b.day - a.day : Math.floor(end) - addMonths(start, months, false);
+      case 'YD': return Math.floor(end) - addMonths(start, Math.floor(months / 12) * 12, false);
+      default: return NUM();
+    }
+  }),
+
+  // Information
+  ISBLANK: eager(1, 1, args => toScalar(args[0]) === null),
+  ISNUMBER: eager(1, 1, args => typeof toScalar(args[0]) === 'number'),
+  ISTEXT: eager(1, 1, args => typeof toScalar(args[0]) === 'string'),
+  ISLOGICAL: eager(1, 1, args => typeof toScalar(args[0]) === 'boolean'),
+  ISERROR: eager(1, 1, args => isError(toScalar(args[0]))),
+  ISNA: eager(1, 1, args => {
+    const v = toScalar(args[0]);
+    return isError(v) && v.code === '#N/A';
+  }),
+  NA: eager(0, 0, () => NA()),
+};
@@ -0,0 +1,353 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { serialToParts } from './dates.ts';
+
+// --- NUMBER FORMATS ---
+// A subset of Excel's format codes: up to four ';'-separated sections
+// (positive;negative;zero;text), digit placeholders 0 # ?, thousands and
+// scaling commas, percent, scientific notation, quoted/escaped literals,
+// [Color] tags and date/time codes.
+
+export interface FormattedValue { text: string; color?: string; }
+
+type FmtToken =
+  | { t: 'lit'; v: string }
+  | { t: 'digit'; v: '0' | '#' | '?' }
+  | { t: 'point' }
+  | { t: 'comma' }
+  | { t: 'percent' }
+  | { t: 'exp'; sign: '+' | '-' }
+  | { t: 'text' }
+  | { t: 'date'; v: string }
+  | { t: 'ampm'; v: string }
+  | { t: 'elapsed'; v: string };
+
+interface Section { tokens: FmtToken[]; color?: string; isDate: boolean; }
+
+const COLORS: Record<string, string> = {
+  black: '#000000', blue: '#0000ff', cyan: '#00ffff', green: '#00aa00',
+  magenta: '#ff00ff', red: '#ff0000', white: '#ffffff', yellow: '#ffff00'
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const splitSections = (fmt: string) => {
+  const out: string[] = [];
+  let cur = '';
+  let quoted = false;
+  for (let i = 0; i < fmt.length; i++) {
+    const ch = fmt[i];
+    if (ch === '"') quoted = !quoted;
+    if (ch === '\\' && !quoted && i + 1 < fmt.length) { cur += ch + fmt[++i]; continue; }
+    if (ch === ';' && !quoted) { out.push(cur); cur = ''; continue; }
+    cur += ch;
+  }
+  out.push(cur);
+  return out;
+};
+
+const parseSection = (src: string): Section => {
+  const tokens: FmtToken[] = [];
+  let color: string | undefined;
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    const rest = src.slice(i);
+    if (ch === '"') {
+      const end = src.indexOf('"', i + 1);
+      const stop = end === -1 ? src.length : end;
+      tokens.push({ t: 'lit', v: src.slice(i + 1, stop) });
+      i = stop + 1;
+    } else if (ch === '\\') {
+      tokens.push({ t: 'lit', v: src[i + 1] ?? '' });
+      i += 2;
+    } else if (ch === '_') {
+      tokens.push({ t: 'lit', v: ' ' });
+      i += 2;
+    } else if (ch === '*') {
+      i += 2;
+    } else if (ch === '[') {
+      const end = src.indexOf(']', i);
+      const inner = src.slice(i + 1, end === -1 ? src.length : end);
+      i = end === -1 ? src.length : end + 1;
+      const lower = inner.toLowerCase();
+      if (COLORS[lower]) color = COLORS[lower];
+      else if (/^(h+|m+|s+)$/.test(lower)) tokens.push({ t: 'elapsed', v: lower });
+      else if (inner.startsWith('$')) tokens.push({ t: 'lit', v: inner.slice(1).split('-')[0] });
+    } else if (/^(AM\/PM|A\/P)/i.test(rest)) {
+      const v = /^AM\/PM/i.test(rest) ? rest.slice(0, 5) : rest.slice(0, 3);
+      tokens.push({ t: 'ampm', v });
+      i += v.length;
+    } else if (/[yYmMdDhHsS]/.test(ch)) {
+      let j = i;
+      while (j < src.length && src[j].toLowerCase() === ch.toLowerCase()) j++;
+      tokens.push({ t: 'date', v: src.slice(i, j).toLowerCase() });
+      i = j;
+    } else if (ch === '0' || ch === '#' || ch === '?') {
+      tokens.push({ t: 'digit', v: ch });
+      i++;
+    } else if (ch === '.') {
+      tokens.push({ t: 'point' }); i++;
+    } else if (ch === ',') {
+      tokens.push({ t: 'comma' }); i++;
+    } else if (ch === '%') {
+      tokens.push({ t: 'percent' }); i++;
+    } else if ((ch === 'E' || ch === 'e') && (src[i + 1] === '+' || src[i + 1] === '-')) {
+      tokens.push({ t: 'exp', sign: src[i + 1] as '+' | '-' });
+      i += 2;
+    } else if (ch === '@') {
+      tokens.push({ t: 'text' }); i++;
+    } else {
+      tokens.push({ t: 'lit', v: ch }); i++;
+    }
+  }
+  const isDate = tokens.some(t => t.t === 'date' || t.t === 'elapsed' || t.t === 'ampm');
+  return { tokens, color, isDate };
+};
+
+const cache = new Map<string, Section[]>();
+const getSections = (fmt: string) => {
+  let sections = cache.get(fmt);
+  if (!sections) {
+    sections = splitSections(fmt).map(parseSection);
+    cache.set(fmt, sections);
+  }
+  return sections;
+};
+
+export const isDateFormat = (fmt: string) => getSections(fmt)[0].isDate;
+
+// --- GENERAL ---
+export const formatGeneral = (n: number) => {
+  if (!isFinite(n)) return '#NUM!';
+  if (Number.isInteger(n) && Math.abs(n) < 1e11) return String(n);
+  const abs = Math.abs(n);
+  if (abs !== 0 && (abs >= 1e11 || abs < 1e-9)) {
+    return n.toExponential(5).replace(/\.?0+e/, 'E').replace(/E\+?/, m => m === 'E' ? 'E+' : 'E');
+  }
+  return String(parseFloat(n.toPrecision(10)));
+};
+
+// --- NUMERIC SECTIONS ---
+const groupThousands = (digits: string) => digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+
+const fillInteger = (digits: string, placeholders: ('0' | '#' | '?')[]) => {
+  // Right-aligns the digits onto the placeholders; surplus digits all land
+  // on the leftmost placeholder.
+  const out: string[] = new Array(placeholders.length).fill('');
+  let d = digits === '0' ? '' : digits;
+  for (let p = placeholders.length - 1; p >= 0; p--) {
+    if (d.length > 0) {
+      out[p] = p === 0 ? d : d[d.length - 1];
+      d = p === 0 ? '' : d.slice(0, -1);
+    } else {
+      out[p] = placeholders[p] === '0' ? '0' : placeholders[p] === '?' ? ' ' : '';
+    }
+  }
+  return out;
+};
+
+const fillDecimals = (digits: string, placeholders: ('0' | '#' | '?')[]) => {
+  const out = placeholders.map((p, i) => digits[i] ?? '0');
+  for (let i = out.length - 1; i >= 0; i--) {
+    if (out[i] !== '0') break;
+    if (placeholders[i] === '#') out[i] = '';
+    else if (placeholders[i] === '?') out[i] = ' ';
+    else break;
+  }
+  return out;
+};
+
+const formatNumeric = (value: number, tokens: FmtToken[]) => {
+  let v = value;
+  const pointIdx = tokens.findIndex(t => t.t === 'point');
+  const expIdx = tokens.findIndex(t => t.t === 'exp');
+  const intEnd = pointIdx !== -1 ? pointIdx : expIdx !== -1 ? expIdx : tokens.length;
+  const intPlaceholders: number[] = [];
+  const decPlaceholders: number[] = [];
+  tokens.forEach((t, i) => {
+    if (t.t !== 'digit') return;
+    if (i < intEnd) intPlaceholders.push(i);
+    else if (expIdx === -1 || i < expIdx) decPlaceholders.push(i);
+  });
+
+  // Commas between integer placeholders group thousands; commas right after
+  // the last one scale the value down by 1000 each.
+  let grouping = false;
+  let scale = 0;
+  const lastInt = intPlaceholders[intPlaceholders.length - 1] ?? -1;
+  tokens.forEach((t, i) => {
+    if (t.t !== 'comma') return;
+    if (i < lastInt && i > (intPlaceholders[0] ?? Infinity)) grouping = true;
+    else if (i > lastInt && i < intEnd) scale++;
+  });
+  v /= Math.pow(1000, scale);
+  v *= Math.pow(100, tokens.filter(t => t.t === 'percent').length);
+
+  let exponent = 0;
+  if (expIdx !== -1 && v !== 0) {
+    const intCount = Math.max(1, intPlaceholders.length);
+    exponent = Math.floor(Math.log10(v)) - (intCount - 1);
+    v /= Math.pow(10, exponent);
+  }
+
+  const decimals = decPlaceholders.length;
+  const fixed = v.toFixed(decimals);
+  const [intDigits, decDigits = ''] = fixed.split('.');
+
+  const intParts = grouping
+    ? (() => {
+      const minZeros = intPlaceholders.filter(i => (tokens[i] as { v: string }).v === '0').length;
+      let s = intDigits === '0' && minZeros === 0 ? '' : intDigits.padStart(minZeros, '0');
+      s = groupThousands(s);
+      return intPlaceholders.map((_, i) => i === 0 ? s : '');
+    })()
+    : fillInteger(intDigits, intPlaceholders.map(i => (tokens[i] as { v: '0' | '#' | '?' }).v));
+  const decParts = fillDecimals(decDigits, decPlaceholders.map(i => (tokens[i] as { v: '0' | '#' | '?' }).v));
+  const expDigits = tokens.slice(expIdx + 1).filter(t => t.t === 'digit').length;
+
+  let out = '';
+  let intSeen = 0;
+  let decSeen = 0;
+  if (intPlaceholders.length === 0 && intDigits !== '0') out += intDigits;
+  tokens.forEach((t, i) => {
+    if (expIdx !== -1 && i > expIdx && t.t === 'digit') return;
+    switch (t.t) {
+      case 'digit':
+        out += i < intEnd ? intParts[intSeen++] : decParts[decSeen++];
+        break;
+      case 'point': out += '.'; break;
+      case 'percent': out += '%'; break;
+      case 'exp': {
+        const sign = exponent < 0 ? '-' : t.sign === '+' ? '+' : '';
+        out += 'E' + sign + String(Math.abs(exponent)).padStart(expDigits, '0');
+        break;
+      }
+      case 'lit': out += t.v; break;
+      case 'date': out += t.v; break;
+      default: break;
+    }
+  });
+  return out;
+};
+
+// --- DATE SECTIONS ---
+const formatDate = (serial: number, tokens: FmtToken[]) => {
+  const p = serialToParts(serial);
+  const twelveHour = tokens.some(t => t.t === 'ampm');
+  const dateTokens = tokens.map((t, i) => ({ t, i })).filter(x => x.t.t === 'date' || x.t.t === 'elapsed');
+  const isMinute = (idx: number) => {
+    const pos = dateTokens.findIndex(x => x.i === idx);
+    const prev = dateTokens[pos - 1]?.t;
+    const next = dateTokens[pos + 1]?.t;
+    const prevIsHour = prev && (prev as { v: string }).v.startsWith('h');
+    const nextIsSecond = next && (next as { v: string }).v.startsWith('s');
+    return !!(prevIsHour || nextIsSecond);
+  };
+  const pad = (n: number, len: number) => String(n).padStart(len, '0');
+  let out = '';
+  tokens.forEach((t, i) => {
+    if (t.t === 'lit') out += t.v;
+    else if (t.t === 'ampm') {
+      const pm = p.hours >= 12;
+      out += t.v.length > 3 ? (pm ? 'PM' : 'AM') : (pm ? 'P' : 'A');
+    } else if (t.t === 'elapsed') {
+      const total = Math.round(serial * 86400);
+      if (t.v[0] === 'h') out += pad(Math.floor(total / 3600), t.v.length);
+      else if (t.v[0] === 'm') out += pad(Math.floor(total / 60), t.v.length);
+      else out += pad(total, t.v.length);
+    } else if (t.t === 'date') {
+      const v = t.v;
+      switch (v[0]) {
+        case 'y': out += v.length <= 2 ? pad(p.year % 100, 2) : String(p.year); break;
+        case 'd':
+          if (v.length === 1) out += p.day;
+          else if (v.length === 2) out += pad(p.day, 2);
+          else if (v.length === 3) out += DAYS[p.weekday].slice(0, 3);
+          else out += DAYS[p.weekday];
+          break;
+        case 'h': {
+          const h = twelveHour ? (p.hours % 12 || 12) : p.hours;
+          out += v.length === 1 ? h : pad(h, 2);
+          break;
+        }
+        case 's': out += v.length === 1 ? p.seconds : pad(p.seconds, 2); break;
+        case 'm':
+          if (v.length <= 2 && isMinute(i)) out += v.length === 1 ? p.minutes : pad(p.minutes, 2);
+          else if (v.length === 1) out += p.month;
+          else if (v.length === 2) out += pad(p.month, 2);
+          else if (v.length === 3) out += MONTHS[p.month - 1].slice(0, 3);
+          else if (v.length === 5) out += MONTHS[p.month - 1][0];
+          else out += MONTHS[p.month - 1];
+          break;
+      }
+    } else if (t.t === 'digit') out += t.v === '0' ? '0' : '';
+    else if (t.t === 'point') out += '.';
+    else if (t.t === 'comma') out += ',';
+    else if (t.t === 'percent') out += '%';
+  });
+  return out;
+};
+
+// --- PUBLIC API ---
+export const applyFormat = (value: number | string, fmt: string): FormattedValue => {
+  if (!fmt || fmt.toLowerCase() === 'general') {
+    return { text: typeof value === 'number' ? formatGeneral(value) : value };
+  }
+  const sections = getSections(fmt);
+  if (typeof value === 'string') {
+    const textSection = sections[3] ?? sections.find(s => s.tokens.some(t => t.t === 'text'));
+    if (!textSection) return { text: value };
+    const text = textSection.tokens.map(t => t.t === 'text' ? value : t.t === 'lit' ? t.v : '').join('');
+    return { text, color: textSection.color };
+  }
+  if (!isFinite(value)) return { text: '#NUM!' };
+  let section = sections[0];
+  let v = value;
+  let sign = '';
+  if (value < 0 && sections.length > 1) { section = sections[1]; v = -value; }
+  else if (value === 0 && sections.length > 2) section = sections[2];
+  else if (value < 0) { v = -value; sign = '-'; }
+  if (section.isDate) {
+    if (value < 0) return { text: '#'.repeat(8) };
+    return { text: formatDate(value, section.tokens), color: section.color };
+  }
+  if (!section.tokens.some(t => t.t === 'digit')) {
+    return { text: section.tokens.map(t => t.t === 'lit' ? t.v : t.t === 'percent' ? '%' : '').join(''), color: section.color };
+  }
+  const text = formatNumeric(v, section.tokens);
+  // A negative that rounds to zero under the format loses its sign, as in Excel.
+  return { text: sign && /[1-9]/.test(text) ? sign + text : text, color: section.color };
+};
+
+export const formatNumber = (value: number | string, fmt: string) => applyFormat(value, fmt).text;
+
+// Adds or removes one decimal place in every numeric section of a format,
+// e.g. "#,##0" -> "#,##0.0" -> "#,##0.00". Date sections are left alone.
+export const adjustDecimals = (fmt: string | undefined, delta: 1 | -1): string => {
+  const base = !fmt || fmt.toLowerCase() === 'general' ? '0' : fmt;
+  return splitSections(base).map(sec => {
+    if (parseSection(sec).isDate) return sec;
+    let point = -1;
+    let lastDigit = -1;
+    for (let i = 0; i < sec.length; i++) {
+      const ch = sec[i];
+      if (ch === '"') { i = sec.indexOf('"', i + 1); if (i < 0) break; continue; }
+      if (ch === '[') { i = sec.indexOf(']', i); if (i < 0) break; continue; }
+      if (ch === '\\' || ch === '_' || ch === '*') { i++; continue; }
+      // The exponent's digits are not decimals.
+      if ((ch === 'E' || ch === 'e') && (sec[i + 1] === '+' || sec[i + 1] === '-')) break;
+      if (ch === '.' && point < 0) point = i;
+      else if (ch === '0' || ch === '#' || ch === '?') lastDigit = i;
+    }
+    if (lastDigit < 0) return sec;
+    const before = sec.slice(0, lastDigit + 1);
+    const after = sec.slice(lastDigit + 1);
+    if (delta > 0) return point < 0 ? `${before}.0${after}` : `${before}0${after}`;
+    if (point < 0 || lastDigit < point) return sec;
+    return lastDigit - point === 1 ? sec.slice(0, point) + after : sec.slice(0, lastDigit) + after;
+  }).join(';');
+};
@@ -0,0 +1,322 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellAddress, CellRange, forEachInRange, inRange, indexToCol, rangesOverlap, toCellId } from './cellRef.ts';
+import { CellData, CellMap, cellNumFmt } from './engine.ts';
+import { quoteSheetName } from './formula.ts';
+import type { CellStyle } from './style.ts';
+import { CellError, CellValue, Scalar, compareValues, formatValue, isError } from './values.ts';
+import type { Sheet, Workbook } from './workbook.ts';
+
+// --- PIVOT TABLES ---
+// A pivot table is stored on the sheet that shows it, anchored at `at`, and
+// summarizes `source`: a range on any sheet whose first row names the fields.
+// Fields are column offsets into the source. The output is ordinary cells,
+// rewritten whenever the source changes; `extent` is the area last written,
+// so cells that fall out of the table can be cleared.
+export type Aggregation = 'sum' | 'count' | 'average' | 'min' | 'max' | 'distinct';
+
+export const AGGREGATIONS: { agg: Aggregation; label: string }[] = [
+  { agg: 'sum', label: 'Sum' },
+  { agg: 'count', label: 'Count' },
+  { agg: 'average', label: 'Average' },
+  { agg: 'min', label: 'Min' },
+  { agg: 'max', label: 'Max' },
+  { agg: 'distinct', label: 'Distinct Count' }
+];
+
+export interface PivotValue { field: number; agg: Aggregation; }
+
+// `values` lists the displayed texts to keep ('' keeps blanks); absent keeps all.
+export interface PivotFilter { field: number; values?: string[]; }
+
+export interface PivotTable {
+  id: string;
+  source: { sheetId: string; range: CellRange };
+  at: CellAddress;
+  rows: number[];
+  columns: number[];
+  values: PivotValue[];
+  filters: PivotFilter[];
+  extent?: CellRange;
+}
+
+export type ValueReader = (sheetId: string, id: string) => CellValue;
+
+interface Item { text: string; value: CellValue; }
+
+const BLANK_LABEL = '(blank)';
+const label = (text: string) => text === '' ? BLANK_LABEL : text;
+
+// Field names from the header row; blank headers fall back to the column letter.
+export const pivotFields = (sheet: Sheet, range: CellRange, read: ValueReader) => {
+  const names: string[] = [];
+  for (let c = range.c1; c <= range.c2; c++) {
+    const id = toCellId(c, range.r1);
+    names.push(formatValue(read(sheet.id, id), cellNumFmt(sheet.cells[id])).text.trim() || `Column ${indexToCol(c)}`);
+  }
+  return names;
+};
+
+// The data rows of the source as displayed text and value per field,
+// skipping rows that are entirely blank.
+const readRecords = (sheet: Sheet, range: CellRange, read: ValueReader): Item[][] => {
+  const records: Item[][] = [];
+  for (let r = range.r1 + 1; r <= range.r2; r++) {
+    const items: Item[] = [];
+    for (let c = range.c1; c <= range.c2; c++) {
+      const id = toCellId(c, r);
+      const value = read(sheet.id, id);
+      items.push({ value, text: formatValue(value, cellNumFmt(sheet.cells[id])).text });
+    }
+    if (items.some(i => i.text !== '')) records.push(items);
+  }
+  return records;
+};
+
+// Blanks sort last; otherwise Excel's order (numbers, then text, then booleans).
+const compareItems = (a: Item, b: Item) => {
+  if (a.text === '' || b.text === '') return (a.text === '' ? 1 : 0) - (b.text === '' ? 1 : 0);
+  if (isError(a.value) || isError(b.value)) return a.text < b.text ? -1 : a.text > b.text ? 1 : 0;
+  return compareValues(a.value as Scalar, b.value as Scalar);
+};
+
+// Distinct displayed values of a field, in sort order, for the filter list.
+export const pivotFieldValues = (sheet: Sheet, range: CellRange, field: number, read: ValueReader) => {
+  const seen = new Map<string, Item>();
+  readRecords(sheet, range, read).forEach(rec => { if (!seen.has(rec[field].text)) seen.set(rec[field].text, rec[field]); });
+  return [...seen.values()].sort(compareItems).map(i => i.text);
+};
+
+// --- AGGREGATION ---
+interface Accumulator { count: number; numbers: number; sum: number; min: number; max: number; distinct: Set<string>; }
+
+const accumulate = (acc: Accumulator | undefined, item: Item): Accumulator => {
+  const a = acc ?? { count: 0, numbers: 0, sum: 0, min: Infinity, max: -Infinity, distinct: new Set<string>() };
+  if (item.text === '') return a;
+  a.count++;
+  a.distinct.add(item.text.toLowerCase());
+  if (typeof item.value === 'number') {
+    a.numbers++;
+    a.sum += item.value;
+    a.min = Math.min(a.min, item.value);
+    a.max = Math.max(a.max, item.value);
+  }
+  return a;
+};
+
+// Like Excel: numeric aggregates ignore text, and an average of nothing is #DIV/0!.
+const aggregate = (acc: Accumulator | undefined, agg: Aggregation): CellValue => {
+  if (!acc) return null;
+  switch (agg) {
+    case 'sum': return acc.sum;
+    case 'count': return acc.count;
+    case 'average': return acc.numbers ? acc.sum / acc.numbers : new CellError('#DIV/0!');
+    case 'min': return acc.numbers ? acc.min : 0;
+    case 'max': return acc.numbers ? acc.max : 0;
+    case 'distinct': return acc.distinct.size;
+  }
+};
+
+interface RowNode { item: Item; children: Map<string, RowNode>; }
+
+const sortedChildren = (node: RowNode) => [...node.children.values()].sort((a, b) => compareItems(a.item, b.item));
+
+const rawOf = (v: CellValue) =>
+  v === null ? '' : typeof v === 'boolean' ? (v ? 'TRUE' : 'FALSE') : isError(v) ? v.code : String(v);
+
+const HEADER: CellStyle = { bold: true, border: { bottom: { style: 'thin' } } };
+const TOTAL: CellStyle = { bold: true };
+const GRAND_TOTAL: CellStyle = { bold: true, border: { top: { style: 'thin' } } };
+
+// --- LAYOUT ---
+// Tabular form: one header column per row field and one header row per
+// column field, above a row naming the value columns. Each data column is a
+// column-field combination times a value field, followed by grand total
+// columns. Row groups above the innermost level get a subtotal row, and a
+// grand total row closes the table. Returns null when the source is gone.
+export const pivotOutput = (
+  pivot: PivotTable, wb: Workbook, read: ValueReader
+): { cells: CellMap; extent: CellRange } | null => {
+  const sheet = wb.sheets.find(s => s.id === pivot.source.sheetId);
+  if (!sheet) return null;
+  const { range } = pivot.source;
+  const names = pivotFields(sheet, range, read);
+  // Fields past the source's last column (after it was narrowed) drop out.
+  const rows = pivot.rows.filter(f => f < names.length);
+  const columns = pivot.columns.filter(f => f < names.length);
+  const values = pivot.values.filter(v => v.field < names.length);
+  const filters = pivot.filters.filter(f => f.field < names.length);
+  const records = readRecords(sheet, range, read).filter(rec =>
+    filters.every(f => !f.values || f.values.includes(rec[f.field]?.text ?? '')));
+
+  // Totals for every row-path prefix, crossed with each column path and with none (the row's grand total).
+  const accs = new Map<string, Accumulator>();
+  const key = (rowPath: string[], colPath: string[] | null, v: number) => JSON.stringify([rowPath, colPath, v]);
+  const root: RowNode = { item: { text: '', value: null }, children: new Map() };
+  const colPaths = new Map<string, Item[]>();
+
+  records.forEach(rec => {
+    const rowItems = rows.map(f => rec[f]);
+    const colItems = columns.map(f => rec[f]);
+    const colPath = colItems.map(i => i.text);
+    if (columns.length) colPaths.set(JSON.stringify(colPath), colItems);
+    let node = root;
+    rowItems.forEach(item => {
+      if (!node.children.has(item.text)) node.children.set(item.text, { item, children: new Map() });
+      node = node.children.get(item.text)!;
+    });
+    for (let depth = 0; depth <= rowItems.length; depth++) {
+      const rowPath = rowItems.slice(0, depth).map(i => i.text);
+      values.forEach((v, vi) => {
+        const item = rec[v.field];
+        accs.set(key(rowPath, null, vi), accumulate(accs.get(key(rowPath, null, vi)), item));
+        if (columns.length) accs.set(key(rowPath, colPath, vi), accumulate(accs.get(key(rowPath, colPath, vi)), item));
+      });
+    }
+  });
+
+  const sortedCols = [...colPaths.values()].sort((a, b) => {
+    for (let i = 0; i < a.length; i++) {
+      const c = compareItems(a[i], b[i]);
+      if (c) return c;
+    }
+    return 0;
+  });
+  const dataCols: { colPath: string[] | null; v: number }[] = [];
+  sortedCols.forEach(items => values.forEach((_, v) => dataCols.push({ colPath: items.map(i => i.text), v })));
+  values.forEach((_, v) => dataCols.push({ colPath: null, v }));
+
+  const cells: CellMap = {};
+  let width = 0;
+  let height = 0;
+  const put = (dc: number, dr: number, raw: string, s?: CellStyle) => {
+    width = Math.max(width, dc + 1);
+    height = Math.max(height, dr + 1);
+    if (raw === '' && !s) return;
+    cells[toCellId(pivot.at.col + dc, pivot.at.row + dr)] = s ? { v: raw, s } : { v: raw };
+  };
+
+  const rowHeaders = Math.max(1, rows.length);
+  const headerRows = columns.length + 1;
+  const valueName = (v: PivotValue) => `${AGGREGATIONS.find(a => a.agg === v.agg)?.label} of ${names[v.field] ?? '?'}`;
+  // Numeric aggregates keep the source field's number format.
+  const valueFmt = (v: PivotValue) => v.agg === 'count' || v.agg === 'distinct'
+    ? undefined : cellNumFmt(sheet.cells[toCellId(range.c1 + v.field, range.r1 + 1)]);
+
+  columns.forEach((field, level) => {
+    put(0, level, names[field], TOTAL);
+    dataCols.forEach((col, j) => {
+      const prev = dataCols[j - 1];
+      if (col.colPath === null) {
+        if (level === 0 && prev?.colPath !== null) put(rowHeaders + j, 0, 'Grand Total', TOTAL);
+        return;
+      }
+      const changed = !prev || prev.colPath === null || col.colPath.slice(0, level + 1).join('\u0000') !== prev.colPath.slice(0, level + 1).join('\u0000');
+      if (changed) put(rowHeaders + j, level, label(col.colPath[level]), TOTAL);
+    });
+  });
+  const last = headerRows - 1;
+  for (let i = 0; i < rowHeaders; i++) put(i, last, rows.length ? names[rows[i]] : '', HEADER);
+  dataCols.forEach((col, j) => put(rowHeaders + j, last, valueName(values[col.v]), HEADER));
+
+  let row = headerRows;
+  const valuesRow = (rowPath: string[], style?: CellStyle) => dataCols.forEach((col, j) => {
+    const value = aggregate(accs.get(key(rowPath, col.colPath, col.v)), values[col.v].agg);
+    const fmt = valueFmt(values[col.v]);
+    put(rowHeaders + j, row, rawOf(value), fmt || style ? { ...style, ...(fmt ? { numFmt: fmt } : {}) } : undefined);
+  });
+
+  if (!rows.length) {
+    put(0, row, 'Total', TOTAL);
+    valuesRow([], TOTAL);
+    row++;
+  } else {
+    // Parent labels print once per group, on the group's first row.
+    let printed: string[] = [];
+    const walk = (node: RowNode, level: number, path: string[]) => sortedChildren(node).forEach(child => {
+      const childPath = [...path, child.item.text];
+      if (level < rows.length - 1) {
+        walk(child, level + 1, childPath);
+        put(level, row, `${label(child.item.text)} Total`, TOTAL);
+        valuesRow(childPath, TOTAL);
+        row++;
+        printed = [];
+        return;
+      }
+      childPath.forEach((text, l) => {
+        if (printed.slice(0, l + 1).join('\u0000') !== childPath.slice(0, l + 1).join('\u0000')) put(l, row, label(text));
+      });
+      printed = childPath;
+      valuesRow(childPath);
+      row++;
+    });
+    walk(root, 0, []);
+    put(0, row, 'Grand Total', GRAND_TOTAL);
+    for (let i = 1; i < rowHeaders; i++) put(i, row, '', GRAND_TOTAL);
+    valuesRow([], GRAND_TOTAL);
+    row++;
+  }
+
+  return {
+    cells,
+    extent: { c1: pivot.at.col, r1: pivot.at.row, c2: pivot.at.col + width - 1, r2: pivot.at.row + height - 1 }
+  };
+};
+
+// --- REFRESH ---
+const sameCell = (a: CellData | undefined, b: CellData | undefined) =>
+  (a?.v ?? '') === (b?.v ?? '') && JSON.stringify(a?.s ?? null) === JSON.stringify(b?.s ?? null);
+
+// Whether writing `extent` for `pivot` would cover anything that isn't its
+// own output: cells with content, or another pivot table.
+const collides = (sheet: Sheet, cells: CellMap, pivot: PivotTable, extent: CellRange) => {
+  if (sheet.pivots?.some(p => p.id !== pivot.id && p.extent && rangesOverlap(p.extent, extent))) return true;
+  let found = false;
+  forEachInRange(extent, (col, row) => {
+    if (!found && !(pivot.extent && inRange(pivot.extent, col, row))) found = (cells[toCellId(col, row)]?.v ?? '') !== '';
+  });
+  return found;
+};
+
+// Recomputes every pivot table in the workbook and returns the workbook with
+// their outputs rewritten, plus the cell changes per sheet id for the engine;
+// null when everything is already current. A table that would overlap its
+// own source is left alone, since rewriting it would feed back into itself.
+// One that has grown onto other cells keeps its last output, and is listed
+// in `blocked` (as Sheet!A1) so the user can make room.
+export const refreshPivots = (wb: Workbook, read: ValueReader) => {
+  const changes: Record<string, Record<string, CellData | undefined>> = {};
+  const blocked: string[] = [];
+  let changed = false;
+  const sheets = wb.sheets.map(sheet => {
+    if (!sheet.pivots?.length) return sheet;
+    const cells = { ...sheet.cells };
+    const delta: Record<string, CellData | undefined> = {};
+    const pivots = sheet.pivots.map(pivot => {
+      const out = pivotOutput(pivot, wb, read);
+      if (!out || (pivot.source.sheetId === sheet.id && rangesOverlap(out.extent, pivot.source.range))) return pivot;
+      if (collides(sheet, cells, pivot, out.extent)) {
+        blocked.push(`${quoteSheetName(sheet.name)}!${toCellId(pivot.at.col, pivot.at.row)}`);
+        return pivot;
+      }
+      if (pivot.extent) forEachInRange(pivot.extent, (col, row) => {
+        const id = toCellId(col, row);
+        if (!out.cells[id] && cells[id]) delta[id] = undefined;
+      });
+      Object.entries(out.cells).forEach(([id, cell]) => { if (!sameCell(cells[id], cell)) delta[id] = cell; });
+      Object.entries(delta).forEach(([id, cell]) => { if (cell) cells[id] = cell; else delete cells[id]; });
+      return JSON.stringify(out.extent) === JSON.stringify(pivot.extent) ? pivot : { ...pivot, extent: out.extent };
+    });
+    if (!Object.keys(delta).length && pivots.every((p, i) => p === sheet.pivots![i])) return sheet;
+    changed = true;
+    if (Object.keys(delta).length) changes[sheet.id] = delta;
+    return { ...sheet, cells, pivots };
+  });
+  return changed || blocked.length ? { workbook: changed ? { ...wb, sheets } : wb, changes, blocked } : null;
+};
+
+// The pivot table whose output covers a cell, if any.
+export const pivotAt = (sheet: Sheet, col: number, row: number) =>
+  sheet.pivots?.find(p => p.extent && inRange(p.extent, col, row));
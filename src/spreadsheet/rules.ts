@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellRange } from './cellRef.ts';
+import { shiftFormula } from './formula.ts';
+import { CellValue, Scalar, Value, compareValues, isError, parseInput, toBoolean, toScalar } from './values.ts';
+
+// --- RULE OPERANDS ---
+// Conditional formats and validations both test cells against operands. An
+// operand is literal text ("100", "Done") or a formula starting with "=",
+// written for the top-left cell of the rule's range and shifted for the
+// others, the way Excel treats relative references in rules.
+export type CompareOp = 'between' | 'notBetween' | 'eq' | 'neq' | 'gt' | 'lt' | 'gte' | 'lte';
+
+export const COMPARE_OPS: { op: CompareOp; label: string }[] = [
+  { op: 'between', label: 'between' },
+  { op: 'notBetween', label: 'not between' },
+  { op: 'eq', label: 'equal to' },
+  { op: 'neq', label: 'not equal to' },
+  { op: 'gt', label: 'greater than' },
+  { op: 'lt', label: 'less than' },
+  { op: 'gte', label: 'greater than or equal to' },
+  { op: 'lte', label: 'less than or equal to' }
+];
+
+export const isRangeOp = (op: CompareOp) => op === 'between' || op === 'notBetween';
+
+// Evaluates a formula body on the rule's sheet; the engine supplies it.
+export type FormulaEvaluator = (src: string) => Value;
+
+export const formulaAt = (src: string, range: CellRange, col: number, row: number) =>
+  shiftFormula(src, col - range.c1, row - range.r1);
+
+export const operandAt = (
+  operand: string, range: CellRange, col: number, row: number, evaluate: FormulaEvaluator
+): Value => operand.startsWith('=') ? evaluate(formulaAt(operand.slice(1), range, col, row)) : parseInput(operand);
+
+export const compareWith = (op: CompareOp, value: CellValue, a: CellValue, b: CellValue = null) => {
+  if (isError(value) || isError(a) || isError(b)) return false;
+  const cmp = (x: Scalar) => compareValues(value as Scalar, x);
+  switch (op) {
+    case 'between': return (cmp(a) >= 0 && cmp(b) <= 0) || (cmp(a) <= 0 && cmp(b) >= 0);
+    case 'notBetween': return !compareWith('between', value, a, b);
+    case 'eq': return cmp(a) === 0;
+    case 'neq': return cmp(a) !== 0;
+    case 'gt': return cmp(a) > 0;
+    case 'lt': return cmp(a) < 0;
+    case 'gte': return cmp(a) >= 0;
+    case 'lte': return cmp(a) <= 0;
+  }
+};
+
+// Whether a rule formula's result counts as TRUE; errors never do.
+export const isTruthy = (v: Value) => toBoolean(toScalar(v)) === true;
+
+// Next free id such as "cf3", in the style of chart ids.
+export const nextRuleId = (prefix: string, rules: { id: string }[]) => {
+  const ids = new Set(rules.map(r => r.id));
+  let n = rules.length + 1;
+  while (ids.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellAddress, CellRange, toCellId } from './cellRef.ts';
+import { CellData, CellMap, isFormula } from './engine.ts';
+import { shiftFormula } from './formula.ts';
+import { CellValue, Scalar, compareValues, isError } from './values.ts';
+
+// --- SORTING ---
+export interface SortKey { col: number; descending?: boolean; }
+
+const isBlank = (v: CellValue) => v === null || v === '';
+
+// Excel's order: numbers, text, booleans, then errors; blanks always sort last,
+// whichever the direction.
+const compareCells = (a: CellValue, b: CellValue, descending?: boolean) => {
+  if (isBlank(a) || isBlank(b)) return isBlank(a) === isBlank(b) ? 0 : isBlank(a) ? 1 : -1;
+  const sign = descending ? -1 : 1;
+  if (isError(a) || isError(b)) return isError(a) === isError(b) ? 0 : sign * (isError(a) ? 1 : -1);
+  return sign * compareValues(a as Scalar, b as Scalar);
+};
+
+// The block of filled cells around `at` (what Excel sorts or filters when only
+// one cell is selected): grows until every edge is bordered by empty cells.
+export const currentRegion = (cells: CellMap, at: CellAddress): CellRange => {
+  const filled = (col: number, row: number) => col >= 0 && row >= 0 && (cells[toCellId(col, row)]?.v ?? '') !== '';
+  const r = { c1: at.col, r1: at.row, c2: at.col, r2: at.row };
+  const anyIn = (c1: number, r1: number, c2: number, r2: number) => {
+    for (let row = r1; row <= r2; row++) for (let col = c1; col <= c2; col++) if (filled(col, row)) return true;
+    return false;
+  };
+  for (let grew = true; grew;) {
+    grew = false;
+    if (r.r1 > 0 && anyIn(r.c1 - 1, r.r1 - 1, r.c2 + 1, r.r1 - 1)) { r.r1--; grew = true; }
+    if (anyIn(r.c1 - 1, r.r2 + 1, r.c2 + 1, r.r2 + 1)) { r.r2++; grew = true; }
+    if (r.c1 > 0 && anyIn(r.c1 - 1, r.r1, r.c1 - 1, r.r2)) { r.c1--; grew = true; }
+    if (anyIn(r.c2 + 1, r.r1, r.c2 + 1, r.r2)) { r.c2++; grew = true; }
+  }
+  return r;
+};
+
+// A first row of text over a second row holding any non-text value looks like
+// a header, which is the same guess Excel makes.
+export const looksLikeHeader = (range: CellRange, valueOf: (id: string) => CellValue) => {
+  if (range.r2 <= range.r1) return false;
+  let header = true;
+  let typed = false;
+  for (let col = range.c1; col <= range.c2; col++) {
+    const top = valueOf(toCellId(col, range.r1));
+    const next = valueOf(toCellId(col, range.r1 + 1));
+    if (!isBlank(top) && typeof top !== 'string') header = false;
+    if (!isBlank(next) && typeof next !== 'string') typed = true;
+  }
+  return header && typed;
+};
+
+// Cells to write when the rows of `range` are reordered by `keys` (stable,
+// so rows that tie keep their order). Formulas moving with their row keep
+// their relative references, as when the row is cut and pasted.
+export const sortRange = (
+  cells: CellMap, range: CellRange, keys: SortKey[], hasHeader: boolean, valueOf: (id: string) => CellValue
+): Record<string, CellData | undefined> => {
+  const first = hasHeader ? range.r1 + 1 : range.r1;
+  const rows: number[] = [];
+  for (let row = first; row <= range.r2; row++) rows.push(row);
+  const sorted = [...rows].sort((a, b) => {
+    for (const key of keys) {
+      const d = compareCells(valueOf(toCellId(key.col, a)), valueOf(toCellId(key.col, b)), key.descending);
+      if (d) return d;
+    }
+    return a - b;
+  });
+
+  const changes: Record<string, CellData | undefined> = {};
+  sorted.forEach((from, i) => {
+    const to = rows[i];
+    if (from === to) return;
+    for (let col = range.c1; col <= range.c2; col++) {
+      let cell = cells[toCellId(col, from)];
+      if (cell && isFormula(cell.v)) cell = { ...cell, v: '=' + shiftFormula(cell.v.slice(1), 0, to - from) };
+      changes[toCellId(col, to)] = cell;
+    }
+  });
+  return changes;
+};
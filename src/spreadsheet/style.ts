@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { CSSProperties } from 'react';
+import { CellRange, forEachInRange, toCellId } from './cellRef.ts';
+import type { CellMap } from './engine.ts';
+import { CellValue, isError } from './values.ts';
+
+// --- CELL STYLES ---
+// Stored on each cell as `s`; every property is optional and absent means
+// the sheet default. Colors are CSS hex strings (#rrggbb).
+export type BorderStyle = 'thin' | 'medium' | 'thick' | 'dashed' | 'dotted' | 'double';
+export interface BorderSide { style: BorderStyle; color?: string; }
+
+export interface CellStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  color?: string;
+  fill?: string;
+  border?: { top?: BorderSide; right?: BorderSide; bottom?: BorderSide; left?: BorderSide };
+  hAlign?: 'left' | 'center' | 'right';
+  vAlign?: 'top' | 'middle' | 'bottom';
+  wrap?: boolean;
+  numFmt?: string; // Excel format code, e.g. "#,##0.00" or "yyyy-mm-dd"
+}
+
+// Merges `patch` into a style; properties set to undefined are removed, and
+// an empty result becomes undefined so unstyled cells stay lean.
+export const mergeStyle = (style: CellStyle | undefined, patch: Partial<CellStyle>): CellStyle | undefined => {
+  const out: Record<string, unknown> = { ...style, ...patch };
+  Object.keys(out).forEach(k => { if (out[k] === undefined) delete out[k]; });
+  return Object.keys(out).length ? out as CellStyle : undefined;
+};
+
+// Applies a style patch to every cell of a range, creating blank styled cells
+// where needed. `patchFor` may vary the patch by position (used for borders).
+export const styleRange = (
+  cells: CellMap, range: CellRange,
+  patchFor: (col: number, row: number, style: CellStyle | undefined) => Partial<CellStyle>
+): CellMap => {
+  const next = { ...cells };
+  forEachInRange(range, (col, row) => {
+    const id = toCellId(col, row);
+    const cell = next[id];
+    const s = mergeStyle(cell?.s, patchFor(col, row, cell?.s));
+    if (cell) {
+      const { s: _old, ...rest } = cell;
+      next[id] = s ? { ...rest, s } : rest;
+      if (!s && cell.v === '') delete next[id];
+    } else if (s) {
+      next[id] = { v: '', s };
+    }
+  });
+  return next;
+};
+
+export const clearStyles = (cells: CellMap, range: CellRange) =>
+  styleRange(cells, range, (_col, _row, style) =>
+    Object.fromEntries(Object.keys(style ?? {}).map(k => [k, undefined])) as Partial<CellStyle>);
+
+export type BorderPreset = 'all' | 'outer' | 'top' | 'bottom' | 'left' | 'right' | 'none';
+
+export const applyBorders = (cells: CellMap, range: CellRange, preset: BorderPreset, side: BorderSide = { style: 'thin' }) =>
+  styleRange(cells, range, (col, row, style) => {
+    if (preset === 'none') return { border: undefined };
+    const edge = {
+      top: row === range.r1, bottom: row === range.r2, left: col === range.c1, right: col === range.c2
+    };
+    const wants = (name: keyof typeof edge) =>
+      preset === 'all' || (preset === 'outer' ? edge[name] : preset === name && edge[name]);
+    const border = { ...style?.border };
+    (['top', 'right', 'bottom', 'left'] as const).forEach(name => { if (wants(name)) border[name] = side; });
+    return { border };
+  });
+
+// --- RENDERING ---
+const CSS_BORDER: Record<BorderStyle, string> = {
+  thin: '1px solid', medium: '2px solid', thick: '3px solid', dashed: '1px dashed', dotted: '1px dotted', double: '3px double'
+};
+
+// "Automatic" (uncolored) borders are black in Excel; on the dark grid they're drawn light.
+const borderCss = (b?: BorderSide) => b ? `${CSS_BORDER[b.style]} ${b.color ?? '#c8c8d0'}` : undefined;
+
+// Light fills get dark text and vice versa when no font color is set.
+const contrastText = (fill: string) => {
+  const hex = fill.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) || 0);
+  return r * 0.299 + g * 0.587 + b * 0.114 > 150 ? '#111111' : '#e8e8ec';
+};
+
+// Styles for the cell box (fill) and for the text inside it. Without an
+// explicit alignment numbers sit right, booleans and errors centered, text left.
+export const cellCss = (style: CellStyle | undefined, value: CellValue, formatColor?: string) => {
+  const box: CSSProperties = {};
+  const text: CSSProperties = {};
+  if (style?.fill) box.backgroundColor = style.fill;
+  const color = formatColor ?? style?.color ?? (style?.fill ? contrastText(style.fill) : undefined);
+  if (color) text.color = color;
+  if (style?.bold) text.fontWeight = 700;
+  if (style?.italic) text.fontStyle = 'italic';
+  const decoration = [style?.underline && 'underline', style?.strike && 'line-through'].filter(Boolean).join(' ');
+  if (decoration) text.textDecoration = decoration;
+  text.textAlign = style?.hAlign ?? (typeof value === 'number' ? 'right' : typeof value === 'boolean' || isError(value) ? 'center' : 'left');
+  box.alignItems = style?.vAlign === 'top' ? 'flex-start' : style?.vAlign === 'bottom' ? 'flex-end' : 'center';
+  return { box, text };
+};
+
+// Border overlay: drawn over the grid lines, so it extends one pixel up and
+// left onto the neighbours' lines and covers the cell's own right/bottom lines.
+export const borderOverlayCss = (style: CellStyle | undefined): CSSProperties | null => {
+  const b = style?.border;
+  if (!b || !(b.top || b.right || b.bottom || b.left)) return null;
+  return {
+    position: 'absolute', top: -1, left: -1, right: -1, bottom: -1, pointerEvents: 'none', boxSizing: 'border-box',
+    borderTop: borderCss(b.top), borderRight: borderCss(b.right), borderBottom: borderCss(b.bottom), borderLeft: borderCss(b.left)
+  };
+};
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellRange, inRange } from './cellRef.ts';
+import { parseDateText } from './dates.ts';
+import { COMPARE_OPS, CompareOp, FormulaEvaluator, compareWith, isRangeOp, isTruthy, operandAt } from './rules.ts';
+import { CellValue, RangeValue, isError, toScalar, toText } from './values.ts';
+
+// --- DATA VALIDATION ---
+// Checked when a cell is edited by hand. `value1` holds the list source for
+// dropdowns ("Open,Done" or "=$H$1:$H$5"), the formula for custom rules and
+// the first bound otherwise. A "stop" rule rejects entries that fail it; a
+// "warning" rule asks before accepting them.
+export type ValidationType = 'list' | 'whole' | 'decimal' | 'date' | 'textLength' | 'custom';
+
+export interface ValidationRule {
+  id: string;
+  range: CellRange;
+  type: ValidationType;
+  op?: CompareOp; // whole, decimal, date and textLength; defaults to between
+  value1?: string;
+  value2?: string;
+  allowBlank?: boolean;
+  errorStyle: 'stop' | 'warning';
+  message?: string;
+}
+
+export const VALIDATION_TYPES: { type: ValidationType; label: string }[] = [
+  { type: 'list', label: 'List' },
+  { type: 'whole', label: 'Whole number' },
+  { type: 'decimal', label: 'Decimal' },
+  { type: 'date', label: 'Date' },
+  { type: 'textLength', label: 'Text length' },
+  { type: 'custom', label: 'Custom formula' }
+];
+
+// Rules may not overlap; the last one added wins if they ever do.
+export const validationAt = (rules: ValidationRule[] | undefined, col: number, row: number) =>
+  rules?.slice().reverse().find(r => inRange(r.range, col, row));
+
+// Dropdown entries, from a comma-separated list or the cells of a range.
+export const listItems = (rule: ValidationRule, col: number, row: number, evaluate: FormulaEvaluator): string[] => {
+  const source = rule.value1 ?? '';
+  if (!source.startsWith('=')) return source.split(',').map(s => s.trim()).filter(Boolean);
+  const result = operandAt(source, rule.range, col, row, evaluate);
+  const values = result instanceof RangeValue ? result.values() : [result];
+  return values.map(v => toText(v)).filter((t): t is string => typeof t === 'string' && t !== '');
+};
+
+// Dates may be typed as text ("2024-03-31") wherever a number is expected.
+const asDate = (v: CellValue) => typeof v === 'string' ? parseDateText(v) : typeof v === 'number' ? v : null;
+
+// Whether `value`, about to be entered at (col, row), passes the rule. For
+// custom rules `evaluate` must already see the new value in place.
+export const passesValidation = (
+  rule: ValidationRule, col: number, row: number, value: CellValue, evaluate: FormulaEvaluator
+): boolean => {
+  if (value === null || value === '') return rule.allowBlank !== false;
+  const operand = (text: string | undefined) => text === undefined ? null : toScalar(operandAt(text, rule.range, col, row, evaluate));
+  const op = rule.op ?? 'between';
+  const check = (v: CellValue, convert: (x: CellValue) => CellValue = x => x) =>
+    compareWith(op, v, convert(operand(rule.value1)), isRangeOp(op) ? convert(operand(rule.value2)) : null);
+
+  switch (rule.type) {
+    case 'list': {
+      const text = toText(value);
+      return typeof text === 'string' && listItems(rule, col, row, evaluate).some(i => i.toLowerCase() === text.toLowerCase());
+    }
+    case 'whole': return typeof value === 'number' && Number.isInteger(value) && check(value);
+    case 'decimal': return typeof value === 'number' && check(value);
+    case 'date': {
+      const serial = asDate(value);
+      return serial !== null && check(serial, asDate);
+    }
+    case 'textLength': {
+      const text = toText(value);
+      return !isError(text) && check(text.length);
+    }
+    case 'custom': return isTruthy(operandAt(rule.value1 ?? '', rule.range, col, row, evaluate));
+  }
+};
+
+// What the entry had to be, for the error prompt when the rule has no message.
+export const describeValidation = (rule: ValidationRule) => {
+  if (rule.message) return rule.message;
+  const op = rule.op ?? 'between';
+  const opLabel = COMPARE_OPS.find(o => o.op === op)?.label ?? op;
+  const bounds = isRangeOp(op) ? `${rule.value1 ?? ''} and ${rule.value2 ?? ''}` : rule.value1 ?? '';
+  switch (rule.type) {
+    case 'list': return 'The value must be one of the items in the list.';
+    case 'whole': return `The value must be a whole number ${opLabel} ${bounds}.`;
+    case 'decimal': return `The value must be a number ${opLabel} ${bounds}.`;
+    case 'date': return `The value must be a date ${opLabel} ${bounds}.`;
+    case 'textLength': return `The text length must be ${opLabel} ${bounds}.`;
+    case 'custom': return `The value doesn't satisfy ${rule.value1 ?? ''}.`;
+  }
+};
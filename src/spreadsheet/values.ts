@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { FormattedValue, applyFormat, formatGeneral } from './numberFormat.ts';
+
+// --- VALUES ---
+// #CIRC! is NexOffice's own code for cells caught in a circular reference.
+export type ErrorCode = '#REF!' | '#DIV/0!' | '#NAME?' | '#VALUE!' | '#N/A' | '#NUM!' | '#NULL!' | '#CIRC!';
+export const ERROR_CODES: ErrorCode[] = ['#REF!', '#DIV/0!', '#NAME?', '#VALUE!', '#N/A', '#NUM!', '#NULL!', '#CIRC!'];
+
+export class CellError {
+  constructor(readonly code: ErrorCode, readonly detail?: string) {}
+  toString() { return this.code; }
+}
+
+export const isError = (v: unknown): v is CellError => v instanceof CellError;
+
+// null is an empty cell; it reads as 0 in arithmetic and "" in text contexts.
+export type Scalar = number | string | boolean | null;
+export type CellValue = Scalar | CellError;
+
+// A rectangular block of values produced by a range reference or a function
+// returning several cells (e.g. XLOOKUP with a multi-column return array).
+export class RangeValue {
+  constructor(readonly rows: CellValue[][]) {}
+  get height() { return this.rows.length; }
+  get width() { return this.rows[0]?.length ?? 0; }
+  values() { return this.rows.flat(); }
+}
+
+export type Value = CellValue | RangeValue;
+
+// --- INPUT PARSING ---
+const NUMBER_RE = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+export const parseNumber = (text: string): number | null => {
+  let s = text.trim();
+  if (!s) return null;
+  let percent = false;
+  if (s.endsWith('%')) { percent = true; s = s.slice(0, -1).trim(); }
+  s = s.replace(/^([+-]?)\$/, '$1');
+  if (/^[+-]?\d{1,3}(,\d{3})+(\.\d*)?$/.test(s)) s = s.replace(/,/g, '');
+  if (!NUMBER_RE.test(s)) return null;
+  const n = parseFloat(s);
+  return percent ? n / 100 : n;
+};
+
+// Turns raw (non-formula) cell text into a typed value.
+export const parseInput = (raw: string | undefined): CellValue => {
+  if (raw === undefined || raw === '') return null;
+  const n = parseNumber(raw);
+  if (n !== null) return n;
+  const upper = raw.trim().toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE') return false;
+  const err = ERROR_CODES.find(c => c === upper);
+  if (err) return new CellError(err);
+  return raw;
+};
+
+// --- COERCION ---
+export const toNumber = (v: CellValue): number | CellError => {
+  if (v === null) return 0;
+  if (typeof v === 'number') return v;
+  if (typeof v === 'boolean') return v ? 1 : 0;
+  if (isError(v)) return v;
+  const n = parseNumber(v);
+  return n === null ? new CellError('#VALUE!') : n;
+};
+
+export const toText = (v: CellValue): string | CellError => {
+  if (v === null) return '';
+  if (typeof v === 'number') return formatGeneral(v);
+  if (typeof v === 'boolean') return v ? 'TRUE' : 'FALSE';
+  if (isError(v)) return v;
+  return v;
+};
+
+export const toBoolean = (v: CellValue): boolean | CellError => {
+  if (v === null) return false;
+  if (typeof v === 'boolean') return v;
+  if (typeof v === 'number') return v !== 0;
+  if (isError(v)) return v;
+  const upper = v.toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE') return false;
+  return new CellError('#VALUE!');
+};
+
+// Collapses a range to a single value for scalar contexts.
+export const toScalar = (v: Value): CellValue => {
+  if (!(v instanceof RangeValue)) return v;
+  if (v.height === 1 && v.width === 1) return v.rows[0][0];
+  return new CellError('#VALUE!');
+};
+
+// --- COMPARISON ---
+// Orders values the way Excel does: numbers < text < booleans, with text
+// compared case-insensitively and blanks standing in for 0 / "" / FALSE.
+const typeRank = (v: Scalar) => typeof v === 'number' ? 0 : typeof v === 'string' ? 1 : 2;
+
+export const compareValues = (a: Scalar, b: Scalar): number => {
+  if (a === null && b === null) return 0;
+  if (a === null) a = typeof b === 'number' ? 0 : typeof b === 'string' ? '' : false;
+  if (b === null) b = typeof a === 'number' ? 0 : typeof a === 'string' ? '' : false;
+  const ra = typeRank(a);
+  const rb = typeRank(b);
+  if (ra !== rb) return ra - rb;
+  if (typeof a === 'string') {
+    const x = a.toLowerCase();
+    const y = (b as string).toLowerCase();
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+  return Number(a) - Number(b) < 0 ? -1 : Number(a) - Number(b) > 0 ? 1 : 0;
+};
+
+// --- DISPLAY ---
+export const formatValue = (v: Value, numFmt?: string): FormattedValue => {
+  const s = toScalar(v);
+  if (s === null) return { text: '' };
+  if (isError(s)) return { text: s.code };
+  if (typeof s === 'boolean') return { text: s ? 'TRUE' : 'FALSE' };
+  if (numFmt) return applyFormat(s, numFmt);
+  return { text: typeof s === 'number' ? formatGeneral(s) : s };
+};
+
+export const displayValue = (v: Value, numFmt?: string): string => formatValue(v, numFmt).text;
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Chart } from '../charts/chart.ts';
+import type { ConditionalRule } from './conditionalFormat.ts';
+import type { CellMap } from './engine.ts';
+import type { AutoFilter } from './filter.ts';
+import { mapSheetRefs } from './formula.ts';
+import type { PivotTable } from './pivot.ts';
+import type { ValidationRule } from './validation.ts';
+
+// --- WORKBOOK MODEL ---
+// A spreadsheet document's content. Sheets keep a stable `id` so renaming one
+// doesn't disturb anything keyed by it; formulas refer to sheets by name.
+export interface Sheet {
+  id: string;
+  name: string;
+  cells: CellMap;
+  colWidths?: Record<number, number>; // px, by zero-based column
+  freeze?: { rows: number; cols: number };
+  filter?: AutoFilter;
+  charts?: Chart[];
+  conditionalFormats?: ConditionalRule[];
+  validations?: ValidationRule[];
+  pivots?: PivotTable[];
+}
+
+export interface Workbook { sheets: Sheet[]; }
+
+export const createWorkbook = (): Workbook => ({ sheets: [{ id: 'sheet1', name: 'Sheet1', cells: {} }] });
+
+// Older documents stored a single flat cell map as their content; they open
+// as a one-sheet workbook and are saved in the new shape on the next edit.
+export const toWorkbook = (content: any): Workbook => {
+  if (content && Array.isArray(content.sheets) && content.sheets.length > 0) return content;
+  return { sheets: [{ id: 'sheet1', name: 'Sheet1', cells: content && typeof content === 'object' ? content : {} }] };
+};
+
+const newSheetId = (wb: Workbook) => {
+  const ids = new Set(wb.sheets.map(s => s.id));
+  let n = wb.sheets.length + 1;
+  while (ids.has(`sheet${n}`)) n++;
+  return `sheet${n}`;
+};
+
+const nameTaken = (wb: Workbook, name: string, exceptId?: string) =>
+  wb.sheets.some(s => s.id !== exceptId && s.name.toLowerCase() === name.toLowerCase());
+
+// Same rules as Excel, so names survive an xlsx round trip. Returns an error
+// message, or null when the name is usable.
+export const validateSheetName = (wb: Workbook, name: string, exceptId?: string): string | null => {
+  if (!name.trim()) return 'Sheet names cannot be blank.';
+  if (name.length > 31) return 'Sheet names can be at most 31 characters long.';
+  if (/[\\/?*:[\]]/.test(name)) return 'Sheet names cannot contain \\ / ? * : [ or ].';
+  if (name.startsWith("'") || name.endsWith("'")) return 'Sheet names cannot begin or end with an apostrophe.';
+  if (nameTaken(wb, name, exceptId)) return `A sheet named "${name}" already exists.`;
+  return null;
+};
+
+const uniqueName = (wb: Workbook, base: string) => {
+  if (!nameTaken(wb, base)) return base;
+  for (let n = 2; ; n++) {
+    const suffix = ` (${n})`;
+    const name = base.slice(0, 31 - suffix.length) + suffix;
+    if (!nameTaken(wb, name)) return name;
+  }
+};
+
+// Applies `rename` to the sheet references of every formula in the workbook,
+// including those in conditional formats and validation rules.
+const remapFormulas = (sheets: Sheet[], rename: (sheet: string) => string | null): Sheet[] =>
+  sheets.map(sheet => {
+    let changed = false;
+    const remap = (text: string | undefined) => {
+      if (!text?.startsWith('=') || !text.includes('!')) return text;
+      const next = '=' + mapSheetRefs(text.slice(1), rename);
+      changed = changed || next !== text;
+      return next;
+    };
+    const cells: CellMap = {};
+    Object.entries(sheet.cells).forEach(([id, cell]) => {
+      const v = remap(cell.v)!;
+      cells[id] = v === cell.v ? cell : { ...cell, v };
+    });
+    const conditionalFormats = sheet.conditionalFormats?.map(rule =>
+      rule.type === 'cellIs' ? { ...rule, value: remap(rule.value)!, value2: remap(rule.value2) }
+        : rule.type === 'formula' ? { ...rule, formula: remap('=' + rule.formula)!.slice(1) }
+          : rule);
+    const validations = sheet.validations?.map(rule => ({ ...rule, value1: remap(rule.value1), value2: remap(rule.value2) }));
+    return changed ? { ...sheet, cells, conditionalFormats, validations } : sheet;
+  });
+
+// --- OPERATIONS ---
+// Each returns a new workbook; the input is left untouched.
+export const addSheet = (wb: Workbook): { workbook: Workbook; sheet: Sheet } => {
+  let n = wb.sheets.length + 1;
+  while (nameTaken(wb, `Sheet${n}`)) n++;
+  const sheet: Sheet = { id: newSheetId(wb), name: `Sheet${n}`, cells: {} };
+  return { workbook: { ...wb, sheets: [...wb.sheets, sheet] }, sheet };
+};
+
+// Renames a sheet and rewrites formulas that refer to it. Throws when the
+// name is invalid (see validateSheetName).
+export const renameSheet = (wb: Workbook, id: string, name: string): Workbook => {
+  const target = wb.sheets.find(s => s.id === id);
+  if (!target || target.name === name) return wb;
+  const error = validateSheetName(wb, name, id);
+  if (error) throw new Error(error);
+  const old = target.name.toLowerCase();
+  const sheets = wb.sheets.map(s => s.id === id ? { ...s, name } : s);
+  return { ...wb, sheets: remapFormulas(sheets, ref => ref.toLowerCase() === old ? name : ref) };
+};
+
+export const moveSheet = (wb: Workbook, id: string, toIndex: number): Workbook => {
+  const from = wb.sheets.findIndex(s => s.id === id);
+  if (from < 0) return wb;
+  const sheets = [...wb.sheets];
+  const [sheet] = sheets.splice(from, 1);
+  sheets.splice(Math.max(0, Math.min(sheets.length, toIndex)), 0, sheet);
+  return { ...wb, sheets };
+};
+
+// Inserts a copy right after the original. Unqualified references in the
+// copy point at the copy, like Excel's "Move or Copy".
+export const duplicateSheet = (wb: Workbook, id: string): { workbook: Workbook; sheet: Sheet } => {
+  const index = wb.sheets.findIndex(s => s.id === id);
+  if (index < 0) throw new Error('Sheet not found');
+  const original = wb.sheets[index];
+  const sheet: Sheet = {
+    ...structuredClone(original),
+    id: newSheetId(wb),
+    name: uniqueName(wb, original.name.replace(/ \(\d+\)$/, ''))
+  };
+  const sheets = [...wb.sheets];
+  sheets.splice(index + 1, 0, sheet);
+  return { workbook: { ...wb, sheets }, sheet };
+};
+
+// Deletes a sheet; formulas elsewhere that referred to it become #REF!.
+// A workbook always keeps at least one sheet.
+export const deleteSheet = (wb: Workbook, id: string): Workbook => {
+  const target = wb.sheets.find(s => s.id === id);
+  if (!target || wb.sheets.length < 2) return wb;
+  const old = target.name.toLowerCase();
+  const sheets = wb.sheets.filter(s => s.id !== id);
+  return { ...wb, sheets: remapFormulas(sheets, ref => ref.toLowerCase() === old ? null : ref) };
+};
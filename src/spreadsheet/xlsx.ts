@@ -0,0 +1,696 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { CellRange, parseCellId, parseRange, rangeToText, toCellId } from './cellRef.ts';
+import { ConditionalFormat, ConditionalRule, RuleStyle } from './conditionalFormat.ts';
+import { CellMap, cellNumFmt, isFormula } from './engine.ts';
+import { Token, shiftFormula, tokenize } from './formula.ts';
+import { parseDateText, serialToParts } from './dates.ts';
+import { CompareOp, isRangeOp } from './rules.ts';
+import { BorderSide, BorderStyle, CellStyle, mergeStyle } from './style.ts';
+import { ValidationRule, ValidationType } from './validation.ts';
+import { CellValue, isError, parseInput, parseNumber } from './values.ts';
+import {
+  XML_HEADER, buildPackage, childrenByName, descendantsByName, escapeXml, firstChild, openPackage, readPart, readRels
+} from '../shared/ooxml.ts';
+
+// --- XLSX IMPORT ---
+export interface ImportedSheet {
+  name: string;
+  cells: CellMap;
+  colWidths: Record<number, number>; // px, by zero-based column
+  conditionalFormats: ConditionalRule[];
+  validations: ValidationRule[];
+}
+
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Excel measures widths in characters of the default font; ~7px each plus padding.
+const charsToPx = (chars: number) => Math.round(chars * 7 + 5);
+
+const readSharedStrings = (doc: XMLDocument | null) => {
+  if (!doc) return [];
+  return descendantsByName(doc, 'si').map(si =>
+    descendantsByName(si, 't')
+      .filter(t => t.parentElement?.localName !== 'rPh')
+      .map(t => t.textContent ?? '')
+      .join('')
+  );
+};
+
+// Built-in number formats are referenced by id only (en-US variants of the
+// locale-dependent ones).
+const BUILTIN_NUM_FMTS: Record<number, string> = {
+  0: 'General', 1: '0', 2: '0.00', 3: '#,##0', 4: '#,##0.00', 9: '0%', 10: '0.00%', 11: '0.00E+00',
+  14: 'm/d/yyyy', 15: 'd-mmm-yy', 16: 'd-mmm', 17: 'mmm-yy', 18: 'h:mm AM/PM', 19: 'h:mm:ss AM/PM',
+  20: 'h:mm', 21: 'h:mm:ss', 22: 'm/d/yyyy h:mm', 37: '#,##0 ;(#,##0)', 38: '#,##0 ;[Red](#,##0)',
+  39: '#,##0.00;(#,##0.00)', 40: '#,##0.00;[Red](#,##0.00)', 45: 'mm:ss', 46: '[h]:mm:ss', 47: 'mm:ss.0',
+  48: '##0.0E+0', 49: '@'
+};
+
+const IMPORTED_BORDERS: Record<string, BorderStyle> = {
+  thin: 'thin', hair: 'thin', medium: 'medium', thick: 'thick', double: 'double', dotted: 'dotted',
+  dashed: 'dashed', mediumDashed: 'dashed', dashDot: 'dashed', mediumDashDot: 'dashed',
+  dashDotDot: 'dashed', mediumDashDotDot: 'dashed', slantDashDot: 'dashed'
+};
+
+// Only explicit RGB colors are kept; theme and indexed colors fall back to
+// the defaults. Plain black text and borders are Excel's "automatic" color,
+// which we render in the grid's own colors instead.
+const rgbColor = (el: Element | undefined) => {
+  const rgb = el?.getAttribute('rgb');
+  return rgb && /^[0-9a-f]{6,8}$/i.test(rgb) ? '#' + rgb.slice(-6).toLowerCase() : undefined;
+};
+
+const flag = (el: Element, name: string) => {
+  const child = firstChild(el, name);
+  return !!child && !['0', 'false', 'none'].includes(child.getAttribute('val') ?? '');
+};
+
+const readFont = (f: Element): CellStyle => {
+  const color = rgbColor(firstChild(f, 'color'));
+  return {
+    bold: flag(f, 'b') || undefined, italic: flag(f, 'i') || undefined,
+    underline: flag(f, 'u') || undefined, strike: flag(f, 'strike') || undefined,
+    color: color === '#000000' ? undefined : color
+  };
+};
+
+// Resolves styles.xml into one CellStyle per cellXfs entry (the index cells
+// carry in their s attribute).
+const readStyles = (doc: XMLDocument | null): (CellStyle | undefined)[] => {
+  if (!doc) return [];
+  const numFmts: Record<number, string> = { ...BUILTIN_NUM_FMTS };
+  descendantsByName(doc, 'numFmt').forEach(el => {
+    numFmts[parseInt(el.getAttribute('numFmtId') || '0', 10)] = el.getAttribute('formatCode') || 'General';
+  });
+  const list = (group: string, item: string) => {
+    const el = descendantsByName(doc, group)[0];
+    return el ? childrenByName(el, item) : [];
+  };
+
+  const fonts = list('fonts', 'font').map(readFont);
+  const fills = list('fills', 'fill').map(f => {
+    const pattern = firstChild(f, 'patternFill');
+    return pattern?.getAttribute('patternType') === 'solid' ? rgbColor(firstChild(pattern, 'fgColor')) : undefined;
+  });
+  const borders = list('borders', 'border').map(b => {
+    const side = (name: string): BorderSide | undefined => {
+      const el = firstChild(b, name);
+      const style = IMPORTED_BORDERS[el?.getAttribute('style') ?? ''];
+      const color = rgbColor(el && firstChild(el, 'color'));
+      return style ? { style, color: color === '#000000' ? undefined : color } : undefined;
+    };
+    const border = { top: side('top'), right: side('right'), bottom: side('bottom'), left: side('left') };
+    return border.top || border.right || border.bottom || border.left ? border : undefined;
+  });
+
+  return list('cellXfs', 'xf').map(xf => {
+    const num = (attr: string) => parseInt(xf.getAttribute(attr) || '0', 10);
+    const numFmt = numFmts[num('numFmtId')];
+    const align = firstChild(xf, 'alignment');
+    const h = align?.getAttribute('horizontal');
+    const v = align?.getAttribute('vertical');
+    return mergeStyle(fonts[num('fontId')], {
+      fill: fills[num('fillId')],
+      border: borders[num('borderId')],
+      numFmt: numFmt && numFmt !== 'General' ? numFmt : undefined,
+      hAlign: h === 'left' || h === 'center' || h === 'right' ? h : undefined,
+      vAlign: v === 'top' || v === 'bottom' ? v : v === 'center' ? 'middle' : undefined,
+      wrap: align?.getAttribute('wrapText') === '1' || align?.getAttribute('wrapText') === 'true' || undefined
+    });
+  });
+};
+
+// Differential formats, which conditional formatting rules refer to by dxfId.
+// Their solid fills keep the color in bgColor rather than fgColor.
+const readDxfs = (doc: XMLDocument | null): RuleStyle[] => {
+  const group = doc && descendantsByName(doc, 'dxfs')[0];
+  if (!group) return [];
+  return childrenByName(group, 'dxf').map(dxf => {
+    const font = firstChild(dxf, 'font');
+    const pattern = firstChild(dxf, 'fill') && firstChild(firstChild(dxf, 'fill')!, 'patternFill');
+    const fill = pattern && (rgbColor(firstChild(pattern, 'bgColor')) ?? rgbColor(firstChild(pattern, 'fgColor')));
+    return mergeStyle(font && readFont(font), { fill }) ?? {};
+  });
+};
+
+// Functions newer than Excel 2007 are stored with a future-function prefix.
+const cleanFormula = (f: string) => f.replace(/_xlfn\.|_xlws\./g, '');
+
+const FILE_OPERATORS: Record<CompareOp, string> = {
+  between: 'between', notBetween: 'notBetween', eq: 'equal', neq: 'notEqual',
+  gt: 'greaterThan', lt: 'lessThan', gte: 'greaterThanOrEqual', lte: 'lessThanOrEqual'
+};
+
+const fileOperator = (name: string | null) =>
+  (Object.keys(FILE_OPERATORS) as CompareOp[]).find(op => FILE_OPERATORS[op] === (name || 'between'));
+
+const isoDate = (serial: number) => {
+  const { year, month, day } = serialToParts(serial);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Rule formulas back to our operands: quoted strings and plain numbers become
+// literals (date bounds are shown as dates), anything else stays a formula.
+const fromFileOperand = (formula: string, date = false) => {
+  const text = formula.trim();
+  const quoted = /^"((?:[^"]|"")*)"$/.exec(text);
+  if (quoted) return quoted[1].replace(/""/g, '"');
+  const n = /^-?[\d.]/.test(text) ? parseNumber(text) : null;
+  if (n !== null) return date ? isoDate(n) : text;
+  if (/^(TRUE|FALSE)$/i.test(text)) return text.toUpperCase();
+  return '=' + cleanFormula(text);
+};
+
+const shiftOperand = (text: string | undefined, dCol: number, dRow: number) =>
+  text?.startsWith('=') && (dCol || dRow) ? '=' + shiftFormula(text.slice(1), dCol, dRow) : text;
+
+// A sqref may list several ranges; each becomes its own rule, with relative
+// formulas re-anchored from the first range to its own top-left cell.
+const sqrefRanges = (el: Element) =>
+  (el.getAttribute('sqref') ?? firstChild(el, 'sqref')?.textContent ?? '')
+    .split(/\s+/).map(parseRange).filter((r): r is CellRange => !!r);
+
+const readConditionalFormats = (doc: XMLDocument, dxfs: RuleStyle[]): ConditionalRule[] => {
+  const found: { priority: number; format: ConditionalFormat; range: CellRange }[] = [];
+  // Excel 2010 extensions repeat some rules under x14:conditionalFormatting; the main ones suffice.
+  descendantsByName(doc, 'conditionalFormatting').filter(cf => cf.namespaceURI === MAIN_NS).forEach(cf => {
+    const ranges = sqrefRanges(cf);
+    childrenByName(cf, 'cfRule').forEach(el => {
+      const formulas = childrenByName(el, 'formula').map(f => f.textContent ?? '');
+      const style = dxfs[parseInt(el.getAttribute('dxfId') ?? '', 10)] ?? {};
+      const colors = (name: string) => {
+        const group = firstChild(el, name);
+        return group ? childrenByName(group, 'color').map(rgbColor).filter((c): c is string => !!c) : [];
+      };
+      let format: ConditionalFormat | null = null;
+      switch (el.getAttribute('type')) {
+        case 'cellIs': {
+          const op = fileOperator(el.getAttribute('operator'));
+          if (op && formulas.length) {
+            format = { type: 'cellIs', op, value: fromFileOperand(formulas[0]), style };
+            if (isRangeOp(op) && formulas[1] !== undefined) format.value2 = fromFileOperand(formulas[1]);
+          }
+          break;
+        }
+        case 'duplicateValues': format = { type: 'duplicate', style }; break;
+        case 'uniqueValues': format = { type: 'unique', style }; break;
+        case 'expression':
+          if (formulas[0]) format = { type: 'formula', formula: cleanFormula(formulas[0]), style };
+          break;
+        case 'colorScale': {
+          const list = colors('colorScale');
+          if (list.length >= 2) format = { type: 'colorScale', colors: list.slice(0, 3) };
+          break;
+        }
+        case 'dataBar': {
+          const [color] = colors('dataBar');
+          if (color) format = { type: 'dataBar', color };
+          break;
+        }
+      }
+      if (!format) return;
+      const priority = parseInt(el.getAttribute('priority') || '0', 10);
+      ranges.forEach(range => {
+        const dc = range.c1 - ranges[0].c1;
+        const dr = range.r1 - ranges[0].r1;
+        let shifted = format!;
+        if (shifted.type === 'cellIs') shifted = { ...shifted, value: shiftOperand(shifted.value, dc, dr)!, value2: shiftOperand(shifted.value2, dc, dr) };
+        if (shifted.type === 'formula') shifted = { ...shifted, formula: shiftOperand('=' + shifted.formula, dc, dr)!.slice(1) };
+        found.push({ priority, format: shifted, range });
+      });
+    });
+  });
+  return found
+    .sort((a, b) => a.priority - b.priority)
+    .map(({ format, range }, i) => ({ ...format, id: `cf${i + 1}`, range }));
+};
+
+const VALIDATION_TYPES = new Set<ValidationType>(['list', 'whole', 'decimal', 'date', 'textLength', 'custom']);
+
+const readValidations = (doc: XMLDocument): ValidationRule[] => {
+  const rules: ValidationRule[] = [];
+  // Includes Excel 2010's x14:dataValidation, used for lists on other sheets.
+  descendantsByName(doc, 'dataValidation').forEach(el => {
+    const type = el.getAttribute('type') as ValidationType;
+    if (!VALIDATION_TYPES.has(type)) return;
+    const formula = (name: string) => {
+      const text = firstChild(el, name)?.textContent;
+      if (text === undefined || text === null) return undefined;
+      return type === 'custom' ? '=' + cleanFormula(text) : fromFileOperand(text, type === 'date');
+    };
+    const ranges = sqrefRanges(el);
+    const errorStyle = el.getAttribute('errorStyle');
+    const base = {
+      type, value1: formula('formula1'),
+      allowBlank: ['1', 'true'].includes(el.getAttribute('allowBlank') ?? ''),
+      errorStyle: errorStyle === 'warning' || errorStyle === 'information' ? 'warning' as const : 'stop' as const,
+      message: el.getAttribute('error') || undefined
+    };
+    const op = type === 'list' || type === 'custom' ? undefined : fileOperator(el.getAttribute('operator'));
+    ranges.forEach(range => {
+      const dc = range.c1 - ranges[0].c1;
+      const dr = range.r1 - ranges[0].r1;
+      const rule: ValidationRule = { ...base, id: `dv${rules.length + 1}`, range, value1: shiftOperand(base.value1, dc, dr) };
+      if (op) rule.op = op;
+      if (op && isRangeOp(op)) rule.value2 = shiftOperand(formula('formula2'), dc, dr);
+      rules.push(rule);
+    });
+  });
+  return rules;
+};
+
+const readSheet = (
+  doc: XMLDocument, strings: string[], styles: (CellStyle | undefined)[], dxfs: RuleStyle[]
+): Omit<ImportedSheet, 'name'> => {
+  const cells: CellMap = {};
+  const colWidths: Record<number, number> = {};
+  const sharedFormulas: Record<string, { formula: string; col: number; row: number }> = {};
+
+  descendantsByName(doc, 'col').forEach(col => {
+    const min = parseInt(col.getAttribute('min') || '0', 10) - 1;
+    const max = parseInt(col.getAttribute('max') || '0', 10) - 1;
+    const width = parseFloat(col.getAttribute('width') || '');
+    if (min < 0 || isNaN(width) || max - min > 1000) return;
+    for (let c = min; c <= max; c++) colWidths[c] = charsToPx(width);
+  });
+
+  let rowIndex = -1;
+  descendantsByName(doc, 'row').forEach(rowEl => {
+    const r = rowEl.getAttribute('r');
+    rowIndex = r ? parseInt(r, 10) - 1 : rowIndex + 1;
+    let colIndex = -1;
+    Array.from(rowEl.children).filter(c => c.localName === 'c').forEach(c => {
+      const ref = c.getAttribute('r');
+      const addr = ref ? parseCellId(ref) : null;
+      colIndex = addr ? addr.col : colIndex + 1;
+      const row = addr ? addr.row : rowIndex;
+      const type = c.getAttribute('t');
+      const raw = firstChild(c, 'v')?.textContent ?? '';
+      let value = raw;
+      switch (type) {
+        case 's': value = strings[parseInt(raw, 10)] ?? ''; break;
+        case 'b': value = raw === '1' ? 'TRUE' : 'FALSE'; break;
+        case 'inlineStr': {
+          const is = firstChild(c, 'is');
+          value = is ? descendantsByName(is, 't').map(t => t.textContent ?? '').join('') : '';
+          break;
+        }
+        case 'd': {
+          const serial = parseDateText(raw.replace(/Z$/, '').slice(0, 19));
+          value = serial === null ? raw : String(serial);
+          break;
+        }
+      }
+
+      const f = firstChild(c, 'f');
+      if (f) {
+        let formula = f.textContent ?? '';
+        if (f.getAttribute('t') === 'shared') {
+          const si = f.getAttribute('si') ?? '';
+          if (formula) sharedFormulas[si] = { formula, col: colIndex, row };
+          else if (sharedFormulas[si]) {
+            const master = sharedFormulas[si];
+            formula = shiftFormula(master.formula, colIndex - master.col, row - master.row);
+          }
+        }
+        if (formula) value = '=' + cleanFormula(formula);
+      }
+      const style = styles[parseInt(c.getAttribute('s') || '0', 10)];
+      if (style) cells[toCellId(colIndex, row)] = { v: value, s: style };
+      else if (value !== '') cells[toCellId(colIndex, row)] = { v: value };
+    });
+  });
+  return { cells, colWidths, conditionalFormats: readConditionalFormats(doc, dxfs), validations: readValidations(doc) };
+};
+
+export const readXlsx = async (data: ArrayBuffer): Promise<ImportedSheet[]> => {
+  const zip = await openPackage(data);
+  const rootRels = await readRels(zip, '');
+  const workbookPath = Object.values(rootRels).find(r => r.type.endsWith('/officeDocument'))?.target ?? 'xl/workbook.xml';
+  const workbook = await readPart(zip, workbookPath);
+  if (!workbook) throw new Error('Not a valid .xlsx workbook');
+  const rels = await readRels(zip, workbookPath);
+  const stringsRel = Object.values(rels).find(r => r.type.endsWith('/sharedStrings'));
+  const strings = readSharedStrings(stringsRel ? await readPart(zip, stringsRel.target) : null);
+  const stylesRel = Object.values(rels).find(r => r.type.endsWith('/styles'));
+  const stylesDoc = stylesRel ? await readPart(zip, stylesRel.target) : null;
+  const styles = readStyles(stylesDoc);
+  const dxfs = readDxfs(stylesDoc);
+
+  const sheets: ImportedSheet[] = [];
+  for (const el of descendantsByName(workbook, 'sheet')) {
+    const relId = el.getAttributeNS(REL_NS, 'id') || el.getAttribute('r:id') || '';
+    const rel = rels[relId];
+    if (!rel || !rel.type.endsWith('/worksheet')) continue;
+    const doc = await readPart(zip, rel.target);
+    if (!doc) continue;
+    sheets.push({ name: el.getAttribute('name') || `Sheet${sheets.length + 1}`, ...readSheet(doc, strings, styles, dxfs) });
+  }
+  if (!sheets.length) throw new Error('The workbook contains no worksheets');
+  return sheets;
+};
+
+// --- XLSX EXPORT ---
+export interface ExportSheet {
+  name: string;
+  cells: CellMap;
+  colWidths?: Record<number, number>; // px, by zero-based column
+  frozenRows?: number;
+  frozenCols?: number;
+  conditionalFormats?: ConditionalRule[];
+  validations?: ValidationRule[];
+  // Computed value of a cell, written as the cached result of formulas.
+  getValue: (id: string) => CellValue;
+}
+
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const DOC_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CT = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+
+const pxToChars = (px: number) => Math.max(0, Math.round((px - 5) / 7 * 100) / 100);
+
+// Functions added after Excel 2007 must carry the _xlfn. prefix in the file,
+// otherwise Excel shows #NAME? until the cell is re-entered.
+const FUTURE_FUNCTIONS = new Set(['XLOOKUP', 'IFS', 'SWITCH', 'XOR', 'CONCAT', 'TEXTJOIN', 'IFNA', 'DAYS']);
+
+const toFileFormula = (src: string) => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(src);
+  } catch {
+    return src;
+  }
+  let out = '';
+  let last = 0;
+  tokens.forEach(t => {
+    if (t.type !== 'func' || !FUTURE_FUNCTIONS.has(t.text.toUpperCase())) return;
+    out += src.slice(last, t.pos) + '_xlfn.';
+    last = t.pos;
+  });
+  return out + src.slice(last);
+};
+
+// Excel sheet names: at most 31 characters, none of \ / ? * : [ ], unique ignoring case.
+const sheetNames = (names: string[]) => {
+  const used = new Set<string>();
+  return names.map((raw, i) => {
+    const base = raw.replace(/[\\/?*:[\]]/g, '_').replace(/^'+|'+$/g, '').trim().slice(0, 31) || `Sheet${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 31 - String(n).length - 3)} (${n})`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const argb = (color: string) => {
+  let hex = color.replace('#', '');
+  if (hex.length === 3) hex = hex.split('').map(ch => ch + ch).join('');
+  return 'FF' + hex.slice(0, 6).toUpperCase();
+};
+
+// Locale-independent built-in codes are written by id; anything else gets a
+// custom id from 164 up.
+const BUILTIN_NUM_FMT_IDS: Record<string, number> = {
+  'General': 0, '0': 1, '0.00': 2, '#,##0': 3, '#,##0.00': 4, '0%': 9, '0.00%': 10, '0.00E+00': 11, '@': 49
+};
+
+// A list of XML fragments where identical entries share an index.
+const createTable = (initial: string[]) => {
+  const items = [...initial];
+  const index = new Map(items.map((xml, i) => [xml, i]));
+  const add = (xml: string) => {
+    let i = index.get(xml);
+    if (i === undefined) {
+      i = items.push(xml) - 1;
+      index.set(xml, i);
+    }
+    return i;
+  };
+  return { items, add };
+};
+
+const createStyleSheet = () => {
+  const numFmts = new Map<string, number>();
+  const fonts = createTable(['<font><sz val="11"/><name val="Calibri"/><family val="2"/></font>']);
+  const fills = createTable(['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>']);
+  const borders = createTable(['<border><left/><right/><top/><bottom/><diagonal/></border>']);
+  const xfs = createTable(['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>']);
+  const dxfs = createTable([]);
+
+  const numFmtId = (code: string) => {
+    if (code in BUILTIN_NUM_FMT_IDS) return BUILTIN_NUM_FMT_IDS[code];
+    if (!numFmts.has(code)) numFmts.set(code, 164 + numFmts.size);
+    return numFmts.get(code)!;
+  };
+
+  const side = (name: string, b?: BorderSide) => b
+    ? b.color ? `<${name} style="${b.style}"><color rgb="${argb(b.color)}"/></${name}>` : `<${name} style="${b.style}"/>`
+    : `<${name}/>`;
+
+  // Returns the cellXfs index for a style (0 for the default).
+  const add = (style: CellStyle) => {
+    const font = fonts.add('<font>' +
+      (style.bold ? '<b/>' : '') + (style.italic ? '<i/>' : '') +
+      (style.strike ? '<strike/>' : '') + (style.underline ? '<u/>' : '') +
+      '<sz val="11"/>' + (style.color ? `<color rgb="${argb(style.color)}"/>` : '') +
+      '<name val="Calibri"/><family val="2"/></font>');
+    const fill = style.fill
+      ? fills.add(`<fill><patternFill patternType="solid"><fgColor rgb="${argb(style.fill)}"/><bgColor indexed="64"/></patternFill></fill>`)
+      : 0;
+    const b = style.border ?? {};
+    const border = borders.add('<border>' + side('left', b.left) + side('right', b.right) +
+      side('top', b.top) + side('bottom', b.bottom) + '<diagonal/></border>');
+    const fmt = style.numFmt ? numFmtId(style.numFmt) : 0;
+    const alignAttrs = [
+      style.hAlign && `horizontal="${style.hAlign}"`,
+      style.vAlign && `vertical="${style.vAlign === 'middle' ? 'center' : style.vAlign}"`,
+      style.wrap && 'wrapText="1"'
+    ].filter(Boolean).join(' ');
+    return xfs.add(`<xf numFmtId="${fmt}" fontId="${font}" fillId="${fill}" borderId="${border}" xfId="0"` +
+      (fmt ? ' applyNumberFormat="1"' : '') + (font ? ' applyFont="1"' : '') +
+      (fill ? ' applyFill="1"' : '') + (border ? ' applyBorder="1"' : '') +
+      (alignAttrs ? ` applyAlignment="1"><alignment ${alignAttrs}/></xf>` : '/>'));
+  };
+
+  // Returns the dxfs index for a conditional formatting style.
+  const addDxf = (style: RuleStyle) => {
+    const font = (style.bold ? '<b/>' : '') + (style.italic ? '<i/>' : '') + (style.strike ? '<strike/>' : '') +
+      (style.underline ? '<u/>' : '') + (style.color ? `<color rgb="${argb(style.color)}"/>` : '');
+    return dxfs.add('<dxf>' + (font ? `<font>${font}</font>` : '') +
+      (style.fill ? `<fill><patternFill><bgColor rgb="${argb(style.fill)}"/></patternFill></fill>` : '') + '</dxf>');
+  };
+
+  const toXml = () => {
+    const list = (tag: string, items: string[]) => items.length ? `<${tag} count="${items.length}">${items.join('')}</${tag}>` : '';
+    const fmtItems = [...numFmts].map(([code, id]) => `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`);
+    return XML_HEADER + `<styleSheet xmlns="${MAIN_NS}">` +
+      list('numFmts', fmtItems) + list('fonts', fonts.items) + list('fills', fills.items) + list('borders', borders.items) +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      list('cellXfs', xfs.items) +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      list('dxfs', dxfs.items) +
+      '</styleSheet>';
+  };
+
+  return { add, addDxf, toXml };
+};
+
+const createSharedStrings = () => {
+  const table = new Map<string, number>();
+  let count = 0;
+  const add = (text: string) => {
+    count++;
+    if (!table.has(text)) table.set(text, table.size);
+    return table.get(text)!;
+  };
+  const toXml = () => XML_HEADER + `<sst xmlns="${MAIN_NS}" count="${count}" uniqueCount="${table.size}">` +
+    [...table.keys()].map(t => `<si><t${/^\s|\s$|\n/.test(t) ? ' xml:space="preserve"' : ''}>${escapeXml(t)}</t></si>`).join('') +
+    '</sst>';
+  return { add, toXml };
+};
+
+// #CIRC! has no Excel equivalent; such cells are left for Excel to recalculate.
+const EXCEL_ERRORS = new Set(['#REF!', '#DIV/0!', '#NAME?', '#VALUE!', '#N/A', '#NUM!', '#NULL!']);
+
+const valueXml = (value: CellValue, text: (s: string) => string) => {
+  if (value === null) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? `<v>${value}</v>` : '';
+  if (typeof value === 'boolean') return `<v>${value ? 1 : 0}</v>`;
+  if (isError(value)) return EXCEL_ERRORS.has(value.code) ? `<v>${value.code}</v>` : '';
+  return text(value);
+};
+
+const typeAttr = (value: CellValue, stringType: string) => {
+  if (typeof value === 'boolean') return ' t="b"';
+  if (isError(value)) return EXCEL_ERRORS.has(value.code) ? ' t="e"' : '';
+  return typeof value === 'string' ? ` t="${stringType}"` : '';
+};
+
+// Our rule operands as file formulas: literals become constants, text quoted.
+const toFileOperand = (operand: string) => {
+  if (operand.startsWith('=')) return toFileFormula(operand.slice(1));
+  const value = parseInput(operand);
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return `"${operand.replace(/"/g, '""')}"`;
+};
+
+// One <conditionalFormatting> per rule; priority follows the sheet's order.
+const conditionalXml = (rules: ConditionalRule[], styles: ReturnType<typeof createStyleSheet>) =>
+  rules.map((rule, i) => {
+    const formula = (text: string) => `<formula>${escapeXml(text)}</formula>`;
+    const cfvos = (n: number) => '<cfvo type="min"/>' + (n > 2 ? '<cfvo type="percentile" val="50"/>' : '') + '<cfvo type="max"/>';
+    const priority = `priority="${i + 1}"`;
+    let xml: string;
+    switch (rule.type) {
+      case 'cellIs':
+        xml = `<cfRule type="cellIs" dxfId="${styles.addDxf(rule.style)}" ${priority} operator="${FILE_OPERATORS[rule.op]}">` +
+          formula(toFileOperand(rule.value)) + (isRangeOp(rule.op) ? formula(toFileOperand(rule.value2 ?? '')) : '') + '</cfRule>';
+        break;
+      case 'duplicate':
+      case 'unique':
+        xml = `<cfRule type="${rule.type}Values" dxfId="${styles.addDxf(rule.style)}" ${priority}/>`;
+        break;
+      case 'formula':
+        xml = `<cfRule type="expression" dxfId="${styles.addDxf(rule.style)}" ${priority}>${formula(toFileFormula(rule.formula))}</cfRule>`;
+        break;
+      case 'colorScale':
+        xml = `<cfRule type="colorScale" ${priority}><colorScale>${cfvos(rule.colors.length)}` +
+          rule.colors.map(c => `<color rgb="${argb(c)}"/>`).join('') + '</colorScale></cfRule>';
+        break;
+      case 'dataBar':
+        xml = `<cfRule type="dataBar" ${priority}><dataBar>${cfvos(2)}<color rgb="${argb(rule.color)}"/></dataBar></cfRule>`;
+        break;
+    }
+    return `<conditionalFormatting sqref="${rangeToText(rule.range)}">${xml}</conditionalFormatting>`;
+  }).join('');
+
+const validationXml = (rules: ValidationRule[]) => {
+  if (!rules.length) return '';
+  const items = rules.map(rule => {
+    // Lists are always quoted (a literal "1,000" is two items), date bounds go in as serials.
+    const operand = (text: string) => rule.type === 'list' && !text.startsWith('=') ? `"${text.replace(/"/g, '""')}"`
+      : rule.type === 'date' && !text.startsWith('=') && parseDateText(text) !== null ? String(parseDateText(text))
+        : toFileOperand(text);
+    const op = rule.type === 'list' || rule.type === 'custom' ? 'between' : rule.op ?? 'between';
+    const attrs = [
+      `type="${rule.type}"`,
+      rule.errorStyle === 'warning' && 'errorStyle="warning"',
+      op !== 'between' && `operator="${FILE_OPERATORS[op]}"`,
+      rule.allowBlank !== false && 'allowBlank="1"',
+      'showInputMessage="1" showErrorMessage="1"',
+      rule.message && `error="${escapeXml(rule.message)}"`,
+      `sqref="${rangeToText(rule.range)}"`
+    ].filter(Boolean).join(' ');
+    return `<dataValidation ${attrs}>` +
+      (rule.value1 !== undefined ? `<formula1>${escapeXml(operand(rule.value1))}</formula1>` : '') +
+      (isRangeOp(op) && rule.value2 !== undefined && rule.type !== 'list' && rule.type !== 'custom'
+        ? `<formula2>${escapeXml(operand(rule.value2))}</formula2>` : '') +
+      '</dataValidation>';
+  });
+  return `<dataValidations count="${items.length}">${items.join('')}</dataValidations>`;
+};
+
+const writeSheet = (sheet: ExportSheet, styles: ReturnType<typeof createStyleSheet>, strings: ReturnType<typeof createSharedStrings>) => {
+  const rows = new Map<number, { col: number; id: string }[]>();
+  Object.keys(sheet.cells).forEach(id => {
+    const addr = parseCellId(id);
+    const cell = sheet.cells[id];
+    if (!addr || (cell.v === '' && !cell.s)) return;
+    if (!rows.has(addr.row)) rows.set(addr.row, []);
+    rows.get(addr.row)!.push({ col: addr.col, id });
+  });
+
+  let maxCol = 0;
+  let maxRow = 0;
+  const rowXml = [...rows.keys()].sort((a, b) => a - b).map(r => {
+    const cellsXml = rows.get(r)!.sort((a, b) => a.col - b.col).map(({ col, id }) => {
+      maxCol = Math.max(maxCol, col);
+      maxRow = Math.max(maxRow, r);
+      const { v: raw, s } = sheet.cells[id];
+      const formula = isFormula(raw);
+      // Date functions render as dates by default, so carry that into the file.
+      const numFmt = cellNumFmt(sheet.cells[id]);
+      const xf = s || numFmt ? styles.add({ ...s, numFmt }) : 0;
+      const attrs = `r="${id}"${xf ? ` s="${xf}"` : ''}`;
+      if (formula) {
+        const value = sheet.getValue(id);
+        return `<c ${attrs}${typeAttr(value, 'str')}><f>${escapeXml(toFileFormula(raw.slice(1)))}</f>` +
+          valueXml(value, t => `<v>${escapeXml(t)}</v>`) + '</c>';
+      }
+      const value = parseInput(raw);
+      if (value === null) return `<c ${attrs}/>`;
+      // Errors we can't represent (and everything textual) go in as plain strings.
+      if (isError(value) && !EXCEL_ERRORS.has(value.code)) return `<c ${attrs} t="s"><v>${strings.add(raw)}</v></c>`;
+      return `<c ${attrs}${typeAttr(value, 's')}>${valueXml(value, t => `<v>${strings.add(t)}</v>`)}</c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cellsXml}</row>`;
+  }).join('');
+
+  const fRows = sheet.frozenRows ?? 0;
+  const fCols = sheet.frozenCols ?? 0;
+  const pane = fRows || fCols
+    ? `<pane${fCols ? ` xSplit="${fCols}"` : ''}${fRows ? ` ySplit="${fRows}"` : ''} topLeftCell="${toCellId(fCols, fRows)}"` +
+      ` activePane="${fRows && fCols ? 'bottomRight' : fRows ? 'bottomLeft' : 'topRight'}" state="frozen"/>`
+    : '';
+
+  // Consecutive columns with the same width collapse into one <col> span.
+  const widths = Object.entries(sheet.colWidths ?? {}).map(([c, w]) => [Number(c), w]).sort((a, b) => a[0] - b[0]);
+  const spans: { min: number; max: number; width: number }[] = [];
+  widths.forEach(([c, w]) => {
+    const last = spans[spans.length - 1];
+    if (last && last.max === c - 1 && last.width === w) last.max = c;
+    else spans.push({ min: c, max: c, width: w });
+  });
+  const cols = spans.length
+    ? '<cols>' + spans.map(sp => `<col min="${sp.min + 1}" max="${sp.max + 1}" width="${pxToChars(sp.width)}" customWidth="1"/>`).join('') + '</cols>'
+    : '';
+
+  return XML_HEADER + `<worksheet xmlns="${MAIN_NS}" xmlns:r="${DOC_REL}">` +
+    `<dimension ref="A1${rows.size ? ':' + toCellId(maxCol, maxRow) : ''}"/>` +
+    `<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>` +
+    '<sheetFormatPr defaultRowHeight="15"/>' + cols +
+    `<sheetData>${rowXml}</sheetData>` +
+    conditionalXml(sheet.conditionalFormats ?? [], styles) + validationXml(sheet.validations ?? []) +
+    '</worksheet>';
+};
+
+export const writeXlsx = (sheets: ExportSheet[]): Promise<Blob> => {
+  const styles = createStyleSheet();
+  const strings = createSharedStrings();
+  const names = sheetNames(sheets.map(s => s.name));
+  const sheetParts = sheets.map(sheet => writeSheet(sheet, styles, strings));
+
+  const parts: Record<string, string> = {};
+  parts['[Content_Types].xml'] = XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    `<Override PartName="/xl/workbook.xml" ContentType="${CT}.sheet.main+xml"/>` +
+    sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="${CT}.worksheet+xml"/>`).join('') +
+    `<Override PartName="/xl/styles.xml" ContentType="${CT}.styles+xml"/>` +
+    `<Override PartName="/xl/sharedStrings.xml" ContentType="${CT}.sharedStrings+xml"/>` +
+    '</Types>';
+  parts['_rels/.rels'] = XML_HEADER + `<Relationships xmlns="${PKG_REL}">` +
+    `<Relationship Id="rId1" Type="${DOC_REL}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+  // fullCalcOnLoad makes Excel and LibreOffice recompute instead of trusting our cached values.
+  parts['xl/workbook.xml'] = XML_HEADER + `<workbook xmlns="${MAIN_NS}" xmlns:r="${DOC_REL}">` +
+    '<bookViews><workbookView activeTab="0"/></bookViews><sheets>' +
+    names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+    '</sheets><calcPr calcId="191029" fullCalcOnLoad="1"/></workbook>';
+  parts['xl/_rels/workbook.xml.rels'] = XML_HEADER + `<Relationships xmlns="${PKG_REL}">` +
+    sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${DOC_REL}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${DOC_REL}/styles" Target="styles.xml"/>` +
+    `<Relationship Id="rId${sheets.length + 2}" Type="${DOC_REL}/sharedStrings" Target="sharedStrings.xml"/>` +
+    '</Relationships>';
+  sheetParts.forEach((xml, i) => { parts[`xl/worksheets/sheet${i + 1}.xml`] = xml; });
+  parts['xl/styles.xml'] = styles.toXml();
+  parts['xl/sharedStrings.xml'] = strings.toXml();
+  return buildPackage(parts, XLSX_MIME);
+};
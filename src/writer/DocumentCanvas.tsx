@@ -0,0 +1,505 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { CSSProperties, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import {
+  ChangeKind, EditorState, Pos, Selection, deleteBackward, deleteForward, deleteSelection, indent, insertBlocks,
+  insertText, isCollapsed, moveCell, nearestTextPos, removeBlock, sameContainer, sameSelection, selectionRange, splitBlock, toggleMark
+} from './editor.ts';
+import { ChartDrawer, editorBlockHtml, htmlToBlocks, listMarkers, renderContext, textToBlocks } from './html.ts';
+import { Block, WriterDoc, isTextBlock, runsLength } from './model.ts';
+import { flowPosition, hasRegion, pageCuts, pageMetrics, pageSetup, regionHtml } from './pages.ts';
+
+// --- DOCUMENT CANVAS ---
+// The editable page. It draws the model into a contentEditable element block
+// by block, redrawing only blocks that changed, and cancels the browser's own
+// edits: keys, clipboard and drops become transactions passed to `onChange`.
+// Only IME composition can't be cancelled, so its result is applied when it
+// ends and the block drawn again. Clicking a picture, chart, rule or table
+// of contents picks it, for Delete to remove; clicking a contents entry goes
+// to its heading. The page setup, headers and footers come from the document;
+// `style` and `className` are for the stack of pages.
+interface DocumentCanvasProps {
+  state: EditorState;
+  onChange: (state: EditorState, kind: ChangeKind | null) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoToHeading: (id: string) => void;
+  drawChart: ChartDrawer;
+  rootRef: React.RefObject<HTMLDivElement | null>;
+  spellCheck?: boolean;
+  style?: CSSProperties;
+  className?: string;
+}
+
+// Pictures dropped or pasted in, as image blocks.
+export const imageBlocks = (files: File[]) =>
+  Promise.all(files.filter(f => f.type.startsWith('image/')).map(file => new Promise<Block>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ type: 'image', id: '', src: reader.result as string, alt: file.name });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  })));
+
+// The space between pages on screen, in pixels.
+const PAGE_GAP = 24;
+
+// --- DOM POSITIONS ---
+const topLevel = (root: HTMLElement, node: Node) => {
+  let el: Node | null = node;
+  while (el && el.parentNode !== root) el = el.parentNode;
+  return el ? Array.prototype.indexOf.call(root.children, el) as number : -1;
+};
+
+const domToPos = (root: HTMLElement, doc: WriterDoc, node: Node, offset: number): Pos | null => {
+  if (!root.contains(node)) return null;
+  if (node === root) {
+    return offset < doc.blocks.length
+      ? (isTextBlock(doc.blocks[offset]) ? { block: offset, offset: 0 } : nearestTextPos(doc, offset, true))
+      : nearestTextPos(doc, doc.blocks.length - 1);
+  }
+  const block = topLevel(root, node);
+  if (block < 0 || block >= doc.blocks.length) return null;
+  const element = node.nodeType === 1 ? node as Element : node.parentElement!;
+  const container = element.closest('[data-text], [data-cell]');
+  if (!container || !root.contains(container)) return nearestTextPos(doc, block);
+  const range = document.createRange();
+  range.setStart(container, 0);
+  range.setEnd(node, offset);
+  const cell = (container as HTMLElement).dataset.cell?.split(':').map(Number) as [number, number] | undefined;
+  const pos: Pos = cell ? { block, cell, offset: 0 } : { block, offset: 0 };
+  const b = doc.blocks[block];
+  const runs = cell ? (b.type === 'table' ? b.rows[cell[0]]?.[cell[1]]?.runs : undefined) : isTextBlock(b) ? b.runs : undefined;
+  if (!runs) return nearestTextPos(doc, block);
+  return { ...pos, offset: Math.min(range.toString().length, runsLength(runs)) };
+};
+
+const posToDom = (root: HTMLElement, pos: Pos): [Node, number] | null => {
+  const element = root.children[pos.block];
+  const container = pos.cell ? element?.querySelector(`[data-cell="${pos.cell[0]}:${pos.cell[1]}"]`) : element;
+  if (!container) return null;
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  let remaining = pos.offset;
+  while (walker.nextNode()) {
+    const text = walker.currentNode as Text;
+    if (remaining <= text.length) return [text, remaining];
+    remaining -= text.length;
+  }
+  return [container, 0];
+};
+
+// The first character of `el` on or below the line at viewport `top`.
+const textAt = (el: HTMLElement, top: number): [Text, number] | null => {
+  const range = document.createRange();
+  const charTop = (node: Text, i: number) => {
+    range.setStart(node, i);
+    range.setEnd(node, i + 1);
+    return range.getClientRects()[0]?.top ?? -Infinity;
+  };
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    if (!node.length || charTop(node, node.length - 1) < top - 1) continue;
+    let lo = 0;
+    let hi = node.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (charTop(node, mid) >= top - 1) hi = mid;
+      else lo = mid + 1;
+    }
+    return [node, lo];
+  }
+  return null;
+};
+
+const readSelection = (root: HTMLElement, doc: WriterDoc): Selection | null => {
+  const sel = window.getSelection();
+  if (!sel || !sel.rangeCount || !sel.anchorNode || !sel.focusNode) return null;
+  const anchor = domToPos(root, doc, sel.anchorNode, sel.anchorOffset);
+  const focus = domToPos(root, doc, sel.focusNode, sel.focusOffset);
+  return anchor && focus ? { anchor, focus } : null;
+};
+
+const rangeSelection = (root: HTMLElement, doc: WriterDoc, range: StaticRange | Range | undefined): Selection | null => {
+  if (!range) return null;
+  const anchor = domToPos(root, doc, range.startContainer, range.startOffset);
+  const focus = domToPos(root, doc, range.endContainer, range.endOffset);
+  return anchor && focus ? { anchor, focus } : null;
+};
+
+export const DocumentCanvas = ({ state, onChange, onUndo, onRedo, onGoToHeading, drawChart, rootRef, spellCheck, style, className }: DocumentCanvasProps) => {
+  const [picked, setPicked] = useState<string | null>(null);
+  const latest = useRef({ state, onChange, onUndo, onRedo, picked });
+  latest.current = { state, onChange, onUndo, onRedo, picked };
+  const drawn = useRef(new Map<string, string>());
+  const composing = useRef<EditorState | null>(null);
+  const [pages, setPages] = useState(1);
+  const metrics = useMemo(() => pageMetrics(pageSetup(state.doc)), [state.doc.page]);
+  const date = new Date().toLocaleDateString();
+
+  // --- DRAWING ---
+  const draw = (doc: WriterDoc, force = false) => {
+    const root = rootRef.current;
+    if (!root) return;
+    if (force) {
+      root.innerHTML = '';
+      drawn.current.clear();
+    }
+    const existing = new Map<string, Element>();
+    for (const child of root.children as unknown as HTMLElement[]) existing.set(child.dataset.id ?? '', child);
+    const markers = listMarkers(doc.blocks);
+    const ctx = renderContext(doc, drawChart);
+    doc.blocks.forEach((block, i) => {
+      const html = editorBlockHtml(block, markers[i], ctx);
+      let element = existing.get(block.id);
+      if (!element || drawn.current.get(block.id) !== html) {
+        const template = document.createElement('template');
+        template.innerHTML = html;
+        element = template.content.firstElementChild!;
+        drawn.current.set(block.id, html);
+      }
+      existing.delete(block.id);
+      if (root.children[i] !== element) root.insertBefore(element, root.children[i] ?? null);
+    });
+    while (root.children.length > doc.blocks.length) root.lastElementChild!.remove();
+    for (const node of Array.from(root.childNodes as unknown as ChildNode[])) if (node.nodeType !== 1) node.remove();
+  };
+
+  // --- PAGES ---
+  // The blocks flow down one editable element laid over the pages. Where a
+  // page ends, what follows moves down to the next page's text: a block by
+  // its top margin, a table row or a line of a paragraph by an empty spacer
+  // above it. Spacers hold no text, so positions in the model are the same
+  // with or without them; they come out before every layout.
+  const paginate = (doc: WriterDoc) => {
+    const root = rootRef.current;
+    if (!root) return;
+    root.querySelectorAll('[data-spacer]').forEach(el => el.remove());
+    for (const child of root.children as unknown as HTMLElement[]) {
+      if (child.dataset.pushed === undefined) continue;
+      child.style.marginTop = child.dataset.pushed;
+      delete child.dataset.pushed;
+    }
+    const { height, textHeight } = pageMetrics(pageSetup(doc));
+    const cuts = pageCuts(root, textHeight);
+    const position = flowPosition(root);
+    // Everything is measured before anything moves, so the page is laid out once.
+    const targets = cuts.map(({ element: el, line, y }) => {
+      if (!el) return null;
+      if (line) return textAt(el, position.top(y));
+      if (el.tagName === 'TR') return el;
+      const previous = el.previousElementSibling;
+      return { el, gap: y - (previous ? position.y(previous.getBoundingClientRect().bottom) : 0) };
+    });
+    let shift = 0;
+    cuts.forEach((cut, i) => {
+      const target = targets[i];
+      if (!target) return;
+      const space = (i + 1) * (height + PAGE_GAP) - (cut.y + shift);
+      shift += space;
+      if (Array.isArray(target)) {
+        const [node, offset] = target;
+        const spacer = document.createElement('span');
+        spacer.dataset.spacer = '';
+        spacer.contentEditable = 'false';
+        spacer.style.cssText = `display:block;height:${space}px`;
+        const after = offset ? node.splitText(offset) : node;
+        after.parentNode!.insertBefore(spacer, after);
+      } else if (target instanceof HTMLElement) {
+        const spacer = document.createElement('tr');
+        spacer.dataset.spacer = '';
+        spacer.contentEditable = 'false';
+        spacer.innerHTML = `<td colspan="${target.children.length}" style="height:${space}px;padding:0;border:0"></td>`;
+        target.before(spacer);
+      } else {
+        target.el.dataset.pushed = target.el.style.marginTop;
+        target.el.style.marginTop = `${target.gap + space}px`;
+      }
+    });
+    setPages(cuts.length + 1);
+  };
+
+  const showSelection = (s: EditorState, scroll: boolean) => {
+    const root = rootRef.current;
+    if (!root || document.activeElement !== root || composing.current) return;
+    const current = readSelection(root, s.doc);
+    if (current && sameSelection(current, s.selection)) return;
+    const anchor = posToDom(root, s.selection.anchor);
+    const focus = posToDom(root, s.selection.focus);
+    if (!anchor || !focus) return;
+    window.getSelection()?.setBaseAndExtent(anchor[0], anchor[1], focus[0], focus[1]);
+    if (scroll) (focus[0].nodeType === 1 ? focus[0] as Element : focus[0].parentElement)?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const lastDoc = useRef<WriterDoc | null>(null);
+  useLayoutEffect(() => {
+    const changed = lastDoc.current !== state.doc;
+    lastDoc.current = state.doc;
+    draw(state.doc);
+    paginate(state.doc);
+    showSelection(state, changed);
+  }, [state, drawChart]);
+
+  // Pictures and fonts that arrive later change where pages end.
+  useEffect(() => {
+    const root = rootRef.current;
+    const relayout = () => {
+      if (composing.current) return;
+      paginate(latest.current.state.doc);
+      showSelection(latest.current.state, false);
+    };
+    root?.addEventListener('load', relayout, true);
+    document.fonts?.ready.then(relayout);
+    return () => root?.removeEventListener('load', relayout, true);
+  }, []);
+
+  useLayoutEffect(() => {
+    rootRef.current?.querySelectorAll('[data-picked]').forEach(el => el.removeAttribute('data-picked'));
+    if (picked) rootRef.current?.querySelector(`[data-id="${picked}"]`)?.setAttribute('data-picked', '');
+  }, [picked, state.doc]);
+
+  // --- INPUT ---
+  const change = (next: EditorState, kind: ChangeKind | null) => {
+    setPicked(null);
+    latest.current.onChange(next, kind);
+  };
+
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    const onSelectionChange = () => {
+      if (composing.current) return;
+      const { state: s } = latest.current;
+      const sel = window.getSelection();
+      if (!sel?.anchorNode || !root.contains(sel.anchorNode)) return;
+      const mapped = readSelection(root, s.doc);
+      if (mapped && !sameSelection(mapped, s.selection)) latest.current.onChange({ ...s, selection: mapped, marks: null }, null);
+    };
+
+    const onBeforeInput = (e: InputEvent) => {
+      const s = latest.current.state;
+      const target = rangeSelection(root, s.doc, e.getTargetRanges?.()[0]);
+      const at = target ? { ...s, selection: target } : s;
+      // Deleting within one text uses the browser's idea of a character or
+      // word; at a block's edge our own rules apply.
+      const withinText = target && !isCollapsed(target) && sameContainer(target.anchor, target.focus) && isCollapsed(s.selection);
+      switch (e.inputType) {
+        case 'insertCompositionText':
+        case 'deleteCompositionText':
+        case 'insertFromComposition':
+          return;
+        case 'insertText':
+        case 'insertReplacementText': {
+          e.preventDefault();
+          const text = e.data ?? e.dataTransfer?.getData('text/plain') ?? '';
+          change(insertText(at, text.replace(/\r\n?/g, '\n')), 'typing');
+          return;
+        }
+        case 'insertParagraph':
+          e.preventDefault();
+          change(splitBlock(s), 'edit');
+          return;
+        case 'insertLineBreak':
+          e.preventDefault();
+          change(insertText(s, '\n'), 'typing');
+          return;
+        case 'deleteContentBackward':
+        case 'deleteWordBackward':
+        case 'deleteSoftLineBackward':
+        case 'deleteHardLineBackward':
+          e.preventDefault();
+          change(withinText ? deleteSelection(at) : deleteBackward(s, e.inputType !== 'deleteContentBackward'), 'typing');
+          return;
+        case 'deleteContentForward':
+        case 'deleteWordForward':
+        case 'deleteSoftLineForward':
+        case 'deleteHardLineForward':
+          e.preventDefault();
+          change(withinText ? deleteSelection(at) : deleteForward(s, e.inputType !== 'deleteContentForward'), 'typing');
+          return;
+        case 'deleteByCut':
+        case 'deleteByDrag':
+        case 'deleteContent':
+          e.preventDefault();
+          change(deleteSelection(s), 'edit');
+          return;
+        case 'historyUndo':
+          e.preventDefault();
+          latest.current.onUndo();
+          return;
+        case 'historyRedo':
+          e.preventDefault();
+          latest.current.onRedo();
+          return;
+        case 'formatBold':
+        case 'formatItalic':
+        case 'formatUnderline':
+        case 'formatStrikeThrough': {
+          e.preventDefault();
+          const key = ({ formatBold: 'bold', formatItalic: 'italic', formatUnderline: 'underline', formatStrikeThrough: 'strike' } as const)[e.inputType];
+          change(toggleMark(s, key), 'edit');
+          return;
+        }
+        default:
+          // Pastes and drops arrive as their own events; nothing else may
+          // change the page behind the model's back.
+          e.preventDefault();
+      }
+    };
+
+    document.addEventListener('selectionchange', onSelectionChange);
+    root.addEventListener('beforeinput', onBeforeInput);
+    return () => {
+      document.removeEventListener('selectionchange', onSelectionChange);
+      root.removeEventListener('beforeinput', onBeforeInput);
+    };
+  }, []);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const s = latest.current.state;
+    const mod = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+    if (mod && !e.altKey && (key === 'z' || key === 'y')) {
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) onRedo();
+      else onUndo();
+      return;
+    }
+    if (mod && !e.altKey && e.key === 'Enter') {
+      e.preventDefault();
+      change(insertBlocks(s, [{ type: 'pageBreak', id: '' }]), 'edit');
+      return;
+    }
+    if (mod && !e.altKey && !e.shiftKey && (key === 'b' || key === 'i' || key === 'u')) {
+      e.preventDefault();
+      change(toggleMark(s, key === 'b' ? 'bold' : key === 'i' ? 'italic' : 'underline'), 'edit');
+      return;
+    }
+    if (picked && (e.key === 'Backspace' || e.key === 'Delete')) {
+      e.preventDefault();
+      const index = s.doc.blocks.findIndex(b => b.id === picked);
+      if (index >= 0) change(removeBlock(s, index), 'edit');
+      return;
+    }
+    if (e.key === 'Tab' && !mod && !e.altKey) {
+      e.preventDefault();
+      const [from] = selectionRange(s.selection);
+      const block = s.doc.blocks[from.block];
+      if (from.cell) change(moveCell(s, e.shiftKey ? -1 : 1), null);
+      else if (block?.type === 'listItem' || e.shiftKey) change(indent(s, e.shiftKey ? -1 : 1), 'edit');
+      else change(insertText(s, '\t'), 'typing');
+    }
+  };
+
+  // --- CLIPBOARD AND DROPS ---
+  const insertFiles = (files: File[], at: EditorState) => {
+    imageBlocks(files)
+      .then(blocks => blocks.length && change(insertBlocks(at, blocks), 'edit'))
+      .catch(err => alert('The picture could not be read: ' + err.message));
+  };
+
+  const onPaste = (e: React.ClipboardEvent) => {
+    e.preventDefault();
+    const s = latest.current.state;
+    const files = Array.from(e.clipboardData.files) as File[];
+    if (files.some(f => f.type.startsWith('image/'))) {
+      insertFiles(files, s);
+      return;
+    }
+    const html = e.clipboardData.getData('text/html');
+    const blocks = html ? htmlToBlocks(html) : textToBlocks(e.clipboardData.getData('text/plain'));
+    change(insertBlocks(s, blocks), 'edit');
+  };
+
+  const onDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const root = rootRef.current!;
+    const s = latest.current.state;
+    const point = document.caretRangeFromPoint?.(e.clientX, e.clientY);
+    const target = point && rangeSelection(root, s.doc, point);
+    const at = target ? { ...s, selection: target } : s;
+    const files = Array.from(e.dataTransfer.files) as File[];
+    if (files.length) {
+      insertFiles(files, at);
+      return;
+    }
+    const html = e.dataTransfer.getData('text/html');
+    const text = e.dataTransfer.getData('text/plain');
+    if (html || text) change(insertBlocks(at, html ? htmlToBlocks(html) : textToBlocks(text)), 'edit');
+  };
+
+  // --- POINTER ---
+  const onMouseDown = (e: React.MouseEvent) => {
+    const root = rootRef.current!;
+    const index = topLevel(root, e.target as Node);
+    const block = latest.current.state.doc.blocks[index];
+    setPicked(block && !isTextBlock(block) && block.type !== 'table' ? block.id : null);
+  };
+
+  // Links open with Ctrl (or Cmd) held, since a plain click places the caret.
+  const onClick = (e: React.MouseEvent) => {
+    const entry = (e.target as HTMLElement).closest?.('[data-heading]') as HTMLElement | null;
+    if (entry) {
+      onGoToHeading(entry.dataset.heading!);
+      return;
+    }
+    const link = (e.target as Element).closest?.('a[href]');
+    if (link && (e.ctrlKey || e.metaKey)) window.open(link.getAttribute('href')!, '_blank', 'noopener');
+  };
+
+  const onCompositionStart = () => {
+    const root = rootRef.current!;
+    const s = latest.current.state;
+    const sel = readSelection(root, s.doc);
+    composing.current = sel ? { ...s, selection: sel } : s;
+  };
+
+  const onCompositionEnd = (e: React.CompositionEvent) => {
+    const start = composing.current;
+    composing.current = null;
+    if (!start) return;
+    // The browser has already changed the page; draw it from the model again.
+    draw(start.doc, true);
+    paginate(start.doc);
+    if (e.data) change(insertText(start, e.data), 'typing');
+    else showSelection(start, false);
+  };
+
+  const { width, height, margins } = metrics;
+  const band = (region: WriterDoc['header'], page: number, edge: 'top' | 'bottom') => hasRegion(region) && (
+    <div
+      className="absolute flex items-center"
+      style={{ left: margins.left, right: margins.right, [edge]: 0, height: margins[edge] }}
+      dangerouslySetInnerHTML={{ __html: regionHtml(region, { page, pages, date }) }}
+    />
+  );
+
+  return (
+    <div style={{ ...style, width, height: pages * (height + PAGE_GAP) - PAGE_GAP }} className={`relative ${className ?? ''}`}>
+      {Array.from({ length: pages }, (_, i) => (
+        <div key={i} className="absolute left-0 bg-white shadow-2xl" style={{ top: i * (height + PAGE_GAP), width, height }}>
+          {band(state.doc.header, i + 1, 'top')}
+          {band(state.doc.footer, i + 1, 'bottom')}
+        </div>
+      ))}
+      <div
+        ref={rootRef}
+        contentEditable
+        suppressContentEditableWarning
+        spellCheck={spellCheck}
+        onKeyDown={onKeyDown}
+        onPaste={onPaste}
+        onDragOver={e => e.preventDefault()}
+        onDrop={onDrop}
+        onMouseDown={onMouseDown}
+        onClick={onClick}
+        onCompositionStart={onCompositionStart}
+        onCompositionEnd={onCompositionEnd}
+        style={{ padding: `${margins.top}px ${margins.right}px ${margins.bottom}px ${margins.left}px`, minHeight: '100%' }}
+        className="relative outline-none [&_[data-picked]]:outline [&_[data-picked]]:outline-2 [&_[data-picked]]:outline-[#c8a96e]"
+      />
+    </div>
+  );
+};
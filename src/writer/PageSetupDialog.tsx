@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { Margins, Orientation, PageRegion, PageSetup, PaperSize } from './model.ts';
+import { FIELDS, MIN_TEXT_MM, PAPER_SIZES, paperSize } from './pages.ts';
+
+// --- PAGE SETUP DIALOG ---
+// Paper, orientation and margins, and the header and footer text. Fields go
+// in at the caret of the header or footer box last typed in.
+interface PageSetupDialogProps {
+  page: PageSetup;
+  header?: PageRegion;
+  footer?: PageRegion;
+  onApply: (layout: { page: PageSetup; header: PageRegion; footer: PageRegion }) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-[#1e1e22] border border-[#2a2a30] rounded px-2 py-1 outline-none focus:border-[#c8a96e]';
+
+const SIDES = ['left', 'center', 'right'] as const;
+type RegionKey = 'header' | 'footer';
+
+export const PageSetupDialog = ({ page, header, footer, onApply, onClose }: PageSetupDialogProps) => {
+  const [size, setSize] = useState<PaperSize>(page.size);
+  const [orientation, setOrientation] = useState<Orientation>(page.orientation);
+  const [margins, setMargins] = useState<Margins>(page.margins);
+  const [regions, setRegions] = useState<Record<RegionKey, PageRegion>>({ header: header ?? {}, footer: footer ?? {} });
+  const caret = useRef<{ region: RegionKey; side: typeof SIDES[number]; at: number }>({ region: 'footer', side: 'center', at: 0 });
+
+  const setRegion = (region: RegionKey, side: typeof SIDES[number], text: string) =>
+    setRegions({ ...regions, [region]: { ...regions[region], [side]: text } });
+
+  const insertField = (token: string) => {
+    const { region, side, at } = caret.current;
+    const text = regions[region][side] ?? '';
+    setRegion(region, side, text.slice(0, at) + token + text.slice(at));
+    caret.current = { region, side, at: at + token.length };
+  };
+
+  const apply = () => {
+    const [width, height] = paperSize({ size, orientation, margins });
+    if ((['top', 'right', 'bottom', 'left'] as const).some(side => !(margins[side] >= 0))) return alert('Margins must be zero or more.');
+    if (width - margins.left - margins.right < MIN_TEXT_MM || height - margins.top - margins.bottom < MIN_TEXT_MM) {
+      return alert(`The margins leave less than ${MIN_TEXT_MM} mm for text.`);
+    }
+    onApply({ page: { size, orientation, margins }, header: regions.header, footer: regions.footer });
+  };
+
+  const regionRow = (region: RegionKey, label: string) => (
+    <div className="flex items-center gap-2">
+      <span className="w-20 text-[#888894]">{label}</span>
+      {SIDES.map(side => (
+        <input
+          key={side}
+          value={regions[region][side] ?? ''}
+          placeholder={side[0].toUpperCase() + side.slice(1)}
+          onChange={e => setRegion(region, side, e.target.value)}
+          onSelect={e => { caret.current = { region, side, at: e.currentTarget.selectionStart ?? e.currentTarget.value.length }; }}
+          className={`flex-1 min-w-0 ${side === 'center' ? 'text-center ' : side === 'right' ? 'text-right ' : ''}${inputClass}`}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#17171a] border border-[#2a2a30] rounded-xl w-full max-w-lg shadow-2xl text-[#e8e8ec]">
+        <div className="p-4 border-b border-[#2a2a30] flex justify-between items-center">
+          <h2 className="text-lg font-serif text-[#c8a96e]">Page Setup</h2>
+          <button onClick={onClose} className="text-[#888894] hover:text-white"><X size={18}/></button>
+        </div>
+        <div className="p-4 flex flex-col gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="w-20 text-[#888894]">Paper</span>
+            <select value={size} onChange={e => setSize(e.target.value as PaperSize)} className={`flex-1 ${inputClass}`}>
+              {(Object.keys(PAPER_SIZES) as PaperSize[]).map(p => (
+                <option key={p} value={p}>{PAPER_SIZES[p].name} ({PAPER_SIZES[p].width} × {PAPER_SIZES[p].height} mm)</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex items-center gap-2">
+            <span className="w-20 text-[#888894]">Orientation</span>
+            {(['portrait', 'landscape'] as const).map(o => (
+              <button
+                key={o}
+                onClick={() => setOrientation(o)}
+                className={`flex-1 px-2 py-1 rounded border ${orientation === o ? 'border-[#c8a96e] bg-[#c8a96e]/10' : 'border-[#2a2a30] hover:bg-[#1e1e22]'}`}
+              >
+                {o === 'portrait' ? 'Portrait' : 'Landscape'}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-start gap-2">
+            <span className="w-20 text-[#888894] pt-1">Margins (mm)</span>
+            <div className="flex-1 grid grid-cols-2 gap-2">
+              {(['top', 'bottom', 'left', 'right'] as const).map(side => (
+                <label key={side} className="flex items-center gap-2">
+                  <span className="w-12 text-[#888894]">{side[0].toUpperCase() + side.slice(1)}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={margins[side]}
+                    onChange={e => setMargins({ ...margins, [side]: parseFloat(e.target.value) })}
+                    className={`flex-1 min-w-0 ${inputClass}`}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+          {regionRow('header', 'Header')}
+          {regionRow('footer', 'Footer')}
+          <div className="flex items-center gap-2">
+            <span className="w-20 text-[#888894]">Insert</span>
+            {FIELDS.map(f => (
+              <button key={f.token} onClick={() => insertField(f.token)} className="px-2 py-1 rounded border border-[#2a2a30] hover:bg-[#c8a96e]/20" title={f.token}>
+                {f.name}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="p-4 border-t border-[#2a2a30] flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-1 rounded hover:bg-[#c8a96e]/20">Cancel</button>
+          <button onClick={apply} className="px-4 py-1 rounded bg-[#c8a96e] text-black font-bold">Apply</button>
+        </div>
+      </div>
+    </div>
+  );
+};
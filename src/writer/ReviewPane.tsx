@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { Check, CheckCheck, MessageSquareDiff, X } from 'lucide-react';
+import { Marks } from './model.ts';
+import { SuggestionEntry, authorColor, suggestionDate } from './suggestions.ts';
+
+// --- REVIEW PANE ---
+// The document's suggestions in order, by author and date. Each can be
+// accepted or rejected on its own, or all at once; clicking one goes to it.
+interface ReviewPaneProps {
+  entries: SuggestionEntry[];
+  onReview: (accept: boolean, id?: string) => void;
+  onGoTo: (entry: SuggestionEntry) => void;
+  onClose: () => void;
+}
+
+const MARK_NAMES: Record<keyof Marks, string> = {
+  bold: 'bold', italic: 'italic', underline: 'underline', strike: 'strikethrough', color: 'color', highlight: 'highlight',
+  font: 'font', size: 'size', link: 'link'
+};
+
+const excerpt = (text: string) => text.length > 80 ? text.slice(0, 79) + '…' : text;
+
+export const ReviewPane = ({ entries, onReview, onGoTo, onClose }: ReviewPaneProps) => (
+  <div className="absolute md:relative top-0 right-0 bottom-0 w-full md:w-72 bg-[#17171a] border-l border-[#2a2a30] flex flex-col z-20 shadow-2xl md:shadow-none">
+    <div className="p-3 border-b border-[#2a2a30] flex justify-between items-center">
+      <span className="font-bold text-[#c8a96e] flex items-center gap-2"><MessageSquareDiff size={16}/> Suggestions</span>
+      <button onClick={onClose}><X size={16}/></button>
+    </div>
+    <div className="p-2 border-b border-[#2a2a30] flex gap-2 text-sm">
+      <button disabled={!entries.length} onClick={() => onReview(true)} className="flex-1 flex items-center justify-center gap-1 py-1 rounded bg-[#c8a96e] text-black font-bold disabled:opacity-40">
+        <CheckCheck size={14}/> Accept All
+      </button>
+      <button disabled={!entries.length} onClick={() => onReview(false)} className="flex-1 flex items-center justify-center gap-1 py-1 rounded bg-[#2a2a30] disabled:opacity-40">
+        <X size={14}/> Reject All
+      </button>
+    </div>
+    <div className="p-2 overflow-auto flex-1 flex flex-col gap-2 text-sm">
+      {entries.length === 0 && <div className="p-2 text-[#888894]">Suggested edits appear here.</div>}
+      {entries.map(entry => {
+        const s = entry.suggestion;
+        return (
+          <div key={s.id} onClick={() => onGoTo(entry)} className="p-2 bg-[#1e1e22] border border-[#2a2a30] rounded cursor-pointer hover:border-[#c8a96e]/50">
+            <div className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ background: authorColor(s.author) }}></span>
+              <span className="font-bold truncate">{s.author}</span>
+              <span className="ml-auto flex gap-1 flex-shrink-0">
+                <button onClick={e => { e.stopPropagation(); onReview(true, s.id); }} className="p-1 rounded hover:bg-[#c8a96e]/20 text-[#c8a96e]" title="Accept"><Check size={14}/></button>
+                <button onClick={e => { e.stopPropagation(); onReview(false, s.id); }} className="p-1 rounded hover:bg-[#c8a96e]/20" title="Reject"><X size={14}/></button>
+              </span>
+            </div>
+            <div className="text-xs text-[#888894]">{suggestionDate(s)}</div>
+            <div className="mt-1">
+              {entry.label}
+              {entry.changed.length > 0 && <span className="text-[#888894]">: {entry.changed.map(k => MARK_NAMES[k]).join(', ')}</span>}
+            </div>
+            {entry.text && (
+              <div className={`mt-1 text-[#c8c8d0] break-words ${s.kind === 'delete' ? 'line-through' : ''}`}>“{excerpt(entry.text)}”</div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
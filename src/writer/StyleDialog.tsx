@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { escapeHtml } from '../slides/slide.ts';
+import { Align, StyleDef, StyleId } from './model.ts';
+import { DEFAULT_STYLES, STYLES, StyleSheet, styleCss } from './styles.ts';
+
+// --- STYLE DIALOG ---
+// Edits the document's paragraph style definitions, previewed on a sample
+// line. Saving keeps only the styles that differ from the defaults.
+interface StyleDialogProps {
+  styles: StyleSheet;
+  initial: StyleId;
+  fonts: string[];
+  defaultFont: string;
+  defaultSize: number;
+  onApply: (styles: Partial<Record<StyleId, StyleDef>>) => void;
+  onClose: () => void;
+}
+
+const sameDef = (a: StyleDef, b: StyleDef) =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])].every(k => a[k as keyof StyleDef] === b[k as keyof StyleDef]);
+
+export const StyleDialog = ({ styles, initial, fonts, defaultFont, defaultSize, onApply, onClose }: StyleDialogProps) => {
+  const [draft, setDraft] = useState<StyleSheet>(styles);
+  const [selected, setSelected] = useState<StyleId>(initial);
+  const inputClass = 'bg-[#1e1e22] border border-[#2a2a30] rounded px-2 py-1 outline-none focus:border-[#c8a96e]';
+  const def = draft[selected];
+  const name = STYLES.find(s => s.id === selected)!.name;
+
+  // Empty fields fall back to the defaults, so they are left out.
+  const set = <K extends keyof StyleDef>(key: K, value: StyleDef[K] | undefined) => {
+    const next = { ...def };
+    if (value === undefined || value === '' || value === false || (typeof value === 'number' && isNaN(value))) delete next[key];
+    else next[key] = value;
+    setDraft({ ...draft, [selected]: next });
+  };
+  const number = (value: string) => (value.trim() === '' ? undefined : Math.max(0, Number(value)));
+
+  const apply = () => {
+    const changed: Partial<Record<StyleId, StyleDef>> = {};
+    STYLES.forEach(({ id }) => {
+      if (!sameDef(draft[id], DEFAULT_STYLES[id])) changed[id] = draft[id];
+    });
+    onApply(changed);
+  };
+
+  const preview = `<div style="${escapeHtml(styleCss(def))}">${escapeHtml(name)}: The quick brown fox jumps over the lazy dog.</div>`;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-[#17171a] border border-[#2a2a30] rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col shadow-2xl text-[#e8e8ec]">
+        <div className="p-4 border-b border-[#2a2a30] flex justify-between items-center">
+          <h2 className="text-lg font-serif text-[#c8a96e]">Styles</h2>
+          <button onClick={onClose} className="text-[#888894] hover:text-white"><X size={18}/></button>
+        </div>
+        <div className="flex flex-col md:flex-row gap-4 p-4 overflow-auto text-sm">
+          <div className="md:w-36 flex flex-row md:flex-col flex-wrap gap-1">
+            {STYLES.map(s => (
+              <button
+                key={s.id}
+                onClick={() => setSelected(s.id)}
+                className={`text-left px-2 py-1 rounded border ${selected === s.id ? 'border-[#c8a96e] bg-[#c8a96e]/10' : 'border-[#2a2a30] hover:bg-[#1e1e22]'}`}
+              >
+                {s.name}{sameDef(draft[s.id], DEFAULT_STYLES[s.id]) ? '' : ' •'}
+              </button>
+            ))}
+          </div>
+          <div className="flex-1 flex flex-col gap-3 min-w-0">
+            <div
+              className="bg-white text-black p-3 rounded min-h-[5rem] overflow-hidden"
+              style={{ fontFamily: defaultFont, fontSize: `${defaultSize}pt` }}
+              dangerouslySetInnerHTML={{ __html: preview }}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <label className="flex flex-col gap-1">
+                Font
+                <select value={def.font ?? ''} onChange={e => set('font', e.target.value)} className={inputClass}>
+                  <option value="">Default ({defaultFont})</option>
+                  {(def.font && !fonts.includes(def.font) ? [def.font, ...fonts] : fonts).map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                Size (pt)
+                <input type="number" min={1} placeholder={String(defaultSize)} value={def.size ?? ''} onChange={e => set('size', number(e.target.value))} className={inputClass}/>
+              </label>
+              <label className="flex flex-col gap-1">
+                Alignment
+                <select value={def.align ?? 'left'} onChange={e => set('align', e.target.value === 'left' ? undefined : e.target.value as Align)} className={inputClass}>
+                  {['left', 'center', 'right', 'justify'].map(a => <option key={a} value={a}>{a[0].toUpperCase() + a.slice(1)}</option>)}
+                </select>
+              </label>
+              <div className="flex items-end gap-4 pb-1">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={!!def.bold} onChange={e => set('bold', e.target.checked)} className="accent-[#c8a96e]"/>
+                  Bold
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={!!def.italic} onChange={e => set('italic', e.target.checked)} className="accent-[#c8a96e]"/>
+                  Italic
+                </label>
+              </div>
+              {(['color', 'shading'] as const).map(key => (
+                <label key={key} className="flex items-center gap-2">
+                  <input type="color" value={def[key] ?? (key === 'color' ? '#000000' : '#ffffff')} onChange={e => set(key, e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"/>
+                  {key === 'color' ? 'Text color' : 'Shading'}
+                  {def[key] && <button onClick={() => set(key, undefined)} className="text-xs text-[#888894] hover:text-white">Clear</button>}
+                </label>
+              ))}
+              {([['spaceBefore', 'Space before (pt)'], ['spaceAfter', 'Space after (pt)'], ['indent', 'Indent (pt)']] as const).map(([key, label]) => (
+                <label key={key} className="flex flex-col gap-1">
+                  {label}
+                  <input type="number" min={0} placeholder="0" value={def[key] ?? ''} onChange={e => set(key, number(e.target.value))} className={inputClass}/>
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={() => setDraft({ ...draft, [selected]: DEFAULT_STYLES[selected] })}
+              disabled={sameDef(def, DEFAULT_STYLES[selected])}
+              className="self-start px-3 py-1 rounded border border-[#2a2a30] hover:bg-[#c8a96e]/20 disabled:opacity-40"
+            >
+              Reset {name}
+            </button>
+          </div>
+        </div>
+        <div className="p-4 border-t border-[#2a2a30] flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-1 rounded hover:bg-[#c8a96e]/20">Cancel</button>
+          <button onClick={apply} className="px-4 py-1 rounded bg-[#c8a96e] text-black font-bold">Apply to Document</button>
+        </div>
+      </div>
+    </div>
+  );
+};
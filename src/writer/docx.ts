@@ -0,0 +1,581 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import mammoth from 'mammoth';
+import {
+  IMAGE_TYPES, Rasterizer, XML_HEADER, buildPackage, decodeDataUrl, descendantsByName, escapeXml, firstChild, imageSize, openPackage, readPart
+} from '../shared/ooxml.ts';
+import { ChartDrawer } from './html.ts';
+import {
+  Align, Chart, Image, ListItem, ListKind, Marks, PageRegion, Run, StyleDef, StyleId, Suggestion, SuggestionKind, Table, TextBlock, WriterDoc, isTextBlock
+} from './model.ts';
+import { hasRegion, pageSetup, paperSize } from './pages.ts';
+import { OutlineEntry, STYLES, StyleSheet, docOutline, headingLevel, resolveStyles, styleOf } from './styles.ts';
+
+// --- DOCX EXPORT ---
+// Writes one document part with its styles and numbering. Paragraph styles
+// become Word's built-in ones ("heading n", Title...) and lists real
+// numbering definitions, so both stay what they are in Word, LibreOffice and
+// our own import (mammoth reads them by style name and numbering format).
+// Charts and SVG pictures are written as bitmaps drawn by `rasterize`. Pages
+// follow the document's page setup; headers and footers are parts of their
+// own, with Word fields for the page number, page count and date.
+// Suggestions are tracked changes, by author and date.
+export const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DOC_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const WP_NS = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const PIC_NS = 'http://schemas.openxmlformats.org/drawingml/2006/picture';
+const CT = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+
+// Sizes are in twips (1/20 pt) and pictures in EMU (9525 to the CSS pixel).
+const EMU_PER_PX = 9525;
+const TWIPS_PER_PX = 15;
+const INDENT_TWIPS = 720;
+const CHART_SIZE = { width: 600, height: 360 };
+
+// The document's base font, from the user's Writer settings.
+export interface DocxOptions { font: string; size: number; }
+
+const BULLETS = ['•', '◦', '▪'];
+const JC: Record<Align, string> = { left: 'left', center: 'center', right: 'right', justify: 'both' };
+
+const createRels = () => {
+  const list: string[] = [];
+  return {
+    add: (type: string, target: string, external = false) => {
+      const id = `rId${list.length + 1}`;
+      list.push(`<Relationship Id="${id}" Type="${DOC_REL}/${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`);
+      return id;
+    },
+    toXml: () => XML_HEADER + `<Relationships xmlns="${PKG_REL}">${list.join('')}</Relationships>`
+  };
+};
+
+interface WriteContext {
+  rels: ReturnType<typeof createRels>;
+  media: Map<string, { path: string; relId: string; bytes: Uint8Array }>;
+  drawChart: ChartDrawer;
+  rasterize: Rasterizer;
+  styles: StyleSheet;
+  pictures: number;
+  textWidth: number;
+  changes: number;
+}
+
+const hex = (color: string | undefined) => color && /^#[0-9a-f]{6}$/i.test(color) ? color.slice(1).toUpperCase() : null;
+
+// --- TRACKED CHANGES ---
+// Each change needs an id of its own. Word wants dates without fractions of
+// a second.
+const changeAttrs = (s: Suggestion, ctx: WriteContext) =>
+  `w:id="${++ctx.changes}" w:author="${escapeXml(s.author)}" w:date="${escapeXml(s.date.replace(/\.\d+Z$/, 'Z'))}"`;
+
+// `content` inserted or deleted, or without content the mark that goes on
+// a paragraph mark or table row.
+const trackedXml = (s: Suggestion | undefined, ctx: WriteContext, content?: string) => {
+  if (!s || s.kind === 'format') return content ?? '';
+  const tag = s.kind === 'insert' ? 'w:ins' : 'w:del';
+  return content === undefined ? `<${tag} ${changeAttrs(s, ctx)}/>` : `<${tag} ${changeAttrs(s, ctx)}>${content}</${tag}>`;
+};
+
+// --- RUNS ---
+// Properties in the order the schema requires.
+const runProps = (run: Marks) => {
+  const color = hex(run.color);
+  const fill = hex(run.highlight);
+  return [
+    run.link ? '<w:rStyle w:val="Hyperlink"/>' : '',
+    run.font ? `<w:rFonts w:ascii="${escapeXml(run.font)}" w:hAnsi="${escapeXml(run.font)}" w:cs="${escapeXml(run.font)}"/>` : '',
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+    run.strike ? '<w:strike/>' : '',
+    color ? `<w:color w:val="${color}"/>` : '',
+    run.size ? `<w:sz w:val="${Math.round(run.size * 2)}"/><w:szCs w:val="${Math.round(run.size * 2)}"/>` : '',
+    run.underline ? '<w:u w:val="single"/>' : '',
+    fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>` : ''
+  ].join('');
+};
+
+// Formatting changes keep the properties from before, last.
+const runPropsXml = (run: Run, ctx: WriteContext) => {
+  const s = run.suggestion;
+  const props = runProps(run) + (s?.kind === 'format' ? `<w:rPrChange ${changeAttrs(s, ctx)}><w:rPr>${runProps(s.before ?? {})}</w:rPr></w:rPrChange>` : '');
+  return props ? `<w:rPr>${props}</w:rPr>` : '';
+};
+
+// Line breaks and tabs are elements of their own in a run; deleted text is
+// w:delText.
+const runXml = (run: Run, ctx: WriteContext) => {
+  const text = run.suggestion?.kind === 'delete' ? 'w:delText' : 'w:t';
+  return trackedXml(run.suggestion, ctx, `<w:r>${runPropsXml(run, ctx)}` + run.text.split(/(\n|\t)/).map(part =>
+    part === '\n' ? '<w:br/>' : part === '\t' ? '<w:tab/>' : part ? `<${text} xml:space="preserve">${escapeXml(part)}</${text}>` : ''
+  ).join('') + '</w:r>');
+};
+
+// Neighbouring runs with the same link share one hyperlink.
+const runsXml = (runs: Run[], ctx: WriteContext) => {
+  let xml = '';
+  for (let i = 0; i < runs.length;) {
+    const link = runs[i].link;
+    let j = i + 1;
+    while (j < runs.length && runs[j].link === link) j++;
+    const inner = runs.slice(i, j).map(run => runXml(run, ctx)).join('');
+    xml += link ? `<w:hyperlink r:id="${ctx.rels.add('hyperlink', link, true)}" w:history="1">${inner}</w:hyperlink>` : inner;
+    i = j;
+  }
+  return xml;
+};
+
+// --- BLOCKS ---
+// Bullets share one numbering instance. Each run of numbered items gets its
+// own, started at 1, so numbers restart where the editor's do (see
+// listMarkers): at a new list, after a shallower item, or after bullets at
+// the same level.
+const createNumbering = () => {
+  const nums: string[] = [];
+  const current: { list: ListKind; numId: number }[] = [];
+  return {
+    numId: (block: ListItem) => {
+      const level = block.indent ?? 0;
+      current.length = level + 1;
+      if (current[level]?.list !== block.list) {
+        const numId = block.list === 'bullet' ? 1 : nums.length + 2;
+        if (block.list === 'ordered') {
+          nums.push(`<w:num w:numId="${numId}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`);
+        }
+        current[level] = { list: block.list, numId };
+      }
+      return current[level].numId;
+    },
+    endList: () => { current.length = 0; },
+    toXml: () => {
+      const levels = (ordered: boolean) => Array.from({ length: 9 }, (_, l) =>
+        `<w:lvl w:ilvl="${l}"><w:start w:val="1"/><w:numFmt w:val="${ordered ? 'decimal' : 'bullet'}"/>` +
+        `<w:lvlText w:val="${ordered ? `%${l + 1}.` : BULLETS[l % BULLETS.length]}"/><w:lvlJc w:val="left"/>` +
+        `<w:pPr><w:ind w:left="${(l + 1) * INDENT_TWIPS}" w:hanging="360"/></w:pPr></w:lvl>`).join('');
+      return XML_HEADER + `<w:numbering xmlns:w="${W_NS}">` +
+        `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum>` +
+        `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>` +
+        '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>' + nums.join('') + '</w:numbering>';
+    }
+  };
+};
+
+const paragraphXml = (props: string, content: string) => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+
+// `breakAfter` is the suggestion on the break after the block, which Word
+// keeps on its paragraph mark.
+const textBlockXml = (block: TextBlock, numId: number | null, ctx: WriteContext, breakAfter?: Suggestion) => {
+  const level = block.indent ?? 0;
+  const style = styleOf(block);
+  const props = [
+    style !== 'body' ? `<w:pStyle w:val="${STYLE_XML_IDS[style].id}"/>` : '',
+    numId !== null ? `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>` : '',
+    block.type !== 'listItem' && level ? `<w:ind w:left="${level * INDENT_TWIPS + twips(ctx.styles[style].indent ?? 0)}"/>` : '',
+    block.align ? `<w:jc w:val="${JC[block.align]}"/>` : '',
+    breakAfter ? `<w:rPr>${trackedXml(breakAfter, ctx)}</w:rPr>` : ''
+  ].join('');
+  return paragraphXml(props, runsXml(block.runs, ctx));
+};
+
+const tableXml = (block: Table, ctx: WriteContext) => {
+  const cols = Math.max(1, ...block.rows.map(r => r.length));
+  const width = Math.floor(ctx.textWidth / cols);
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="CCCCCC"/>`;
+  return '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/>' +
+    `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders>` +
+    '<w:tblLayout w:type="fixed"/><w:tblCellMar><w:top w:w="80" w:type="dxa"/><w:left w:w="120" w:type="dxa"/>' +
+    '<w:bottom w:w="80" w:type="dxa"/><w:right w:w="120" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+    `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(cols)}</w:tblGrid>` +
+    block.rows.map(row => `<w:tr>${block.suggestion ? `<w:trPr>${trackedXml(block.suggestion, ctx)}</w:trPr>` : ''}` + Array.from({ length: cols }, (_, c) =>
+      `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr>${paragraphXml('<w:spacing w:after="0"/>', runsXml(row[c]?.runs ?? [], ctx))}</w:tc>`
+    ).join('') + '</w:tr>').join('') +
+    '</w:tbl>';
+};
+
+// The size an SVG asks for, from its width/height or viewBox.
+const svgSize = (svg: string): [number, number] => {
+  const root = /<svg\b[^>]*>/i.exec(svg)?.[0] ?? '';
+  const attr = (name: string) => parseFloat(new RegExp(`\\s${name}="([\\d.]+)`).exec(root)?.[1] ?? '');
+  const box = /viewBox="[\d.\s-]+?\s([\d.]+)\s+([\d.]+)"/.exec(root);
+  return [attr('width') || Number(box?.[1]) || CHART_SIZE.width, attr('height') || Number(box?.[2]) || CHART_SIZE.height];
+};
+
+// A picture's bytes, registered once per source, and its size in pixels.
+const pictureOf = async (block: Image | Chart, ctx: WriteContext) => {
+  let src = block.type === 'image' ? block.src : '';
+  let size: [number, number] | null = null;
+  if (block.type === 'chart') {
+    size = [CHART_SIZE.width, CHART_SIZE.height];
+    src = await ctx.rasterize(ctx.drawChart(block), size[0], size[1]).catch(() => '');
+  }
+  let data = src ? decodeDataUrl(src) : null;
+  if (data?.mime === 'image/svg+xml') {
+    const svg = new TextDecoder().decode(data.bytes);
+    size = svgSize(svg);
+    const png = await ctx.rasterize(svg, size[0], size[1]).catch(() => '');
+    data = png ? decodeDataUrl(png) : null;
+  }
+  const ext = data && Object.keys(IMAGE_TYPES).find(e => IMAGE_TYPES[e] === data!.mime && e !== 'jpg' && e !== 'svg');
+  if (!data || !ext) return null;
+  const key = block.type === 'chart' ? `${block.id}:${src.length}:${src.slice(-64)}` : src;
+  if (!ctx.media.has(key)) {
+    const path = `media/image${ctx.media.size + 1}.${ext}`;
+    ctx.media.set(key, { path, relId: ctx.rels.add('image', path), bytes: data.bytes });
+  }
+  return { relId: ctx.media.get(key)!.relId, size: size ?? imageSize(data.bytes) ?? [CHART_SIZE.width, CHART_SIZE.height] };
+};
+
+// Pictures are inline in a paragraph of their own, as wide as they were
+// shown and never wider than the text.
+const pictureXml = async (block: Image | Chart, ctx: WriteContext) => {
+  const picture = await pictureOf(block, ctx);
+  if (!picture) return paragraphXml('', '');
+  const [w, h] = picture.size;
+  const width = Math.min(block.type === 'image' && block.width ? block.width : w, Math.round(ctx.textWidth / TWIPS_PER_PX));
+  const cx = Math.round(width * EMU_PER_PX);
+  const cy = Math.round(width * (h / w || 0.6) * EMU_PER_PX);
+  const id = ++ctx.pictures;
+  const name = block.type === 'chart' ? `Chart ${id}` : `Picture ${id}`;
+  const descr = block.type === 'image' ? escapeXml(block.alt ?? '') : '';
+  return paragraphXml('', trackedXml(block.suggestion, ctx, '<w:r><w:drawing>' +
+    `<wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="${name}" descr="${descr}"/>` +
+    `<wp:cNvGraphicFramePr><a:graphicFrameLocks xmlns:a="${A_NS}" noChangeAspect="1"/></wp:cNvGraphicFramePr>` +
+    `<a:graphic xmlns:a="${A_NS}"><a:graphicData uri="${PIC_NS}"><pic:pic xmlns:pic="${PIC_NS}">` +
+    `<pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${picture.relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>'));
+};
+
+// A Word TOC field, with today's headings as its result so it reads right
+// before Word updates it.
+const tocXml = (outline: OutlineEntry[]) => {
+  const begin = '<w:r><w:fldChar w:fldCharType="begin"/></w:r>' +
+    '<w:r><w:instrText xml:space="preserve"> TOC \\o "1-6" \\h \\z \\u </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>';
+  const end = '<w:r><w:fldChar w:fldCharType="end"/></w:r>';
+  const entries = outline.length ? outline : [{ level: 1, text: 'Add headings to build the table of contents.' }];
+  return paragraphXml('<w:pStyle w:val="TOCHeading"/>', '<w:r><w:t>Contents</w:t></w:r>') +
+    entries.map((e, i) => paragraphXml(`<w:pStyle w:val="TOC${e.level}"/>`,
+      (i === 0 ? begin : '') + `<w:r><w:t xml:space="preserve">${escapeXml(e.text)}</w:t></w:r>` + (i === entries.length - 1 ? end : ''))).join('');
+};
+
+const ruleXml = (s: Suggestion | undefined, ctx: WriteContext) =>
+  paragraphXml('<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="999999"/></w:pBdr>' + (s ? `<w:rPr>${trackedXml(s, ctx)}</w:rPr>` : ''), '');
+const pageBreakXml = (s: Suggestion | undefined, ctx: WriteContext) => paragraphXml('', trackedXml(s, ctx, '<w:r><w:br w:type="page"/></w:r>'));
+
+// --- HEADERS AND FOOTERS ---
+const FIELD_INSTR: Record<string, string> = { page: 'PAGE', pages: 'NUMPAGES', date: 'DATE \\@ "d MMMM yyyy"' };
+
+// Text with its {fields} as Word fields; the shown result is Word's to update.
+const fieldsXml = (text: string) =>
+  text.split(/\{(page|pages|date)\}/).map((part, i) => i % 2
+    ? `<w:fldSimple w:instr=" ${escapeXml(FIELD_INSTR[part])} "><w:r><w:t>${part === 'date' ? escapeXml(new Date().toLocaleDateString()) : '1'}</w:t></w:r></w:fldSimple>`
+    : part ? `<w:r><w:t xml:space="preserve">${escapeXml(part)}</w:t></w:r>` : '').join('');
+
+// The three parts go on one line, at the center and right tab stops of the
+// Header and Footer styles.
+const regionXml = (region: PageRegion, kind: 'hdr' | 'ftr') =>
+  XML_HEADER + `<w:${kind} xmlns:w="${W_NS}" xmlns:r="${DOC_REL}">` +
+  paragraphXml(`<w:pStyle w:val="${kind === 'hdr' ? 'Header' : 'Footer'}"/>`,
+    fieldsXml(region.left ?? '') + '<w:r><w:tab/></w:r>' + fieldsXml(region.center ?? '') + '<w:r><w:tab/></w:r>' + fieldsXml(region.right ?? '')) +
+  `</w:${kind}>`;
+
+// --- STYLES ---
+// Word's built-in names, so headings, titles and captions are recognised as
+// such; Code has none and keeps its own.
+const STYLE_XML_IDS: Record<StyleId, { id: string; name: string }> = {
+  body: { id: 'Normal', name: 'Normal' },
+  title: { id: 'Title', name: 'Title' },
+  heading1: { id: 'Heading1', name: 'heading 1' },
+  heading2: { id: 'Heading2', name: 'heading 2' },
+  heading3: { id: 'Heading3', name: 'heading 3' },
+  heading4: { id: 'Heading4', name: 'heading 4' },
+  heading5: { id: 'Heading5', name: 'heading 5' },
+  heading6: { id: 'Heading6', name: 'heading 6' },
+  quote: { id: 'Quote', name: 'Quote' },
+  code: { id: 'Code', name: 'Code' },
+  caption: { id: 'Caption', name: 'caption' }
+};
+
+const half = (pt: number) => Math.round(pt * 2);
+const twips = (pt: number) => Math.round(pt * 20);
+const fontsXml = (font: string) =>
+  `<w:rFonts w:ascii="${escapeXml(font)}" w:hAnsi="${escapeXml(font)}" w:eastAsia="${escapeXml(font)}" w:cs="${escapeXml(font)}"/>`;
+
+// Styles aren't based on one another: each is the defaults plus its own
+// definition, as in the editor.
+const styleXml = (styleId: StyleId, def: StyleDef) => {
+  const { id, name } = STYLE_XML_IDS[styleId];
+  const level = headingLevel(styleId);
+  const shading = hex(def.shading);
+  const color = hex(def.color);
+  const pPr = [
+    level ? '<w:keepNext/><w:keepLines/>' : '',
+    shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${shading}"/>` : '',
+    `<w:spacing w:before="${twips(def.spaceBefore ?? 0)}" w:after="${twips(def.spaceAfter ?? 0)}"/>`,
+    def.indent ? `<w:ind w:left="${twips(def.indent)}"/>` : '',
+    def.align && def.align !== 'left' ? `<w:jc w:val="${JC[def.align]}"/>` : '',
+    level ? `<w:outlineLvl w:val="${level - 1}"/>` : ''
+  ].join('');
+  const rPr = [
+    def.font ? fontsXml(def.font) : '',
+    def.bold ? '<w:b/><w:bCs/>' : '',
+    def.italic ? '<w:i/><w:iCs/>' : '',
+    color ? `<w:color w:val="${color}"/>` : '',
+    def.size ? `<w:sz w:val="${half(def.size)}"/><w:szCs w:val="${half(def.size)}"/>` : ''
+  ].join('');
+  return `<w:style w:type="paragraph"${styleId === 'body' ? ' w:default="1"' : ''} w:styleId="${id}"><w:name w:val="${name}"/>` +
+    (styleId !== 'body' && styleId !== 'quote' && styleId !== 'code' ? '<w:next w:val="Normal"/>' : '') +
+    `<w:uiPriority w:val="${level ? 9 : 10}"/><w:qFormat/><w:pPr>${pPr}</w:pPr>${rPr ? `<w:rPr>${rPr}</w:rPr>` : ''}</w:style>`;
+};
+
+const tocStyleXml = (level: number) =>
+  `<w:style w:type="paragraph" w:styleId="TOC${level}"><w:name w:val="toc ${level}"/><w:next w:val="Normal"/><w:uiPriority w:val="39"/>` +
+  `<w:unhideWhenUsed/><w:pPr><w:spacing w:after="60"/><w:ind w:left="${(level - 1) * 240}"/></w:pPr></w:style>`;
+
+const regionStyleXml = (id: 'Header' | 'Footer', size: number, textWidth: number) =>
+  `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${id.toLowerCase()}"/><w:uiPriority w:val="99"/><w:unhideWhenUsed/>` +
+  `<w:pPr><w:tabs><w:tab w:val="center" w:pos="${Math.round(textWidth / 2)}"/><w:tab w:val="right" w:pos="${textWidth}"/></w:tabs></w:pPr>` +
+  `<w:rPr><w:color w:val="666666"/><w:sz w:val="${half(size * 0.8)}"/><w:szCs w:val="${half(size * 0.8)}"/></w:rPr></w:style>`;
+
+const stylesXml = (styles: StyleSheet, { font, size }: DocxOptions, textWidth: number) =>
+  XML_HEADER + `<w:styles xmlns:w="${W_NS}">` +
+  `<w:docDefaults><w:rPrDefault><w:rPr>${fontsXml(font)}<w:sz w:val="${half(size)}"/><w:szCs w:val="${half(size)}"/>` +
+  '<w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  STYLES.map(s => styleXml(s.id, styles[s.id])).join('') +
+  '<w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:next w:val="Normal"/><w:uiPriority w:val="39"/>' +
+  '<w:unhideWhenUsed/><w:pPr><w:spacing w:before="120" w:after="120"/></w:pPr><w:rPr><w:b/><w:bCs/></w:rPr></w:style>' +
+  [1, 2, 3, 4, 5, 6].map(tocStyleXml).join('') +
+  regionStyleXml('Header', size, textWidth) + regionStyleXml('Footer', size, textWidth) +
+  '<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>' +
+  '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:basedOn w:val="DefaultParagraphFont"/>' +
+  '<w:uiPriority w:val="99"/><w:unhideWhenUsed/><w:rPr><w:color w:val="1A5FB4"/><w:u w:val="single"/></w:rPr></w:style>' +
+  '<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:semiHidden/>' +
+  '<w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/>' +
+  '<w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+  '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:basedOn w:val="TableNormal"/><w:uiPriority w:val="39"/></w:style>' +
+  '</w:styles>';
+
+export const writeDocx = async (doc: WriterDoc, options: DocxOptions, drawChart: ChartDrawer, rasterize: Rasterizer): Promise<Blob> => {
+  const rels = createRels();
+  rels.add('styles', 'styles.xml');
+  rels.add('numbering', 'numbering.xml');
+  rels.add('settings', 'settings.xml');
+  const setup = pageSetup(doc);
+  const mm = (value: number) => Math.round((value * 1440) / 25.4);
+  const [pageWidth, pageHeight] = paperSize(setup).map(mm);
+  const margins = { top: mm(setup.margins.top), right: mm(setup.margins.right), bottom: mm(setup.margins.bottom), left: mm(setup.margins.left) };
+  const textWidth = pageWidth - margins.left - margins.right;
+  const ctx: WriteContext = { rels, media: new Map(), drawChart, rasterize, styles: resolveStyles(doc), pictures: 0, textWidth, changes: 0 };
+  const regions = ([['header', 'hdr'], ['footer', 'ftr']] as const).filter(([key]) => hasRegion(doc[key])).map(([key, kind]) =>
+    ({ key, kind, part: `${key}1.xml`, relId: rels.add(key, `${key}1.xml`), xml: regionXml(doc[key]!, kind) }));
+  const outline = docOutline(doc);
+  const numbering = createNumbering();
+
+  let body = '';
+  for (const [i, block] of doc.blocks.entries()) {
+    const previous = doc.blocks[i - 1];
+    const next = doc.blocks[i + 1];
+    const breakAfter = isTextBlock(next) ? next.suggestion : undefined;
+    if (block.type === 'listItem') {
+      body += textBlockXml(block, numbering.numId(block), ctx, breakAfter);
+      continue;
+    }
+    numbering.endList();
+    if (block.type === 'paragraph' || block.type === 'heading') {
+      body += textBlockXml(block, null, ctx, breakAfter);
+    } else if (block.type === 'table') {
+      // Word joins neighbouring tables into one, so keep them apart.
+      if (previous?.type === 'table') body += paragraphXml('', '');
+      body += tableXml(block, ctx);
+    } else if (block.type === 'rule') {
+      body += ruleXml(block.suggestion, ctx);
+    } else if (block.type === 'toc') {
+      body += tocXml(outline);
+    } else if (block.type === 'pageBreak') {
+      body += pageBreakXml(block.suggestion, ctx);
+    } else {
+      body += await pictureXml(block, ctx);
+    }
+  }
+  // Word wants the body to end in a paragraph.
+  if (!body.endsWith('</w:p>')) body += paragraphXml('', '');
+
+  const document = XML_HEADER +
+    `<w:document xmlns:w="${W_NS}" xmlns:r="${DOC_REL}" xmlns:wp="${WP_NS}" xmlns:a="${A_NS}" xmlns:pic="${PIC_NS}"><w:body>${body}` +
+    '<w:sectPr>' + regions.map(r => `<w:${r.key}Reference w:type="default" r:id="${r.relId}"/>`).join('') +
+    `<w:pgSz w:w="${pageWidth}" w:h="${pageHeight}"${setup.orientation === 'landscape' ? ' w:orient="landscape"' : ''}/>` +
+    `<w:pgMar w:top="${margins.top}" w:right="${margins.right}" w:bottom="${margins.bottom}" w:left="${margins.left}" ` +
+    `w:header="${Math.round(margins.top / 3)}" w:footer="${Math.round(margins.bottom / 3)}" w:gutter="0"/>` +
+    '</w:sectPr></w:body></w:document>';
+
+  const parts: Record<string, string | Uint8Array> = {};
+  const extensions = [...new Set([...ctx.media.values()].map(f => f.path.split('.').pop()!))];
+  parts['[Content_Types].xml'] = XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    extensions.map(ext => `<Default Extension="${ext}" ContentType="${IMAGE_TYPES[ext]}"/>`).join('') +
+    `<Override PartName="/word/document.xml" ContentType="${CT}.document.main+xml"/>` +
+    `<Override PartName="/word/styles.xml" ContentType="${CT}.styles+xml"/>` +
+    `<Override PartName="/word/numbering.xml" ContentType="${CT}.numbering+xml"/>` +
+    `<Override PartName="/word/settings.xml" ContentType="${CT}.settings+xml"/>` +
+    regions.map(r => `<Override PartName="/word/${r.part}" ContentType="${CT}.${r.key}+xml"/>`).join('') +
+    '</Types>';
+  parts['_rels/.rels'] = XML_HEADER + `<Relationships xmlns="${PKG_REL}">` +
+    `<Relationship Id="rId1" Type="${DOC_REL}/officeDocument" Target="word/document.xml"/></Relationships>`;
+  parts['word/document.xml'] = document;
+  parts['word/styles.xml'] = stylesXml(ctx.styles, options, textWidth);
+  regions.forEach(r => { parts[`word/${r.part}`] = r.xml; });
+  parts['word/numbering.xml'] = numbering.toXml();
+  parts['word/settings.xml'] = XML_HEADER + `<w:settings xmlns:w="${W_NS}"><w:defaultTabStop w:val="${INDENT_TWIPS}"/>` +
+    '<w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat></w:settings>';
+  parts['word/_rels/document.xml.rels'] = rels.toXml();
+  ctx.media.forEach(f => { parts[`word/${f.path}`] = f.bytes; });
+  return buildPackage(parts, DOCX_MIME);
+};
+
+// --- DOCX IMPORT ---
+// mammoth reads the document but drops deleted text, doesn't say what was
+// inserted and ignores changes to paragraph marks, table rows and formatting.
+// So before it reads, the runs of each change get a character style of their
+// own, which the style map turns into the elements html.ts reads suggestions
+// from; deleted text becomes plain text. A change to a paragraph mark is on
+// the break before the next paragraph, and a change to every row of a table
+// on the table: those put a marker run in the paragraph or first cell, which
+// becomes the block's data-change attribute afterwards. When only some rows
+// changed, their text is what's inserted or deleted.
+interface TrackedChange { kind: SuggestionKind; author: string; date: string; before?: Marks; block?: 'text' | 'table'; }
+
+// A private-use character, so it is never the document's own text.
+const CHANGE_MARKER = '\uE000';
+const CHANGE_TAGS: Record<SuggestionKind, string> = { insert: 'ins', delete: 'del', format: 'span' };
+
+// The marks a run's properties give, for what formatting changes replaced.
+const propsMarks = (props: Element | undefined): Marks => {
+  const marks: Marks = {};
+  if (!props) return marks;
+  const prop = (name: string) => firstChild(props, name);
+  const val = (name: string) => prop(name)?.getAttributeNS(W_NS, 'val') ?? null;
+  const on = (name: string) => !!prop(name) && !/^(0|false|off)$/.test(val(name) ?? '');
+  if (on('b')) marks.bold = true;
+  if (on('i')) marks.italic = true;
+  if (on('strike')) marks.strike = true;
+  if (prop('u') && val('u') !== 'none') marks.underline = true;
+  const color = val('color');
+  if (color && /^[0-9a-f]{6}$/i.test(color)) marks.color = `#${color.toLowerCase()}`;
+  const fill = prop('shd')?.getAttributeNS(W_NS, 'fill');
+  if (fill && /^[0-9a-f]{6}$/i.test(fill)) marks.highlight = `#${fill.toLowerCase()}`;
+  const font = prop('rFonts')?.getAttributeNS(W_NS, 'ascii');
+  if (font) marks.font = font;
+  const size = Number(val('sz'));
+  if (size > 0) marks.size = size / 2;
+  return marks;
+};
+
+export const readDocx = async (data: ArrayBuffer): Promise<string> => {
+  const zip = await openPackage(data);
+  const xml = await readPart(zip, 'word/document.xml');
+  const changes: TrackedChange[] = [];
+  if (xml) {
+    const w = (name: string) => xml.createElementNS(W_NS, `w:${name}`);
+    const byName = (root: Document | Element, name: string) => descendantsByName(root, name).filter(el => el.namespaceURI === W_NS);
+    const changeOf = (el: Element, change: Partial<TrackedChange> = {}): TrackedChange => ({
+      kind: el.localName === 'ins' ? 'insert' : el.localName === 'del' ? 'delete' : 'format',
+      author: el.getAttributeNS(W_NS, 'author') || 'Unknown',
+      date: el.getAttributeNS(W_NS, 'date') || '',
+      ...change
+    });
+    const register = (change: TrackedChange) => `TrackedChange${changes.push(change)}`;
+    const styleRun = (run: Element, style: string) => {
+      let props = firstChild(run, 'rPr');
+      if (!props) props = run.insertBefore(w('rPr'), run.firstChild);
+      firstChild(props, 'rStyle')?.remove();
+      props.insertBefore(w('rStyle'), props.firstChild).setAttributeNS(W_NS, 'w:val', style);
+    };
+    // A marker run at the start of a paragraph, after its properties.
+    const mark = (paragraph: Element, change: TrackedChange) => {
+      const run = w('r');
+      run.appendChild(w('t')).textContent = CHANGE_MARKER;
+      const props = firstChild(paragraph, 'pPr');
+      paragraph.insertBefore(run, props ? props.nextSibling : paragraph.firstChild);
+      styleRun(run, register(change));
+    };
+    const hasText = (paragraph: Element) => [...byName(paragraph, 't'), ...byName(paragraph, 'delText')].some(t => t.textContent);
+
+    byName(xml, 'tbl').forEach(table => {
+      const rows = Array.from(table.children).filter(c => c.localName === 'tr');
+      const rowChanges = rows.map(row => {
+        const props = firstChild(row, 'trPr');
+        return props && (firstChild(props, 'ins') ?? firstChild(props, 'del'));
+      });
+      const first = rowChanges[0];
+      if (first && rowChanges.every(c => c?.localName === first.localName)) {
+        const paragraph = byName(rows[0], 'p')[0];
+        if (paragraph) mark(paragraph, changeOf(first, { block: 'table' }));
+      } else {
+        rows.forEach((row, i) => {
+          const change = rowChanges[i];
+          if (!change) return;
+          const style = register(changeOf(change));
+          byName(row, 'r').forEach(run => styleRun(run, style));
+        });
+      }
+      rowChanges.forEach(c => c?.remove());
+    });
+
+    byName(xml, 'rPrChange').forEach(el => {
+      const run = el.parentElement?.parentElement;
+      if (run?.localName === 'r') styleRun(run, register(changeOf(el, { before: propsMarks(firstChild(el, 'rPr')) })));
+      el.remove();
+    });
+
+    [...byName(xml, 'ins'), ...byName(xml, 'del')].forEach(el => {
+      if (el.parentElement?.localName === 'rPr') {
+        const paragraph = el.parentElement.parentElement?.parentElement;
+        const next = paragraph?.nextElementSibling;
+        if (paragraph?.localName === 'p' && next?.localName === 'p' && next.namespaceURI === W_NS && hasText(paragraph)) {
+          mark(next, changeOf(el, { block: 'text' }));
+        }
+        el.remove();
+        return;
+      }
+      const style = register(changeOf(el));
+      byName(el, 'r').forEach(run => styleRun(run, style));
+      if (el.localName === 'ins') return;
+      byName(el, 'delText').forEach(old => {
+        const text = w('t');
+        text.setAttributeNS('http://www.w3.org/XML/1998/namespace', 'xml:space', 'preserve');
+        text.textContent = old.textContent;
+        old.replaceWith(text);
+      });
+      el.replaceWith(...el.childNodes);
+    });
+    zip.file('word/document.xml', new XMLSerializer().serializeToString(xml));
+  }
+  const arrayBuffer = await zip.generateAsync({ type: 'arraybuffer' });
+  const styleMap = changes.map((c, i) => `r.TrackedChange${i + 1} => ${CHANGE_TAGS[c.kind]}.tracked-change-${i + 1}`);
+  const { value } = await mammoth.convertToHtml({ arrayBuffer }, { styleMap });
+  if (!changes.length) return value;
+
+  const body = new DOMParser().parseFromString(value, 'text/html').body;
+  body.querySelectorAll<HTMLElement>('[class^="tracked-change-"]').forEach(el => {
+    const change = changes[Number(el.className.slice('tracked-change-'.length)) - 1];
+    const target = change.block ? el.closest(change.block === 'table' ? 'table' : 'p, h1, h2, h3, h4, h5, h6, li') : el;
+    if (target) {
+      if (change.block) target.setAttribute('data-change', change.kind);
+      target.setAttribute('data-author', change.author);
+      if (change.date) target.setAttribute('datetime', change.date);
+      if (change.before) target.setAttribute('data-before', JSON.stringify(change.before));
+    }
+    if (change.block) el.remove();
+    else el.removeAttribute('class');
+  });
+  return body.innerHTML;
+};
@@ -0,0 +1,628 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  Align, Block, ListKind, MARK_KEYS, Marks, Paragraph, ParagraphStyle, Run, StyleId, Suggestion, SuggestionKind, TextBlock, WriterDoc, blockText,
+  isTextBlock, marksAt, marksOf, newBlockIds, normalizeRuns, paragraph, runsLength, runsText, sameMarks, sliceRuns
+} from './model.ts';
+import { headingLevel } from './styles.ts';
+import { insertedBlock, newSuggestion, resolveSuggestions, withSuggestion } from './suggestions.ts';
+
+// --- EDITING ---
+// Every edit is a transaction: a pure function from one editor state to the
+// next. The editor view turns keys and clipboard events into transactions
+// and never lets the browser change the document itself, so the model is
+// always the truth and undo is a stack of earlier states.
+
+// A place text can go: a text block, or a cell of a table block.
+export interface Pos {
+  block: number;
+  cell?: [number, number];
+  offset: number;
+}
+
+export interface Selection { anchor: Pos; focus: Pos; }
+
+// `marks` are set by toggling formatting with nothing selected, and apply to
+// what is typed next. In suggestion mode `suggesting` is the author edits
+// are suggested by; otherwise it is null and edits are made.
+export interface EditorState {
+  doc: WriterDoc;
+  selection: Selection;
+  marks: Marks | null;
+  suggesting: string | null;
+}
+
+export const MAX_INDENT = 8;
+
+export const caret = (pos: Pos): Selection => ({ anchor: pos, focus: pos });
+
+export const createEditorState = (doc: WriterDoc): EditorState => {
+  const first = doc.blocks.findIndex(isTextBlock);
+  return { doc, selection: caret({ block: Math.max(0, first), offset: 0 }), marks: null, suggesting: null };
+};
+
+// --- POSITIONS ---
+export const comparePos = (a: Pos, b: Pos) =>
+  a.block - b.block || (a.cell?.[0] ?? -1) - (b.cell?.[0] ?? -1) || (a.cell?.[1] ?? -1) - (b.cell?.[1] ?? -1) || a.offset - b.offset;
+
+export const samePos = (a: Pos, b: Pos) => comparePos(a, b) === 0;
+
+export const sameContainer = (a: Pos, b: Pos) => a.block === b.block && a.cell?.[0] === b.cell?.[0] && a.cell?.[1] === b.cell?.[1];
+
+export const isCollapsed = (sel: Selection) => samePos(sel.anchor, sel.focus);
+
+export const sameSelection = (a: Selection, b: Selection) => samePos(a.anchor, b.anchor) && samePos(a.focus, b.focus);
+
+// The selection's ends in document order.
+export const selectionRange = (sel: Selection): [Pos, Pos] =>
+  comparePos(sel.anchor, sel.focus) <= 0 ? [sel.anchor, sel.focus] : [sel.focus, sel.anchor];
+
+export const containerRuns = (doc: WriterDoc, pos: Pos): Run[] | null => {
+  const block = doc.blocks[pos.block];
+  if (pos.cell) return block?.type === 'table' ? block.rows[pos.cell[0]]?.[pos.cell[1]]?.runs ?? null : null;
+  return isTextBlock(block) ? block.runs : null;
+};
+
+const withRuns = (doc: WriterDoc, pos: Pos, runs: Run[]): WriterDoc => {
+  const blocks = [...doc.blocks];
+  const block = blocks[pos.block];
+  if (pos.cell && block.type === 'table') {
+    const [r, c] = pos.cell;
+    blocks[pos.block] = { ...block, rows: block.rows.map((row, i) => i !== r ? row : row.map((cell, j) => j !== c ? cell : { ...cell, runs: normalizeRuns(runs) })) };
+  } else if (isTextBlock(block)) {
+    blocks[pos.block] = { ...block, runs: normalizeRuns(runs) };
+  }
+  return { ...doc, blocks };
+};
+
+// The nearest text position to a block that has none (a picture or rule):
+// the end of the text before it, or else the start of the text after.
+export const nearestTextPos = (doc: WriterDoc, block: number, forward = false): Pos | null => {
+  const order = forward ? [1, -1] : [-1, 1];
+  for (const dir of order) {
+    for (let i = block; i >= 0 && i < doc.blocks.length; i += dir) {
+      const b = doc.blocks[i];
+      if (isTextBlock(b)) return { block: i, offset: dir < 0 ? runsLength(b.runs) : 0 };
+      if (b.type === 'table' && b.rows.length) {
+        const r = dir < 0 ? b.rows.length - 1 : 0;
+        const c = dir < 0 ? b.rows[r].length - 1 : 0;
+        return { block: i, cell: [r, c], offset: dir < 0 ? runsLength(b.rows[r][c].runs) : 0 };
+      }
+    }
+  }
+  return null;
+};
+
+// Each text container the range touches, with the part of it selected.
+// Cells of a table count when the range crosses the table.
+export const containersInRange = (doc: WriterDoc, from: Pos, to: Pos) => {
+  const out: { pos: Pos; start: number; end: number }[] = [];
+  for (let i = from.block; i <= to.block; i++) {
+    const block = doc.blocks[i];
+    if (isTextBlock(block)) {
+      out.push({ pos: { block: i, offset: 0 }, start: i === from.block ? from.offset : 0, end: i === to.block ? to.offset : runsLength(block.runs) });
+    } else if (block?.type === 'table') {
+      block.rows.forEach((row, r) => row.forEach((cell, c) => {
+        const pos = { block: i, cell: [r, c] as [number, number], offset: 0 };
+        if (i === from.block && from.cell && comparePos(pos, { ...from, offset: 0 }) < 0) return;
+        if (i === to.block && to.cell && comparePos(pos, { ...to, offset: 0 }) > 0) return;
+        const first = i === from.block && sameContainer(pos, from);
+        const last = i === to.block && sameContainer(pos, to);
+        out.push({ pos, start: first ? from.offset : 0, end: last ? to.offset : runsLength(cell.runs) });
+      }));
+    }
+  }
+  return out;
+};
+
+export const selectedText = (state: EditorState) => {
+  const [from, to] = selectionRange(state.selection);
+  return containersInRange(state.doc, from, to)
+    .map(c => runsText(sliceRuns(containerRuns(state.doc, c.pos)!, c.start, c.end)))
+    .join('\n');
+};
+
+// The marks of the text at the caret, or those about to be typed.
+export const activeMarks = (state: EditorState): Marks => {
+  if (state.marks) return state.marks;
+  const [from] = selectionRange(state.selection);
+  const runs = containerRuns(state.doc, from);
+  if (!runs) return {};
+  return isCollapsed(state.selection) ? marksAt(runs, from.offset) : marksAt(runs, Math.min(from.offset + 1, runsLength(runs)));
+};
+
+// The document always ends in a text block, so there is somewhere to type
+// after a table or picture.
+const withTrailingParagraph = (doc: WriterDoc): WriterDoc =>
+  isTextBlock(doc.blocks[doc.blocks.length - 1]) ? doc : { ...doc, blocks: [...doc.blocks, paragraph(newBlockIds(doc.blocks, 1)[0])] };
+
+const at = (state: EditorState, doc: WriterDoc, pos: Pos, marks: Marks | null = null): EditorState =>
+  ({ ...state, doc: withTrailingParagraph(doc), selection: caret(pos), marks });
+
+// --- SUGGESTING ---
+// In suggestion mode nothing is taken out: deleted text and blocks are
+// marked, and the caret steps over them. What the author inserted in
+// suggestion mode themselves is still really deleted, as it was never
+// anyone else's text.
+const suggestionOf = (state: EditorState, kind: SuggestionKind): Suggestion | undefined =>
+  state.suggesting ? newSuggestion(kind, state.suggesting) : undefined;
+
+const isOwnInsertion = (state: EditorState, s: Suggestion | undefined) => s?.kind === 'insert' && s.author === state.suggesting;
+
+const runAt = (runs: Run[] | null, offset: number): Run | undefined => runs ? sliceRuns(runs, offset, offset + 1)[0] : undefined;
+
+// The author's suggestion of `kind` beside an edit, which the edit joins so
+// that typing or deleting on is one change; else a new one.
+const joiningSuggestion = (state: EditorState, kind: SuggestionKind, beside: (Run | undefined)[]) =>
+  beside.find(r => r?.suggestion?.kind === kind && r.suggestion.author === state.suggesting)?.suggestion ?? newSuggestion(kind, state.suggesting!);
+
+// Where the caret lands from `offset` after passing text marked as deleted.
+const skipDeleted = (runs: Run[], offset: number, dir: 1 | -1) => {
+  let start = 0;
+  const deleted = runs.map(run => {
+    const span = { from: start, to: start + run.text.length, deleted: run.suggestion?.kind === 'delete' };
+    start = span.to;
+    return span;
+  }).filter(span => span.deleted);
+  let at = offset;
+  if (dir < 0) [...deleted].reverse().forEach(span => { if (span.from < at && at <= span.to) at = span.from; });
+  else deleted.forEach(span => { if (span.from <= at && at < span.to) at = span.to; });
+  return at;
+};
+
+// Marks the selection deleted, leaving the caret after it. Blocks wholly in
+// the selection are deleted, and the breaks before text blocks after the
+// first, so accepting joins them.
+const suggestDeletion = (state: EditorState): EditorState => {
+  const [from, to] = selectionRange(state.selection);
+  const mark = joiningSuggestion(state, 'delete', [runAt(containerRuns(state.doc, from), from.offset - 1), runAt(containerRuns(state.doc, to), to.offset)]);
+  const deleted = (runs: Run[]) => runs.filter(r => !isOwnInsertion(state, r.suggestion))
+    .map(r => r.suggestion?.kind === 'delete' ? r : { ...r, suggestion: mark });
+  let doc = state.doc;
+  let end = to;
+  containersInRange(doc, from, to).filter(c => c.end > c.start).forEach(c => {
+    const runs = containerRuns(doc, c.pos)!;
+    const middle = deleted(sliceRuns(runs, c.start, c.end));
+    doc = withRuns(doc, c.pos, [...sliceRuns(runs, 0, c.start), ...middle, ...sliceRuns(runs, c.end)]);
+    if (sameContainer(c.pos, to)) end = { ...to, offset: to.offset - (c.end - c.start - runsLength(middle)) };
+  });
+  // The caret's block is followed by id, as blocks may go.
+  let endId = doc.blocks[end.block].id;
+  let endOffset = end.offset;
+  const blocks: Block[] = [];
+  doc.blocks.forEach((block, i) => {
+    const inside = i > from.block && (i < to.block || (i === to.block && !to.cell));
+    const previous = blocks[blocks.length - 1];
+    if (!inside || block.suggestion?.kind === 'delete') blocks.push(block);
+    else if (!isOwnInsertion(state, block.suggestion)) blocks.push(withSuggestion(block, mark));
+    else if (isTextBlock(block) && isTextBlock(previous)) {
+      if (block.id === endId) [endId, endOffset] = [previous.id, runsLength(previous.runs) + endOffset];
+      blocks[blocks.length - 1] = { ...previous, runs: normalizeRuns([...previous.runs, ...block.runs]) };
+    } else if (isTextBlock(block)) blocks.push(withSuggestion(block, undefined));
+  });
+  return at(state, { ...doc, blocks }, { ...end, block: blocks.findIndex(b => b.id === endId), offset: endOffset });
+};
+
+// Marks a picture, rule or other block deleted, or takes out one the author
+// inserted.
+const suggestBlockDeletion = (state: EditorState, index: number): EditorState | null => {
+  const block = state.doc.blocks[index];
+  if (!state.suggesting || isOwnInsertion(state, block.suggestion)) return null;
+  if (block.suggestion?.kind === 'delete') return state;
+  const blocks = state.doc.blocks.map((b, i) => i === index ? withSuggestion(b, newSuggestion('delete', state.suggesting!)) : b);
+  return { ...state, doc: { ...state.doc, blocks } };
+};
+
+// The suggestion that marks a formatting change to `old`, now `run`. Text
+// inserted or deleted as a suggestion just takes the new marks; text
+// formatted before keeps the marks it had first.
+const formatted = (old: Run, run: Run, base: Suggestion): Run => {
+  const s = old.suggestion;
+  if (s?.kind === 'insert' || s?.kind === 'delete') return run;
+  const before = s?.kind === 'format' ? s.before ?? {} : marksOf(old);
+  const { suggestion: _, ...plain } = run;
+  if (sameMarks(before, run)) return plain;
+  return { ...plain, suggestion: s?.kind === 'format' ? s : { ...base, before } };
+};
+
+// --- TEXT ---
+export const deleteSelection = (state: EditorState): EditorState => {
+  if (isCollapsed(state.selection)) return state;
+  if (state.suggesting) return suggestDeletion(state);
+  const [from, to] = selectionRange(state.selection);
+  const doc = state.doc;
+  const fromRuns = containerRuns(doc, from)!;
+  if (sameContainer(from, to)) {
+    return at(state, withRuns(doc, from, [...sliceRuns(fromRuns, 0, from.offset), ...sliceRuns(fromRuns, to.offset)]), from);
+  }
+  // A table at either end only loses the text of the selected cells, and
+  // keeps its shape; blocks wholly between the ends go.
+  if (from.cell || to.cell) {
+    let next = doc;
+    containersInRange(doc, from, to).forEach(c => {
+      const runs = containerRuns(next, c.pos)!;
+      next = withRuns(next, c.pos, [...sliceRuns(runs, 0, c.start), ...sliceRuns(runs, c.end)]);
+    });
+    return at(state, { ...next, blocks: next.blocks.filter((_, i) => i <= from.block || i >= to.block) }, from);
+  }
+  // Between text blocks: the first keeps its kind and takes the last's tail.
+  const head = doc.blocks[from.block] as TextBlock;
+  const tail = containerRuns(doc, to)!;
+  const merged = { ...head, runs: normalizeRuns([...sliceRuns(head.runs, 0, from.offset), ...sliceRuns(tail, to.offset)]) };
+  const blocks = [...doc.blocks.slice(0, from.block), merged, ...doc.blocks.slice(to.block + 1)];
+  return at(state, { ...doc, blocks }, from);
+};
+
+// Typed text takes the marks at the caret, or those of the first character
+// it replaces. Suggested, it joins the author's insertion beside the caret.
+export const insertText = (state: EditorState, text: string): EditorState => {
+  const marks = activeMarks(state);
+  const cleared = deleteSelection(state);
+  const pos = cleared.selection.focus;
+  const runs = containerRuns(cleared.doc, pos);
+  if (!runs || !text) return cleared;
+  const run: Run = { ...marks, text };
+  if (state.suggesting) run.suggestion = joiningSuggestion(state, 'insert', [runAt(runs, pos.offset - 1), runAt(runs, pos.offset)]);
+  const doc = withRuns(cleared.doc, pos, [...sliceRuns(runs, 0, pos.offset), run, ...sliceRuns(runs, pos.offset)]);
+  return at(cleared, doc, { ...pos, offset: pos.offset + text.length }, state.marks);
+};
+
+// Enter. Headings, titles and captions are followed by body text; Enter in
+// an empty list item takes it out of the list a level at a time. In a table
+// cell it starts a new line. Suggested, the new block's break is marked, and
+// an empty list item is followed by another, as paragraph changes aren't.
+export const splitBlock = (state: EditorState): EditorState => {
+  const cleared = deleteSelection(state);
+  const pos = cleared.selection.focus;
+  if (pos.cell) return insertText(cleared, '\n');
+  const block = cleared.doc.blocks[pos.block];
+  if (!isTextBlock(block)) return cleared;
+  if (block.type === 'listItem' && !block.runs.length && !cleared.suggesting) {
+    return setBlocks(cleared, b => (b.indent ?? 0) > 0 ? { ...b, indent: (b.indent ?? 0) - 1 } : toParagraph(b));
+  }
+  const atEnd = pos.offset >= runsLength(block.runs);
+  const [id] = newBlockIds(cleared.doc.blocks, 1);
+  const head: TextBlock = { ...block, runs: sliceRuns(block.runs, 0, pos.offset) };
+  const endsStyle = block.type === 'heading' || (block.type === 'paragraph' && (block.style === 'title' || block.style === 'caption'));
+  const tail: TextBlock = withSuggestion(endsStyle && atEnd
+    ? paragraph(id, [], block.align ? { align: block.align } : {})
+    : { ...block, id, runs: sliceRuns(block.runs, pos.offset) }, suggestionOf(cleared, 'insert'));
+  const blocks = [...cleared.doc.blocks];
+  blocks.splice(pos.block, 1, head, tail);
+  return at(cleared, { ...cleared.doc, blocks }, { block: pos.block + 1, offset: 0 }, cleared.marks ?? marksAt(block.runs, pos.offset));
+};
+
+// How far one step back or forward goes from `offset`: a character (both
+// halves of a surrogate pair) or a word with the spaces before it.
+const stepBack = (text: string, offset: number, word: boolean) => {
+  if (word) {
+    const m = /(\s*[\p{L}\p{N}_]+|\s*[^\s\p{L}\p{N}_]+|\s+)$/u.exec(text.slice(0, offset));
+    return offset - (m ? m[0].length : 1);
+  }
+  return offset - (offset > 1 && /[\uDC00-\uDFFF]/.test(text[offset - 1]) && /[\uD800-\uDBFF]/.test(text[offset - 2]) ? 2 : 1);
+};
+
+const stepForward = (text: string, offset: number, word: boolean) => {
+  if (word) {
+    const m = /^([\p{L}\p{N}_]+\s*|[^\s\p{L}\p{N}_]+\s*|\s+)/u.exec(text.slice(offset));
+    return offset + (m ? m[0].length : 1);
+  }
+  return offset + (/[\uD800-\uDBFF]/.test(text[offset]) && /[\uDC00-\uDFFF]/.test(text[offset + 1] ?? '') ? 2 : 1);
+};
+
+const toParagraph = (block: TextBlock): Paragraph => {
+  if (block.type === 'heading') {
+    const { level: _, ...rest } = block;
+    return { ...rest, type: 'paragraph' };
+  }
+  if (block.type === 'listItem') {
+    const { list: _, ...rest } = block;
+    return { ...rest, type: 'paragraph' };
+  }
+  return block;
+};
+
+export const removeBlock = (state: EditorState, index: number): EditorState => {
+  const suggested = suggestBlockDeletion(state, index);
+  if (suggested) return at(suggested, suggested.doc, nearestTextPos(suggested.doc, index, true) ?? { block: 0, offset: 0 });
+  const blocks = state.doc.blocks.filter((_, i) => i !== index);
+  const doc = withTrailingParagraph({ ...state.doc, blocks: blocks.length ? blocks : [paragraph(newBlockIds(state.doc.blocks, 1)[0])] });
+  return at(state, doc, nearestTextPos(doc, Math.min(index, doc.blocks.length - 1), true) ?? { block: 0, offset: 0 });
+};
+
+// Joins text block `index` to the one before, or as a suggestion marks the
+// break between them deleted, with the caret at `pos`.
+const joinBlock = (state: EditorState, index: number, pos: Pos): EditorState => {
+  const block = state.doc.blocks[index];
+  const before = state.doc.blocks[index - 1] as TextBlock;
+  if (state.suggesting && !isOwnInsertion(state, block.suggestion)) {
+    const blocks = state.doc.blocks.map((b, i) => i === index && b.suggestion?.kind !== 'delete' ? withSuggestion(b, newSuggestion('delete', state.suggesting!)) : b);
+    return at(state, { ...state.doc, blocks }, pos);
+  }
+  const end = { block: index - 1, offset: runsLength(before.runs) };
+  return { ...deleteSelection({ ...state, suggesting: null, selection: { anchor: end, focus: { block: index, offset: 0 } } }), suggesting: state.suggesting };
+};
+
+// Backspace. At the start of a list item or indented paragraph it first
+// takes away the bullet, then the indent; otherwise it joins the block to
+// the one before, or deletes the picture or rule before it.
+export const deleteBackward = (state: EditorState, word = false): EditorState => {
+  if (!isCollapsed(state.selection)) return deleteSelection(state);
+  let pos = state.selection.focus;
+  const runs = containerRuns(state.doc, pos);
+  if (!runs) return state;
+  if (state.suggesting) pos = { ...pos, offset: skipDeleted(runs, pos.offset, -1) };
+  if (pos.offset > 0) {
+    const from = { ...pos, offset: Math.max(0, stepBack(runsText(runs), pos.offset, word)) };
+    const deleted = deleteSelection({ ...state, selection: { anchor: from, focus: pos } });
+    return state.suggesting ? { ...deleted, selection: caret(from) } : deleted;
+  }
+  if (pos.cell) return { ...state, selection: caret(pos) };
+  const block = state.doc.blocks[pos.block] as TextBlock;
+  if (block.type === 'listItem' && !state.suggesting) return setBlocks(state, toParagraph);
+  if (block.indent && !state.suggesting) return setBlocks(state, b => ({ ...b, indent: (b.indent ?? 0) - 1 }));
+  const before = state.doc.blocks[pos.block - 1];
+  if (!before) return { ...state, selection: caret(pos) };
+  if (isTextBlock(before)) return joinBlock(state, pos.block, { block: pos.block - 1, offset: runsLength(before.runs) });
+  if (before.type === 'table') return { ...state, selection: caret(nearestTextPos(state.doc, pos.block - 1)!), marks: null };
+  const removed = removeBlock(state, pos.block - 1);
+  if (state.suggesting && removed.doc.blocks.length === state.doc.blocks.length) {
+    return { ...removed, selection: caret(nearestTextPos(removed.doc, pos.block - 1) ?? pos) };
+  }
+  return { ...removed, selection: caret({ block: pos.block - 1, offset: 0 }) };
+};
+
+// Delete. At the end of a block it pulls up the next one, or deletes the
+// picture or rule after it.
+export const deleteForward = (state: EditorState, word = false): EditorState => {
+  if (!isCollapsed(state.selection)) return deleteSelection(state);
+  let pos = state.selection.focus;
+  const runs = containerRuns(state.doc, pos);
+  if (!runs) return state;
+  if (state.suggesting) pos = { ...pos, offset: skipDeleted(runs, pos.offset, 1) };
+  const length = runsLength(runs);
+  if (pos.offset < length) {
+    const to = { ...pos, offset: Math.min(length, stepForward(runsText(runs), pos.offset, word)) };
+    return deleteSelection({ ...state, selection: { anchor: pos, focus: to } });
+  }
+  if (pos.cell) return { ...state, selection: caret(pos) };
+  const after = state.doc.blocks[pos.block + 1];
+  if (!after) return { ...state, selection: caret(pos) };
+  if (isTextBlock(after)) return joinBlock(state, pos.block + 1, state.suggesting ? { block: pos.block + 1, offset: 0 } : pos);
+  if (after.type === 'table') return { ...state, selection: caret(nearestTextPos(state.doc, pos.block + 1, true)!), marks: null };
+  // A picture marked deleted is passed over.
+  const removed = removeBlock(state, pos.block + 1);
+  if (state.suggesting && removed.doc.blocks.length === state.doc.blocks.length) return removed;
+  return { ...removed, selection: caret(pos) };
+};
+
+// --- PASTING ---
+// Blocks from elsewhere, at the caret. Text at either end joins the block
+// the caret is in, so pasting words into a sentence doesn't split it. In a
+// table cell only the text goes in. Suggested, everything pasted is marked
+// inserted.
+export const insertBlocks = (state: EditorState, pasted: Block[]): EditorState => {
+  if (!pasted.length) return deleteSelection(state);
+  const mark = suggestionOf(state, 'insert');
+  const blocks = mark ? pasted.map(b => insertedBlock(b, mark)) : pasted;
+  const inserted = (text: string): Run => mark ? { text, suggestion: mark } : { text };
+  const cleared = deleteSelection(state);
+  const pos = cleared.selection.focus;
+  const doc = cleared.doc;
+  const single = blocks.length === 1 && isTextBlock(blocks[0]);
+  if (pos.cell || single) {
+    const runs = containerRuns(doc, pos)!;
+    const added = single
+      ? (blocks[0] as TextBlock).runs
+      : blocks.map(b => isTextBlock(b) ? b.runs : [inserted(blockText(b))]).flatMap((r, i) => i ? [inserted('\n'), ...r] : r);
+    const next = withRuns(doc, pos, [...sliceRuns(runs, 0, pos.offset), ...added, ...sliceRuns(runs, pos.offset)]);
+    return at(cleared, next, { ...pos, offset: pos.offset + runsLength(added) });
+  }
+  const block = doc.blocks[pos.block] as TextBlock;
+  const headRuns = sliceRuns(block.runs, 0, pos.offset);
+  const tailRuns = sliceRuns(block.runs, pos.offset);
+  const ids = newBlockIds(doc.blocks, blocks.length + 1);
+  const middle = blocks.map((b, i) => ({ ...b, id: ids[i] }));
+  const out: Block[] = [];
+  // The first pasted text block takes the place of the caret's block when
+  // that is empty before the caret, and joins it otherwise.
+  const first = middle[0];
+  if (isTextBlock(first)) {
+    middle[0] = headRuns.length ? { ...block, runs: normalizeRuns([...headRuns, ...first.runs]) } : withSuggestion({ ...first, id: block.id }, block.suggestion);
+  } else if (headRuns.length) {
+    out.push({ ...block, runs: headRuns });
+  }
+  out.push(...middle);
+  const last = out[out.length - 1];
+  let caretPos: Pos;
+  if (isTextBlock(last) && out.length > 1) {
+    caretPos = { block: pos.block + out.length - 1, offset: runsLength(last.runs) };
+    out[out.length - 1] = { ...last, runs: normalizeRuns([...last.runs, ...tailRuns]) };
+  } else {
+    out.push(withSuggestion({ ...block, id: ids[blocks.length], runs: tailRuns }, mark));
+    caretPos = { block: pos.block + out.length - 1, offset: 0 };
+  }
+  const next = { ...doc, blocks: [...doc.blocks.slice(0, pos.block), ...out, ...doc.blocks.slice(pos.block + 1)] };
+  return at(cleared, next, caretPos);
+};
+
+// --- FORMATTING ---
+// Sets a mark across the selection, or takes it off when `value` is
+// undefined. With nothing selected it applies to what is typed next.
+// Suggested, the text keeps the marks it had for a reviewer to put back.
+export const setMark = <K extends keyof Marks>(state: EditorState, key: K, value: Marks[K] | undefined): EditorState => {
+  if (isCollapsed(state.selection)) {
+    const marks = { ...activeMarks(state) };
+    if (value === undefined) delete marks[key];
+    else marks[key] = value;
+    return { ...state, marks };
+  }
+  const [from, to] = selectionRange(state.selection);
+  const mark = suggestionOf(state, 'format');
+  let doc = state.doc;
+  containersInRange(doc, from, to).filter(c => c.end > c.start).forEach(c => {
+    const runs = containerRuns(doc, c.pos)!;
+    const changed = sliceRuns(runs, c.start, c.end).map(r => {
+      const run = { ...r };
+      if (value === undefined) delete run[key];
+      else run[key] = value as Run[K];
+      return mark ? formatted(r, run, mark) : run;
+    });
+    doc = withRuns(doc, c.pos, [...sliceRuns(runs, 0, c.start), ...changed, ...sliceRuns(runs, c.end)]);
+  });
+  return { ...state, doc };
+};
+
+// Bold, italic and the like go on unless all the selected text has them.
+export const toggleMark = (state: EditorState, key: 'bold' | 'italic' | 'underline' | 'strike'): EditorState => {
+  const [from, to] = selectionRange(state.selection);
+  const all = isCollapsed(state.selection)
+    ? !!activeMarks(state)[key]
+    : containersInRange(state.doc, from, to).filter(c => c.end > c.start)
+      .every(c => sliceRuns(containerRuns(state.doc, c.pos)!, c.start, c.end).every(r => r[key]));
+  return setMark(state, key, all ? undefined : true);
+};
+
+// Takes off all character formatting but links.
+export const clearMarks = (state: EditorState): EditorState => {
+  if (isCollapsed(state.selection)) return { ...state, marks: {} };
+  return MARK_KEYS.filter(k => k !== 'link').reduce((next, k) => setMark(next, k, undefined), state);
+};
+
+// Applies `change` to every text block the selection touches. Paragraph
+// formatting isn't a kind of suggestion, so while suggesting it is left as is.
+export const setBlocks = (state: EditorState, change: (block: TextBlock) => TextBlock): EditorState => {
+  if (state.suggesting) return state;
+  const [from, to] = selectionRange(state.selection);
+  const blocks = state.doc.blocks.map((b, i) => i >= from.block && i <= to.block && isTextBlock(b) ? change(b) : b);
+  return { ...state, doc: { ...state.doc, blocks } };
+};
+
+// Left is kept too, as it overrides a style that centers.
+export const setAlign = (state: EditorState, align: Align) => setBlocks(state, b => ({ ...b, align }));
+
+// Gives the blocks a paragraph style; list items leave the list.
+export const setStyle = (state: EditorState, style: StyleId) =>
+  setBlocks(state, b => {
+    const { style: _, ...rest } = toParagraph(b);
+    const level = headingLevel(style);
+    if (level) return { ...rest, type: 'heading', level } as TextBlock;
+    return style === 'body' ? rest : { ...rest, style: style as ParagraphStyle };
+  });
+
+// Replaces the document's own style definitions.
+export const setStyles = (state: EditorState, styles: WriterDoc['styles']): EditorState => {
+  const { styles: _, ...doc } = state.doc;
+  return { ...state, doc: styles && Object.keys(styles).length ? { ...doc, styles } : doc };
+};
+
+// Replaces the page setup, header and footer; empty ones are dropped.
+export const setPageLayout = (state: EditorState, layout: Pick<WriterDoc, 'page' | 'header' | 'footer'>): EditorState => {
+  const { page: _, header: __, footer: ___, ...doc } = state.doc;
+  const kept = Object.fromEntries(Object.entries(layout).filter(([, v]) => v && Object.values(v).some(Boolean)));
+  return { ...state, doc: { ...doc, ...kept } };
+};
+
+// Turns the blocks into list items of `list`, or back into paragraphs when
+// they all already are.
+export const toggleList = (state: EditorState, list: ListKind) => {
+  const [from, to] = selectionRange(state.selection);
+  const touched = state.doc.blocks.slice(from.block, to.block + 1).filter(isTextBlock);
+  const all = touched.every(b => b.type === 'listItem' && b.list === list);
+  return setBlocks(state, b => all ? toParagraph(b) : { ...toParagraph(b), type: 'listItem', list } as TextBlock);
+};
+
+export const indent = (state: EditorState, by: 1 | -1) =>
+  setBlocks(state, b => {
+    const level = Math.max(0, Math.min(MAX_INDENT, (b.indent ?? 0) + by));
+    const { indent: _, ...rest } = b;
+    return (level ? { ...rest, indent: level } : rest) as TextBlock;
+  });
+
+// --- REVIEWING ---
+// Accepts or rejects the suggestion `id`, or all suggestions without one.
+export const reviewSuggestions = (state: EditorState, accept: boolean, id?: string): EditorState => {
+  const resolved = resolveSuggestions(state.doc, accept, id);
+  const doc = withTrailingParagraph(resolved.blocks.length ? resolved : { ...resolved, blocks: [paragraph('b1')] });
+  return { ...state, doc, selection: clampSelection(doc, state.selection), marks: null };
+};
+
+// --- TABLES ---
+export const createTable = (rows: number, cols: number): Block =>
+  ({ type: 'table', id: '', rows: Array.from({ length: rows }, () => Array.from({ length: cols }, () => ({ runs: [] }))) });
+
+// Tab moves to the next cell, adding a row after the last; Shift+Tab moves
+// back. The whole cell's text is selected, as in other word processors.
+export const moveCell = (state: EditorState, by: 1 | -1): EditorState => {
+  const pos = state.selection.focus;
+  const table = state.doc.blocks[pos.block];
+  if (!pos.cell || table.type !== 'table') return state;
+  const cols = table.rows[0].length;
+  let index = pos.cell[0] * cols + pos.cell[1] + by;
+  let doc = state.doc;
+  if (index < 0) return state;
+  if (index >= table.rows.length * cols) {
+    const rows = [...table.rows, Array.from({ length: cols }, () => ({ runs: [] }))];
+    doc = { ...doc, blocks: doc.blocks.map((b, i) => i === pos.block ? { ...table, rows } : b) };
+    index = table.rows.length * cols;
+  }
+  const cell: [number, number] = [Math.floor(index / cols), index % cols];
+  const runs = containerRuns(doc, { block: pos.block, cell, offset: 0 })!;
+  return {
+    ...state, doc, marks: null,
+    selection: { anchor: { block: pos.block, cell, offset: 0 }, focus: { block: pos.block, cell, offset: runsLength(runs) } }
+  };
+};
+
+// --- HISTORY ---
+// Undo restores whole earlier states. Typing within a second of the last
+// keystroke joins its undo step, so undo takes back words, not letters.
+export type ChangeKind = 'typing' | 'edit';
+
+export interface History {
+  done: EditorState[];
+  undone: EditorState[];
+  lastKind: ChangeKind | null;
+  lastTime: number;
+}
+
+const HISTORY_LIMIT = 200;
+const TYPING_PAUSE = 1000;
+
+export const createHistory = (): History => ({ done: [], undone: [], lastKind: null, lastTime: 0 });
+
+export const recordChange = (history: History, before: EditorState, kind: ChangeKind, now = Date.now()): History => {
+  const joins = kind === 'typing' && history.lastKind === 'typing' && now - history.lastTime < TYPING_PAUSE;
+  return {
+    done: joins ? history.done : [...history.done, { ...before, marks: null }].slice(-HISTORY_LIMIT),
+    undone: [],
+    lastKind: kind,
+    lastTime: now
+  };
+};
+
+// The state to go back (or forward) to, and the history after; null when
+// there is nothing to undo (or redo). Suggestion mode stays as it is.
+export const undo = (history: History, current: EditorState): [EditorState, History] | null => {
+  const prev = history.done[history.done.length - 1];
+  if (!prev) return null;
+  return [{ ...prev, suggesting: current.suggesting }, { done: history.done.slice(0, -1), undone: [...history.undone, { ...current, marks: null }], lastKind: null, lastTime: 0 }];
+};
+
+export const redo = (history: History, current: EditorState): [EditorState, History] | null => {
+  const next = history.undone[history.undone.length - 1];
+  if (!next) return null;
+  return [{ ...next, suggesting: current.suggesting }, { done: [...history.done, { ...current, marks: null }], undone: history.undone.slice(0, -1), lastKind: null, lastTime: 0 }];
+};
+
+// Keeps a selection inside the document after blocks come and go.
+export const clampSelection = (doc: WriterDoc, sel: Selection): Selection => {
+  const fix = (pos: Pos): Pos => {
+    const runs = containerRuns(doc, pos);
+    if (runs) return { ...pos, offset: Math.min(pos.offset, runsLength(runs)) };
+    return nearestTextPos(doc, Math.min(pos.block, doc.blocks.length - 1)) ?? { block: 0, offset: 0 };
+  };
+  return { anchor: fix(sel.anchor), focus: fix(sel.focus) };
+};
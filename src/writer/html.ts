@@ -0,0 +1,509 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { escapeHtml } from '../slides/slide.ts';
+import {
+  Align, Block, Chart, ListKind, Marks, ParagraphStyle, Run, Suggestion, SuggestionKind, TableCell, TextBlock, WriterDoc, createWriterDoc,
+  isTextBlock, normalizeRuns, paragraph
+} from './model.ts';
+import { OutlineEntry, StyleSheet, docOutline, resolveStyles, styleCss, styleOf } from './styles.ts';
+import { authorColor, newSuggestion, suggestionDate, suggestionLabel, withSuggestion } from './suggestions.ts';
+
+// --- HTML ---
+// The model renders to HTML for the editor, exports and printing, and is read
+// back from HTML for pasting, imports and documents saved before the model
+// existed. Reading keeps only what the model can hold.
+export type ChartDrawer = (block: Chart) => string;
+
+// What drawing a block takes besides the block: charts, the document's
+// styles and, for tables of contents, its headings.
+export interface RenderContext { drawChart: ChartDrawer; styles: StyleSheet; outline: OutlineEntry[]; }
+
+export const renderContext = (doc: WriterDoc, drawChart: ChartDrawer): RenderContext =>
+  ({ drawChart, styles: resolveStyles(doc), outline: docOutline(doc) });
+
+export const INDENT_EM = 2;
+
+const BULLETS = ['•', '◦', '▪'];
+
+// --- WRITING ---
+// Suggestions carry their author and date, shown on hover. Insertions and
+// deletions are the HTML elements for them.
+const suggestionAttrs = (s: Suggestion, block?: Block) =>
+  ` data-author="${escapeHtml(s.author)}" datetime="${escapeHtml(s.date)}" title="${escapeHtml(`${suggestionLabel(s, block)} by ${s.author}, ${suggestionDate(s)}`)}"`;
+
+const suggestionHtml = (s: Suggestion, html: string) => {
+  const color = authorColor(s.author);
+  if (s.kind === 'insert') return `<ins${suggestionAttrs(s)} style="color:${color};text-decoration:underline">${html}</ins>`;
+  if (s.kind === 'delete') return `<del${suggestionAttrs(s)} style="color:${color};text-decoration:line-through">${html}</del>`;
+  return `<span${suggestionAttrs(s)} data-before="${escapeHtml(JSON.stringify(s.before ?? {}))}" style="border-bottom:2px dotted ${color}">${html}</span>`;
+};
+
+// A bar in the margin beside a block suggested for insertion or deletion;
+// deleted pictures and the like are faded too. The element says which it
+// is, so the suggestion is read back.
+const blockChange = (block: Block) => {
+  const s = block.suggestion;
+  if (!s) return { attrs: '', css: '' };
+  const fade = s.kind === 'delete' && !isTextBlock(block) ? ';opacity:0.45' : '';
+  return { attrs: ` data-change="${s.kind}"${suggestionAttrs(s, block)}`, css: `box-shadow:-8px 0 0 -5px ${authorColor(s.author)}${fade}` };
+};
+
+const runHtml = (run: Run) => {
+  let html = escapeHtml(run.text);
+  const css: string[] = [];
+  if (run.color) css.push(`color:${run.color}`);
+  if (run.highlight) css.push(`background-color:${run.highlight}`);
+  if (run.font) css.push(`font-family:'${run.font.replace(/'/g, '')}'`);
+  if (run.size) css.push(`font-size:${run.size}pt`);
+  if (css.length) html = `<span style="${escapeHtml(css.join(';'))}">${html}</span>`;
+  if (run.strike) html = `<s>${html}</s>`;
+  if (run.underline) html = `<u>${html}</u>`;
+  if (run.italic) html = `<em>${html}</em>`;
+  if (run.bold) html = `<strong>${html}</strong>`;
+  if (run.link) html = `<a href="${escapeHtml(run.link)}" style="color:#1a5fb4;text-decoration:underline">${html}</a>`;
+  if (run.suggestion) html = suggestionHtml(run.suggestion, html);
+  return html;
+};
+
+// A block's text. Empty blocks and trailing line breaks need a <br> to
+// take up a line.
+export const runsHtml = (runs: Run[]) => {
+  const html = runs.map(runHtml).join('');
+  return !html || runs[runs.length - 1].text.endsWith('\n') ? html + '<br>' : html;
+};
+
+// The block's style, then its own alignment, then `extra`, then the mark of
+// a suggestion.
+const blockCss = (block: TextBlock, styles: StyleSheet, extra = '') => {
+  const css = [styleCss(styles[styleOf(block)])];
+  if (block.align) css.push(`text-align:${block.align}`);
+  css.push(extra, blockChange(block).css);
+  return escapeHtml(css.filter(Boolean).join(';'));
+};
+
+const PARAGRAPH_STYLES: ParagraphStyle[] = ['title', 'quote', 'code', 'caption'];
+
+// Paragraph styles are kept in a data attribute, so copying between
+// documents keeps them.
+const styleAttr = (block: TextBlock) => block.type === 'paragraph' && block.style ? ` data-style="${block.style}"` : '';
+
+const tocHtml = (outline: OutlineEntry[], editor: boolean) =>
+  '<div style="font-weight:bold;margin:0 0 0.4em">Contents</div>' +
+  (outline.length
+    ? outline.map(e => {
+      const text = escapeHtml(e.text || 'Untitled heading');
+      const css = `padding-left:${(e.level - 1) * 1.5}em;margin:0 0 0.2em`;
+      return editor
+        ? `<div data-heading="${escapeHtml(e.id)}" style="${css};cursor:pointer">${text}</div>`
+        : `<div style="${css}"><a href="#${escapeHtml(e.id)}" style="color:inherit;text-decoration:none">${text}</a></div>`;
+    }).join('')
+    : '<div style="color:#888">Add headings to build the table of contents.</div>');
+
+const TOC_CSS = 'margin:0 0 1em;padding:0.5em 0;border-top:1px solid #ddd;border-bottom:1px solid #ddd';
+
+// The marker before each list item: numbers count up through consecutive
+// items of a level and kind, and any other block ends the list.
+export const listMarkers = (blocks: Block[]): (string | null)[] => {
+  const counters: { list: ListKind; n: number }[] = [];
+  return blocks.map(block => {
+    if (block.type !== 'listItem') {
+      counters.length = 0;
+      return null;
+    }
+    const level = block.indent ?? 0;
+    counters.length = level + 1;
+    const counter = counters[level]?.list === block.list ? counters[level] : { list: block.list, n: 0 };
+    counter.n++;
+    counters[level] = counter;
+    return block.list === 'ordered' ? `${counter.n}.` : BULLETS[level % BULLETS.length];
+  });
+};
+
+const tableHtml = (rows: TableCell[][], cell: (c: TableCell, r: number, col: number) => string, attrs = '') =>
+  `<table${attrs} style="border-collapse:collapse;width:100%;margin:0 0 1em">` +
+  rows.map((row, r) => `<tr>${row.map((c, col) => cell(c, r, col)).join('')}</tr>`).join('') +
+  '</table>';
+
+const CELL_CSS = 'padding:8px;border:1px solid #ccc;vertical-align:top;white-space:pre-wrap';
+
+const mediaHtml = (block: Block, ctx: RenderContext) => {
+  switch (block.type) {
+    case 'image':
+      return `<img src="${escapeHtml(block.src)}" alt="${escapeHtml(block.alt ?? '')}" style="max-width:100%;${block.width ? `width:${block.width}px;` : ''}display:block">`;
+    case 'chart': return ctx.drawChart(block);
+    default: return '';
+  }
+};
+
+// One block as the editor shows it. Every block is one element carrying its
+// id; text blocks and table cells are marked as the places text goes, and
+// everything else can't be edited in place. Entries of a table of contents
+// carry the id of their heading, and headings their role, so pages don't end
+// on one. Blocks with a suggestion say whose it is.
+export const editorBlockHtml = (block: Block, marker: string | null, ctx: RenderContext) => {
+  const change = blockChange(block);
+  const id = `data-id="${escapeHtml(block.id)}"${change.attrs}`;
+  const css = change.css && `;${change.css}`;
+  switch (block.type) {
+    case 'paragraph':
+    case 'heading':
+      return `<div ${id} data-text${styleAttr(block)}${block.type === 'heading' ? ` role="heading" aria-level="${block.level}"` : ''} style="${blockCss(block, ctx.styles, `white-space:pre-wrap;padding-left:${(block.indent ?? 0) * INDENT_EM}em`)}">${runsHtml(block.runs)}</div>`;
+    case 'listItem': {
+      const left = ((block.indent ?? 0) + 1) * INDENT_EM;
+      return `<div ${id} data-text data-marker="${escapeHtml(marker ?? '')}" class="relative before:absolute before:left-[var(--marker-x)] before:content-[attr(data-marker)]" ` +
+        `style="${blockCss(block, ctx.styles, `white-space:pre-wrap;padding-left:${left}em;--marker-x:${left - INDENT_EM * 0.6}em`)}">${runsHtml(block.runs)}</div>`;
+    }
+    case 'toc':
+      return `<div ${id} data-toc contenteditable="false" style="${TOC_CSS}${css}">${tocHtml(ctx.outline, true)}</div>`;
+    case 'table':
+      return `<div ${id}${css ? ` style="${change.css}"` : ''}>` + tableHtml(block.rows, (c, r, col) => `<td data-cell="${r}:${col}" style="${CELL_CSS}">${runsHtml(c.runs)}</td>`) + '</div>';
+    case 'rule':
+      return `<div ${id} contenteditable="false" style="padding:0.5em 0${css}"><hr style="border:0;border-top:1px solid #999"></div>`;
+    case 'pageBreak':
+      return `<div ${id} data-page-break contenteditable="false" style="display:flex;align-items:center;gap:0.5em;padding:0.5em 0;font-size:0.75em;color:#999${css}">` +
+        '<span style="flex:1;border-top:1px dashed #bbb"></span>Page break<span style="flex:1;border-top:1px dashed #bbb"></span></div>';
+    default:
+      return `<figure ${id} contenteditable="false" style="margin:0 0 1em${css}">${mediaHtml(block, ctx)}</figure>`;
+  }
+};
+
+// The document as plain HTML, with lists nested the way HTML expects.
+export const docToHtml = (doc: WriterDoc, drawChart: ChartDrawer) => {
+  const ctx = renderContext(doc, drawChart);
+  let html = '';
+  const open: ListKind[] = [];
+  const closeTo = (depth: number) => {
+    while (open.length > depth) html += open.pop() === 'ordered' ? '</li></ol>' : '</li></ul>';
+  };
+  doc.blocks.forEach(block => {
+    if (block.type === 'listItem') {
+      const depth = (block.indent ?? 0) + 1;
+      closeTo(depth);
+      if (open.length === depth && open[depth - 1] !== block.list) closeTo(depth - 1);
+      if (open.length === depth) html += '</li>';
+      while (open.length < depth) {
+        open.push(block.list);
+        html += block.list === 'ordered' ? '<ol>' : '<ul>';
+        if (open.length < depth) html += '<li>';
+      }
+      html += `<li${blockChange(block).attrs} style="${blockCss(block, ctx.styles)}">${runsHtml(block.runs)}`;
+      return;
+    }
+    closeTo(0);
+    if (block.type === 'paragraph') {
+      const tag = block.style === 'quote' ? 'blockquote' : block.style === 'code' ? 'pre' : 'p';
+      const css = blockCss(block, ctx.styles, `white-space:pre-wrap${block.indent ? `;padding-left:${block.indent * INDENT_EM}em` : ''}`);
+      html += `<${tag}${styleAttr(block)}${blockChange(block).attrs} style="${css}">${runsHtml(block.runs)}</${tag}>`;
+    }
+    else if (block.type === 'heading') {
+      html += `<h${block.level} id="${escapeHtml(block.id)}"${blockChange(block).attrs} style="${blockCss(block, ctx.styles)}">${runsHtml(block.runs)}</h${block.level}>`;
+    }
+    else if (block.type === 'table') html += tableHtml(block.rows, c => `<td style="${CELL_CSS}">${runsHtml(c.runs)}</td>`, blockChange(block).attrs);
+    else if (block.type === 'rule') html += '<hr>';
+    else if (block.type === 'toc') html += `<nav data-toc style="${TOC_CSS}">${tocHtml(ctx.outline, false)}</nav>`;
+    else if (block.type === 'pageBreak') html += '<div data-page-break style="break-after:page"></div>';
+    else html += `<figure style="margin:0 0 1em">${mediaHtml(block, ctx)}</figure>`;
+  });
+  closeTo(0);
+  return html;
+};
+
+// --- READING ---
+// Colors as #rrggbb where possible; transparent ones are no color at all.
+const cssColor = (value: string | null | undefined) => {
+  const v = value?.trim().toLowerCase();
+  if (!v || v === 'transparent' || v === 'inherit' || v === 'initial') return undefined;
+  const rgb = /^rgba?\(\s*(\d+)[,\s]+(\d+)[,\s]+(\d+)(?:[,\s/]+([\d.]+%?))?\s*\)$/.exec(v);
+  if (rgb) {
+    if (rgb[4] !== undefined && parseFloat(rgb[4]) === 0) return undefined;
+    return '#' + rgb.slice(1, 4).map(n => Math.min(255, Number(n)).toString(16).padStart(2, '0')).join('');
+  }
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/.exec(v);
+  if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`;
+  return /^#[0-9a-f]{6}$/.test(v) || /^[a-z]+$/.test(v) ? v : undefined;
+};
+
+// <font size> levels as points.
+const FONT_SIZES = [8, 10, 12, 14, 18, 24, 36];
+
+const cssSize = (value: string) => {
+  const m = /^([\d.]+)(px|pt)$/.exec(value.trim());
+  if (!m) return undefined;
+  const pt = m[2] === 'px' ? Number(m[1]) * 0.75 : Number(m[1]);
+  return pt > 0 ? Math.round(pt * 2) / 2 : undefined;
+};
+
+// The marks and suggestion of text, as the walk down the HTML gathers them.
+type Inline = Omit<Run, 'text'>;
+
+// Suggestions as we write them: each element read is a suggestion of its
+// own, as ids aren't written.
+const readSuggestion = (el: HTMLElement, kind: SuggestionKind | null): Suggestion | undefined => {
+  const author = el.dataset.author;
+  if (!author || !kind) return undefined;
+  let before: Marks | undefined;
+  try {
+    before = kind === 'format' ? JSON.parse(el.dataset.before!) : undefined;
+  } catch {
+    return undefined;
+  }
+  return { ...newSuggestion(kind, author, before), ...(el.getAttribute('datetime') ? { date: el.getAttribute('datetime')! } : {}) };
+};
+
+const suggestionOf = (el: HTMLElement) => {
+  const tag = el.tagName.toLowerCase();
+  return readSuggestion(el, tag === 'ins' ? 'insert' : tag === 'del' ? 'delete' : el.dataset.before ? 'format' : null);
+};
+
+// The suggestion on a block element itself (see blockChange).
+const blockSuggestionOf = (el: Element) => {
+  const kind = (el as HTMLElement).dataset.change;
+  return readSuggestion(el as HTMLElement, kind === 'insert' || kind === 'delete' ? kind : null);
+};
+
+const elementMarks = (el: HTMLElement, marks: Inline): Inline => {
+  const suggestion = suggestionOf(el);
+  if (suggestion) return { ...marks, suggestion };
+  const next = { ...marks };
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'b' || tag === 'strong') next.bold = true;
+  if (tag === 'i' || tag === 'em') next.italic = true;
+  if (tag === 'u' || tag === 'ins') next.underline = true;
+  if (tag === 's' || tag === 'strike' || tag === 'del') next.strike = true;
+  if (tag === 'a' && el.getAttribute('href')) next.link = el.getAttribute('href')!;
+  if (tag === 'font') {
+    const color = cssColor(el.getAttribute('color'));
+    if (color) next.color = color;
+    if (el.getAttribute('face')) next.font = el.getAttribute('face')!.split(',')[0].replace(/["']/g, '').trim();
+    const size = Number(el.getAttribute('size'));
+    if (size >= 1 && size <= 7) next.size = FONT_SIZES[size - 1];
+  }
+  const style = el.style;
+  if (style.fontWeight === 'bold' || Number(style.fontWeight) >= 600) next.bold = true;
+  else if (style.fontWeight === 'normal' || (Number(style.fontWeight) > 0 && Number(style.fontWeight) < 600)) delete next.bold;
+  if (style.fontStyle === 'italic') next.italic = true;
+  if (style.textDecoration.includes('underline') || style.textDecorationLine?.includes('underline')) next.underline = true;
+  if (style.textDecoration.includes('line-through') || style.textDecorationLine?.includes('line-through')) next.strike = true;
+  const color = cssColor(style.color);
+  if (color) next.color = color;
+  const highlight = cssColor(style.backgroundColor);
+  if (highlight) next.highlight = highlight;
+  if (style.fontFamily) next.font = style.fontFamily.split(',')[0].replace(/["']/g, '').trim();
+  const size = style.fontSize && cssSize(style.fontSize);
+  if (size) next.size = size;
+  return next;
+};
+
+const alignOf = (el: HTMLElement): Align | undefined => {
+  const value = (el.style.textAlign || el.getAttribute('align') || '').toLowerCase();
+  return value === 'center' || value === 'right' || value === 'justify' ? value : undefined;
+};
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'table', 'blockquote', 'pre', 'figure', 'hr',
+  'section', 'article', 'header', 'footer', 'main', 'nav', 'aside', 'address', 'dl', 'dt', 'dd', 'figcaption'
+]);
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'title', 'meta', 'link', 'template', 'noscript']);
+
+// A template for the text blocks read inside an element.
+type BlockTemplate = Omit<TextBlock, 'id' | 'runs'>;
+
+// The runs inside an element, with nested blocks and <br>s as line breaks.
+const inlineRuns = (el: Element, marks: Inline): Run[] => {
+  const runs: Run[] = [];
+  const walk = (node: Node, m: Inline) => {
+    if (node.nodeType === 3) runs.push({ ...m, text: (node.textContent ?? '').replace(/\s+/g, ' ') });
+    if (node.nodeType !== 1) return;
+    const child = node as HTMLElement;
+    const tag = child.tagName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) return;
+    if (tag === 'br') {
+      runs.push({ ...m, text: '\n' });
+      return;
+    }
+    const inner = elementMarks(child, m);
+    if (BLOCK_TAGS.has(tag) && runs.length) runs.push({ ...m, text: '\n' });
+    child.childNodes.forEach(n => walk(n, inner));
+  };
+  el.childNodes.forEach(n => walk(n, marks));
+  return trimRuns(runs);
+};
+
+// Whitespace at either end of a block only comes from the HTML's layout.
+const trimRuns = (runs: Run[]): Run[] => {
+  const out = normalizeRuns(runs);
+  if (out.length) out[0] = { ...out[0], text: out[0].text.replace(/^[ \n]+/, '') };
+  if (out.length) out[out.length - 1] = { ...out[out.length - 1], text: out[out.length - 1].text.replace(/[ \n]+$/, '') };
+  return normalizeRuns(out);
+};
+
+export const htmlToBlocks = (html: string): Block[] => {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const blocks: Block[] = [];
+  let n = 0;
+  const id = () => `b${++n}`;
+  let current: TextBlock | null = null;
+  let currentPre = false;
+
+  const flush = () => {
+    if (!current) return;
+    current.runs = currentPre ? normalizeRuns(current.runs) : trimRuns(current.runs);
+    blocks.push(current);
+    current = null;
+  };
+  const open = (template: BlockTemplate, pre: boolean): TextBlock => {
+    if (!current) {
+      current = { ...template, id: id(), runs: [] } as TextBlock;
+      currentPre = pre;
+    }
+    return current;
+  };
+  // The first block read from `el` takes the suggestion on it.
+  const suggest = (from: number, el: Element) => {
+    const suggestion = blockSuggestionOf(el);
+    if (suggestion && blocks[from]) blocks[from] = withSuggestion(blocks[from], suggestion);
+  };
+  // Pictures inside an insertion or deletion are inserted or deleted whole.
+  const mediaChange = (marks: Inline) => marks.suggestion && marks.suggestion.kind !== 'format' ? { suggestion: marks.suggestion } : {};
+
+  const walk = (node: Node, marks: Inline, template: BlockTemplate, pre: boolean) => {
+    if (node.nodeType === 3) {
+      const raw = node.textContent ?? '';
+      const text = pre ? raw : raw.replace(/\s+/g, ' ');
+      if (!current && !text.trim()) return;
+      open(template, pre).runs.push({ ...marks, text });
+      return;
+    }
+    if (node.nodeType !== 1) return;
+    const el = node as HTMLElement;
+    const tag = el.tagName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    // Page breaks as we write them, and as Word and browsers do.
+    if (el.hasAttribute('data-page-break') || /always|page/.test(`${el.style.pageBreakBefore} ${el.style.breakBefore}`)) {
+      flush();
+      blocks.push({ type: 'pageBreak', id: id() });
+      suggest(blocks.length - 1, el);
+      if (tag === 'br' || el.hasAttribute('data-page-break')) return;
+    }
+    if (tag === 'br') {
+      open(template, pre).runs.push({ ...marks, text: '\n' });
+      return;
+    }
+    if (tag === 'img') {
+      flush();
+      const src = el.getAttribute('src');
+      const width = Number(el.getAttribute('width')) || parseFloat(el.style.width) || undefined;
+      if (src) blocks.push({ type: 'image', id: id(), src, alt: el.getAttribute('alt') || undefined, ...(width ? { width } : {}), ...mediaChange(marks) });
+      return;
+    }
+    if (tag === 'svg') {
+      flush();
+      blocks.push({ type: 'chart', id: id(), svg: el.outerHTML, ...mediaChange(marks) });
+      return;
+    }
+    if (tag === 'hr') {
+      flush();
+      blocks.push({ type: 'rule', id: id() });
+      return;
+    }
+    if (el.hasAttribute('data-toc')) {
+      flush();
+      blocks.push({ type: 'toc', id: id() });
+      suggest(blocks.length - 1, el);
+      return;
+    }
+    if (tag === 'figure' && el.dataset.chartDoc) {
+      flush();
+      const svg = el.querySelector('svg');
+      blocks.push({
+        type: 'chart', id: id(), svg: svg ? svg.outerHTML : '',
+        ref: { docId: el.dataset.chartDoc, sheetId: el.dataset.chartSheet ?? '', chartId: el.dataset.chartId ?? '' }
+      });
+      suggest(blocks.length - 1, el);
+      return;
+    }
+    if (tag === 'table') {
+      flush();
+      const rows = [...el.querySelectorAll('tr')].filter(tr => tr.closest('table') === el)
+        .map(tr => [...tr.children].filter(c => /^t[dh]$/i.test(c.tagName)).map(c => ({
+          runs: inlineRuns(c, c.tagName.toLowerCase() === 'th' ? { ...marks, bold: true } : marks)
+        })));
+      const width = Math.max(0, ...rows.map(r => r.length));
+      if (width) blocks.push({ type: 'table', id: id(), rows: rows.map(r => [...r, ...Array.from({ length: width - r.length }, () => ({ runs: [] }))]) });
+      if (width) suggest(blocks.length - 1, el);
+      return;
+    }
+    if (tag === 'ul' || tag === 'ol') {
+      flush();
+      const depth = template.type === 'listItem' ? (template.indent ?? 0) + 1 : 0;
+      const list: ListKind = tag === 'ol' ? 'ordered' : 'bullet';
+      el.childNodes.forEach(child => {
+        const item: BlockTemplate = { type: 'listItem', list, indent: depth, ...(child.nodeType === 1 && alignOf(child as HTMLElement) ? { align: alignOf(child as HTMLElement) } : {}) } as BlockTemplate;
+        if (child.nodeType === 1 && (child as HTMLElement).tagName.toLowerCase() === 'li') {
+          const before = blocks.length;
+          child.childNodes.forEach(c => walk(c, elementMarks(child as HTMLElement, marks), item, pre));
+          if (!current && blocks.length === before) open(item, pre);
+          flush();
+          suggest(before, child as Element);
+        } else {
+          walk(child, marks, item, pre);
+        }
+      });
+      flush();
+      return;
+    }
+    if (!BLOCK_TAGS.has(tag)) {
+      const inner = elementMarks(el, marks);
+      el.childNodes.forEach(child => walk(child, inner, template, pre));
+      return;
+    }
+
+    // A block element: its inline content becomes text blocks shaped by it.
+    flush();
+    const align = alignOf(el) ?? template.align;
+    let next: BlockTemplate = { ...template, ...(align ? { align } : {}) } as BlockTemplate;
+    const heading = /^h([1-6])$/.exec(tag);
+    // The editor's old Indent button made borderless blockquotes; those stay indents.
+    const quote = tag === 'blockquote' && !(el.style.borderStyle === 'none' || el.style.border === 'none');
+    const style = PARAGRAPH_STYLES.find(s => s === el.dataset.style) ??
+      (quote ? 'quote' : tag === 'pre' ? 'code' : tag === 'figcaption' ? 'caption' : undefined);
+    if (heading) next = { type: 'heading', level: Number(heading[1]), ...(align ? { align } : {}) } as BlockTemplate;
+    else if (style && template.type === 'paragraph') next = { type: 'paragraph', style, ...(align ? { align } : {}) } as BlockTemplate;
+    else if (tag !== 'li' && parseFloat(el.style.marginLeft) >= 30) {
+      const steps = Math.round(parseFloat(el.style.marginLeft) / 40) || 1;
+      next = { ...next, indent: (next.indent ?? 0) + steps } as BlockTemplate;
+    }
+    const before = blocks.length;
+    const inner = elementMarks(el, marks);
+    el.childNodes.forEach(child => walk(child, inner, next, pre || tag === 'pre'));
+    if (!current && blocks.length === before && tag !== 'figure') open(next, pre);
+    flush();
+    suggest(before, el);
+  };
+
+  body.childNodes.forEach(child => walk(child, {}, { type: 'paragraph' } as BlockTemplate, false));
+  flush();
+  return blocks;
+};
+
+// Plain text, one paragraph per line.
+export const textToBlocks = (text: string): Block[] =>
+  text.replace(/\r\n?/g, '\n').split('\n').map((line, i) => paragraph(`b${i + 1}`, line ? [{ text: line }] : []));
+
+// A document from HTML, always with a paragraph to type into at the end.
+export const htmlToDoc = (html: string): WriterDoc => {
+  const blocks = htmlToBlocks(html);
+  if (!blocks.length) return createWriterDoc();
+  if (!isTextBlock(blocks[blocks.length - 1])) blocks.push(paragraph(`b${blocks.length + 1}`));
+  return { blocks };
+};
+
+// Writer documents were saved as the editor's HTML until the model existed.
+export const toWriterDoc = (content: any): WriterDoc => {
+  if (content && Array.isArray(content.blocks) && content.blocks.length) return content;
+  if (typeof content === 'string' && content.trim()) return htmlToDoc(content);
+  return createWriterDoc();
+};
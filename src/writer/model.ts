@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ChartRef } from '../charts/embed.ts';
+
+// --- DOCUMENT MODEL ---
+// A Writer document is a flat list of blocks. Text blocks hold runs: spans
+// of text sharing the same marks. Lists are list items with a nesting level
+// rather than nested containers, as in Word, so every edit works on one
+// level of structure. Line breaks inside a block are "\n" in the run text.
+export interface Marks {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  color?: string;
+  highlight?: string;
+  font?: string;
+  size?: number; // points
+  link?: string;
+}
+
+export interface Run extends Marks { text: string; suggestion?: Suggestion; }
+
+export type Align = 'left' | 'center' | 'right' | 'justify';
+export type ListKind = 'bullet' | 'ordered';
+
+interface BlockBase { id: string; suggestion?: Suggestion; }
+
+// `indent` is in levels: a list item's nesting, or a paragraph's indent steps.
+interface TextBlockBase extends BlockBase {
+  runs: Run[];
+  align?: Align;
+  indent?: number;
+}
+
+// Paragraph styles besides body text; headings are blocks of their own.
+export type ParagraphStyle = 'title' | 'quote' | 'code' | 'caption';
+
+export interface Paragraph extends TextBlockBase { type: 'paragraph'; style?: ParagraphStyle; }
+export interface Heading extends TextBlockBase { type: 'heading'; level: number; }
+export interface ListItem extends TextBlockBase { type: 'listItem'; list: ListKind; }
+export type TextBlock = Paragraph | Heading | ListItem;
+
+export interface TableCell { runs: Run[]; }
+export interface Table extends BlockBase { type: 'table'; rows: TableCell[][]; }
+export interface Image extends BlockBase { type: 'image'; src: string; alt?: string; width?: number; }
+// Live charts keep their reference and are redrawn from the workbook; `svg`
+// is the last drawing, shown when the source has gone.
+export interface Chart extends BlockBase { type: 'chart'; svg: string; ref?: ChartRef; }
+export interface Rule extends BlockBase { type: 'rule'; }
+// A table of contents holds nothing: it is drawn from the headings each time.
+export interface Toc extends BlockBase { type: 'toc'; }
+// What follows a page break starts on a new page.
+export interface PageBreak extends BlockBase { type: 'pageBreak'; }
+
+export type Block = TextBlock | Table | Image | Chart | Rule | Toc | PageBreak;
+
+// --- STYLES ---
+// Every text block has one style: body text, a heading level or a paragraph
+// style. A document keeps only the definitions it has changed; the rest are
+// the defaults in styles.ts. Sizes and spacing are in points; what a
+// definition leaves out comes from the Writer's default font and size.
+export type StyleId = 'body' | 'title' | 'heading1' | 'heading2' | 'heading3' | 'heading4' | 'heading5' | 'heading6' | ParagraphStyle;
+
+export interface StyleDef {
+  font?: string;
+  size?: number;
+  bold?: boolean;
+  italic?: boolean;
+  color?: string;
+  shading?: string;
+  align?: Align;
+  spaceBefore?: number;
+  spaceAfter?: number;
+  indent?: number;
+}
+
+// --- PAGES ---
+// Paper and margins are in millimetres. Headers and footers are plain text
+// in three places across the margin; {page}, {pages} and {date} in them are
+// filled in on each page. Documents without a setup get the defaults in
+// pages.ts.
+export type PaperSize = 'a4' | 'a5' | 'letter' | 'legal';
+export type Orientation = 'portrait' | 'landscape';
+
+export interface Margins { top: number; right: number; bottom: number; left: number; }
+
+export interface PageSetup {
+  size: PaperSize;
+  orientation: Orientation;
+  margins: Margins;
+}
+
+export interface PageRegion { left?: string; center?: string; right?: string; }
+
+// --- SUGGESTIONS ---
+// Edits made in suggestion mode wait for a reviewer to accept or reject
+// them. Inserted text is marked on its runs; deleted text stays in place,
+// marked; reformatted text keeps the marks it had `before`. On a text block
+// a suggestion is about the break before it: the block was split off
+// (inserted) or joined to the one before (deleted). Other blocks are
+// inserted or deleted whole. Everything one edit marks shares its id.
+export type SuggestionKind = 'insert' | 'delete' | 'format';
+
+export interface Suggestion {
+  id: string;
+  kind: SuggestionKind;
+  author: string;
+  date: string; // ISO 8601
+  before?: Marks;
+}
+
+export interface WriterDoc {
+  blocks: Block[];
+  styles?: Partial<Record<StyleId, StyleDef>>;
+  page?: PageSetup;
+  header?: PageRegion;
+  footer?: PageRegion;
+}
+
+export const MARK_KEYS: (keyof Marks)[] = ['bold', 'italic', 'underline', 'strike', 'color', 'highlight', 'font', 'size', 'link'];
+
+export const isTextBlock = (block: Block | undefined): block is TextBlock =>
+  !!block && (block.type === 'paragraph' || block.type === 'heading' || block.type === 'listItem');
+
+// --- IDS ---
+// Block ids are unique within the document; `count` fresh ones at a time.
+export const newBlockIds = (blocks: Block[], count: number) => {
+  const taken = new Set(blocks.map(b => b.id));
+  const ids: string[] = [];
+  for (let n = 1; ids.length < count; n++) {
+    if (!taken.has(`b${n}`)) ids.push(`b${n}`);
+  }
+  return ids;
+};
+
+export const paragraph = (id: string, runs: Run[] = [], props: Partial<Paragraph> = {}): Paragraph =>
+  ({ type: 'paragraph', id, runs, ...props });
+
+export const createWriterDoc = (): WriterDoc => ({ blocks: [paragraph('b1')] });
+
+// --- RUNS ---
+const copyMark = <K extends keyof Marks>(to: Marks, from: Marks, key: K) => { to[key] = from[key]; };
+
+export const marksOf = (run: Run): Marks => {
+  const marks: Marks = {};
+  MARK_KEYS.forEach(k => {
+    if (run[k] !== undefined && run[k] !== false) copyMark(marks, run, k);
+  });
+  return marks;
+};
+
+export const sameMarks = (a: Marks, b: Marks) => MARK_KEYS.every(k => (a[k] || undefined) === (b[k] || undefined));
+
+// Runs of one suggestion only merge when formatting changes started from
+// the same marks, so each can be put back.
+export const sameSuggestion = (a: Suggestion | undefined, b: Suggestion | undefined) =>
+  a?.id === b?.id && (a?.kind !== 'format' || sameMarks(a.before ?? {}, b?.before ?? {}));
+
+// Drops empty runs and merges neighbours with the same marks and
+// suggestion, so equal content always has the same shape.
+export const normalizeRuns = (runs: Run[]): Run[] => {
+  const out: Run[] = [];
+  runs.forEach(run => {
+    if (!run.text) return;
+    const last = out[out.length - 1];
+    if (last && sameMarks(last, run) && sameSuggestion(last.suggestion, run.suggestion)) out[out.length - 1] = { ...last, text: last.text + run.text };
+    else out.push({ ...marksOf(run), text: run.text, ...(run.suggestion ? { suggestion: run.suggestion } : {}) });
+  });
+  return out;
+};
+
+export const runsText = (runs: Run[]) => runs.map(r => r.text).join('');
+
+export const runsLength = (runs: Run[]) => runs.reduce((n, r) => n + r.text.length, 0);
+
+// The runs from `from` to `to`, split where needed.
+export const sliceRuns = (runs: Run[], from: number, to = Infinity): Run[] => {
+  const out: Run[] = [];
+  let at = 0;
+  runs.forEach(run => {
+    const start = Math.max(from, at);
+    const end = Math.min(to, at + run.text.length);
+    if (end > start) out.push({ ...run, text: run.text.slice(start - at, end - at) });
+    at += run.text.length;
+  });
+  return out;
+};
+
+// The marks in effect at `offset`: those of the character before it, or of
+// the first character when at the start.
+export const marksAt = (runs: Run[], offset: number): Marks => {
+  let at = 0;
+  for (const run of runs) {
+    if (offset <= at + run.text.length && (offset > at || at === 0)) return marksOf(run);
+    at += run.text.length;
+  }
+  return {};
+};
+
+// --- TEXT ---
+export const blockText = (block: Block): string => {
+  if (isTextBlock(block)) return runsText(block.runs);
+  if (block.type === 'table') return block.rows.map(row => row.map(c => runsText(c.runs)).join('\t')).join('\n');
+  return '';
+};
+
+export const docText = (doc: WriterDoc) => doc.blocks.map(blockText).join('\n');
+
+export const countWords = (text: string) => (text.trim() ? text.trim().split(/\s+/).length : 0);
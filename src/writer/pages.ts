@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { escapeHtml } from '../slides/slide.ts';
+import type { PrintPages } from '../slides/print.ts';
+import { ChartDrawer, docToHtml } from './html.ts';
+import { Margins, PageRegion, PageSetup, PaperSize, WriterDoc } from './model.ts';
+
+// --- PAGE SETUP ---
+export const PAPER_SIZES: Record<PaperSize, { name: string; width: number; height: number }> = {
+  a4: { name: 'A4', width: 210, height: 297 },
+  a5: { name: 'A5', width: 148, height: 210 },
+  letter: { name: 'Letter', width: 215.9, height: 279.4 },
+  legal: { name: 'Legal', width: 215.9, height: 355.6 }
+};
+
+export const DEFAULT_PAGE: PageSetup = {
+  size: 'a4',
+  orientation: 'portrait',
+  margins: { top: 25.4, right: 25.4, bottom: 25.4, left: 25.4 }
+};
+
+// Text needs at least this much of the page, in millimetres.
+export const MIN_TEXT_MM = 20;
+
+export const pageSetup = (doc: WriterDoc): PageSetup => doc.page ?? DEFAULT_PAGE;
+
+// The paper's width and height as it lies, in millimetres.
+export const paperSize = (setup: PageSetup): [number, number] => {
+  const { width, height } = PAPER_SIZES[setup.size];
+  return setup.orientation === 'landscape' ? [height, width] : [width, height];
+};
+
+// --- METRICS ---
+// Pages are laid out in CSS pixels, 96 to the inch.
+export const PX_PER_MM = 96 / 25.4;
+
+export interface PageMetrics {
+  width: number;
+  height: number;
+  margins: Margins;
+  textWidth: number;
+  textHeight: number;
+}
+
+export const pageMetrics = (setup: PageSetup): PageMetrics => {
+  const [width, height] = paperSize(setup).map(mm => Math.round(mm * PX_PER_MM));
+  const m = setup.margins;
+  const margins = { top: m.top * PX_PER_MM, right: m.right * PX_PER_MM, bottom: m.bottom * PX_PER_MM, left: m.left * PX_PER_MM };
+  return { width, height, margins, textWidth: width - margins.left - margins.right, textHeight: height - margins.top - margins.bottom };
+};
+
+// --- HEADERS AND FOOTERS ---
+export interface PageFields { page: number; pages: number; date: string; }
+
+export const FIELDS: { token: string; name: string }[] = [
+  { token: '{page}', name: 'Page number' },
+  { token: '{pages}', name: 'Page count' },
+  { token: '{date}', name: 'Date' }
+];
+
+export const fillFields = (text: string, fields: PageFields) =>
+  text.replace(/\{(page|pages|date)\}/g, (_, name: keyof PageFields) => String(fields[name]));
+
+export const hasRegion = (region: PageRegion | undefined) => !!(region?.left || region?.center || region?.right);
+
+// The three parts of a header or footer across the text width, for the
+// page's band of margin.
+export const regionHtml = (region: PageRegion | undefined, fields: PageFields) =>
+  '<div style="display:flex;gap:1em;width:100%;font-size:0.8em;line-height:1.3;color:#666">' +
+  (['left', 'center', 'right'] as const).map(side =>
+    `<div style="flex:1;min-width:0;text-align:${side};white-space:pre;overflow:hidden;text-overflow:ellipsis">` +
+    escapeHtml(fillFields(region?.[side] ?? '', fields)) + '</div>').join('') +
+  '</div>';
+
+// --- PAGE BREAKS ---
+// Where pages end in laid-out text: between blocks where possible, else
+// between table rows or lines of text, and only through the middle of a
+// picture taller than a page. `y` is measured down from the top of the text
+// as laid out without breaks. A heading never ends a page; it moves to the
+// next one with what follows.
+export interface PageCut {
+  y: number;
+  // The block or table row that starts the next page, or for `line` cuts the
+  // block broken inside. Null where a cut goes through a picture.
+  element: HTMLElement | null;
+  line: boolean;
+}
+
+const HEADING = 'h1, h2, h3, h4, h5, h6, [role="heading"]';
+
+// The tops of the lines of text in `el`, relative to the viewport.
+export const lineTops = (el: Element) => {
+  const range = document.createRange();
+  range.selectNodeContents(el);
+  const rects = [...range.getClientRects() as unknown as DOMRect[]].filter(r => r.height > 0).sort((a, b) => a.top - b.top);
+  const tops: number[] = [];
+  let bottom = -Infinity;
+  rects.forEach(r => {
+    if (r.top >= bottom - 1) tops.push(r.top);
+    bottom = Math.max(bottom, r.bottom);
+  });
+  return tops;
+};
+
+// Maps viewport tops to `y` in `flow`, which may be scaled by a transform,
+// and back.
+export const flowPosition = (flow: HTMLElement) => {
+  const box = flow.getBoundingClientRect();
+  const scale = flow.offsetHeight ? box.height / flow.offsetHeight : 1;
+  const origin = box.top + (flow.clientTop + (parseFloat(getComputedStyle(flow).paddingTop) || 0)) * scale;
+  return { y: (top: number) => (top - origin) / scale, top: (y: number) => origin + y * scale, scale };
+};
+
+// `flow` holds one element per block (the editor) or the exported HTML.
+export const pageCuts = (flow: HTMLElement, textHeight: number): PageCut[] => {
+  const { y, scale } = flowPosition(flow);
+  const children = [...flow.children as unknown as HTMLElement[]];
+  const cuts: PageCut[] = [];
+  let start = 0;
+
+  // A cut before block `i`, or before the heading above it.
+  const blockCut = (i: number, top: number): PageCut => {
+    const previous = children[i - 1];
+    const above = previous?.matches(HEADING) ? y(previous.getBoundingClientRect().top) : -1;
+    return above > start ? { y: above, element: previous, line: false } : { y: top, element: children[i], line: false };
+  };
+
+  children.forEach((child, i) => {
+    const rect = child.getBoundingClientRect();
+    const top = y(rect.top);
+    const bottom = top + rect.height / scale;
+    if (children[i - 1]?.matches('[data-page-break]') && top > start) {
+      cuts.push({ y: top, element: child, line: false });
+      start = top;
+    }
+    while (bottom > start + textHeight + 0.5) {
+      const limit = start + textHeight;
+      let cut: PageCut | null = top > start && top <= limit + 0.5 ? blockCut(i, top) : null;
+      if (top < limit && !child.matches('figure, hr')) {
+        const rows = [...child.querySelectorAll('tr') as unknown as HTMLElement[]];
+        const inside = rows.length
+          ? rows.map(row => ({ y: y(row.getBoundingClientRect().top), element: row, line: false }))
+          : lineTops(child).map(t => ({ y: y(t), element: child, line: true }));
+        const best = inside.filter(c => c.y > start + 0.5 && c.y > top + 0.5 && c.y <= limit + 0.5).pop();
+        if (best) cut = best;
+      }
+      if (top > limit) cut = blockCut(i, top);
+      if (!cut) cut = { y: limit, element: null, line: false };
+      cuts.push(cut);
+      start = cut.y;
+    }
+  });
+  return cuts;
+};
+
+// --- PRINTED PAGES ---
+// The document as pages for PDF export and printing: each page shows its
+// slice of the text laid out once, between the header and footer. Only the
+// blocks a page shows are copied onto it.
+export interface PrintOptions { font: string; size: number; date: string; }
+
+const flowCss = (width: number, { font, size }: PrintOptions) =>
+  `display:flow-root;width:${width}px;font-family:'${font.replace(/'/g, '')}';font-size:${size}pt;line-height:1.5;color:#000`;
+
+export const printDocument = async (doc: WriterDoc, drawChart: ChartDrawer, options: PrintOptions): Promise<PrintPages> => {
+  const metrics = pageMetrics(pageSetup(doc));
+  const { width, height, margins, textWidth, textHeight } = metrics;
+  const css = flowCss(textWidth, options);
+  const host = document.createElement('div');
+  host.style.cssText = 'position:fixed;left:-100000px;top:0;visibility:hidden';
+  host.innerHTML = `<div style="${escapeHtml(css)}">${docToHtml(doc, drawChart)}</div>`;
+  document.body.appendChild(host);
+  let blocks: { html: string; top: number; bottom: number }[];
+  let cuts: PageCut[];
+  let total: number;
+  try {
+    const flow = host.firstElementChild as HTMLElement;
+    await Promise.all([...flow.querySelectorAll('img') as unknown as HTMLImageElement[]].map(img => img.decode().catch(() => undefined)));
+    await document.fonts?.ready;
+    cuts = pageCuts(flow, textHeight);
+    const origin = flow.getBoundingClientRect().top;
+    total = flow.getBoundingClientRect().height;
+    // Each block from the top of its margin, which starts it on a page of its own.
+    blocks = [...flow.children as unknown as HTMLElement[]].map(el => {
+      const rect = el.getBoundingClientRect();
+      const margin = parseFloat(getComputedStyle(el).marginTop) || 0;
+      return { html: el.outerHTML, top: rect.top - origin - margin, bottom: rect.bottom - origin };
+    });
+  } finally {
+    host.remove();
+  }
+  const starts = [0, ...cuts.map(c => c.y)];
+  const band = (region: PageRegion | undefined, fields: PageFields, edge: 'top' | 'bottom') =>
+    hasRegion(region)
+      ? `<div style="position:absolute;left:${margins.left}px;right:${margins.right}px;${edge}:0;height:${margins[edge]}px;display:flex;align-items:center">${regionHtml(region, fields)}</div>`
+      : '';
+  const html = starts.map((start, i) => {
+    const end = starts[i + 1] ?? Math.max(total, start);
+    const shown = blocks.filter(b => b.bottom > start && b.top < end);
+    const fields = { page: i + 1, pages: starts.length, date: options.date };
+    const offset = (shown[0]?.top ?? start) - start;
+    return `<div style="position:relative;overflow:hidden;width:${width}px;height:${height}px;background:#fff;font-family:'${options.font.replace(/'/g, '')}';font-size:${options.size}pt">` +
+      band(doc.header, fields, 'top') +
+      `<div style="position:absolute;left:${margins.left}px;top:${margins.top}px;width:${textWidth}px;height:${Math.min(end - start, textHeight)}px;overflow:hidden">` +
+      `<div style="position:relative;top:${offset}px;${escapeHtml(css)}">${shown.map(b => b.html).join('')}</div></div>` +
+      band(doc.footer, fields, 'bottom') +
+      '</div>';
+  }).join('');
+  return { html, width, height };
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { StyleDef, StyleId, TextBlock, WriterDoc, runsText } from './model.ts';
+
+// --- PARAGRAPH STYLES ---
+// The built-in definitions, in the order the styles menu lists them.
+export const STYLES: { id: StyleId; name: string }[] = [
+  { id: 'title', name: 'Title' },
+  { id: 'heading1', name: 'Heading 1' },
+  { id: 'heading2', name: 'Heading 2' },
+  { id: 'heading3', name: 'Heading 3' },
+  { id: 'heading4', name: 'Heading 4' },
+  { id: 'heading5', name: 'Heading 5' },
+  { id: 'heading6', name: 'Heading 6' },
+  { id: 'body', name: 'Body' },
+  { id: 'quote', name: 'Quote' },
+  { id: 'code', name: 'Code' },
+  { id: 'caption', name: 'Caption' }
+];
+
+export type StyleSheet = Record<StyleId, StyleDef>;
+
+export const DEFAULT_STYLES: StyleSheet = {
+  body: { spaceAfter: 6 },
+  title: { size: 28, spaceAfter: 12 },
+  heading1: { size: 24, bold: true, spaceBefore: 18, spaceAfter: 8 },
+  heading2: { size: 18, bold: true, spaceBefore: 14, spaceAfter: 6 },
+  heading3: { size: 15, bold: true, spaceBefore: 12, spaceAfter: 5 },
+  heading4: { size: 13, bold: true, spaceBefore: 10, spaceAfter: 4 },
+  heading5: { size: 12, bold: true, spaceBefore: 10, spaceAfter: 4 },
+  heading6: { size: 11, bold: true, italic: true, spaceBefore: 8, spaceAfter: 4 },
+  quote: { italic: true, color: '#555555', indent: 24, spaceAfter: 6 },
+  code: { font: 'Courier New', size: 10, shading: '#f3f3f3', spaceAfter: 6 },
+  caption: { size: 10, italic: true, color: '#555555', spaceAfter: 10 }
+};
+
+export const resolveStyles = (doc: WriterDoc): StyleSheet => ({ ...DEFAULT_STYLES, ...doc.styles });
+
+export const styleOf = (block: TextBlock): StyleId =>
+  block.type === 'heading' ? `heading${Math.min(6, Math.max(1, block.level))}` as StyleId
+    : block.type === 'paragraph' && block.style ? block.style : 'body';
+
+// 1-6 for the heading styles, otherwise 0.
+export const headingLevel = (id: StyleId) => Number(/^heading([1-6])$/.exec(id)?.[1] ?? 0);
+
+// A definition as CSS for a block; spacing goes on the margins.
+export const styleCss = (def: StyleDef) => {
+  const css = [`margin:${def.spaceBefore ?? 0}pt 0 ${def.spaceAfter ?? 0}pt ${def.indent ?? 0}pt`];
+  if (def.font) css.push(`font-family:'${def.font.replace(/'/g, '')}'`);
+  if (def.size) css.push(`font-size:${def.size}pt`);
+  if (def.bold) css.push('font-weight:bold');
+  if (def.italic) css.push('font-style:italic');
+  if (def.color) css.push(`color:${def.color}`);
+  if (def.shading) css.push(`background-color:${def.shading}`);
+  if (def.align && def.align !== 'left') css.push(`text-align:${def.align}`);
+  return css.join(';');
+};
+
+// --- OUTLINE ---
+// The headings, for the navigation pane and tables of contents.
+export interface OutlineEntry { id: string; index: number; level: number; text: string; }
+
+export const docOutline = (doc: WriterDoc): OutlineEntry[] =>
+  doc.blocks.flatMap((block, index) => block.type === 'heading'
+    ? [{ id: block.id, index, level: Math.min(6, Math.max(1, block.level)), text: runsText(block.runs).replace(/\s+/g, ' ').trim() }]
+    : []);
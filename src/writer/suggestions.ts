@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Pos } from './editor.ts';
+import { Block, MARK_KEYS, Marks, Run, Suggestion, SuggestionKind, WriterDoc, isTextBlock, normalizeRuns } from './model.ts';
+
+// --- SUGGESTIONS ---
+// Reviewing suggested edits: listing them, and accepting or rejecting them
+// one at a time or all together. Edits become suggestions in editor.ts.
+export const newSuggestion = (kind: SuggestionKind, author: string, before?: Marks): Suggestion => ({
+  id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+  kind,
+  author,
+  date: new Date().toISOString(),
+  ...(before ? { before } : {})
+});
+
+// A block with `suggestion` in place of its own, or with none.
+export const withSuggestion = <T extends Block>(block: T, suggestion: Suggestion | undefined): T => {
+  const { suggestion: _, ...rest } = block;
+  return (suggestion ? { ...rest, suggestion } : rest) as T;
+};
+
+// Everything in a block, text included, marked as inserted.
+export const insertedBlock = (block: Block, suggestion: Suggestion): Block => {
+  const mark = (runs: Run[]) => runs.map(run => ({ ...run, suggestion }));
+  if (isTextBlock(block)) return { ...block, runs: mark(block.runs), suggestion };
+  if (block.type === 'table') return { ...block, rows: block.rows.map(row => row.map(cell => ({ ...cell, runs: mark(cell.runs) }))), suggestion };
+  return { ...block, suggestion };
+};
+
+// Each author's changes are drawn in a color of their own.
+const AUTHOR_COLORS = ['#c0392b', '#2767c9', '#1e8449', '#8e44ad', '#c25e00', '#138d90'];
+
+export const authorColor = (author: string) =>
+  AUTHOR_COLORS[[...author].reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7) % AUTHOR_COLORS.length];
+
+export const suggestionDate = (s: Suggestion) =>
+  new Date(s.date).toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const BLOCK_NAMES: Record<string, string> = {
+  table: 'Table', image: 'Picture', chart: 'Chart', rule: 'Horizontal line', toc: 'Table of contents', pageBreak: 'Page break'
+};
+
+// What a suggestion does, in a few words.
+export const suggestionLabel = (s: Suggestion, block?: Block) => {
+  if (block && isTextBlock(block)) return s.kind === 'insert' ? 'New paragraph' : 'Joined paragraphs';
+  const what = block ? BLOCK_NAMES[block.type] : '';
+  if (s.kind === 'format') return 'Formatted';
+  return `${s.kind === 'insert' ? 'Inserted' : 'Deleted'}${what ? ` ${what.toLowerCase()}` : ''}`;
+};
+
+// The marks a formatting suggestion changed.
+export const changedMarks = (before: Marks, after: Marks) =>
+  MARK_KEYS.filter(k => (before[k] || undefined) !== (after[k] || undefined));
+
+// --- LISTING ---
+// Suggestions in document order, each with where it starts, the text it
+// touches and a label. Runs of one suggestion across blocks are one entry.
+export interface SuggestionEntry {
+  suggestion: Suggestion;
+  pos: Pos;
+  label: string;
+  text: string;
+  changed: (keyof Marks)[];
+}
+
+export const listSuggestions = (doc: WriterDoc): SuggestionEntry[] => {
+  const entries = new Map<string, SuggestionEntry>();
+  const add = (s: Suggestion, pos: Pos, label: string, text = '', changed: (keyof Marks)[] = []) => {
+    const entry = entries.get(s.id);
+    if (!entry) entries.set(s.id, { suggestion: s, pos, label, text, changed });
+    else {
+      entry.text += text;
+      changed.forEach(k => { if (!entry.changed.includes(k)) entry.changed.push(k); });
+    }
+  };
+  const addRuns = (runs: Run[], pos: Pos) => {
+    let offset = 0;
+    runs.forEach(run => {
+      const s = run.suggestion;
+      if (s) add(s, { ...pos, offset }, suggestionLabel(s), run.text, s.kind === 'format' ? changedMarks(s.before ?? {}, run) : []);
+      offset += run.text.length;
+    });
+  };
+  doc.blocks.forEach((block, i) => {
+    if (block.suggestion) add(block.suggestion, { block: i, offset: 0 }, suggestionLabel(block.suggestion, block));
+    if (isTextBlock(block)) addRuns(block.runs, { block: i, offset: 0 });
+    else if (block.type === 'table') block.rows.forEach((row, r) => row.forEach((cell, c) => addRuns(cell.runs, { block: i, cell: [r, c], offset: 0 })));
+  });
+  return [...entries.values()];
+};
+
+// --- REVIEWING ---
+// Accepting keeps insertions and formatting and drops deletions; rejecting
+// does the reverse, and puts back the marks text had. A break that goes
+// joins the text to the block before when that is text too.
+const resolveRuns = (runs: Run[], accept: boolean, chosen: (s?: Suggestion) => s is Suggestion): Run[] =>
+  normalizeRuns(runs.flatMap(run => {
+    const s = run.suggestion;
+    if (!chosen(s)) return [run];
+    const { suggestion: _, ...plain } = run;
+    if (s.kind === 'format') return [accept ? plain : { ...s.before, text: run.text }];
+    return (s.kind === 'insert') === accept ? [plain] : [];
+  }));
+
+// Resolves the suggestion `id`, or every suggestion without one. The
+// result may have no blocks left.
+export const resolveSuggestions = (doc: WriterDoc, accept: boolean, id?: string): WriterDoc => {
+  const chosen = (s?: Suggestion): s is Suggestion => !!s && (id === undefined || s.id === id);
+  const blocks: Block[] = [];
+  doc.blocks.forEach(block => {
+    let next = block;
+    if (isTextBlock(block)) next = { ...block, runs: resolveRuns(block.runs, accept, chosen) };
+    else if (block.type === 'table') {
+      next = { ...block, rows: block.rows.map(row => row.map(cell => ({ ...cell, runs: resolveRuns(cell.runs, accept, chosen) }))) };
+    }
+    const s = next.suggestion;
+    if (!chosen(s) || (s.kind === 'insert') === accept) {
+      blocks.push(chosen(s) ? withSuggestion(next, undefined) : next);
+      return;
+    }
+    const previous = blocks[blocks.length - 1];
+    if (isTextBlock(next) && isTextBlock(previous)) blocks[blocks.length - 1] = { ...previous, runs: normalizeRuns([...previous.runs, ...next.runs]) };
+    else if (isTextBlock(next)) blocks.push(withSuggestion(next, undefined));
+  });
+  return { ...doc, blocks };
+};